@@ -0,0 +1,229 @@
+// scripts/evaluate-matching.ts
+//
+// マッチングのオフライン評価
+//
+//   1) スナップショットを書き出す（service_role が必要）
+//      npx ts-node scripts/evaluate-matching.ts export --out ./matching-snapshots/2026-10-19
+//
+//   2) 2つの重み設定を同じスナップショットで比べる（DB には接続しない）
+//      npx ts-node scripts/evaluate-matching.ts compare \
+//        --snapshot ./matching-snapshots/2026-10-19 \
+//        --baseline active --candidate ./my-rules.json --k 3
+//
+// 重み設定の指定方法
+//   - default : コードに入っている DEFAULT_MATCHING_RULES
+//   - active  : スナップショット内で is_active の重み設定
+//   - v<N>    : スナップショット内の version N（例：v4）
+//   - パス    : MatchingRule[] か { rules: MatchingRule[] } の JSON ファイル
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_MATCHING_RULES,
+  RELEVANCE_SOURCES,
+  RELEVANCE_SOURCE_LABEL,
+  compareMatchingRules,
+  type EvaluationSnapshot,
+  type MatchingRule,
+  type MatchingWeightSet,
+} from "../src/lib/matching";
+
+// スナップショットとして書き出すテーブル（ファイル名 = テーブル名.json）
+const SNAPSHOT_TABLES = [
+  "patients",
+  "pharmacists",
+  "pharmacies",
+  "stores",
+  "patient_favorites",
+  "appointments",
+  "matching_weight_sets",
+] as const;
+
+type SnapshotTable = (typeof SNAPSHOT_TABLES)[number];
+
+function parseArgs(argv: string[]): {
+  command: string | undefined;
+  options: Record<string, string>;
+} {
+  const [command, ...rest] = argv;
+  const options: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg.startsWith("--")) {
+      options[arg.slice(2)] = rest[i + 1] ?? "";
+      i++;
+    }
+  }
+  return { command, options };
+}
+
+function readTable<T>(dir: string, table: SnapshotTable): T[] {
+  const file = path.join(dir, `${table}.json`);
+  if (!fs.existsSync(file)) {
+    console.warn(`(skip) ${file} がないため空として扱います`);
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as T[];
+}
+
+function loadSnapshot(dir: string): {
+  snapshot: EvaluationSnapshot;
+  weightSets: MatchingWeightSet[];
+} {
+  return {
+    snapshot: {
+      patients: readTable(dir, "patients"),
+      pharmacists: readTable(dir, "pharmacists"),
+      pharmacies: readTable(dir, "pharmacies"),
+      stores: readTable(dir, "stores"),
+      patient_favorites: readTable(dir, "patient_favorites"),
+      appointments: readTable(dir, "appointments"),
+    },
+    weightSets: readTable(dir, "matching_weight_sets"),
+  };
+}
+
+function resolveRules(
+  spec: string,
+  weightSets: MatchingWeightSet[]
+): { label: string; rules: MatchingRule[] } {
+  if (spec === "default") {
+    return { label: "default", rules: DEFAULT_MATCHING_RULES };
+  }
+
+  if (spec === "active") {
+    const active = weightSets
+      .filter((w) => w.is_active)
+      .sort((a, b) => b.version - a.version)[0];
+    if (!active) throw new Error("スナップショットに有効な重み設定がありません");
+    return { label: `active (v${active.version})`, rules: active.rules };
+  }
+
+  const versionMatch = spec.match(/^v(\d+)$/);
+  if (versionMatch) {
+    const version = Number(versionMatch[1]);
+    const found = weightSets.find((w) => w.version === version);
+    if (!found) throw new Error(`version ${version} の重み設定が見つかりません`);
+    return { label: spec, rules: found.rules };
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(spec, "utf8")) as
+    | MatchingRule[]
+    | { rules: MatchingRule[] };
+  const rules = Array.isArray(parsed) ? parsed : parsed.rules;
+  if (!Array.isArray(rules) || rules.length === 0) {
+    throw new Error(`${spec} に MatchingRule[] が含まれていません`);
+  }
+  return { label: path.basename(spec), rules };
+}
+
+async function exportSnapshot(outDir: string) {
+  const SUPABASE_URL = process.env.SUPABASE_URL!;
+  const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  console.log(`=== Export snapshot to ${outDir} ===`);
+
+  for (const table of SNAPSHOT_TABLES) {
+    const { data, error } = await supabase.from(table).select("*");
+    if (error) {
+      console.error(`${table} の取得に失敗しました:`, error);
+      process.exit(1);
+    }
+    fs.writeFileSync(
+      path.join(outDir, `${table}.json`),
+      JSON.stringify(data ?? [], null, 2)
+    );
+    console.log(`${table}: ${(data ?? []).length} rows`);
+  }
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const signedPct = (v: number) => `${v >= 0 ? "+" : ""}${(v * 100).toFixed(1)}pt`;
+
+function runCompare(options: Record<string, string>) {
+  const dir = options.snapshot;
+  if (!dir) {
+    console.error("--snapshot <dir> を指定してください");
+    process.exit(1);
+  }
+  const k = options.k ? Number(options.k) : 3;
+
+  const { snapshot, weightSets } = loadSnapshot(dir);
+  const baseline = resolveRules(options.baseline ?? "active", weightSets);
+  const candidate = resolveRules(options.candidate ?? "default", weightSets);
+
+  const result = compareMatchingRules(
+    snapshot,
+    baseline.rules,
+    candidate.rules,
+    k
+  );
+
+  console.log(`=== Matching evaluation (k=${k}) ===`);
+  console.log(`snapshot : ${dir}`);
+  console.log(`baseline : ${baseline.label}`);
+  console.log(`candidate: ${candidate.label}`);
+
+  for (const source of RELEVANCE_SOURCES) {
+    const b = result.baseline.metrics[source];
+    const c = result.candidate.metrics[source];
+    const d = result.delta[source];
+    console.log(`\n--- 正解：${RELEVANCE_SOURCE_LABEL[source]}（患者 ${b.patients}人） ---`);
+    console.table({
+      [`precision@${k}`]: {
+        baseline: pct(b.precisionAtK),
+        candidate: pct(c.precisionAtK),
+        delta: signedPct(d.precisionAtK),
+      },
+      [`recall@${k}`]: {
+        baseline: pct(b.recallAtK),
+        candidate: pct(c.recallAtK),
+        delta: signedPct(d.recallAtK),
+      },
+      [`hit@${k}`]: {
+        baseline: pct(b.hitRateAtK),
+        candidate: pct(c.hitRateAtK),
+        delta: signedPct(d.hitRateAtK),
+      },
+      MRR: {
+        baseline: b.mrr.toFixed(3),
+        candidate: c.mrr.toFixed(3),
+        delta: `${d.mrr >= 0 ? "+" : ""}${d.mrr.toFixed(3)}`,
+      },
+    });
+  }
+
+  console.log(
+    `\n最初の正解の順位：上がった患者 ${result.patientsImproved}人 / 下がった患者 ${result.patientsWorsened}人`
+  );
+}
+
+async function main() {
+  const { command, options } = parseArgs(process.argv.slice(2));
+
+  if (command === "export") {
+    await exportSnapshot(
+      options.out ??
+        path.join(
+          "matching-snapshots",
+          new Date().toISOString().slice(0, 10)
+        )
+    );
+  } else if (command === "compare") {
+    runCompare(options);
+  } else {
+    console.error(
+      "usage: evaluate-matching.ts export [--out <dir>] | compare --snapshot <dir> [--baseline <spec>] [--candidate <spec>] [--k 3]"
+    );
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+// scripts/migrate-contact-notes.ts
+//
+// patients.note に追記されていた連絡先を contact_requests に移す一回限りのスクリプト
+// - 旧フォームの形（【スポット相談希望】… 連絡先: …）の行だけを対象にする
+// - 希望薬剤師は名前が一致する薬剤師が1人だけのときに紐づける
+// - 何度実行しても同じ行を二重に登録しない（legacy_note で判定）。note 自体は書き換えない
+// - 例：npx ts-node scripts/migrate-contact-notes.ts --dry-run
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { parseContact, parseLegacyContactNote } from "../src/lib/contact";
+
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// service_role で管理者クライアントを作成
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+const dryRun = process.argv.includes("--dry-run");
+
+// 1回に読む行数（PostgREST の max-rows より大きくても、返ってきた行数ぶん進める）
+const PAGE_SIZE = 1000;
+
+/** max-rows で切れないよう、id 順に range で最後まで読む */
+async function fetchAllRows<T>(
+  fetchPage: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await fetchPage(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) return rows;
+    rows.push(...(data as T[]));
+  }
+}
+
+async function main() {
+  console.log(`=== Migrate contact notes${dryRun ? " (dry run)" : ""} ===`);
+
+  const patients = await fetchAllRows<{ id: string; note: string | null }>((from, to) =>
+    supabase
+      .from("patients")
+      .select("id, note")
+      .not("note", "is", null)
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  const pharmacists = await fetchAllRows<{ id: string; name: string | null }>((from, to) =>
+    supabase
+      .from("pharmacists")
+      .select("id, name")
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  // 同名の薬剤師がいるときは紐づけない
+  const idsByName = new Map<string, string[]>();
+  pharmacists.forEach((ph) => {
+    if (!ph.name) return;
+    const key = ph.name.trim();
+    idsByName.set(key, [...(idsByName.get(key) ?? []), ph.id]);
+  });
+
+  const migrated = await fetchAllRows<{ patient_id: string; legacy_note: string | null }>(
+    (from, to) =>
+      supabase
+        .from("contact_requests")
+        .select("patient_id, legacy_note")
+        .eq("source", "note_migration")
+        .order("id", { ascending: true })
+        .range(from, to)
+  );
+
+  const done = new Set(migrated.map((r) => `${r.patient_id}\n${r.legacy_note ?? ""}`));
+
+  const rows: Record<string, unknown>[] = [];
+  let skipped = 0;
+  let unmatchedPharmacist = 0;
+
+  patients.forEach((p) => {
+    parseLegacyContactNote(p.note).forEach((entry) => {
+      if (done.has(`${p.id}\n${entry.raw}`)) {
+        skipped += 1;
+        return;
+      }
+
+      const candidates = entry.pharmacistName
+        ? idsByName.get(entry.pharmacistName) ?? []
+        : [];
+      if (entry.pharmacistName && candidates.length !== 1) {
+        unmatchedPharmacist += 1;
+      }
+
+      // 形式が判定できない連絡先も、元の文字列のまま "other" として残す
+      const parsed = parseContact(entry.contact) ?? {
+        method: "other" as const,
+        phone: null,
+        email: null,
+      };
+
+      rows.push({
+        patient_id: p.id,
+        pharmacist_id: candidates.length === 1 ? candidates[0] : null,
+        intent: entry.intent,
+        method: parsed.method,
+        phone: parsed.phone,
+        email: parsed.email,
+        contact_text: entry.contact,
+        message: entry.message,
+        source: "note_migration",
+        legacy_note: entry.raw,
+      });
+    });
+  });
+
+  console.log(
+    `移行対象 ${rows.length} 件（移行済み ${skipped} 件、薬剤師を特定できなかった ${unmatchedPharmacist} 件）`
+  );
+
+  if (dryRun || rows.length === 0) {
+    process.exit(0);
+  }
+
+  const { error: insertError } = await supabase.from("contact_requests").insert(rows);
+  if (insertError) throw insertError;
+
+  console.log(`${rows.length} 件を contact_requests に登録しました。`);
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
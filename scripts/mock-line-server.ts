@@ -0,0 +1,123 @@
+// scripts/mock-line-server.ts
+//
+// ローカル開発用の LINE Messaging API モック
+// - アプリ側は LINE_API_BASE_URL=http://localhost:4010 にすると、push / reply がここに届く
+// - 届いたメッセージは GET /__messages で確認できる（DELETE で空にする）
+// - POST /__webhook {"userId":"U…","text":"123456"} で、署名付きの Webhook をアプリに送る
+//   （type に "follow" / "unfollow" を指定するとそのイベントを送る）
+// - 例：npx ts-node scripts/mock-line-server.ts
+//
+// 環境変数：MOCK_LINE_PORT（既定 4010）、LINE_CHANNEL_SECRET、
+//           APP_WEBHOOK_URL（既定 http://localhost:3000/api/line/webhook）
+import "dotenv/config";
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+import { signLineBody } from "../src/lib/line/signature";
+
+const PORT = Number(process.env.MOCK_LINE_PORT ?? 4010);
+const CHANNEL_SECRET = process.env.LINE_CHANNEL_SECRET ?? "mock-channel-secret";
+const APP_WEBHOOK_URL =
+  process.env.APP_WEBHOOK_URL ?? "http://localhost:3000/api/line/webhook";
+
+type ReceivedMessage = {
+  at: string;
+  endpoint: "push" | "reply";
+  to: string | null;
+  replyToken: string | null;
+  messages: unknown[];
+};
+
+const received: ReceivedMessage[] = [];
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function forwardWebhook(input: { userId?: string; text?: string; type?: string }) {
+  const type = input.type ?? "message";
+  const event: Record<string, unknown> = {
+    type,
+    timestamp: Date.now(),
+    source: { type: "user", userId: input.userId ?? "Umock0000000000000000000000000000" },
+    webhookEventId: randomUUID(),
+    mode: "active",
+  };
+  if (type !== "unfollow") event.replyToken = randomUUID().replace(/-/g, "");
+  if (type === "message") {
+    event.message = { id: String(Date.now()), type: "text", text: input.text ?? "" };
+  }
+
+  const body = JSON.stringify({ destination: "Umockbot", events: [event] });
+  const res = await fetch(APP_WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Line-Signature": signLineBody(body, CHANNEL_SECRET),
+    },
+    body,
+  });
+  return { status: res.status, body: await res.text() };
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+    if (req.method === "POST" && url.pathname.startsWith("/v2/bot/message/")) {
+      if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) {
+        sendJson(res, 401, { message: "Authentication failed" });
+        return;
+      }
+      const endpoint = url.pathname.endsWith("/push") ? "push" : "reply";
+      const payload = JSON.parse(await readBody(req)) as {
+        to?: string;
+        replyToken?: string;
+        messages?: unknown[];
+      };
+      const item: ReceivedMessage = {
+        at: new Date().toISOString(),
+        endpoint,
+        to: payload.to ?? null,
+        replyToken: payload.replyToken ?? null,
+        messages: payload.messages ?? [],
+      };
+      received.push(item);
+      console.log(`[mock-line] ${endpoint} → ${item.to ?? item.replyToken}`);
+      item.messages.forEach((m) => console.log(`  ${JSON.stringify(m)}`));
+      sendJson(res, 200, {});
+      return;
+    }
+
+    if (url.pathname === "/__messages") {
+      if (req.method === "DELETE") received.splice(0);
+      sendJson(res, 200, received);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/__webhook") {
+      const input = JSON.parse((await readBody(req)) || "{}");
+      sendJson(res, 200, await forwardWebhook(input));
+      return;
+    }
+
+    sendJson(res, 404, { message: "Not found" });
+  } catch (e) {
+    console.error(e);
+    sendJson(res, 500, { message: e instanceof Error ? e.message : String(e) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`=== Mock LINE API: http://localhost:${PORT} (webhook → ${APP_WEBHOOK_URL}) ===`);
+});
@@ -0,0 +1,40 @@
+// scripts/propose-matching-weights.ts
+//
+// お気に入り・予約の実績からマッチング重みの調整案を作る定期ジョブ
+// - 結果は matching_weight_proposals に保存され、/admin/matching/proposals で承認・却下する
+// - 例（毎週月曜 3:00）：0 3 * * 1  npx ts-node scripts/propose-matching-weights.ts
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { generateMatchingWeightProposal } from "../src/lib/matching";
+
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// service_role で管理者クライアントを作成
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+async function main() {
+  console.log("=== Propose matching weights ===");
+
+  const proposal = await generateMatchingWeightProposal(supabase);
+
+  if (!proposal) {
+    console.log("実績が少ないか、変更すべきルールがないため提案は作成しませんでした。");
+    process.exit(0);
+  }
+
+  console.log(
+    `提案を作成しました (id=${proposal.id}, base=v${proposal.base_version ?? "-"}, 実績 ${proposal.positives} 件)`
+  );
+  proposal.changes.forEach((c) => {
+    console.log(
+      `- ${c.label}: ${JSON.stringify(c.before)} → ${JSON.stringify(c.after)} (lift ${c.lift.toFixed(2)})`
+    );
+  });
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+// scripts/run-appointment-jobs.ts
+//
+// 予約リマインドの送信と無断欠席の判定（/api/cron/appointments と同じ処理）
+// - サーバーの crontab から動かす場合の入口
+// - 例（15分おき）：*/15 * * * *  npx ts-node scripts/run-appointment-jobs.ts
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { appointmentJobConfigFromEnv, runAppointmentJobs } from "../src/lib/jobs";
+import { formatReminderOffset } from "../src/lib/scheduling/reminders";
+
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// service_role で管理者クライアントを作成
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+async function main() {
+  const { deps, options } = appointmentJobConfigFromEnv();
+  console.log(
+    `=== Appointment jobs (リマインド: ${options.offsets.map(formatReminderOffset).join("・") || "なし"} / 無断欠席: 終了 ${options.graceHours} 時間後) ===`
+  );
+
+  const { reminders, noShows } = await runAppointmentJobs(supabase, deps, options);
+
+  console.log(
+    `リマインド：送信 ${reminders.sent} 件 / 連絡先なし ${reminders.unreachable} 件 / まとめて省略 ${reminders.skipped} 件 / 失敗 ${reminders.failed} 件`
+  );
+  console.log(`無断欠席の判定：${noShows.flagged} 件（失敗 ${noShows.failed} 件）`);
+  process.exit(reminders.failed + noShows.failed > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+// scripts/run-contract-jobs.ts
+//
+// 顧問契約の自動更新と更新リマインド（/api/cron/contracts と同じ処理）
+// - サーバーの crontab から動かす場合の入口
+// - 例（毎朝8時）：0 8 * * *  npx ts-node scripts/run-contract-jobs.ts
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { contractJobConfigFromEnv, runContractJobs } from "../src/lib/jobs";
+
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// service_role で管理者クライアントを作成
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+async function main() {
+  const { deps, options } = contractJobConfigFromEnv();
+  console.log(
+    `=== Contract jobs (更新リマインド: 満了 ${options.reminderDays.join("・")} 日前) ===`
+  );
+
+  const { reminders, renewals } = await runContractJobs(supabase, deps, options);
+
+  console.log(`自動更新：${renewals.renewed} 件（失敗 ${renewals.failed} 件）`);
+  console.log(
+    `更新リマインド：送信 ${reminders.sent} 件 / 通知先なし ${reminders.unreachable} 件 / まとめて省略 ${reminders.skipped} 件 / 失敗 ${reminders.failed} 件`
+  );
+  process.exit(reminders.failed + renewals.failed > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
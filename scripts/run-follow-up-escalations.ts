@@ -0,0 +1,31 @@
+// scripts/run-follow-up-escalations.ts
+//
+// フォロー遅れの店長へのエスカレーション（/api/cron/follow-ups と同じ処理）
+// - サーバーの crontab から動かす場合の入口
+// - 例（毎朝9時）：0 9 * * *  npx ts-node scripts/run-follow-up-escalations.ts
+import "dotenv/config";
+import { createClient } from "@supabase/supabase-js";
+import { escalateOverdueFollowUps, followUpJobConfigFromEnv } from "../src/lib/jobs";
+
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+// service_role で管理者クライアントを作成
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+async function main() {
+  const { deps, options } = followUpJobConfigFromEnv();
+  console.log("=== Follow-up escalations ===");
+
+  const result = await escalateOverdueFollowUps(supabase, deps, options);
+
+  console.log(
+    `エスカレーション：送信 ${result.sent} 通（患者 ${result.escalated} 名）/ 宛先なし ${result.unreachable} 名 / 失敗 ${result.failed} 名`
+  );
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -3,8 +3,28 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
-import type { Patient, Pharmacist, PatientType } from "@/types/supabase";
+import { useUser } from "@/hooks/useUser";
+import type {
+  AppointmentActorRole,
+  AppointmentStatus,
+  AppointmentStatusEvent,
+  ContactRequest,
+  Patient,
+  Pharmacist,
+  PatientType,
+} from "@/types/supabase";
 import { AppCard } from "@/components/ui/app-card";
+import {
+  AppointmentStatusActions,
+  AppointmentStatusBadge,
+} from "@/components/scheduling/AppointmentStatusActions";
+import {
+  APPOINTMENT_STATUSES,
+  APPOINTMENT_STATUS_LABEL,
+  fetchAppointmentStatusEvents,
+  statusOf,
+} from "@/lib/scheduling";
+import { fetchLatestContactRequests, formatContactRequest } from "@/lib/contact";
 
 type BookingType = "phone" | "online" | "in_person";
 
@@ -28,6 +48,8 @@ interface Appointment {
   created_at?: string | null;
   // 追加している場合だけ使われる想定（なければすべて null）
   contact?: string | null;
+  // status 列が入る前の予約は null → 申込扱い
+  status?: AppointmentStatus | null;
 }
 
 interface AppointmentWithNames extends Appointment {
@@ -40,6 +62,13 @@ interface AppointmentWithNames extends Appointment {
   pharmacist_name: string;
 }
 
+const ACTOR_ROLE_LABEL: Record<AppointmentActorRole, string> = {
+  patient: "患者",
+  pharmacy_company: "薬局",
+  admin: "運営",
+  system: "自動",
+};
+
 const BOOKING_TYPE_LABEL: Record<BookingType, string> = {
   phone: "電話相談",
   online: "オンライン相談",
@@ -62,27 +91,6 @@ const CARE_STYLE_LABEL: Record<CareStyleKey, string> = {
   second_opinion: "比較タイプ",
 };
 
-// patients.note から「連絡先: 〜」を抜き出す
-function extractLatestContact(note: string | null | undefined): string | null {
-  if (!note) return null;
-  const lines = note
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
-  if (lines.length === 0) return null;
-
-  // 一番下の行を優先
-  const last = lines[lines.length - 1];
-
-  const m = last.match(/連絡先[:：]\s*(.+)$/);
-  if (m && m[1]) {
-    return m[1].trim();
-  }
-
-  // うまく取れなければ null
-  return null;
-}
-
 // JST 表示用（ブラウザのタイムゾーンは日本想定だが、念のため文字列から組み立て）
 function formatDateTime(iso: string | null | undefined): string {
   if (!iso) return "―";
@@ -99,7 +107,12 @@ function formatDateTime(iso: string | null | undefined): string {
 }
 
 export default function AdminAppointmentsPage() {
+  const { user } = useUser();
   const [appointments, setAppointments] = useState<AppointmentWithNames[]>([]);
+  // 予約ごとの状態変更履歴（古い順）
+  const [eventsByAppointment, setEventsByAppointment] = useState<
+    Map<string, AppointmentStatusEvent[]>
+  >(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -108,6 +121,9 @@ export default function AdminAppointmentsPage() {
     BookingType | "all"
   >("all");
   const [pharmacistFilter, setPharmacistFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<AppointmentStatus | "all">(
+    "all"
+  );
   const [dateFrom, setDateFrom] = useState<string>(""); // yyyy-mm-dd
   const [dateTo, setDateTo] = useState<string>(""); // yyyy-mm-dd
 
@@ -155,17 +171,17 @@ export default function AdminAppointmentsPage() {
 
         let patients: Pick<
           Patient,
-          "id" | "name" | "type" | "care_style" | "note"
+          "id" | "name" | "type" | "care_style"
         >[] = [];
         let pharmacists: Pick<Pharmacist, "id" | "name">[] = [];
 
         if (patientIds.length > 0) {
           const { data: pData } = await supabase
             .from("patients")
-            .select("id, name, type, care_style, note")
+            .select("id, name, type, care_style")
             .in("id", patientIds)
             .returns<
-              Pick<Patient, "id" | "name" | "type" | "care_style" | "note">[]
+              Pick<Patient, "id" | "name" | "type" | "care_style">[]
             >();
           patients = pData ?? [];
         }
@@ -181,10 +197,21 @@ export default function AdminAppointmentsPage() {
 
         const patientMap = new Map<
           string,
-          Pick<Patient, "id" | "name" | "type" | "care_style" | "note">
+          Pick<Patient, "id" | "name" | "type" | "care_style">
         >();
         const pharmacistMap = new Map<string, Pick<Pharmacist, "id" | "name">>();
 
+        // appointments.contact が空のときは、患者の最新の連絡希望を使う
+        let latestContacts = new Map<string, ContactRequest>();
+        try {
+          latestContacts = await fetchLatestContactRequests(
+            supabase,
+            patientIds
+          );
+        } catch (contactError) {
+          console.error("Failed to load contact requests", contactError);
+        }
+
         patients.forEach((p) => {
           patientMap.set(p.id, p);
         });
@@ -213,10 +240,13 @@ export default function AdminAppointmentsPage() {
               ? (careRaw as CareStyleKey)
               : null;
 
-          // 連絡先：appointments.contact があればそれを使い、なければ note から抽出
+          // 連絡先：appointments.contact があればそれを使い、なければ contact_requests から
+          const latestContact = a.patient_id
+            ? latestContacts.get(a.patient_id)
+            : undefined;
           const contact =
             (a.contact ?? null) ??
-            extractLatestContact((patient?.note as string | null) ?? null);
+            (latestContact ? formatContactRequest(latestContact) : null);
 
           return {
             ...a,
@@ -233,6 +263,24 @@ export default function AdminAppointmentsPage() {
         });
 
         setAppointments(withNames);
+
+        // 3. 状態変更の履歴（取れなくても一覧は出す）
+        try {
+          const events = await fetchAppointmentStatusEvents(
+            supabase,
+            appts.map((a) => a.id)
+          );
+          const grouped = new Map<string, AppointmentStatusEvent[]>();
+          events.forEach((ev) => {
+            const list = grouped.get(ev.appointment_id) ?? [];
+            list.push(ev);
+            grouped.set(ev.appointment_id, list);
+          });
+          setEventsByAppointment(grouped);
+        } catch (err) {
+          console.error("Failed to load appointment status events", err);
+        }
+
         setLoading(false);
       } catch (e) {
         console.error(e);
@@ -257,6 +305,11 @@ export default function AdminAppointmentsPage() {
 
   const filteredAppointments = useMemo(() => {
     return appointments.filter((a) => {
+      // 状態
+      if (statusFilter !== "all") {
+        if (statusOf(a) !== statusFilter) return false;
+      }
+
       // 予約種別
       if (bookingTypeFilter !== "all") {
         if (a.booking_type !== bookingTypeFilter) return false;
@@ -285,7 +338,42 @@ export default function AdminAppointmentsPage() {
 
       return true;
     });
-  }, [appointments, bookingTypeFilter, pharmacistFilter, dateFrom, dateTo]);
+  }, [
+    appointments,
+    statusFilter,
+    bookingTypeFilter,
+    pharmacistFilter,
+    dateFrom,
+    dateTo,
+  ]);
+
+  // 状態変更後：行の status を差し替え、履歴に1件足す
+  const handleStatusChanged = (
+    id: string,
+    from: AppointmentStatus,
+    to: AppointmentStatus
+  ) => {
+    setAppointments((prev) =>
+      prev.map((a) => (a.id === id ? { ...a, status: to } : a))
+    );
+    setEventsByAppointment((prev) => {
+      const next = new Map(prev);
+      next.set(id, [
+        ...(prev.get(id) ?? []),
+        {
+          id: `local-${Date.now()}`,
+          created_at: new Date().toISOString(),
+          appointment_id: id,
+          from_status: from,
+          to_status: to,
+          actor_role: "admin",
+          actor_id: user?.id ?? null,
+          reason: null,
+        },
+      ]);
+      return next;
+    });
+  };
 
   return (
     <div className="max-w-6xl space-y-6">
@@ -366,6 +454,26 @@ export default function AdminAppointmentsPage() {
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-slate-700 font-semibold">
+                状態で絞り込み
+              </span>
+              <select
+                className="rounded-md border border-slate-300 px-2 py-1 text-[11px] bg-white"
+                value={statusFilter}
+                onChange={(e) =>
+                  setStatusFilter(e.target.value as AppointmentStatus | "all")
+                }
+              >
+                <option value="all">すべて</option>
+                {APPOINTMENT_STATUSES.map((s) => (
+                  <option key={s} value={s}>
+                    {APPOINTMENT_STATUS_LABEL[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex flex-wrap items-center gap-2">
               <span className="text-slate-700 font-semibold">
                 薬剤師で絞り込み
@@ -472,6 +580,9 @@ export default function AdminAppointmentsPage() {
                   <th className="border-b border-slate-200 px-3 py-2 text-left whitespace-nowrap">
                     予約ページ
                   </th>
+                  <th className="border-b border-slate-200 px-3 py-2 text-left whitespace-nowrap">
+                    状態
+                  </th>
                 </tr>
               </thead>
               <tbody>
@@ -527,6 +638,28 @@ export default function AdminAppointmentsPage() {
                         <span className="text-slate-400">―</span>
                       )}
                     </td>
+                    <td className="border-b border-slate-100 px-3 py-2 align-top">
+                      <div className="space-y-1">
+                        <AppointmentStatusBadge status={a.status} />
+                        {(eventsByAppointment.get(a.id) ?? []).map((ev) => (
+                          <div
+                            key={ev.id}
+                            className="whitespace-nowrap text-[10px] text-slate-500"
+                          >
+                            {formatDateTime(ev.created_at)}{" "}
+                            {APPOINTMENT_STATUS_LABEL[ev.to_status]}（
+                            {ACTOR_ROLE_LABEL[ev.actor_role]}）
+                          </div>
+                        ))}
+                        <AppointmentStatusActions
+                          appointment={a}
+                          actor={{ role: "admin", id: user?.id ?? null }}
+                          onChanged={(updated) =>
+                            handleStatusChanged(a.id, statusOf(a), updated.status)
+                          }
+                        />
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
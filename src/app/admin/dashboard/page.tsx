@@ -6,6 +6,7 @@ import { supabase } from "@/lib/supabaseClient";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import { useUser } from "@/hooks/useUser";
+import { RelationFunnelMetrics } from "@/components/prm/RelationFunnelMetrics";
 import { Loader2, Shield, AlertCircle } from "lucide-react";
 
 // Recharts
@@ -317,6 +318,9 @@ export default function AdminDashboardPage() {
             </div>
           </AppCard>
 
+          {/* 見込み → 顧問のファネル（ステータス変更履歴から） */}
+          <RelationFunnelMetrics />
+
           {/* 薬剤師ランキング：棒グラフ */}
           <AppCard className="space-y-3 p-4">
             <h2 className="text-sm font-semibold text-slate-900">
@@ -0,0 +1,894 @@
+// src/app/admin/matching/page.tsx
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import type {
+  Patient,
+  Pharmacist,
+  Pharmacy,
+  PatientType,
+  Store,
+} from "@/types/supabase";
+import {
+  CARE_STYLE_INFO,
+  DEFAULT_DIVERSITY_SETTINGS,
+  DEFAULT_MATCHING_RULES,
+  activateMatchingWeightSet,
+  diffRankings,
+  listMatchingWeightSets,
+  rankPharmacists,
+  saveMatchingWeightSet,
+  type CareStyleKey,
+  type DiversitySettings,
+  type MatchingCategory,
+  type MatchingRule,
+  type MatchingWeightSet,
+  type PharmacistSignal,
+  type RulePoints,
+} from "@/lib/matching";
+import { ScoreBreakdownChart } from "@/components/matching/ScoreBreakdownChart";
+
+const CATEGORY_LABEL: Record<MatchingCategory, string> = {
+  language: "言語",
+  symptom: "症状 × 専門性",
+  value_preference: "価値観",
+  care_style: "相談スタイル",
+  patient_type: "顧問薬剤師タイプ（A〜D）",
+  area: "エリア",
+  severity: "重症度",
+  communication: "話し方・説明の深さ",
+  consultation: "フォロー頻度・相談方法",
+};
+
+const SIGNAL_SOURCE_LABEL: Record<PharmacistSignal["source"], string> = {
+  specialty: "専門領域",
+  experience_case: "経験症例",
+  services: "薬局サービス",
+  language: "対応言語",
+  consultation_style: "相談スタイル文",
+  personality: "人柄",
+  years_of_experience: "経験年数",
+  specialty_count: "専門領域の数",
+  language_count: "対応言語の数",
+  patient_language: "患者の希望言語に対応",
+  patient_care_style: "患者の相談スタイルと care_role が一致",
+  patient_area: "患者エリアと所属店舗の住所が一致",
+  store_distance: "患者エリアから所属店舗までの距離",
+  patient_comm_style: "患者の希望する話し方と comm_styles が一致",
+  patient_explanation_depth: "患者の希望する説明の深さに対応",
+  patient_followup_frequency: "患者の希望するフォロー頻度に対応",
+  patient_channel: "患者の希望する相談方法に対応",
+};
+
+// プレビューに使うサンプル患者数・比較する上位件数
+const SAMPLE_PATIENT_LIMIT = 10;
+const PREVIEW_TOP_N = 5;
+
+// 多様性の設定のうち数値で入力する項目
+const DIVERSITY_NUMBER_FIELDS: {
+  key: Exclude<keyof DiversitySettings, "alternativeStyleFor">;
+  label: string;
+}[] = [
+  { key: "topN", label: "選び直す件数" },
+  { key: "storePenalty", label: "同じ店舗の減点" },
+  { key: "careRolePenalty", label: "同じ care_role の減点" },
+  { key: "languagePenalty", label: "同じ対応言語の減点" },
+];
+
+// 経験年数・距離に比例するルールの「1年（1km）あたり」の値だけを差し替える
+function withScale(points: RulePoints, value: number): RulePoints {
+  if (typeof points === "number") return points;
+  return "perKm" in points
+    ? { perKm: value, max: points.max }
+    : { perYear: value, max: points.max };
+}
+
+function cloneRules(rules: MatchingRule[]): MatchingRule[] {
+  return JSON.parse(JSON.stringify(rules)) as MatchingRule[];
+}
+
+function parseKeywords(value: string): string[] {
+  return value
+    .split(/[、,]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return "-";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminMatchingPage() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [weightSets, setWeightSets] = useState<MatchingWeightSet[]>([]);
+  const [draftRules, setDraftRules] = useState<MatchingRule[]>(
+    cloneRules(DEFAULT_MATCHING_RULES)
+  );
+  const [draftDiversity, setDraftDiversity] = useState<DiversitySettings>(
+    DEFAULT_DIVERSITY_SETTINGS
+  );
+  const [draftLabel, setDraftLabel] = useState("");
+  const [draftNote, setDraftNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // プレビュー対象（null のときは編集中の下書き）
+  const [previewSetId, setPreviewSetId] = useState<string | null>(null);
+  const [activating, setActivating] = useState(false);
+
+  // プレビューで内訳を開いている「患者ID:薬剤師ID」
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const [samplePatients, setSamplePatients] = useState<Patient[]>([]);
+  const [pharmacists, setPharmacists] = useState<Pharmacist[]>([]);
+  const [pharmacies, setPharmacies] = useState<Pharmacy[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+
+  const activeSet = weightSets.find((w) => w.is_active) ?? null;
+  const activeRules = activeSet?.rules ?? DEFAULT_MATCHING_RULES;
+
+  const reloadWeightSets = async () => {
+    const sets = await listMatchingWeightSets(supabase);
+    setWeightSets(sets);
+    return sets;
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const sets = await reloadWeightSets();
+        const active = sets.find((w) => w.is_active) ?? null;
+        setDraftRules(cloneRules(active?.rules ?? DEFAULT_MATCHING_RULES));
+        setDraftDiversity(active?.diversity ?? DEFAULT_DIVERSITY_SETTINGS);
+
+        const { data: patientsData, error: patientError } = await supabase
+          .from("patients")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(SAMPLE_PATIENT_LIMIT)
+          .returns<Patient[]>();
+        if (patientError) throw patientError;
+
+        const { data: pharmacistsData, error: pharmacistError } =
+          await supabase
+            .from("pharmacists")
+            .select("*")
+            .returns<Pharmacist[]>();
+        if (pharmacistError) throw pharmacistError;
+
+        const { data: pharmaciesData, error: pharmacyError } = await supabase
+          .from("pharmacies")
+          .select("*")
+          .returns<Pharmacy[]>();
+        if (pharmacyError) throw pharmacyError;
+
+        const { data: storesData, error: storeError } = await supabase
+          .from("stores")
+          .select("*")
+          .returns<Store[]>();
+        if (storeError) throw storeError;
+
+        setSamplePatients(patientsData ?? []);
+        setPharmacists(pharmacistsData ?? []);
+        setPharmacies(pharmaciesData ?? []);
+        setStores(storesData ?? []);
+      } catch (err) {
+        console.error("Failed to load matching settings", err);
+        setError("マッチング設定の読み込みに失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void load();
+  }, []);
+
+  const previewSet = previewSetId
+    ? weightSets.find((w) => w.id === previewSetId) ?? null
+    : null;
+  const previewRules = previewSet?.rules ?? draftRules;
+
+  // サンプル患者ごとの変更前後ランキング
+  const previewRows = useMemo(() => {
+    return samplePatients.map((patient) => {
+      const type: PatientType = (patient.type as PatientType | null) ?? "A";
+      const before = rankPharmacists(
+        patient,
+        type,
+        pharmacists,
+        pharmacies,
+        activeRules,
+        stores
+      );
+      const after = rankPharmacists(
+        patient,
+        type,
+        pharmacists,
+        pharmacies,
+        previewRules,
+        stores
+      );
+      const diff = diffRankings(before, after, PREVIEW_TOP_N);
+      const changed = diff.some(
+        (row) =>
+          row.beforeRank !== row.afterRank ||
+          row.beforeScore !== row.afterScore
+      );
+      return { patient, type, diff, changed, after };
+    });
+  }, [
+    samplePatients,
+    pharmacists,
+    pharmacies,
+    stores,
+    activeRules,
+    previewRules,
+  ]);
+
+  const changedPatientCount = previewRows.filter((r) => r.changed).length;
+
+  const updateRule = (id: string, update: (rule: MatchingRule) => MatchingRule) => {
+    setDraftRules((prev) => prev.map((r) => (r.id === id ? update(r) : r)));
+    setPreviewSetId(null);
+  };
+
+  const updateSignalKeywords = (
+    ruleId: string,
+    signalIndex: number,
+    value: string
+  ) => {
+    updateRule(ruleId, (rule) => ({
+      ...rule,
+      anyOf: (rule.anyOf ?? []).map((signal, i) => {
+        if (i !== signalIndex) return signal;
+        if ("includes" in signal) {
+          return { ...signal, includes: parseKeywords(value) };
+        }
+        if ("contains" in signal) {
+          return { ...signal, contains: parseKeywords(value) };
+        }
+        return signal;
+      }),
+    }));
+  };
+
+  const updateSignalThreshold = (
+    ruleId: string,
+    signalIndex: number,
+    value: number
+  ) => {
+    updateRule(ruleId, (rule) => ({
+      ...rule,
+      anyOf: (rule.anyOf ?? []).map((signal, i) => {
+        if (i !== signalIndex) return signal;
+        if ("gte" in signal) return { ...signal, gte: value };
+        if ("withinKm" in signal) return { ...signal, withinKm: value };
+        return signal;
+      }),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      const saved = await saveMatchingWeightSet(supabase, {
+        rules: draftRules,
+        diversity: draftDiversity,
+        label: draftLabel.trim() || null,
+        note: draftNote.trim() || null,
+        createdBy: user?.id ?? null,
+      });
+
+      await reloadWeightSets();
+      setPreviewSetId(saved.id);
+      setDraftLabel("");
+      setDraftNote("");
+      setMessage(
+        `バージョン ${saved.version} として保存しました。プレビューを確認してから有効化してください。`
+      );
+    } catch (err) {
+      console.error("Failed to save matching weight set", err);
+      setError("重み設定の保存に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (set: MatchingWeightSet) => {
+    if (
+      !window.confirm(
+        `バージョン ${set.version} を有効化します。/result や /pharmacists の並び順がすぐに切り替わります。よろしいですか？`
+      )
+    ) {
+      return;
+    }
+
+    setActivating(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await activateMatchingWeightSet(supabase, set.id);
+      await reloadWeightSets();
+      setPreviewSetId(null);
+      setMessage(`バージョン ${set.version} を有効化しました。`);
+    } catch (err) {
+      console.error("Failed to activate matching weight set", err);
+      setError("重み設定の有効化に失敗しました。");
+    } finally {
+      setActivating(false);
+    }
+  };
+
+  const groupedRules = useMemo(() => {
+    const groups = new Map<MatchingCategory, MatchingRule[]>();
+    draftRules.forEach((rule) => {
+      const list = groups.get(rule.category) ?? [];
+      list.push(rule);
+      groups.set(rule.category, list);
+    });
+    return Array.from(groups.entries());
+  }, [draftRules]);
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-8 space-y-6">
+      {/* ヘッダー */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-slate-900 sm:text-2xl">
+            マッチング重み設定
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            スコア計算に使う加点・減点とキーワードを編集できます。保存するとバージョンが作られ、
+            サンプル患者で並び順の変化を確認してから有効化します。
+          </p>
+        </div>
+        <Link href="/admin/matching/proposals">
+          <AppButton size="sm" variant="outline">
+            実績からの重み提案を見る
+          </AppButton>
+        </Link>
+      </div>
+
+      {error && (
+        <AppCard className="py-3 border-red-200 bg-red-50 text-red-700 text-sm">
+          {error}
+        </AppCard>
+      )}
+      {message && (
+        <AppCard className="py-3 border-emerald-200 bg-emerald-50 text-emerald-800 text-sm">
+          {message}
+        </AppCard>
+      )}
+
+      {loading ? (
+        <AppCard className="py-10 text-center text-sm text-slate-500">
+          読み込み中です…
+        </AppCard>
+      ) : (
+        <>
+          {/* バージョン一覧 */}
+          <AppCard className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-slate-900">
+                保存済みバージョン
+              </h2>
+              <p className="text-[11px] text-slate-500">
+                現在有効：
+                {activeSet
+                  ? `v${activeSet.version}${activeSet.label ? `（${activeSet.label}）` : ""}`
+                  : "標準設定（未保存）"}
+              </p>
+            </div>
+
+            {weightSets.length === 0 ? (
+              <p className="text-xs text-slate-500">
+                まだ保存されたバージョンはありません。標準設定でスコアを計算しています。
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full border-collapse text-xs">
+                  <thead>
+                    <tr className="border-b border-slate-200 bg-slate-50 text-[11px] text-slate-500">
+                      <th className="px-3 py-2 text-left font-medium">バージョン</th>
+                      <th className="px-3 py-2 text-left font-medium">ラベル / メモ</th>
+                      <th className="px-3 py-2 text-left font-medium">作成日時</th>
+                      <th className="px-3 py-2 text-left font-medium">状態</th>
+                      <th className="px-3 py-2 text-right font-medium">操作</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {weightSets.map((set) => (
+                      <tr
+                        key={set.id}
+                        className={[
+                          "border-b border-slate-100",
+                          previewSetId === set.id ? "bg-sky-50" : "",
+                        ].join(" ")}
+                      >
+                        <td className="px-3 py-2 font-medium text-slate-900">
+                          v{set.version}
+                        </td>
+                        <td className="px-3 py-2 text-slate-700">
+                          <div>{set.label ?? "（ラベルなし）"}</div>
+                          {set.note && (
+                            <div className="text-[11px] text-slate-500">
+                              {set.note}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-slate-600">
+                          {formatDateTime(set.created_at)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {set.is_active ? (
+                            <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-[10px] font-semibold text-emerald-700">
+                              有効
+                            </span>
+                          ) : (
+                            <span className="text-[11px] text-slate-400">
+                              {set.activated_at
+                                ? `過去に有効（${formatDateTime(set.activated_at)}）`
+                                : "未使用"}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex justify-end gap-2">
+                            <AppButton
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setDraftRules(cloneRules(set.rules));
+                                setDraftDiversity(
+                                  set.diversity ?? DEFAULT_DIVERSITY_SETTINGS
+                                );
+                                setPreviewSetId(null);
+                              }}
+                            >
+                              編集に読み込む
+                            </AppButton>
+                            {!set.is_active && (
+                              <AppButton
+                                size="sm"
+                                variant="primary"
+                                onClick={() => setPreviewSetId(set.id)}
+                              >
+                                プレビュー
+                              </AppButton>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </AppCard>
+
+          {/* 重みの編集 */}
+          <AppCard className="space-y-4">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <h2 className="text-sm font-semibold text-slate-900">
+                重み・キーワードの編集
+              </h2>
+              <AppButton
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setDraftRules(cloneRules(DEFAULT_MATCHING_RULES));
+                  setDraftDiversity(DEFAULT_DIVERSITY_SETTINGS);
+                  setPreviewSetId(null);
+                }}
+              >
+                標準設定に戻す
+              </AppButton>
+            </div>
+
+            {groupedRules.map(([category, rules]) => (
+              <div key={category} className="space-y-2">
+                <h3 className="text-xs font-semibold text-sky-700">
+                  {CATEGORY_LABEL[category]}
+                </h3>
+                <div className="space-y-2">
+                  {rules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className="rounded-md border border-slate-200 p-3 space-y-2"
+                    >
+                      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                        <div className="space-y-0.5">
+                          <p className="text-xs font-semibold text-slate-800">
+                            {rule.label ?? rule.id}
+                            <span className="ml-2 font-mono text-[10px] font-normal text-slate-400">
+                              {rule.id}
+                            </span>
+                          </p>
+                          <p className="text-xs text-slate-700">
+                            {rule.reason ?? "（理由メッセージなし）"}
+                          </p>
+                        </div>
+
+                        {typeof rule.points === "number" ? (
+                          <label className="flex items-center gap-1 text-[11px] text-slate-600">
+                            点数
+                            <input
+                              type="number"
+                              className="w-20 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                              value={rule.points}
+                              onChange={(e) =>
+                                updateRule(rule.id, (r) => ({
+                                  ...r,
+                                  points: Number(e.target.value),
+                                }))
+                              }
+                            />
+                          </label>
+                        ) : (
+                          <div className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <label className="flex items-center gap-1">
+                              {"perKm" in rule.points
+                                ? "1kmごとに減点"
+                                : "1年あたり"}
+                              <input
+                                type="number"
+                                step="0.5"
+                                className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                                value={
+                                  "perKm" in rule.points
+                                    ? rule.points.perKm
+                                    : rule.points.perYear
+                                }
+                                onChange={(e) =>
+                                  updateRule(rule.id, (r) => ({
+                                    ...r,
+                                    points: withScale(
+                                      r.points,
+                                      Number(e.target.value)
+                                    ),
+                                  }))
+                                }
+                              />
+                            </label>
+                            <label className="flex items-center gap-1">
+                              上限
+                              <input
+                                type="number"
+                                className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                                value={rule.points.max}
+                                onChange={(e) =>
+                                  updateRule(rule.id, (r) => ({
+                                    ...r,
+                                    points:
+                                      typeof r.points === "number"
+                                        ? r.points
+                                        : {
+                                            ...r.points,
+                                            max: Number(e.target.value),
+                                          },
+                                  }))
+                                }
+                              />
+                            </label>
+                          </div>
+                        )}
+                      </div>
+
+                      {(rule.anyOf ?? []).length > 0 && (
+                        <div className="grid gap-2 md:grid-cols-2">
+                          {(rule.anyOf ?? []).map((signal, i) => (
+                            <div
+                              key={`${rule.id}-${i}`}
+                              className="space-y-1 text-[11px]"
+                            >
+                              <p className="text-slate-500">
+                                {SIGNAL_SOURCE_LABEL[signal.source]}
+                                {rule.negate ? "（該当しない場合）" : ""}
+                              </p>
+                              {"includes" in signal || "contains" in signal ? (
+                                // 区切り文字を入力できるよう、確定（フォーカスアウト）時に反映する
+                                <input
+                                  key={(
+                                    "includes" in signal
+                                      ? signal.includes
+                                      : signal.contains
+                                  ).join("、")}
+                                  type="text"
+                                  className="w-full rounded-md border border-slate-300 px-2 py-1 text-sm"
+                                  defaultValue={(
+                                    "includes" in signal
+                                      ? signal.includes
+                                      : signal.contains
+                                  ).join("、")}
+                                  onBlur={(e) =>
+                                    updateSignalKeywords(
+                                      rule.id,
+                                      i,
+                                      e.target.value
+                                    )
+                                  }
+                                />
+                              ) : "gte" in signal ? (
+                                <label className="flex items-center gap-1 text-slate-600">
+                                  <input
+                                    type="number"
+                                    className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                                    value={signal.gte}
+                                    onChange={(e) =>
+                                      updateSignalThreshold(
+                                        rule.id,
+                                        i,
+                                        Number(e.target.value)
+                                      )
+                                    }
+                                  />
+                                  以上
+                                </label>
+                              ) : "withinKm" in signal ? (
+                                <label className="flex items-center gap-1 text-slate-600">
+                                  <input
+                                    type="number"
+                                    className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                                    value={signal.withinKm}
+                                    onChange={(e) =>
+                                      updateSignalThreshold(
+                                        rule.id,
+                                        i,
+                                        Number(e.target.value)
+                                      )
+                                    }
+                                  />
+                                  km 以内
+                                </label>
+                              ) : (
+                                <p className="text-slate-400">
+                                  （患者の回答と自動で突き合わせます）
+                                </p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {/* /result の上位の選び直し（多様性） */}
+            <div className="space-y-2 border-t border-slate-100 pt-3">
+              <h3 className="text-xs font-semibold text-sky-700">
+                結果画面の上位の多様性
+              </h3>
+              <p className="text-[11px] text-slate-500">
+                /result の上位を、同じ店舗・同じ care_role・同じ対応言語の薬剤師に偏らないよう選び直します。
+                減点は「すでに上位に入った候補と同じ」1件ごとに差し引く点数です。
+              </p>
+              <div className="flex flex-wrap gap-3 text-[11px] text-slate-600">
+                {DIVERSITY_NUMBER_FIELDS.map((field) => (
+                  <label key={field.key} className="flex items-center gap-1">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={field.key === "topN" ? 1 : 0}
+                      className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                      value={draftDiversity[field.key]}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        setDraftDiversity((prev) => ({ ...prev, [field.key]: value }));
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-1 text-[11px] text-slate-600">
+                <p>1位と違うスタイルの薬剤師を最低1人入れる相談スタイル</p>
+                <div className="flex flex-wrap gap-3">
+                  {(Object.keys(CARE_STYLE_INFO) as CareStyleKey[]).map((key) => (
+                    <label key={key} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={draftDiversity.alternativeStyleFor.includes(key)}
+                        onChange={(e) =>
+                          setDraftDiversity((prev) => ({
+                            ...prev,
+                            alternativeStyleFor: e.target.checked
+                              ? [...prev.alternativeStyleFor, key]
+                              : prev.alternativeStyleFor.filter((v) => v !== key),
+                          }))
+                        }
+                      />
+                      {CARE_STYLE_INFO[key].label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-2 border-t border-slate-100 pt-3 md:grid-cols-[1fr,2fr,auto] md:items-end">
+              <label className="space-y-1 text-[11px] text-slate-600">
+                <span>ラベル</span>
+                <input
+                  type="text"
+                  className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                  placeholder="例：言語の重みを 30 に下げる"
+                  value={draftLabel}
+                  onChange={(e) => setDraftLabel(e.target.value)}
+                />
+              </label>
+              <label className="space-y-1 text-[11px] text-slate-600">
+                <span>メモ</span>
+                <input
+                  type="text"
+                  className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                  placeholder="変更の意図など"
+                  value={draftNote}
+                  onChange={(e) => setDraftNote(e.target.value)}
+                />
+              </label>
+              <AppButton
+                variant="secondary"
+                onClick={() => void handleSave()}
+                disabled={saving}
+              >
+                {saving ? "保存中…" : "新しいバージョンとして保存"}
+              </AppButton>
+            </div>
+          </AppCard>
+
+          {/* 変更前後のランキング比較 */}
+          <AppCard className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h2 className="text-sm font-semibold text-slate-900">
+                  ランキングのプレビュー
+                </h2>
+                <p className="text-[11px] text-slate-500">
+                  現在有効な設定 → {previewSet ? `v${previewSet.version}` : "編集中の内容"}
+                  で、直近の患者 {samplePatients.length} 名の上位 {PREVIEW_TOP_N} 名を比較しています。
+                  （変化あり：{changedPatientCount} 名）薬剤師名を押すと、変更後のスコア内訳（減点を含む）を表示します。
+                </p>
+              </div>
+              {previewSet && !previewSet.is_active && (
+                <AppButton
+                  size="sm"
+                  variant="secondary"
+                  disabled={activating}
+                  onClick={() => void handleActivate(previewSet)}
+                >
+                  {activating ? "有効化中…" : `v${previewSet.version} を有効化する`}
+                </AppButton>
+              )}
+            </div>
+
+            {samplePatients.length === 0 ? (
+              <p className="text-xs text-slate-500">
+                プレビューに使える患者データがありません。
+              </p>
+            ) : (
+              <div className="grid gap-3 md:grid-cols-2">
+                {previewRows.map(({ patient, type, diff, changed, after }) => (
+                  <div
+                    key={patient.id}
+                    className={[
+                      "rounded-md border p-3 space-y-2",
+                      changed ? "border-amber-300" : "border-slate-200",
+                    ].join(" ")}
+                  >
+                    <p className="text-xs font-semibold text-slate-900">
+                      {patient.name ?? "名前未登録"}
+                      <span className="ml-2 text-[11px] font-normal text-slate-500">
+                        タイプ {type} / {patient.care_style ?? "相談スタイル未設定"}
+                      </span>
+                    </p>
+                    <table className="w-full text-[11px]">
+                      <thead>
+                        <tr className="text-slate-500">
+                          <th className="text-left font-medium">薬剤師</th>
+                          <th className="text-right font-medium">変更前</th>
+                          <th className="text-right font-medium">変更後</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diff.map((row) => {
+                          const moved =
+                            row.beforeRank == null
+                              ? "new"
+                              : row.afterRank == null
+                              ? "out"
+                              : row.beforeRank - row.afterRank;
+                          const key = `${patient.id}:${row.pharmacistId}`;
+                          const expanded = expandedKey === key;
+                          const breakdown =
+                            after.find(
+                              (r) => r.pharmacist.id === row.pharmacistId
+                            )?.breakdown ?? [];
+                          return (
+                            <Fragment key={row.pharmacistId}>
+                              <tr>
+                                <td className="py-0.5 text-slate-800">
+                                  <button
+                                    type="button"
+                                    className="text-left underline decoration-dotted underline-offset-2"
+                                    onClick={() =>
+                                      setExpandedKey(expanded ? null : key)
+                                    }
+                                  >
+                                    {row.name}
+                                  </button>
+                                </td>
+                                <td className="py-0.5 text-right text-slate-500">
+                                  {row.beforeRank ? `${row.beforeRank}位` : "圏外"}（
+                                  {row.beforeScore}）
+                                </td>
+                                <td className="py-0.5 text-right">
+                                  <span
+                                    className={
+                                      moved === "new" ||
+                                      (typeof moved === "number" && moved > 0)
+                                        ? "text-emerald-700"
+                                        : moved === "out" ||
+                                          (typeof moved === "number" && moved < 0)
+                                        ? "text-red-600"
+                                        : "text-slate-700"
+                                    }
+                                  >
+                                    {row.afterRank ? `${row.afterRank}位` : "圏外"}（
+                                    {row.afterScore}）
+                                  </span>
+                                </td>
+                              </tr>
+                              {expanded && (
+                                <tr>
+                                  <td colSpan={3} className="py-2">
+                                    <div className="rounded-md bg-slate-50 p-2">
+                                      <ScoreBreakdownChart
+                                        breakdown={breakdown}
+                                        showNegative
+                                        showRuleId
+                                      />
+                                    </div>
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </AppCard>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+// src/app/admin/matching/proposals/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import {
+  CARE_STYLE_INFO,
+  acceptMatchingWeightProposal,
+  generateMatchingWeightProposal,
+  listMatchingWeightProposals,
+  rejectMatchingWeightProposal,
+  type CareStyleKey,
+  type MatchingWeightProposal,
+  type RulePoints,
+  type WeightProposalStatus,
+} from "@/lib/matching";
+
+const STATUS_LABEL: Record<WeightProposalStatus, string> = {
+  pending: "未レビュー",
+  accepted: "承認済み",
+  rejected: "却下",
+};
+
+const STATUS_CLASS: Record<WeightProposalStatus, string> = {
+  pending: "bg-amber-50 text-amber-700",
+  accepted: "bg-emerald-50 text-emerald-700",
+  rejected: "bg-slate-100 text-slate-500",
+};
+
+function formatPoints(points: RulePoints): string {
+  if (typeof points === "number") return `${points}点`;
+  if ("perKm" in points) {
+    return `1kmごとに${points.perKm}点減（上限${points.max}）`;
+  }
+  return `1年あたり${points.perYear}点（上限${points.max}）`;
+}
+
+// "care_role:expert" / "specialty:がん" → 表示用ラベル
+function formatAttribute(attribute: string): string {
+  const [kind, value] = attribute.split(":");
+  if (kind === "care_role") {
+    return `得意スタイル：${CARE_STYLE_INFO[value as CareStyleKey]?.label ?? value}`;
+  }
+  return `専門：${value}`;
+}
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return "-";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminMatchingProposalsPage() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<MatchingWeightProposal[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const reload = async () => {
+    setProposals(await listMatchingWeightProposals(supabase));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        await reload();
+      } catch (err) {
+        console.error("Failed to load weight proposals", err);
+        setError("重みの提案の読み込みに失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void load();
+  }, []);
+
+  const currentUserId = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const created = await generateMatchingWeightProposal(supabase);
+      await reload();
+      setMessage(
+        created
+          ? `${created.changes.length} ルールの調整案を作成しました。`
+          : "実績が少ないか、変更すべきルールがないため提案は作成しませんでした。"
+      );
+    } catch (err) {
+      console.error("Failed to generate weight proposal", err);
+      setError("重みの提案の作成に失敗しました。");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAccept = async (proposal: MatchingWeightProposal) => {
+    setBusyId(proposal.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await acceptMatchingWeightProposal(
+        supabase,
+        proposal,
+        await currentUserId()
+      );
+      await reload();
+      setMessage(
+        `バージョン ${saved.version} として保存しました。マッチング設定画面でプレビューしてから有効化してください。`
+      );
+    } catch (err) {
+      console.error("Failed to accept weight proposal", err);
+      setError("提案の承認に失敗しました。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (proposal: MatchingWeightProposal) => {
+    setBusyId(proposal.id);
+    setError(null);
+    setMessage(null);
+    try {
+      await rejectMatchingWeightProposal(
+        supabase,
+        proposal.id,
+        await currentUserId()
+      );
+      await reload();
+      setMessage("提案を却下しました。");
+    } catch (err) {
+      console.error("Failed to reject weight proposal", err);
+      setError("提案の却下に失敗しました。");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-8 space-y-6">
+      {/* ヘッダー */}
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-slate-900 sm:text-2xl">
+            実績からの重み提案
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            お気に入り登録・予約の実績をもとに、よく選ばれる組み合わせで発火するルールの点数を上げ、
+            選ばれにくいルールの点数を下げる案です。承認すると新しいバージョンとして保存されます。
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/matching">
+            <AppButton size="sm" variant="outline">
+              マッチング設定にもどる
+            </AppButton>
+          </Link>
+          <AppButton
+            size="sm"
+            variant="primary"
+            onClick={handleGenerate}
+            disabled={generating}
+          >
+            {generating ? "集計中…" : "今すぐ提案を作成"}
+          </AppButton>
+        </div>
+      </div>
+
+      {error && (
+        <AppCard className="py-3 border-red-200 bg-red-50 text-red-700 text-sm">
+          {error}
+        </AppCard>
+      )}
+      {message && (
+        <AppCard className="py-3 border-emerald-200 bg-emerald-50 text-emerald-800 text-sm">
+          {message}
+        </AppCard>
+      )}
+
+      {loading ? (
+        <AppCard className="py-10 text-center text-sm text-slate-500">
+          読み込み中です…
+        </AppCard>
+      ) : proposals.length === 0 ? (
+        <AppCard className="py-10 text-center text-sm text-slate-500">
+          まだ提案はありません。定期ジョブの実行後、または「今すぐ提案を作成」で表示されます。
+        </AppCard>
+      ) : (
+        proposals.map((proposal) => (
+          <AppCard key={proposal.id} className="space-y-4">
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={[
+                      "rounded-full px-2 py-0.5 text-[10px] font-semibold",
+                      STATUS_CLASS[proposal.status],
+                    ].join(" ")}
+                  >
+                    {STATUS_LABEL[proposal.status]}
+                  </span>
+                  <span className="text-sm font-semibold text-slate-900">
+                    {formatDateTime(proposal.created_at)} の提案
+                  </span>
+                </div>
+                <p className="text-[11px] text-slate-500">
+                  元の設定：
+                  {proposal.base_version != null
+                    ? `v${proposal.base_version}`
+                    : "標準設定"}
+                  ／ 実績 {proposal.positives} 件（患者 {proposal.patients} 人）
+                  {proposal.reviewed_at &&
+                    ` ／ レビュー：${formatDateTime(proposal.reviewed_at)}`}
+                </p>
+              </div>
+
+              {proposal.status === "pending" && (
+                <div className="flex gap-2">
+                  <AppButton
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === proposal.id}
+                    onClick={() => handleReject(proposal)}
+                  >
+                    却下
+                  </AppButton>
+                  <AppButton
+                    size="sm"
+                    variant="primary"
+                    disabled={busyId === proposal.id}
+                    onClick={() => handleAccept(proposal)}
+                  >
+                    承認して新バージョンとして保存
+                  </AppButton>
+                </div>
+              )}
+            </div>
+
+            {/* ルールごとの変更 */}
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-slate-200 bg-slate-50 text-[11px] text-slate-500">
+                    <th className="px-3 py-2 text-left font-medium">ルール</th>
+                    <th className="px-3 py-2 text-left font-medium">現在</th>
+                    <th className="px-3 py-2 text-left font-medium">提案</th>
+                    <th className="px-3 py-2 text-right font-medium">
+                      lift（選ばれやすさ）
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {proposal.changes.map((change) => (
+                    <tr key={change.ruleId} className="border-b border-slate-100">
+                      <td className="px-3 py-2 text-slate-800">
+                        {change.label}
+                        <span className="ml-2 font-mono text-[10px] text-slate-400">
+                          {change.ruleId}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {formatPoints(change.before)}
+                      </td>
+                      <td className="px-3 py-2 font-medium text-slate-900">
+                        {formatPoints(change.after)}
+                      </td>
+                      <td
+                        className={[
+                          "px-3 py-2 text-right",
+                          change.lift >= 1 ? "text-emerald-700" : "text-rose-600",
+                        ].join(" ")}
+                      >
+                        ×{change.lift.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* セグメント別の傾向 */}
+            {proposal.segments.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-xs font-semibold text-slate-700">
+                  タイプ × 相談スタイル別：選ばれた薬剤師の傾向
+                </h3>
+                <ul className="space-y-1 text-[11px] text-slate-600">
+                  {proposal.segments.map((s) => (
+                    <li key={`${s.type}-${s.careStyle ?? ""}`}>
+                      <span className="font-medium text-slate-800">
+                        {s.type}タイプ ×{" "}
+                        {s.careStyle
+                          ? CARE_STYLE_INFO[s.careStyle as CareStyleKey]?.label ??
+                            s.careStyle
+                          : "相談スタイル未回答"}
+                      </span>
+                      （患者 {s.patients} 人・実績 {s.positives} 件）：
+                      {s.attributeLifts.length > 0
+                        ? s.attributeLifts
+                            .map(
+                              (a) =>
+                                `${formatAttribute(a.attribute)} ×${a.lift.toFixed(1)}`
+                            )
+                            .join(" / ")
+                        : "目立った傾向なし"}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </AppCard>
+        ))
+      )}
+    </div>
+  );
+}
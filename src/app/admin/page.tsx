@@ -131,6 +131,28 @@ export default function AdminHomePage() {
             </Link>
           </div>
         </AppCard>
+
+        {/* マッチング設定 */}
+        <AppCard className="flex flex-col justify-between p-4">
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-amber-500">
+              マッチング設定
+            </div>
+            <h2 className="mt-1 text-sm font-semibold text-slate-900">
+              スコアの重み・キーワード
+            </h2>
+            <p className="mt-1 text-xs text-slate-500">
+              相性スコアの加点・減点を編集し、バージョンごとに並び順の変化を確認してから有効化します。
+            </p>
+          </div>
+          <div className="mt-4">
+            <Link href="/admin/matching">
+              <AppButton size="sm" variant="primary" className="w-full justify-center">
+                マッチング設定を開く
+              </AppButton>
+            </Link>
+          </div>
+        </AppCard>
       </div>
     </div>
   );
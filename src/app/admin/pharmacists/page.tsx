@@ -6,6 +6,8 @@ import { supabase } from "@/lib/supabaseClient";
 import type { Pharmacist, Pharmacy } from "@/types/supabase";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
+import type { PharmacistConsultationAttributes } from "@/lib/matching";
+import { ConsultationAttributesFields } from "@/components/matching/ConsultationAttributesFields";
 
 // =========================
 // CareStyle 定義
@@ -428,6 +430,15 @@ export default function AdminPharmacistsPage() {
     );
   };
 
+  const handleConsultationChangeRow = (
+    id: string,
+    patch: Partial<PharmacistConsultationAttributes>
+  ) => {
+    setPharmacists((prev) =>
+      prev.map((ph) => (ph.id === id ? { ...ph, ...patch } : ph))
+    );
+  };
+
   const handleGenderChangeRow = (id: string, value: string) => {
     setPharmacists((prev) =>
       prev.map((ph) => {
@@ -573,6 +584,10 @@ export default function AdminPharmacistsPage() {
       sns_links: ph.sns_links ?? [],
       image_urls: ph.image_urls ?? [],
       image_url: ph.image_url ?? null,
+      supported_channels: ph.supported_channels ?? null,
+      followup_cadences: ph.followup_cadences ?? null,
+      explanation_styles: ph.explanation_styles ?? null,
+      comm_styles: ph.comm_styles ?? null,
     };
 
     const { error } = await supabase
@@ -1200,6 +1215,24 @@ export default function AdminPharmacistsPage() {
                         </div>
                       </div>
 
+                      {/* マッチング用の対応項目 */}
+                      <div>
+                        <p className="text-[11px] font-semibold mb-1">
+                          相談の方法・頻度・話し方（マッチングに使用）
+                        </p>
+                        <ConsultationAttributesFields
+                          value={{
+                            supported_channels: ph.supported_channels ?? null,
+                            followup_cadences: ph.followup_cadences ?? null,
+                            explanation_styles: ph.explanation_styles ?? null,
+                            comm_styles: ph.comm_styles ?? null,
+                          }}
+                          onChange={(patch) =>
+                            handleConsultationChangeRow(ph.id, patch)
+                          }
+                        />
+                      </div>
+
                       {/* 自由URL / SNS */}
                       <div className="grid gap-3 md:grid-cols-2">
                         <div>
@@ -0,0 +1,13 @@
+// src/app/admin/prm/follow-ups/page.tsx
+"use client";
+
+import { supabase } from "@/lib/supabaseClient";
+import { createPrmRepository } from "@/lib/prm";
+import { PrmFollowUpQueue } from "@/components/prm/PrmFollowUpQueue";
+
+// 管理者は全患者を直接読む
+const dataSource = createPrmRepository(supabase, { pharmacyId: null });
+
+export default function PrmFollowUpsPage() {
+  return <PrmFollowUpQueue dataSource={dataSource} basePath="/admin/prm/patients" />;
+}
@@ -0,0 +1,13 @@
+// src/app/admin/prm/pipeline/page.tsx
+"use client";
+
+import { supabase } from "@/lib/supabaseClient";
+import { createPrmRepository } from "@/lib/prm";
+import { PrmPipelineBoard } from "@/components/prm/PrmPipelineBoard";
+
+// 管理者は全患者を直接読む（履歴の操作者はログイン中の管理者）
+const dataSource = createPrmRepository(supabase, { pharmacyId: null });
+
+export default function PrmPipelinePage() {
+  return <PrmPipelineBoard dataSource={dataSource} basePath="/admin/prm/patients" />;
+}
@@ -0,0 +1,68 @@
+// src/app/api/appointments/[appointmentId]/reschedule/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  changeCutoffHours,
+  parseSlotInput,
+  rescheduleAppointment,
+  SLOT_TAKEN_MESSAGE,
+  STATUS_CONFLICT_MESSAGE,
+  type TimeInterval,
+} from "@/lib/scheduling";
+import { appointmentAccessForRequest, publicAppointment } from "@/lib/scheduling/server";
+
+type RouteContext = { params: Promise<{ appointmentId: string }> };
+
+/**
+ * 患者による日時変更（予約した端末のトークンが必要）
+ * - 変更期限・受付枠・重なりの確認は rescheduleAppointment の中で行う
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { appointmentId } = await params;
+  const access = await appointmentAccessForRequest(req, appointmentId);
+  if (!access.appointment || !access.actor) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+  if (access.actor.role !== "patient") {
+    return NextResponse.json(
+      { error: "日時の変更は予約した患者さんの端末から行ってください。" },
+      { status: 403 }
+    );
+  }
+
+  let slot: TimeInterval;
+  try {
+    const body = (await req.json().catch(() => null)) as { slot?: unknown } | null;
+    slot = parseSlotInput(body?.slot);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "変更する時間を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  if (new Date(slot.start).getTime() <= Date.now()) {
+    return NextResponse.json({ error: "過ぎた時間には変更できません。" }, { status: 400 });
+  }
+
+  try {
+    const updated = await rescheduleAppointment(
+      createSupabaseAdminClient(),
+      access.appointment,
+      slot,
+      access.actor,
+      { cutoffHours: changeCutoffHours() }
+    );
+    return NextResponse.json({ appointment: publicAppointment(updated) });
+  } catch (err) {
+    if (
+      err instanceof Error &&
+      (err.message === SLOT_TAKEN_MESSAGE || err.message === STATUS_CONFLICT_MESSAGE)
+    ) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    // 変更期限切れなど、画面にそのまま出すメッセージ
+    console.error("[api/appointments/reschedule] failed to reschedule", err);
+    return NextResponse.json(
+      { error: err instanceof Error && err.message ? err.message : "日時を変更できませんでした。" },
+      { status: 400 }
+    );
+  }
+}
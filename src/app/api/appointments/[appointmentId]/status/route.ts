@@ -0,0 +1,70 @@
+// src/app/api/appointments/[appointmentId]/status/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  APPOINTMENT_STATUSES,
+  assertTransition,
+  changeCutoffHours,
+  checkPatientChange,
+  statusOf,
+  STATUS_CONFLICT_MESSAGE,
+  transitionAppointment,
+} from "@/lib/scheduling";
+import { appointmentAccessForRequest, publicAppointment } from "@/lib/scheduling/server";
+
+type RouteContext = { params: Promise<{ appointmentId: string }> };
+
+const REASON_MAX_LENGTH = 500;
+
+/**
+ * 予約の状態変更（薬局・管理者の操作ボタン、患者のキャンセル）
+ * - 操作者の区分はサーバーで決める（appointmentAccessForRequest）
+ * - 遷移表（assertTransition）と、患者の変更期限（checkPatientChange）をここで確かめる
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { appointmentId } = await params;
+  const access = await appointmentAccessForRequest(req, appointmentId);
+  if (!access.appointment || !access.actor) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+  const { appointment, actor } = access;
+
+  const body = (await req.json().catch(() => null)) as { to?: unknown; reason?: unknown } | null;
+  const to = APPOINTMENT_STATUSES.find((s) => s === body?.to);
+  if (!to) {
+    return NextResponse.json({ error: "変更先の状態が正しくありません。" }, { status: 400 });
+  }
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (reason.length > REASON_MAX_LENGTH) {
+    return NextResponse.json(
+      { error: `理由は${REASON_MAX_LENGTH}文字以内で入力してください。` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    assertTransition(statusOf(appointment), to, actor.role);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "この操作はできません。";
+    return NextResponse.json({ error: message }, { status: 403 });
+  }
+  if (actor.role === "patient") {
+    const check = checkPatientChange(appointment, new Date(), changeCutoffHours());
+    if (!check.allowed) {
+      return NextResponse.json({ error: check.reason }, { status: 403 });
+    }
+  }
+
+  try {
+    const updated = await transitionAppointment(createSupabaseAdminClient(), appointment, to, actor, {
+      reason: reason || null,
+    });
+    return NextResponse.json({ appointment: publicAppointment(updated) });
+  } catch (err) {
+    if (err instanceof Error && err.message === STATUS_CONFLICT_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error("[api/appointments/status] failed to change status", err);
+    return NextResponse.json({ error: "予約の状態を変更できませんでした。" }, { status: 500 });
+  }
+}
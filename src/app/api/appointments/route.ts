@@ -0,0 +1,49 @@
+// src/app/api/appointments/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  bookAppointmentSlot,
+  parseAppointmentBookingInput,
+  SLOT_NOT_OFFERED_MESSAGE,
+  SLOT_TAKEN_MESSAGE,
+  type AppointmentBookingInput,
+} from "@/lib/scheduling";
+import { issuePatientToken } from "@/lib/scheduling/patientToken";
+import { publicAppointment } from "@/lib/scheduling/server";
+
+/**
+ * 空き枠の予約（患者はログインしていないこともある）
+ * - 予約ごとのトークンを発行し、平文は予約した端末にだけ返す（DB にはハッシュだけ）
+ * - 以後のキャンセル・日時変更・相談ルームはこのトークンで本人か確かめる
+ * - 枠は受付時間から作った枠のどれかでなければ断る（bookAppointmentSlot）
+ */
+export async function POST(req: Request) {
+  let input: AppointmentBookingInput;
+  try {
+    input = parseAppointmentBookingInput(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "予約の内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+  if (new Date(input.slot.start).getTime() <= Date.now()) {
+    return NextResponse.json({ error: "過ぎた時間は予約できません。" }, { status: 400 });
+  }
+
+  const { token, hash } = issuePatientToken();
+  try {
+    const appointment = await bookAppointmentSlot(createSupabaseAdminClient(), {
+      ...input,
+      patientTokenHash: hash,
+    });
+    return NextResponse.json({ appointment: publicAppointment(appointment), token });
+  } catch (err) {
+    if (err instanceof Error && err.message === SLOT_TAKEN_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    if (err instanceof Error && err.message === SLOT_NOT_OFFERED_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("[api/appointments] failed to book", err);
+    return NextResponse.json({ error: "予約に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/calendar/[token]/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import { buildCalendarFeed } from "@/lib/calendar";
+
+/**
+ * 予約カレンダーの購読フィード（読み取り専用）
+ * - Google / Apple カレンダーに URL を登録して使う
+ * - /api/calendar/<token> でも /api/calendar/<token>.ics でも受け付ける
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token: raw } = await params;
+  const token = raw.replace(/\.ics$/, "");
+
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return NextResponse.json({ error: "not found" }, { status: 404 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const origin = process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin;
+    const feed = await buildCalendarFeed(supabase, token, {
+      bookingsUrl: `${origin}/pharmacy/bookings`,
+    });
+
+    if (!feed) {
+      return NextResponse.json({ error: "not found" }, { status: 404 });
+    }
+
+    return new NextResponse(feed.ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="hito-yaku.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    console.error("[api/calendar] failed to build feed", err);
+    return NextResponse.json({ error: "server error" }, { status: 500 });
+  }
+}
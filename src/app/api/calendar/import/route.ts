@@ -0,0 +1,83 @@
+// src/app/api/calendar/import/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabaseServer";
+import { getPharmacyCompanyIdForUser } from "@/lib/pharmacy-company";
+import { importExternalCalendar, NOT_ICS_MESSAGE } from "@/lib/calendar";
+import { fetchIcsFromUrl } from "@/lib/calendar/fetchIcs";
+
+/**
+ * URL で指定された外部カレンダー（.ics）を取り込む
+ * - ブラウザからは CORS で読めないことが多いため、サーバーで取得する
+ *   （公開されていないアドレス・リダイレクト先は fetchIcsFromUrl で断る）
+ * - 取り込めるのは自社の薬剤師の分だけ（管理者はすべて）。role cookie ではなく profile_users で判定する
+ * - 書き込みはログイン中ユーザーの権限（RLS）で行う
+ * - ファイルのアップロードはブラウザで読み込んで importExternalCalendar を直接呼ぶ
+ */
+export async function POST(req: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as {
+    pharmacistId?: string;
+    url?: string;
+  } | null;
+  if (!body?.pharmacistId || !body.url) {
+    return NextResponse.json({ error: "pharmacistId と url が必要です。" }, { status: 400 });
+  }
+
+  const [{ data: profile }, { data: pharmacist, error: pharmacistError }] = await Promise.all([
+    supabase
+      .from("profile_users")
+      .select("role")
+      .eq("auth_user_id", user.id)
+      .maybeSingle<{ role: string | null }>(),
+    supabase
+      .from("pharmacists")
+      .select("belongs_pharmacy_id")
+      .eq("id", body.pharmacistId)
+      .maybeSingle<{ belongs_pharmacy_id: string | null }>(),
+  ]);
+  if (pharmacistError) {
+    console.error("[api/calendar/import] failed to load pharmacist", pharmacistError);
+    return NextResponse.json({ error: "取り込みに失敗しました。" }, { status: 500 });
+  }
+  if (profile?.role !== "admin") {
+    const pharmacyId = await getPharmacyCompanyIdForUser(supabase, user.id);
+    if (!pharmacist || !pharmacyId || pharmacist.belongs_pharmacy_id !== pharmacyId) {
+      return NextResponse.json({ error: "forbidden" }, { status: 403 });
+    }
+  } else if (!pharmacist) {
+    return NextResponse.json({ error: "薬剤師が見つかりません。" }, { status: 404 });
+  }
+
+  let ics: string;
+  try {
+    ics = await fetchIcsFromUrl(body.url);
+  } catch (err) {
+    // fetchIcsFromUrl のエラーは画面に出す前提の文言（取得先の応答は含まない）
+    console.error("[api/calendar/import] failed to fetch", err);
+    const message =
+      err instanceof Error && err.message ? err.message : "取り込みに失敗しました。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    // 非公開カレンダーの URL は秘密の鍵を含むので、ホスト名だけ残す
+    const result = await importExternalCalendar(supabase, body.pharmacistId, ics, {
+      kind: "url",
+      label: new URL(body.url.trim()).host,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof Error && err.message === NOT_ICS_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("[api/calendar/import] failed", err);
+    return NextResponse.json({ error: "取り込みに失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+// src/app/api/consultations/[appointmentId]/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  consultationParticipant,
+  consultationRoomState,
+  ensureConsultationSession,
+  fetchConsultationMessages,
+  normalizeMessageBody,
+  postConsultationMessage,
+  videoProviderFor,
+  videoProviderFromEnv,
+  type ConsultationAppointment,
+  type ConsultationParticipant,
+} from "@/lib/consultation";
+import type { ConsultationRoom } from "@/lib/consultation/client";
+import { appointmentAccessForRequest } from "@/lib/scheduling/server";
+
+type RouteContext = { params: Promise<{ appointmentId: string }> };
+
+type ResolvedRoom = {
+  appointment: ConsultationAppointment;
+  participant: ConsultationParticipant;
+};
+
+const ROOM_FORBIDDEN_MESSAGE =
+  "この相談ルームに入る権限がありません。予約した端末、または薬局のアカウントで開いてください。";
+
+/**
+ * 入室チェック
+ * - 薬局側・管理者：ログイン中のアカウントがこの予約を扱えること
+ * - 患者：予約のときに発行したトークン（ヘッダー）が一致すること。患者IDだけでは入れない
+ *   （どちらも appointmentAccessForRequest で判定する）
+ * - 通ったら予約・チャットは service role で読み書きする
+ */
+async function resolveRoom(
+  req: Request,
+  appointmentId: string
+): Promise<ResolvedRoom | NextResponse> {
+  const access = await appointmentAccessForRequest(req, appointmentId);
+  if (!access.appointment || !access.actor) {
+    return NextResponse.json(
+      { error: access.status === 403 ? ROOM_FORBIDDEN_MESSAGE : access.error },
+      { status: access.status }
+    );
+  }
+
+  const { data: appointment, error } = await createSupabaseAdminClient()
+    .from("appointments")
+    .select(
+      "id, patient_id, pharmacist_id, booking_type, status, scheduled_start, scheduled_end, patient:patients(name), pharmacist:pharmacists(name, booking_url)"
+    )
+    .eq("id", appointmentId)
+    .maybeSingle<ConsultationAppointment>();
+  if (error) {
+    console.error("[api/consultations] failed to load appointment", error);
+    return NextResponse.json({ error: "予約の取得に失敗しました。" }, { status: 500 });
+  }
+
+  const participant = appointment ? consultationParticipant(appointment, access.actor) : null;
+  if (!appointment || !participant) {
+    return NextResponse.json({ error: ROOM_FORBIDDEN_MESSAGE }, { status: 403 });
+  }
+  return { appointment, participant };
+}
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const { appointmentId } = await params;
+  const resolved = await resolveRoom(req, appointmentId);
+  if (resolved instanceof NextResponse) return resolved;
+  const { appointment, participant } = resolved;
+
+  const admin = createSupabaseAdminClient();
+  const state = consultationRoomState(appointment, new Date());
+
+  try {
+    let video: ConsultationRoom["video"] = null;
+    if (state.canJoinVideo) {
+      const session = await ensureConsultationSession(admin, appointment.id, videoProviderFromEnv());
+      const room = { provider: session.video_provider, roomId: session.video_room_id };
+      video = videoProviderFor(room).joinInfo(room, participant, {
+        bookingUrl: appointment.pharmacist?.booking_url ?? null,
+      });
+    }
+
+    const since = new URL(req.url).searchParams.get("since");
+    const body: ConsultationRoom = {
+      appointment: {
+        id: appointment.id,
+        bookingType: appointment.booking_type,
+        status: appointment.status,
+        scheduledStart: appointment.scheduled_start,
+        scheduledEnd: appointment.scheduled_end,
+        patientName: appointment.patient?.name ?? null,
+        pharmacistName: appointment.pharmacist?.name ?? null,
+      },
+      participant,
+      state,
+      video,
+      messages:
+        appointment.booking_type === "online"
+          ? await fetchConsultationMessages(admin, appointment.id, since)
+          : [],
+    };
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error("[api/consultations] failed to load room", err);
+    return NextResponse.json({ error: "相談ルームの読み込みに失敗しました。" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { appointmentId } = await params;
+  const resolved = await resolveRoom(req, appointmentId);
+  if (resolved instanceof NextResponse) return resolved;
+  const { appointment, participant } = resolved;
+
+  const state = consultationRoomState(appointment, new Date());
+  if (!state.canPost) {
+    return NextResponse.json(
+      { error: state.notice ?? "いまはメッセージを送れません。" },
+      { status: 409 }
+    );
+  }
+
+  const payload = (await req.json().catch(() => null)) as { body?: unknown } | null;
+  let text: string;
+  try {
+    text = normalizeMessageBody(payload?.body);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "メッセージを確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const message = await postConsultationMessage(
+      createSupabaseAdminClient(),
+      appointment.id,
+      participant,
+      text
+    );
+    return NextResponse.json({ message });
+  } catch (err) {
+    console.error("[api/consultations] failed to post message", err);
+    return NextResponse.json({ error: "メッセージの送信に失敗しました。" }, { status: 500 });
+  }
+}
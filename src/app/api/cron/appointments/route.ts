@@ -0,0 +1,30 @@
+// src/app/api/cron/appointments/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  appointmentJobConfigFromEnv,
+  isAuthorizedCronRequest,
+  runAppointmentJobs,
+} from "@/lib/jobs";
+
+/**
+ * 予約リマインドの送信と無断欠席の判定（定期実行用）
+ * - 15分おきなど、リマインドの間隔より短い周期で呼ぶ（例：Vercel Cron）
+ */
+export async function GET(req: Request) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { deps, options } = appointmentJobConfigFromEnv();
+    const result = await runAppointmentJobs(createSupabaseAdminClient(), deps, {
+      ...options,
+      baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("[api/cron/appointments] failed", err);
+    return NextResponse.json({ error: "failed" }, { status: 500 });
+  }
+}
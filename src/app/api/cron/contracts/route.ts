@@ -0,0 +1,30 @@
+// src/app/api/cron/contracts/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  contractJobConfigFromEnv,
+  isAuthorizedCronRequest,
+  runContractJobs,
+} from "@/lib/jobs";
+
+/**
+ * 顧問契約の自動更新と更新リマインド（定期実行用）
+ * - 1日1回呼ぶ想定。同じタイミングのリマインドは1回しか送らない
+ */
+export async function GET(req: Request) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { deps, options } = contractJobConfigFromEnv();
+    const result = await runContractJobs(createSupabaseAdminClient(), deps, {
+      ...options,
+      baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("[api/cron/contracts] failed", err);
+    return NextResponse.json({ error: "failed" }, { status: 500 });
+  }
+}
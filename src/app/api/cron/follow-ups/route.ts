@@ -0,0 +1,30 @@
+// src/app/api/cron/follow-ups/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  escalateOverdueFollowUps,
+  followUpJobConfigFromEnv,
+  isAuthorizedCronRequest,
+} from "@/lib/jobs";
+
+/**
+ * フォロー遅れの店長へのエスカレーション（定期実行用）
+ * - 1日1回（朝など）呼ぶ想定。同じ予定日の遅れは1回しか知らせない
+ */
+export async function GET(req: Request) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { deps, options } = followUpJobConfigFromEnv();
+    const result = await escalateOverdueFollowUps(createSupabaseAdminClient(), deps, {
+      ...options,
+      baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("[api/cron/follow-ups] failed", err);
+    return NextResponse.json({ error: "failed" }, { status: 500 });
+  }
+}
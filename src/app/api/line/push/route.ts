@@ -0,0 +1,97 @@
+// src/app/api/line/push/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  appointmentReminderMessage,
+  followUpNudgeMessage,
+  lineClientFromEnv,
+  pushToPatient,
+} from "@/lib/line";
+import {
+  APPOINTMENT_FORBIDDEN_MESSAGE,
+  appointmentAccessForRequest,
+} from "@/lib/scheduling/server";
+
+type PushKind = "reminder" | "follow_up";
+
+/**
+ * 予約一覧から患者に LINE を送る（薬局スタッフ用）
+ * - reminder  : 確定した予約のお知らせ
+ * - follow_up : 相談後のフォロー
+ * - 送れるのは管理者と、担当薬剤師の所属法人のアカウントだけ（appointmentAccessForRequest）
+ *   role cookie や RLS には頼らない。予約・line_links は service role で引く
+ */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as {
+    appointmentId?: string;
+    kind?: PushKind;
+  } | null;
+  if (!body?.appointmentId || (body.kind !== "reminder" && body.kind !== "follow_up")) {
+    return NextResponse.json(
+      { error: "appointmentId と kind（reminder / follow_up）が必要です。" },
+      { status: 400 }
+    );
+  }
+
+  const access = await appointmentAccessForRequest(req, body.appointmentId);
+  if (!access.appointment || !access.actor) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+  // 予約した患者さん本人の端末からは送らせない
+  if (access.actor.role !== "admin" && access.actor.role !== "pharmacy_company") {
+    return NextResponse.json({ error: APPOINTMENT_FORBIDDEN_MESSAGE }, { status: 403 });
+  }
+  const appt = access.appointment;
+  if (!appt.patient_id) {
+    return NextResponse.json({ error: "予約が見つかりません。" }, { status: 404 });
+  }
+
+  const admin = createSupabaseAdminClient();
+  let pharmacistName: string | null = null;
+  if (appt.pharmacist_id) {
+    const { data: pharmacist, error } = await admin
+      .from("pharmacists")
+      .select("name")
+      .eq("id", appt.pharmacist_id)
+      .maybeSingle<{ name: string | null }>();
+    if (error) {
+      console.error("[api/line/push] failed to load pharmacist", error);
+      return NextResponse.json({ error: "予約の取得に失敗しました。" }, { status: 500 });
+    }
+    pharmacistName = pharmacist?.name ?? null;
+  }
+
+  const origin = process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin;
+  const mypageUrl = `${origin}/mypage`;
+  const message =
+    body.kind === "reminder"
+      ? appointmentReminderMessage(
+          {
+            pharmacistName,
+            bookingType: appt.booking_type,
+            scheduledStart: appt.scheduled_start,
+            scheduledEnd: appt.scheduled_end,
+          },
+          { mypageUrl }
+        )
+      : followUpNudgeMessage({ pharmacistName }, { mypageUrl });
+
+  try {
+    const sent = await pushToPatient(
+      admin,
+      lineClientFromEnv(),
+      appt.patient_id,
+      [message]
+    );
+    if (!sent) {
+      return NextResponse.json(
+        { error: "この患者さんは LINE 連携をしていません。" },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ sent: true });
+  } catch (err) {
+    console.error("[api/line/push] failed", err);
+    return NextResponse.json({ error: "LINE の送信に失敗しました。" }, { status: 500 });
+  }
+}
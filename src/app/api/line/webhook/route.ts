@@ -0,0 +1,46 @@
+// src/app/api/line/webhook/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  handleLineWebhookEvents,
+  lineClientFromEnv,
+  verifyLineSignature,
+  type LineWebhookBody,
+} from "@/lib/line";
+
+/**
+ * LINE 公式アカウントの Webhook
+ * - LINE Developers の Webhook URL に https://<ドメイン>/api/line/webhook を登録する
+ * - 署名（X-Line-Signature）が合わないリクエストは 401
+ * - 処理に失敗しても 200 を返す（LINE 側の再送で同じコードを二重に処理しないように）
+ */
+export async function POST(req: Request) {
+  const secret = process.env.LINE_CHANNEL_SECRET;
+  if (!secret) {
+    console.error("[api/line/webhook] LINE_CHANNEL_SECRET is not set");
+    return NextResponse.json({ error: "not configured" }, { status: 500 });
+  }
+
+  const raw = await req.text();
+  if (!verifyLineSignature(raw, req.headers.get("x-line-signature"), secret)) {
+    return NextResponse.json({ error: "invalid signature" }, { status: 401 });
+  }
+
+  let body: LineWebhookBody;
+  try {
+    body = JSON.parse(raw) as LineWebhookBody;
+  } catch {
+    return NextResponse.json({ error: "invalid body" }, { status: 400 });
+  }
+
+  try {
+    await handleLineWebhookEvents(
+      createSupabaseAdminClient(),
+      lineClientFromEnv(),
+      body.events ?? []
+    );
+  } catch (err) {
+    console.error("[api/line/webhook] failed", err);
+  }
+  return NextResponse.json({});
+}
@@ -0,0 +1,51 @@
+// src/app/api/notifications/route.ts
+import { NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabaseAdmin";
+import {
+  notifyAppointmentRequested,
+  notifyContactRequested,
+  transportFromEnv,
+} from "@/lib/notifications";
+import type { NotificationEvent } from "@/types/supabase";
+
+const EVENTS: NotificationEvent[] = ["appointment_requested", "contact_requested"];
+
+/**
+ * 予約・連絡希望の通知メールを送る
+ * - 患者はログインしていないこともあるので、認証の代わりに
+ *   「ID が存在する・受け付けから間もない・まだ送っていない」ものだけ送る（notify.ts 側で確認）
+ * - 宛先はリクエストでは受け取らず、DB の登録内容から決める
+ */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as {
+    event?: string;
+    id?: string;
+  } | null;
+
+  const event = EVENTS.find((e) => e === body?.event);
+  if (!event || !body?.id || !/^[0-9a-f-]{36}$/i.test(body.id)) {
+    return NextResponse.json({ error: "event と id が必要です。" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    const transport = transportFromEnv();
+    const options = {
+      baseUrl: process.env.NEXT_PUBLIC_BASE_URL ?? new URL(req.url).origin,
+      staffFallbackEmail: process.env.NOTIFY_STAFF_EMAIL ?? null,
+    };
+
+    const result =
+      event === "appointment_requested"
+        ? await notifyAppointmentRequested(supabase, body.id, transport, options)
+        : await notifyContactRequested(supabase, body.id, transport, options);
+
+    if (!result) {
+      return NextResponse.json({ error: "not found" }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("[api/notifications] failed", err);
+    return NextResponse.json({ error: "通知の送信に失敗しました。" }, { status: 500 });
+  }
+}
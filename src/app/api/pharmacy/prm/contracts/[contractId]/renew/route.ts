@@ -0,0 +1,33 @@
+// src/app/api/pharmacy/prm/contracts/[contractId]/renew/route.ts
+import { NextResponse } from "next/server";
+import {
+  CONTRACT_ALREADY_RENEWED_MESSAGE,
+  PRM_CONTRACT_NOT_FOUND_MESSAGE,
+} from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ contractId: string }> };
+
+/**
+ * 顧問契約の更新（同じ条件で次の期間の契約を作る。すでに更新済みなら 409）
+ */
+export async function POST(_req: Request, { params }: RouteContext) {
+  const { contractId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json({ contract: await access.repository.renewContract(contractId) });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_CONTRACT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    if (err instanceof Error && err.message === CONTRACT_ALREADY_RENEWED_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error("[api/pharmacy/prm/contracts/:id/renew] failed", err);
+    return NextResponse.json({ error: "契約の更新に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+// src/app/api/pharmacy/prm/contracts/[contractId]/route.ts
+import { NextResponse } from "next/server";
+import { PRM_CONTRACT_NOT_FOUND_MESSAGE } from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ contractId: string }> };
+
+/**
+ * 顧問契約の自動更新の切り替え（自社の契約でなければ 404）
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { contractId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  const body = (await req.json().catch(() => null)) as { auto_renew?: unknown } | null;
+  if (typeof body?.auto_renew !== "boolean") {
+    return NextResponse.json({ error: "自動更新の値が正しくありません。" }, { status: 400 });
+  }
+
+  try {
+    await access.repository.setContractAutoRenew(contractId, body.auto_renew);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_CONTRACT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/contracts/:id] failed to update", err);
+    return NextResponse.json({ error: "保存中にエラーが発生しました。" }, { status: 500 });
+  }
+}
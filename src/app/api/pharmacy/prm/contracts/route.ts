@@ -0,0 +1,20 @@
+// src/app/api/pharmacy/prm/contracts/route.ts
+import { NextResponse } from "next/server";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+/**
+ * 薬局画面の顧問契約一覧（自社の契約だけ。一覧・ダッシュボードの「更新が近い契約」用）
+ */
+export async function GET() {
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json({ contracts: await access.repository.listContracts() });
+  } catch (err) {
+    console.error("[api/pharmacy/prm/contracts] failed to load", err);
+    return NextResponse.json({ error: "顧問契約の取得に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+// src/app/api/pharmacy/prm/logs/search/route.ts
+import { NextResponse } from "next/server";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+/**
+ * 薬局画面の相談ログ検索（PRM 一覧のキーワード用。自社の患者のログだけ）
+ * - ?q= を含むログがある患者の id を返す
+ */
+export async function GET(req: Request) {
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  const keyword = new URL(req.url).searchParams.get("q") ?? "";
+  try {
+    return NextResponse.json({ patientIds: await access.repository.searchLogs(keyword) });
+  } catch (err) {
+    console.error("[api/pharmacy/prm/logs/search] failed to search", err);
+    return NextResponse.json({ error: "相談ログの検索に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+// src/app/api/pharmacy/prm/patients/[patientId]/contracts/route.ts
+import { NextResponse } from "next/server";
+import {
+  parseAdvisorContractInput,
+  PRM_PATIENT_NOT_FOUND_MESSAGE,
+  type AdvisorContractInput,
+} from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ patientId: string }> };
+
+/**
+ * 患者ごとの顧問契約（自社の患者でなければ 404）
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json({
+      contracts: await access.repository.listPatientContracts(patientId),
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/patients/:id/contracts] failed to load", err);
+    return NextResponse.json({ error: "顧問契約の取得に失敗しました。" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let input: AdvisorContractInput;
+  try {
+    input = parseAdvisorContractInput(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "入力内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await access.repository.createContract(patientId, input));
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/patients/:id/contracts] failed to create", err);
+    return NextResponse.json({ error: "顧問契約の登録に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/pharmacy/prm/patients/[patientId]/follow-up/route.ts
+import { NextResponse } from "next/server";
+import {
+  parsePrmFollowUpInput,
+  PRM_PATIENT_NOT_FOUND_MESSAGE,
+  type PrmFollowUpInput,
+} from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ patientId: string }> };
+
+/**
+ * 「連絡を記録して次回を予約」（自社の患者でなければ 404）
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let input: PrmFollowUpInput;
+  try {
+    input = parsePrmFollowUpInput(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "入力内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await access.repository.logFollowUp(patientId, input));
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/follow-up] failed", err);
+    return NextResponse.json({ error: "フォローの記録に失敗しました。" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/pharmacy/prm/patients/[patientId]/logs/route.ts
+import { NextResponse } from "next/server";
+import { parsePrmLogInput, PRM_PATIENT_NOT_FOUND_MESSAGE, type PrmLogInput } from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ patientId: string }> };
+
+/**
+ * 薬局画面の相談ログ（自社の患者でなければ 404）
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json({ logs: await access.repository.listLogs(patientId) });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/logs] failed to load", err);
+    return NextResponse.json({ error: "相談ログの取得に失敗しました。" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let input: PrmLogInput;
+  try {
+    input = parsePrmLogInput(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "入力内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ log: await access.repository.createLog(patientId, input) });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/logs] failed to create", err);
+    return NextResponse.json({ error: "相談ログの登録に失敗しました。" }, { status: 500 });
+  }
+}
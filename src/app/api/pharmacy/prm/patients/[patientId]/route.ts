@@ -0,0 +1,68 @@
+// src/app/api/pharmacy/prm/patients/[patientId]/route.ts
+import { NextResponse } from "next/server";
+import {
+  parsePrmPatientPatch,
+  PRM_PATIENT_NOT_FOUND_MESSAGE,
+  PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE,
+  RELATION_STATUS_CONFLICT_MESSAGE,
+  type PrmPatientPatch,
+} from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ patientId: string }> };
+
+/**
+ * 薬局画面の患者詳細（自社の患者でなければ 404）
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    const detail = await access.repository.getPatient(patientId);
+    if (!detail) {
+      return NextResponse.json({ error: PRM_PATIENT_NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+    return NextResponse.json({ detail });
+  } catch (err) {
+    console.error("[api/pharmacy/prm/patients/:id] failed to load", err);
+    return NextResponse.json({ error: "データ取得に失敗しました。" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let patch: PrmPatientPatch;
+  try {
+    patch = parsePrmPatientPatch(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "入力内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    await access.repository.updatePatient(patientId, patch);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "";
+    if (message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    if (message === PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    if (message === RELATION_STATUS_CONFLICT_MESSAGE) {
+      return NextResponse.json({ error: message }, { status: 409 });
+    }
+    console.error("[api/pharmacy/prm/patients/:id] failed to update", err);
+    return NextResponse.json({ error: "保存中にエラーが発生しました。" }, { status: 500 });
+  }
+}
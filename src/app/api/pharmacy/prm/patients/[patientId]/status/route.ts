@@ -0,0 +1,63 @@
+// src/app/api/pharmacy/prm/patients/[patientId]/status/route.ts
+import { NextResponse } from "next/server";
+import {
+  parsePrmStatusMoveInput,
+  PRM_PATIENT_NOT_FOUND_MESSAGE,
+  RELATION_STATUS_CONFLICT_MESSAGE,
+  type PrmStatusMoveInput,
+} from "@/lib/prm";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+type RouteContext = { params: Promise<{ patientId: string }> };
+
+/**
+ * 薬局画面の関係ステータス（変更履歴の取得・かんばんでの移動。自社の患者でなければ 404）
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json({ events: await access.repository.listStatusEvents(patientId) });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    console.error("[api/pharmacy/prm/status] failed to load", err);
+    return NextResponse.json({ error: "変更履歴の取得に失敗しました。" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const { patientId } = await params;
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  let input: PrmStatusMoveInput;
+  try {
+    input = parsePrmStatusMoveInput(await req.json().catch(() => null));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "入力内容を確認してください。";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({
+      event: await access.repository.moveRelationStatus(patientId, input),
+    });
+  } catch (err) {
+    if (err instanceof Error && err.message === PRM_PATIENT_NOT_FOUND_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 404 });
+    }
+    if (err instanceof Error && err.message === RELATION_STATUS_CONFLICT_MESSAGE) {
+      return NextResponse.json({ error: err.message }, { status: 409 });
+    }
+    console.error("[api/pharmacy/prm/status] failed to move", err);
+    return NextResponse.json({ error: "ステータスの変更に失敗しました。" }, { status: 500 });
+  }
+}
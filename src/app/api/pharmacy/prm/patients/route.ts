@@ -0,0 +1,20 @@
+// src/app/api/pharmacy/prm/patients/route.ts
+import { NextResponse } from "next/server";
+import { pharmacyPrmAccessForRequest } from "@/lib/prm/server";
+
+/**
+ * 薬局画面の患者一覧（自社の患者だけ）
+ */
+export async function GET() {
+  const access = await pharmacyPrmAccessForRequest();
+  if (!access.repository) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  try {
+    return NextResponse.json(await access.repository.listPatients());
+  } catch (err) {
+    console.error("[api/pharmacy/prm/patients] failed", err);
+    return NextResponse.json({ error: "データ取得に失敗しました。" }, { status: 500 });
+  }
+}
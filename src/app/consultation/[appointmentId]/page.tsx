@@ -0,0 +1,249 @@
+// src/app/consultation/[appointmentId]/page.tsx
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import type { ConsultationMessage } from "@/types/supabase";
+// index は node 専用のモジュールも含むので、ブラウザからは client を直接読む
+import {
+  fetchConsultationRoom,
+  sendConsultationMessage,
+  type ConsultationRoom,
+} from "@/lib/consultation/client";
+import { formatJstDateLabel, formatJstTime, toJstDate } from "@/lib/scheduling";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import { AppointmentStatusBadge } from "@/components/scheduling/AppointmentStatusActions";
+import { ArrowLeft, Loader2, MessageSquare, Video } from "lucide-react";
+
+/** 新着メッセージを確認する間隔 */
+const POLL_INTERVAL_MS = 5000;
+
+function formatSlot(start: string | null, end: string | null): string {
+  if (!start) return "日時未定";
+  const date = formatJstDateLabel(toJstDate(new Date(start)));
+  return `${date} ${formatJstTime(start)}〜${end ? formatJstTime(end) : ""}`;
+}
+
+/** 取得済みのメッセージに新着を足す（id で重複を除く） */
+function mergeMessages(
+  current: ConsultationMessage[],
+  incoming: ConsultationMessage[]
+): ConsultationMessage[] {
+  const seen = new Set(current.map((m) => m.id));
+  return current.concat(incoming.filter((m) => !seen.has(m.id)));
+}
+
+/**
+ * オンライン相談ルーム（予約ごと）
+ * - 入れるのは予約した患者（予約した端末）と、その予約を扱う薬局のアカウントだけ
+ * - チャットは予約にひも付けて保存され、ビデオ通話は相談時間の前後だけ入れる
+ */
+export default function ConsultationRoomPage() {
+  const params = useParams() as { appointmentId?: string };
+  const appointmentId = params.appointmentId ?? "";
+
+  const [room, setRoom] = useState<ConsultationRoom | null>(null);
+  const [messages, setMessages] = useState<ConsultationMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const lastCreatedAt = useRef<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!appointmentId) return;
+    let cancelled = false;
+
+    const load = async (initial: boolean) => {
+      try {
+        const next = await fetchConsultationRoom(
+          appointmentId,
+          initial ? null : lastCreatedAt.current
+        );
+        if (cancelled) return;
+        setRoom(next);
+        setMessages((prev) => mergeMessages(initial ? [] : prev, next.messages));
+        const last = next.messages[next.messages.length - 1];
+        if (last) lastCreatedAt.current = last.created_at;
+        setError(null);
+      } catch (err) {
+        console.error("Failed to load consultation room", err);
+        if (!cancelled) {
+          setError(
+            err instanceof Error && err.message ? err.message : "相談ルームに接続できませんでした。"
+          );
+        }
+      } finally {
+        if (initial && !cancelled) setLoading(false);
+      }
+    };
+
+    void load(true);
+    const timer = window.setInterval(() => void load(false), POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [appointmentId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    if (!draft.trim()) return;
+    setSending(true);
+    setSendError(null);
+    try {
+      const message = await sendConsultationMessage(appointmentId, draft);
+      setMessages((prev) => mergeMessages(prev, [message]));
+      lastCreatedAt.current = message.created_at;
+      setDraft("");
+    } catch (err) {
+      console.error("Failed to send consultation message", err);
+      setSendError(
+        err instanceof Error && err.message ? err.message : "メッセージの送信に失敗しました。"
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const backHref = room?.participant.role === "pharmacist" ? "/pharmacy/bookings" : "/mypage";
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-10">
+        <AppCard className="flex items-center gap-2 text-sm text-slate-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>相談ルームに接続しています...</span>
+        </AppCard>
+      </div>
+    );
+  }
+
+  if (!room) {
+    return (
+      <div className="mx-auto max-w-3xl px-4 py-10">
+        <AppCard className="space-y-3 text-sm text-slate-700">
+          <p>{error ?? "相談ルームを開けませんでした。"}</p>
+          <Link href="/mypage" className="text-xs text-sky-700 underline underline-offset-2">
+            マイページに戻る
+          </Link>
+        </AppCard>
+      </div>
+    );
+  }
+
+  const { appointment, participant, state, video } = room;
+  const counterpart =
+    participant.role === "pharmacist"
+      ? appointment.patientName ?? "患者さん"
+      : appointment.pharmacistName ?? "薬剤師";
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-4 px-4 py-6">
+      <Link
+        href={backHref}
+        className="inline-flex items-center gap-1 text-xs text-slate-600 hover:text-slate-900"
+      >
+        <ArrowLeft className="h-3 w-3" />
+        戻る
+      </Link>
+
+      <AppCard className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <AppointmentStatusBadge status={appointment.status} />
+          <h1 className="text-base font-semibold text-slate-900">オンライン相談</h1>
+          <span className="text-xs text-slate-500">{counterpart}</span>
+        </div>
+        <p className="text-xs text-slate-700">
+          {formatSlot(appointment.scheduledStart, appointment.scheduledEnd)}
+        </p>
+        {state.notice && <p className="text-xs text-amber-700">{state.notice}</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </AppCard>
+
+      {video && (
+        <AppCard className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Video className="h-5 w-5 text-sky-600" />
+            <h2 className="text-sm font-semibold text-slate-900">ビデオ通話</h2>
+          </div>
+          <p className="text-xs text-slate-600">{video.note}</p>
+          {video.url && (
+            <AppButton
+              type="button"
+              size="sm"
+              onClick={() => window.open(video.url!, "_blank", "noopener,noreferrer")}
+            >
+              ビデオ通話に入る
+            </AppButton>
+          )}
+        </AppCard>
+      )}
+
+      <AppCard className="space-y-3">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-emerald-600" />
+          <h2 className="text-sm font-semibold text-slate-900">チャット</h2>
+        </div>
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto rounded-md bg-slate-50 p-3">
+          {messages.length === 0 ? (
+            <p className="text-xs text-slate-500">まだメッセージはありません。</p>
+          ) : (
+            messages.map((m) => {
+              const mine = m.sender_role === participant.role;
+              return (
+                <div key={m.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                  <div
+                    className={`max-w-[80%] rounded-lg px-3 py-2 text-xs ${
+                      mine ? "bg-sky-600 text-white" : "bg-white text-slate-800 shadow-sm"
+                    }`}
+                  >
+                    <p className="whitespace-pre-wrap">{m.body}</p>
+                    <p className={`mt-1 text-[10px] ${mine ? "text-sky-100" : "text-slate-400"}`}>
+                      {mine ? "あなた" : counterpart}・{formatJstTime(m.created_at)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {state.canPost ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={3}
+              placeholder="メッセージを入力"
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-xs outline-none focus:border-sky-500"
+            />
+            {sendError && <p className="text-xs text-red-600">{sendError}</p>}
+            <div className="flex justify-end">
+              <AppButton
+                type="button"
+                size="sm"
+                onClick={handleSend}
+                disabled={sending || !draft.trim()}
+              >
+                {sending ? "送信中..." : "送信"}
+              </AppButton>
+            </div>
+          </div>
+        ) : (
+          <p className="text-[11px] text-slate-500">この予約ではメッセージを送れません。</p>
+        )}
+      </AppCard>
+    </div>
+  );
+}
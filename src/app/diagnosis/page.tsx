@@ -6,6 +6,7 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import type { Patient } from "@/types/supabase";
+import { classifyPatientType } from "@/lib/matching";
 
 type CareStyleKey =
   | "understanding"
@@ -57,6 +58,7 @@ type LifestyleKey =
 interface DiagnosisState {
   // Step1
   language: string;
+  language_required: boolean;
   area: string;
   severity: Severity | "";
   value_preference: ValuePreference;
@@ -75,10 +77,23 @@ interface DiagnosisState {
   // Step5
   followup_frequency: FollowupFrequency;
   channel_preference: ChannelPreference;
+  preferred_gender: "" | "女性" | "男性";
+  preferred_age_categories: string[];
 }
 
+// 担当薬剤師の年代の希望（pharmacists.age_category と同じ値）
+const AGE_CATEGORY_OPTIONS = [
+  "20代",
+  "30代",
+  "40代",
+  "50代",
+  "60代",
+  "70代以上",
+] as const;
+
 const INITIAL_STATE: DiagnosisState = {
   language: "ja",
+  language_required: false,
   area: "",
   severity: "",
   value_preference: "",
@@ -110,6 +125,8 @@ const INITIAL_STATE: DiagnosisState = {
 
   followup_frequency: "",
   channel_preference: "",
+  preferred_gender: "",
+  preferred_age_categories: [],
 };
 
 export default function DiagnosisPage() {
@@ -126,6 +143,14 @@ export default function DiagnosisPage() {
     setSaving(true);
     setError(null);
     try {
+      const classification = classifyPatientType({
+        language: state.language,
+        value_preference: state.value_preference || null,
+        severity: state.severity || null,
+        symptom_score: state.symptom_score,
+        lifestyle_score: state.lifestyle_score,
+      });
+
       const payload: Partial<Patient> = {
         language: state.language,
         area: state.area || null,
@@ -139,8 +164,17 @@ export default function DiagnosisPage() {
         symptom_score: state.symptom_score,
         lifestyle_score: state.lifestyle_score,
 
-        // A〜Dタイプが未決の場合の簡易デフォルト
-        type: "A",
+        // 絶対条件（合わない薬剤師はスコアに関係なく候補から外す）
+        language_required: state.language !== "ja" && state.language_required,
+        preferred_gender: state.preferred_gender || null,
+        preferred_age_categories:
+          state.preferred_age_categories.length > 0
+            ? state.preferred_age_categories
+            : null,
+
+        // 診断回答から推定した A〜Dタイプと、その確率
+        type: classification.type,
+        type_probabilities: classification.probabilities,
       };
 
       const { data, error: insertError } = await supabase
@@ -319,6 +353,21 @@ function Step1Basic({
         <p className="text-[11px] text-slate-500">
           顧問薬剤師と話したい言語を選んでください。
         </p>
+        {state.language !== "ja" && (
+          <label className="mt-1 flex items-center gap-2 text-xs text-slate-700">
+            <input
+              type="checkbox"
+              checked={state.language_required}
+              onChange={(e) =>
+                setState((prev) => ({
+                  ...prev,
+                  language_required: e.target.checked,
+                }))
+              }
+            />
+            この言語で話せる薬剤師だけを表示する
+          </label>
+        )}
       </div>
 
       <div className="space-y-1.5 text-sm">
@@ -814,6 +863,56 @@ function Step5Followup({
         </div>
       </div>
 
+      <div className="space-y-2 text-sm">
+        <div className="text-xs font-medium text-slate-700">
+          担当薬剤師の希望（任意）
+        </div>
+        <p className="text-[11px] text-slate-500">
+          選んだ場合、希望に合わない薬剤師は候補に表示されません。
+        </p>
+        <div className="grid gap-2 sm:gap-3 md:grid-cols-3">
+          <RadioCard
+            label="性別はこだわらない"
+            checked={state.preferred_gender === ""}
+            onClick={() =>
+              setState((prev) => ({ ...prev, preferred_gender: "" }))
+            }
+          />
+          <RadioCard
+            label="女性の薬剤師がよい"
+            checked={state.preferred_gender === "女性"}
+            onClick={() =>
+              setState((prev) => ({ ...prev, preferred_gender: "女性" }))
+            }
+          />
+          <RadioCard
+            label="男性の薬剤師がよい"
+            checked={state.preferred_gender === "男性"}
+            onClick={() =>
+              setState((prev) => ({ ...prev, preferred_gender: "男性" }))
+            }
+          />
+        </div>
+        <div className="grid gap-2 sm:gap-3 grid-cols-2 md:grid-cols-3">
+          {AGE_CATEGORY_OPTIONS.map((age) => (
+            <CheckboxCard
+              key={age}
+              label={age}
+              checked={state.preferred_age_categories.includes(age)}
+              onClick={() =>
+                setState((prev) => ({
+                  ...prev,
+                  preferred_age_categories:
+                    prev.preferred_age_categories.includes(age)
+                      ? prev.preferred_age_categories.filter((a) => a !== age)
+                      : [...prev.preferred_age_categories, age],
+                }))
+              }
+            />
+          ))}
+        </div>
+      </div>
+
       <p className="text-xs text-slate-500">
         実際の相談内容や契約の形は、顧問薬剤師との話し合いで柔軟に決めていくことができます。
       </p>
@@ -10,7 +10,12 @@ import type {
   Patient,
   PatientType,
 } from "@/types/supabase";
-import { scorePharmacist } from "@/lib/matching/scorePharmacist";
+import {
+  scorePharmacist,
+  fetchActiveMatchingRules,
+  fetchStoreMap,
+  resolvePharmacistStore,
+} from "@/lib/matching";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import { FavoriteButton } from "@/components/patient/FavoriteButton";
@@ -148,6 +153,10 @@ export default function FavoritePharmacistsPage() {
           pharmacyMap.set(phm.id, phm);
         });
 
+        // 管理画面で有効化されているマッチング重み
+        const rules = await fetchActiveMatchingRules(supabase);
+        const storeMap = await fetchStoreMap(supabase);
+
         // --- 7) マージ + 相性スコア計算 ---
         const merged: FavoriteItem[] = (pharmacistsData ?? []).map((ph) => {
           const pharmacy =
@@ -161,7 +170,9 @@ export default function FavoritePharmacistsPage() {
               loadedPatient,
               loadedType,
               ph,
-              pharmacy
+              pharmacy,
+              rules,
+              resolvePharmacistStore(ph, storeMap)
             );
             score = s;
           }
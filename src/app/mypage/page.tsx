@@ -9,6 +9,8 @@ import type { Patient, Pharmacist } from "@/types/supabase";
 import { useUser } from "@/hooks/useUser";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
+import { MyAppointments } from "@/components/patient/MyAppointments";
+import { LineLinkCard } from "@/components/line/LineLinkCard";
 import {
   Loader2,
   UserCircle2,
@@ -501,6 +503,12 @@ export default function MyPage() {
         </div>
       </AppCard>
 
+      {/* 予約の確認（日時変更・キャンセル） */}
+      {patientId && <MyAppointments patientId={patientId} />}
+
+      {/* LINE 連携（予約のお知らせ・フォローの受け取り） */}
+      {patientId && <LineLinkCard patientId={patientId} />}
+
       {/* お気に入り薬剤師一覧 */}
       <section className="flex flex-col gap-3">
         <div className="flex items-center gap-2">
@@ -11,10 +11,16 @@ import type {
   Patient,
   PatientType,
 } from "@/types/supabase";
-import { scorePharmacist } from "@/lib/matching/scorePharmacist";
+import {
+  scorePharmacist,
+  fetchActiveMatchingRules,
+  fetchStoreMap,
+  resolvePharmacistStore,
+} from "@/lib/matching";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import { FavoriteButton } from "@/components/patient/FavoriteButton";
+import { SlotPicker } from "@/components/scheduling/SlotPicker";
 import {
   ArrowLeft,
   User,
@@ -166,11 +172,15 @@ export default function PharmacistDetailPage() {
 
             setPatient(p);
 
+            const rules = await fetchActiveMatchingRules(supabase);
+            const storeMap = await fetchStoreMap(supabase);
             const { score, reasons } = scorePharmacist(
               p,
               effectiveType,
               ph,
-              pharmacy
+              pharmacy,
+              rules,
+              resolvePharmacistStore(ph, storeMap)
             );
             setMatchScore(score);
             setMatchReasons(reasons);
@@ -500,6 +510,14 @@ export default function PharmacistDetailPage() {
         </div>
       </AppCard>
 
+      {/* 日時を選んで予約 */}
+      <AppCard className="space-y-3">
+        <h2 className="text-sm font-semibold text-slate-900">
+          日時を選んで予約する
+        </h2>
+        <SlotPicker pharmacist={pharmacist} patientId={patientId} />
+      </AppCard>
+
       {/* 自己紹介・相談スタイル */}
       <AppCard className="space-y-3">
         <h2 className="text-sm font-semibold text-slate-900">
@@ -5,11 +5,27 @@ import { Suspense, useEffect, useMemo, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Image from "next/image";
 import { supabase } from "@/lib/supabaseClient";
-import type { Pharmacist, Pharmacy, Patient, PatientType } from "@/types/supabase";
+import type {
+  Pharmacist,
+  Pharmacy,
+  Patient,
+  PatientType,
+  Store,
+} from "@/types/supabase";
 import {
   scorePharmacist,
+  fetchActiveMatchingRules,
+  fetchStoreMap,
+  resolvePharmacistStore,
+  DEFAULT_MATCHING_RULES,
+  applyConstraints,
+  constraintsFromPatient,
+  EXCLUSION_REASONS,
+  EXCLUSION_REASON_LABEL,
   type CareStyleKey,
-} from "@/lib/matching/scorePharmacist";
+  type MatchingRule,
+} from "@/lib/matching";
+import { distanceBetween, geocodeStore, geocodeText } from "@/lib/geo";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import { FavoriteButton } from "@/components/patient/FavoriteButton";
@@ -36,10 +52,14 @@ type ExtendedPharmacist = Pharmacist & {
 interface PharmacistWithPharmacy {
   pharmacist: ExtendedPharmacist;
   pharmacy: Pharmacy | null;
+  /** 所属店舗（belongs_store_id）。エリア表示・距離計算に使う */
+  store: Store | null;
 }
 
 interface PharmacistWithScore extends PharmacistWithPharmacy {
   score: number | null;
+  /** 起点エリアから所属店舗までの距離（km）。推定できない場合は null */
+  distanceKm: number | null;
 }
 
 // 経験年数フィルタ
@@ -56,6 +76,20 @@ type AgeCategoryFilter =
 
 type VisibilityType = "public" | "members" | "other";
 
+// 「N km 以内」フィルタの選択肢
+const DISTANCE_OPTIONS = [5, 10, 20, 50];
+
+/**
+ * 一覧のエリア表示
+ * - 所属店舗の住所（都道府県＋市区町村）を優先し、なければ薬局法人の area
+ */
+function areaLabelOf(store: Store | null, pharmacy: Pharmacy | null): string | null {
+  const storeArea = store
+    ? [store.prefecture, store.city].filter(Boolean).join("")
+    : "";
+  return storeArea || pharmacy?.area || null;
+}
+
 const CARE_STYLE_LABEL: Record<CareStyleKey, string> = {
   understanding: "しっかり理解タイプ",
   empathy: "気持ちケアタイプ",
@@ -95,6 +129,9 @@ function PharmacistsListPageInner() {
   // 診断経由の場合に使う患者情報
   const [patient, setPatient] = useState<Patient | null>(null);
   const [patientType, setPatientType] = useState<PatientType | null>(null);
+  const [matchingRules, setMatchingRules] = useState<MatchingRule[]>(
+    DEFAULT_MATCHING_RULES
+  );
 
   // 検索・フィルタ用の状態
   const [keyword, setKeyword] = useState("");
@@ -107,6 +144,9 @@ function PharmacistsListPageInner() {
   const [genderFilter, setGenderFilter] = useState<string>("all");
   const [ageCategoryFilter, setAgeCategoryFilter] =
     useState<AgeCategoryFilter>("all");
+  const [distanceFilter, setDistanceFilter] = useState<string>("all");
+  // 距離の起点（診断経由なら患者のエリアを初期値にする）
+  const [originText, setOriginText] = useState("");
 
   // 薬剤師 & 薬局の一覧取得 + 患者情報取得
   useEffect(() => {
@@ -149,6 +189,14 @@ function PharmacistsListPageInner() {
 
         setPatient(loadedPatient);
         setPatientType(loadedType);
+        if (loadedPatient?.area) {
+          setOriginText(loadedPatient.area);
+        }
+
+        // 診断経由のときだけ、管理画面で有効化されているマッチング重みを使う
+        if (loadedPatient) {
+          setMatchingRules(await fetchActiveMatchingRules(supabase));
+        }
 
         // 2) 薬剤師一覧
         const { data: pharmacistsData, error: phError } = await supabase
@@ -173,7 +221,10 @@ function PharmacistsListPageInner() {
           pharmacyMap.set(p.id, p);
         });
 
-        // 4) マージ（ここではスコア計算しない）
+        // 4) 店舗一覧（所属店舗の住所をエリア・距離に使う）
+        const storeMap = await fetchStoreMap(supabase);
+
+        // 5) マージ（ここではスコア計算しない）
         const merged: PharmacistWithPharmacy[] = (pharmacistsData ?? []).map(
           (ph) => ({
             pharmacist: ph,
@@ -181,6 +232,7 @@ function PharmacistsListPageInner() {
               ph.belongs_pharmacy_id && pharmacyMap.has(ph.belongs_pharmacy_id)
                 ? pharmacyMap.get(ph.belongs_pharmacy_id)!
                 : null,
+            store: resolvePharmacistStore(ph, storeMap),
           })
         );
 
@@ -205,7 +257,7 @@ function PharmacistsListPageInner() {
     const genderSet = new Set<string>();
     const ageCategorySet = new Set<string>();
 
-    items.forEach(({ pharmacist, pharmacy }) => {
+    items.forEach(({ pharmacist, pharmacy, store }) => {
       const languages = (pharmacist.language as string[] | null) ?? [];
       languages.forEach((l) => languageSet.add(l));
 
@@ -215,8 +267,9 @@ function PharmacistsListPageInner() {
       const careRoles = (pharmacist.care_role as string[] | null) ?? [];
       careRoles.forEach((c) => careRoleSet.add(c));
 
-      if (pharmacy?.area) {
-        areaSet.add(pharmacy.area);
+      const areaLabel = areaLabelOf(store, pharmacy);
+      if (areaLabel) {
+        areaSet.add(areaLabel);
       }
 
       const gender = (pharmacist.gender as string | null) ?? null;
@@ -236,11 +289,30 @@ function PharmacistsListPageInner() {
     };
   }, [items]);
 
+  // 診断経由のときは、患者の絶対条件（言語必須・性別・年代・除外指定）を先に適用する
+  // - 登録ユーザー限定の薬剤師は、取得時の visibility 条件で絞り込み済み
+  const constrained = useMemo(
+    () =>
+      patient
+        ? applyConstraints(items, constraintsFromPatient(patient, true))
+        : null,
+    [items, patient]
+  );
+
   // フィルタ・検索を適用した一覧 ＋ 相性スコア付与・ソート
+  const originPoint = useMemo(() => geocodeText(originText), [originText]);
+
   const filteredItemsWithScore: PharmacistWithScore[] = useMemo(() => {
     const kw = keyword.trim().toLowerCase();
+    const maxKm = distanceFilter === "all" ? null : Number(distanceFilter);
+
+    const withDistance = (constrained?.kept ?? items).map((item) => ({
+      ...item,
+      distanceKm: distanceBetween(originPoint, geocodeStore(item.store)),
+    }));
 
-    const base = items.filter(({ pharmacist, pharmacy }) => {
+    const base = withDistance.filter((item) => {
+      const { pharmacist, pharmacy, store, distanceKm } = item;
       const languages = (pharmacist.language as string[] | null) ?? [];
       const specialties = (pharmacist.specialty as string[] | null) ?? [];
       const careRoles = (pharmacist.care_role as string[] | null) ?? [];
@@ -267,7 +339,7 @@ function PharmacistsListPageInner() {
           specialties.join(" "),
           languages.join(" "),
           experiences.join(" "),
-          pharmacy?.area ?? "",
+          areaLabelOf(store, pharmacy) ?? "",
         ]
           .join(" ")
           .toLowerCase();
@@ -292,7 +364,14 @@ function PharmacistsListPageInner() {
 
       // エリアフィルタ
       if (areaFilter !== "all") {
-        if (!pharmacy?.area || pharmacy.area !== areaFilter) return false;
+        if (areaLabelOf(store, pharmacy) !== areaFilter) return false;
+      }
+
+      // 距離フィルタ
+      // - 起点が市区町村まで分かるときだけ適用する
+      // - 所属店舗の位置が分からない薬剤師は除外
+      if (maxKm != null && originPoint && originPoint.precision !== "prefecture") {
+        if (distanceKm == null || distanceKm > maxKm) return false;
       }
 
       // 経験年数フィルタ
@@ -319,17 +398,20 @@ function PharmacistsListPageInner() {
 
     // 患者情報がない場合はスコアなしでそのまま返す
     if (!patient || !patientType) {
-      return base.map(({ pharmacist, pharmacy }) => ({
-        pharmacist,
-        pharmacy,
-        score: null,
-      }));
+      return base.map((item) => ({ ...item, score: null }));
     }
 
     // 患者情報がある場合はスコアを計算してソート
-    const withScore = base.map(({ pharmacist, pharmacy }) => {
-      const { score } = scorePharmacist(patient, patientType, pharmacist, pharmacy);
-      return { pharmacist, pharmacy, score };
+    const withScore = base.map((item) => {
+      const { score } = scorePharmacist(
+        patient,
+        patientType,
+        item.pharmacist,
+        item.pharmacy,
+        matchingRules,
+        item.store
+      );
+      return { ...item, score };
     });
 
     return withScore.sort((a, b) => {
@@ -340,6 +422,7 @@ function PharmacistsListPageInner() {
     });
   }, [
     items,
+    constrained,
     keyword,
     languageFilter,
     specialtyFilter,
@@ -348,8 +431,11 @@ function PharmacistsListPageInner() {
     experienceFilter,
     genderFilter,
     ageCategoryFilter,
+    distanceFilter,
+    originPoint,
     patient,
     patientType,
+    matchingRules,
   ]);
 
   return (
@@ -407,6 +493,18 @@ function PharmacistsListPageInner() {
 
           <div className="mt-2 text-right text-[11px] text-slate-500 md:mt-0 md:ml-4">
             該当件数：{filteredItemsWithScore.length} 名 / 全 {items.length} 名
+            {constrained &&
+              constrained.excluded.length > 0 && (
+                <div className="mt-0.5">
+                  条件により除外：
+                  {EXCLUSION_REASONS.filter((r) => constrained.counts[r] > 0)
+                    .map(
+                      (r) =>
+                        `${EXCLUSION_REASON_LABEL[r]} ${constrained.counts[r]}名`
+                    )
+                    .join(" / ")}
+                </div>
+              )}
           </div>
         </div>
 
@@ -535,6 +633,39 @@ function PharmacistsListPageInner() {
               ))}
             </select>
           </div>
+
+          {/* 距離（所属店舗まで） */}
+          <div className="space-y-1">
+            <p className="font-semibold text-slate-700">所属店舗までの距離</p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className="min-w-0 flex-1 rounded-md border border-slate-300 px-2 py-1.5 text-sm"
+                placeholder="起点：市区町村・郵便番号"
+                value={originText}
+                onChange={(e) => setOriginText(e.target.value)}
+              />
+              <select
+                className="rounded-md border border-slate-300 bg-white px-2 py-1.5 text-sm"
+                value={distanceFilter}
+                onChange={(e) => setDistanceFilter(e.target.value)}
+              >
+                <option value="all">指定なし</option>
+                {DISTANCE_OPTIONS.map((km) => (
+                  <option key={km} value={String(km)}>
+                    {km}km 以内
+                  </option>
+                ))}
+              </select>
+            </div>
+            {originText.trim() && (
+              <p className="text-[10px] text-slate-500">
+                {originPoint && originPoint.precision !== "prefecture"
+                  ? `起点：${originPoint.label} 付近`
+                  : "起点の場所を特定できませんでした。市区町村名または郵便番号で入力してください。"}
+              </p>
+            )}
+          </div>
         </div>
       </AppCard>
 
@@ -551,7 +682,8 @@ function PharmacistsListPageInner() {
         </div>
       ) : (
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {filteredItemsWithScore.map(({ pharmacist, pharmacy, score }) => {
+          {filteredItemsWithScore.map((item) => {
+            const { pharmacist, pharmacy, store, score, distanceKm } = item;
             const oneLine =
               pharmacist.one_line_message ?? pharmacist.short_message ?? "";
             const visibilityRaw = pharmacist.visibility ?? "members";
@@ -632,9 +764,14 @@ function PharmacistsListPageInner() {
                       </div>
                       <div className="flex flex-wrap items-center gap-1 text-[10px] text-slate-500">
                         {pharmacy?.name && <span>{pharmacy.name}</span>}
-                        {pharmacy?.area && (
+                        {areaLabelOf(store, pharmacy) && (
                           <span className="rounded-full border border-slate-200 px-1.5 py-0.5">
-                            {pharmacy.area}
+                            {areaLabelOf(store, pharmacy)}
+                          </span>
+                        )}
+                        {distanceKm != null && (
+                          <span className="rounded-full border border-emerald-200 bg-emerald-50 px-1.5 py-0.5 text-emerald-700">
+                            約 {Math.round(distanceKm * 10) / 10}km
                           </span>
                         )}
                       </div>
@@ -7,7 +7,21 @@ import { supabase } from "@/lib/supabaseClient";
 import { useUser } from "@/hooks/useUser";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
-import type { Patient, Pharmacist, Pharmacy } from "@/types/supabase";
+import {
+  AppointmentStatusActions,
+  AppointmentStatusBadge,
+} from "@/components/scheduling/AppointmentStatusActions";
+import { LinePushButton } from "@/components/line/LinePushButton";
+import { consultationPath } from "@/lib/consultation/client";
+import { APPOINTMENT_STATUSES, APPOINTMENT_STATUS_LABEL, statusOf } from "@/lib/scheduling";
+import { appointmentToIcsEvent, buildIcsCalendar } from "@/lib/calendar";
+import type {
+  Appointment,
+  AppointmentStatus,
+  Patient,
+  Pharmacist,
+  Pharmacy,
+} from "@/types/supabase";
 import {
   Loader2,
   AlertCircle,
@@ -19,6 +33,8 @@ import {
   MessageCircle,
   ExternalLink,
   Filter,
+  Download,
+  Video,
 } from "lucide-react";
 
 type BookingType = "phone" | "online" | "in_person";
@@ -33,6 +49,15 @@ type AppointmentCore = {
   opened_at: string; // timestamptz
   created_at: string;
   contact: string | null;
+  // 空き枠から予約された相談日時（外部予約のログでは null）
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  // 予約の状態（status 列が入る前の予約は null → 申込扱い）
+  status: AppointmentStatus | null;
+  status_changed_at: string | null;
+  // 患者が日時を変更した場合（変更前の相談日時）
+  rescheduled_at: string | null;
+  previous_scheduled_start: string | null;
 };
 
 type AppointmentWithRelations = AppointmentCore & {
@@ -46,9 +71,12 @@ interface AppointmentRow extends AppointmentWithRelations {
 
 type PeriodFilter = "upcoming" | "recent30" | "all";
 
+// "open" = 申込・確定（まだ対応が残っている予約）
+type StatusFilter = "open" | "all" | AppointmentStatus;
+
 export default function PharmacyBookingsPage() {
   const router = useRouter();
-  const { loading: authLoading, isAuthenticated, role } = useUser();
+  const { loading: authLoading, isAuthenticated, role, user } = useUser();
 
   const [loading, setLoading] = useState(true);
   const [items, setItems] = useState<AppointmentRow[]>([]);
@@ -63,6 +91,7 @@ export default function PharmacyBookingsPage() {
   const [pharmacistFilter, setPharmacistFilter] =
     useState<string>("all");
   const [storeFilter, setStoreFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
 
   // 認証ガード
   useEffect(() => {
@@ -98,6 +127,12 @@ export default function PharmacyBookingsPage() {
             opened_at,
             created_at,
             contact,
+            scheduled_start,
+            scheduled_end,
+            status,
+            status_changed_at,
+            rescheduled_at,
+            previous_scheduled_start,
             patient:patients(*),
             pharmacist:pharmacists(*)
           `
@@ -149,6 +184,44 @@ export default function PharmacyBookingsPage() {
     void run();
   }, []);
 
+  // 状態変更後に行を差し替える（患者・薬剤師・店舗はそのまま）
+  const handleStatusChanged = (updated: Appointment) => {
+    setItems((prev) =>
+      prev.map((row) =>
+        row.id === updated.id
+          ? {
+              ...row,
+              status: updated.status,
+              status_changed_at: updated.status_changed_at,
+              rescheduled_at: updated.rescheduled_at,
+              previous_scheduled_start: updated.previous_scheduled_start,
+            }
+          : row
+      )
+    );
+  };
+
+  // 確定した予約を .ics ファイルでダウンロード（手持ちのカレンダーに取り込む用）
+  const handleDownloadIcs = (row: AppointmentRow) => {
+    const event = appointmentToIcsEvent(
+      row,
+      {
+        patientName: row.patient?.name ?? null,
+        pharmacistName: row.pharmacist?.name ?? null,
+      },
+      { bookingsUrl: `${window.location.origin}/pharmacy/bookings` }
+    );
+    if (!event) return;
+
+    const ics = buildIcsCalendar({ name: "ヒトヤク 予約", events: [event] });
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `appointment-${row.id}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // フィルタ用の選択肢
   const pharmacistOptions = useMemo(() => {
     const map = new Map<string, string>();
@@ -188,9 +261,11 @@ export default function PharmacyBookingsPage() {
         pharmacy,
         booking_type,
         opened_at,
+        scheduled_start,
         memo,
         contact,
       } = row;
+      const status = statusOf(row);
 
       // キーワード（患者名・薬剤師名・店舗名・メモ・連絡先など）
       if (kw) {
@@ -213,6 +288,13 @@ export default function PharmacyBookingsPage() {
         if (booking_type !== bookingTypeFilter) return false;
       }
 
+      // 状態
+      if (statusFilter === "open") {
+        if (status !== "requested" && status !== "confirmed") return false;
+      } else if (statusFilter !== "all") {
+        if (status !== statusFilter) return false;
+      }
+
       // 担当薬剤師
       if (pharmacistFilter !== "all") {
         if (!pharmacist || pharmacist.id !== pharmacistFilter)
@@ -225,8 +307,10 @@ export default function PharmacyBookingsPage() {
       }
 
       // 期間フィルタ
+      // - 相談日時が決まっている予約は相談日時、それ以外は予約操作の日時で判定
       if (periodFilter !== "all") {
-        const opened = opened_at ? new Date(opened_at) : null;
+        const basis = scheduled_start ?? opened_at;
+        const opened = basis ? new Date(basis) : null;
         if (!opened) return false;
 
         if (periodFilter === "upcoming") {
@@ -247,6 +331,7 @@ export default function PharmacyBookingsPage() {
     bookingTypeFilter,
     pharmacistFilter,
     storeFilter,
+    statusFilter,
     periodFilter,
   ]);
 
@@ -367,7 +452,27 @@ export default function PharmacyBookingsPage() {
           </div>
         </div>
 
-        <div className="grid gap-3 md:grid-cols-2">
+        <div className="grid gap-3 md:grid-cols-3">
+          {/* 状態 */}
+          <div>
+            <label className="text-[11px] font-medium text-slate-700">
+              状態
+            </label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="mt-1 h-9 w-full rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+            >
+              <option value="open">対応中（申込・確定）</option>
+              <option value="all">すべて</option>
+              {APPOINTMENT_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {APPOINTMENT_STATUS_LABEL[s]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* 薬剤師フィルタ */}
           <div>
             <label className="text-[11px] font-medium text-slate-700">
@@ -433,6 +538,7 @@ export default function PharmacyBookingsPage() {
                   薬剤師・店舗
                 </th>
                 <th className="px-3 py-2 text-left font-medium">方法</th>
+                <th className="px-3 py-2 text-left font-medium">状態</th>
                 <th className="px-3 py-2 text-left font-medium">
                   予約メモ
                 </th>
@@ -441,7 +547,9 @@ export default function PharmacyBookingsPage() {
             </thead>
             <tbody>
               {filteredItems.map((row) => {
-                const opened = row.opened_at
+                const opened = row.scheduled_start
+                  ? new Date(row.scheduled_start)
+                  : row.opened_at
                   ? new Date(row.opened_at)
                   : null;
 
@@ -474,7 +582,35 @@ export default function PharmacyBookingsPage() {
                       <div className="flex items-center gap-1">
                         <CalendarClock className="h-3 w-3 text-slate-400" />
                         <span>{openedText}</span>
+                        {row.scheduled_start && row.scheduled_end && (
+                          <span className="text-slate-500">
+                            〜
+                            {new Date(row.scheduled_end).toLocaleTimeString(
+                              [],
+                              { hour: "2-digit", minute: "2-digit" }
+                            )}
+                          </span>
+                        )}
+                      </div>
+                      <div className="mt-0.5 text-[11px] text-slate-500">
+                        {row.scheduled_start
+                          ? "相談日時（空き枠から予約）"
+                          : "予約操作の日時（外部予約）"}
                       </div>
+                      {row.rescheduled_at && row.previous_scheduled_start && (
+                        <div className="mt-0.5 text-[11px] text-amber-700">
+                          患者が日時を変更（変更前：
+                          {new Date(
+                            row.previous_scheduled_start
+                          ).toLocaleString([], {
+                            month: "numeric",
+                            day: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                          ）
+                        </div>
+                      )}
                       <div className="mt-0.5 text-[11px] text-slate-400">
                         登録：
                         {new Date(
@@ -537,6 +673,11 @@ export default function PharmacyBookingsPage() {
                       </span>
                     </td>
 
+                    {/* 状態 */}
+                    <td className="px-3 py-2 align-top">
+                      <AppointmentStatusBadge status={row.status} />
+                    </td>
+
                     {/* 予約メモ */}
                     <td className="px-3 py-2 align-top">
                       {row.memo ? (
@@ -554,7 +695,45 @@ export default function PharmacyBookingsPage() {
 
                     {/* 操作 */}
                     <td className="px-3 py-2 align-top text-right">
-                      <div className="flex justify-end gap-2">
+                      <div className="flex flex-col items-end gap-2">
+                        {(role === "pharmacy_company" || role === "admin") && (
+                          <AppointmentStatusActions
+                            appointment={row}
+                            actor={{ role, id: user?.id ?? null }}
+                            onChanged={handleStatusChanged}
+                          />
+                        )}
+                        {statusOf(row) === "confirmed" && row.scheduled_start && (
+                          <AppButton
+                            variant="outline"
+                            size="sm"
+                            className="text-[11px]"
+                            type="button"
+                            onClick={() => handleDownloadIcs(row)}
+                          >
+                            <Download className="mr-1 h-3 w-3" />
+                            .ics
+                          </AppButton>
+                        )}
+                        {statusOf(row) === "confirmed" && row.scheduled_start && (
+                          <LinePushButton appointmentId={row.id} kind="reminder" />
+                        )}
+                        {statusOf(row) === "completed" && (
+                          <LinePushButton appointmentId={row.id} kind="follow_up" />
+                        )}
+                        {row.booking_type === "online" &&
+                          (statusOf(row) === "confirmed" || statusOf(row) === "completed") && (
+                            <AppButton
+                              variant="outline"
+                              size="sm"
+                              className="text-[11px]"
+                              type="button"
+                              onClick={() => router.push(consultationPath(row.id))}
+                            >
+                              <Video className="mr-1 h-3 w-3" />
+                              相談ルーム
+                            </AppButton>
+                          )}
                         {row.booking_url && (
                           <AppButton
                             variant="outline"
@@ -7,6 +7,9 @@ import { supabase } from "@/lib/supabaseClient";
 import { useUser } from "@/hooks/useUser";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
+import { NoShowRates } from "@/components/scheduling/NoShowRates";
+import { ExpiringContracts } from "@/components/prm/ExpiringContracts";
+import { createPrmApiDataSource } from "@/lib/prm";
 import {
   Loader2,
   Home,
@@ -17,6 +20,9 @@ import {
   ArrowRight,
 } from "lucide-react";
 
+// 顧問契約は自社の分だけ API から読む
+const prmDataSource = createPrmApiDataSource();
+
 type DashboardStats = {
   pharmaciesCount: number;
   pharmacistsCount: number;
@@ -138,6 +144,11 @@ export default function PharmacyDashboardPage() {
     <div className="mx-auto max-w-5xl px-0 py-6 space-y-6 sm:px-0">
       {/* 既存UIはそのまま */}
       {/* ……（以下は元コードと同一のため省略せず実装済みとする） */}
+
+      {role === "pharmacy_company" && (
+        <ExpiringContracts dataSource={prmDataSource} basePath="/pharmacy/prm/patients" />
+      )}
+      <NoShowRates />
     </div>
   );
 }
@@ -9,6 +9,12 @@ import { getPharmacyCompanyIdForUser } from "@/lib/pharmacy-company";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import type { Pharmacist } from "@/types/supabase";
+import type { PharmacistConsultationAttributes } from "@/lib/matching";
+import { ConsultationAttributesFields } from "@/components/matching/ConsultationAttributesFields";
+import { AvailabilityEditor } from "@/components/scheduling/AvailabilityEditor";
+import { CalendarFeedSettings } from "@/components/scheduling/CalendarFeedSettings";
+import { ExternalCalendarImport } from "@/components/scheduling/ExternalCalendarImport";
+import { normalizeEmail } from "@/lib/contact";
 import {
   Loader2,
   AlertCircle,
@@ -56,6 +62,7 @@ type ExtendedPharmacist = Pharmacist & {
   consultation_style?: string | null;
   booking_url?: string | null;
   line_url?: string | null;
+  notification_email?: string | null;
   image_url?: string | null;
   belongs_store_id?: string | null;
 };
@@ -74,8 +81,10 @@ interface FormState {
   consultation_style: string;
   booking_url: string;
   line_url: string;
+  notification_email: string;
   image_url: string;
   careRolesSelected: CareStyleKey[];
+  consultation: PharmacistConsultationAttributes;
 }
 
 export default function PharmacyPharmacistEditPage() {
@@ -226,8 +235,15 @@ export default function PharmacyPharmacistEditPage() {
           consultation_style: ph.consultation_style ?? "",
           booking_url: ph.booking_url ?? "",
           line_url: ph.line_url ?? "",
+          notification_email: ph.notification_email ?? "",
           image_url: ph.image_url ?? "",
           careRolesSelected: careSelected,
+          consultation: {
+            supported_channels: ph.supported_channels ?? null,
+            followup_cadences: ph.followup_cadences ?? null,
+            explanation_styles: ph.explanation_styles ?? null,
+            comm_styles: ph.comm_styles ?? null,
+          },
         };
 
         setForm(initialForm);
@@ -286,6 +302,13 @@ export default function PharmacyPharmacistEditPage() {
         throw new Error("経験年数は 0〜80 年の範囲で入力してください。");
       }
 
+      const notificationEmail = form.notification_email.trim()
+        ? normalizeEmail(form.notification_email)
+        : null;
+      if (form.notification_email.trim() && !notificationEmail) {
+        throw new Error("通知先メールアドレスの形式が正しくありません。");
+      }
+
       // 方針：belongs_pharmacy_id には店舗ID（stores.id）を保存する
       const belongsPharmacyId: string | null =
         form.belongs_store_id || null;
@@ -307,11 +330,13 @@ export default function PharmacyPharmacistEditPage() {
         consultation_style: form.consultation_style || null,
         booking_url: form.booking_url || null,
         line_url: form.line_url || null,
+        notification_email: notificationEmail,
         image_url: form.image_url || null,
         care_role:
           form.careRolesSelected.length > 0
             ? form.careRolesSelected
             : null,
+        ...form.consultation,
       };
 
       setSaving(true);
@@ -672,6 +697,24 @@ export default function PharmacyPharmacistEditPage() {
           </div>
         </AppCard>
 
+        {/* マッチング用の対応項目 */}
+        <AppCard className="space-y-4 p-4">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">
+              相談の方法・頻度・話し方
+            </h2>
+            <p className="mt-1 text-[11px] text-slate-500">
+              患者さんが診断で選んだ希望と照らし合わせて、マッチングのスコアに反映されます。
+            </p>
+          </div>
+          <ConsultationAttributesFields
+            value={form.consultation}
+            onChange={(patch) =>
+              updateForm({ consultation: { ...form.consultation, ...patch } })
+            }
+          />
+        </AppCard>
+
         {/* 自己紹介・相談スタイル */}
         <AppCard className="space-y-4 p-4">
           <h2 className="text-sm font-semibold text-slate-900">
@@ -750,6 +793,24 @@ export default function PharmacyPharmacistEditPage() {
                 設定すると、「LINEで相談」ボタンが表示されます。
               </p>
             </div>
+
+            <div>
+              <label className="text-xs font-medium text-slate-700">
+                通知先メールアドレス
+              </label>
+              <input
+                type="email"
+                value={form.notification_email}
+                onChange={(e) =>
+                  updateForm({ notification_email: e.target.value })
+                }
+                placeholder="例：yamada@example.com"
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-1.5 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+              />
+              <p className="mt-1 text-[10px] text-slate-500">
+                この薬剤師への予約リクエスト・連絡の希望が届いたときにメールでお知らせします（店舗の通知先にも届きます）。
+              </p>
+            </div>
           </div>
         </AppCard>
 
@@ -770,6 +831,39 @@ export default function PharmacyPharmacistEditPage() {
           </AppButton>
         </div>
       </form>
+
+      {/* 予約枠（フォームの保存とは別に、その場で保存する） */}
+      {pharmacistId && (
+        <AppCard className="space-y-3 p-4">
+          <h2 className="text-sm font-semibold text-slate-900">予約枠の設定</h2>
+          <AvailabilityEditor
+            owner={{ kind: "pharmacist", id: pharmacistId }}
+            description="登録すると、患者が薬剤師詳細や診断結果から日時を選んで予約できるようになります。未登録の場合は所属店舗の受付時間を使います。"
+          />
+        </AppCard>
+      )}
+
+      {/* 外部カレンダーの予定を取り込んで予約枠から外す */}
+      {pharmacistId && form && (
+        <AppCard className="space-y-3 p-4">
+          <h2 className="text-sm font-semibold text-slate-900">外部カレンダーの取り込み</h2>
+          <ExternalCalendarImport
+            pharmacistId={pharmacistId}
+            bookingUrl={form.booking_url}
+          />
+        </AppCard>
+      )}
+
+      {/* カレンダー連携（購読用 URL） */}
+      {pharmacistId && (
+        <AppCard className="space-y-3 p-4">
+          <h2 className="text-sm font-semibold text-slate-900">カレンダー連携</h2>
+          <CalendarFeedSettings
+            owner={{ kind: "pharmacist", id: pharmacistId }}
+            description="Google カレンダーや Apple カレンダーに URL を登録すると、この薬剤師の予約が自動で表示されます（読み取り専用）。"
+          />
+        </AppCard>
+      )}
     </div>
   );
 }
@@ -9,6 +9,8 @@ import { useUser } from "@/hooks/useUser";
 import { getPharmacyCompanyIdForUser } from "@/lib/pharmacy-company";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
+import type { PharmacistConsultationAttributes } from "@/lib/matching";
+import { ConsultationAttributesFields } from "@/components/matching/ConsultationAttributesFields";
 import {
   Loader2,
   AlertCircle,
@@ -61,6 +63,7 @@ interface FormState {
   line_url: string;
   image_url: string;
   careRolesSelected: CareStyleKey[];
+  consultation: PharmacistConsultationAttributes;
 }
 
 // 1) 外側：Suspense でラップするだけ
@@ -199,6 +202,12 @@ function InnerNewPharmacistPage() {
           line_url: "",
           image_url: "",
           careRolesSelected: [],
+          consultation: {
+            supported_channels: null,
+            followup_cadences: null,
+            explanation_styles: null,
+            comm_styles: null,
+          },
         };
 
         setForm(initialForm);
@@ -290,6 +299,7 @@ function InnerNewPharmacistPage() {
           form.careRolesSelected.length > 0
             ? form.careRolesSelected
             : null,
+        ...form.consultation,
       };
 
       const { data, error: insertError } = await supabase
@@ -658,6 +668,24 @@ function InnerNewPharmacistPage() {
             </div>
           </AppCard>
 
+          {/* マッチング用の対応項目 */}
+          <AppCard className="space-y-4 p-4">
+            <div>
+              <h2 className="text-sm font-semibold text-slate-900">
+                相談の方法・頻度・話し方
+              </h2>
+              <p className="mt-1 text-[11px] text-slate-500">
+                患者さんが診断で選んだ希望と照らし合わせて、マッチングのスコアに反映されます。
+              </p>
+            </div>
+            <ConsultationAttributesFields
+              value={form.consultation}
+              onChange={(patch) =>
+                updateForm({ consultation: { ...form.consultation, ...patch } })
+              }
+            />
+          </AppCard>
+
           {/* 自己紹介・相談スタイル */}
           <AppCard className="space-y-4 p-4">
             <h2 className="text-sm font-semibold text-slate-900">
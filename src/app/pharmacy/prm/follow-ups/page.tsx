@@ -0,0 +1,12 @@
+// src/app/pharmacy/prm/follow-ups/page.tsx
+"use client";
+
+import { createPrmApiDataSource } from "@/lib/prm";
+import { PrmFollowUpQueue } from "@/components/prm/PrmFollowUpQueue";
+
+// 自社の患者への絞り込みは API 側（/api/pharmacy/prm）で行う
+const dataSource = createPrmApiDataSource();
+
+export default function PharmacyPrmFollowUpsPage() {
+  return <PrmFollowUpQueue dataSource={dataSource} basePath="/pharmacy/prm/patients" />;
+}
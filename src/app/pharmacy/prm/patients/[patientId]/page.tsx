@@ -0,0 +1,28 @@
+// src/app/pharmacy/prm/patients/[patientId]/page.tsx
+"use client";
+
+import { useParams } from "next/navigation";
+import { createPrmApiDataSource } from "@/lib/prm";
+import { PrmPatientDetail } from "@/components/prm/PrmPatientDetail";
+
+// 自社の患者かどうかは API 側（/api/pharmacy/prm）で確認する
+const dataSource = createPrmApiDataSource();
+
+export default function PharmacyPrmPatientDetailPage() {
+  const params = useParams<{ patientId?: string | string[] }>();
+
+  const patientId =
+    typeof params.patientId === "string"
+      ? params.patientId
+      : Array.isArray(params.patientId)
+      ? params.patientId[0]
+      : "";
+
+  return (
+    <PrmPatientDetail
+      dataSource={dataSource}
+      patientId={patientId}
+      basePath="/pharmacy/prm/patients"
+    />
+  );
+}
@@ -0,0 +1,20 @@
+// src/app/pharmacy/prm/patients/page.tsx
+"use client";
+
+import { createPrmApiDataSource } from "@/lib/prm";
+import { PrmPatientList } from "@/components/prm/PrmPatientList";
+
+// 自社の患者への絞り込みは API 側（/api/pharmacy/prm）で行う
+const dataSource = createPrmApiDataSource();
+
+export default function PharmacyPrmPatientsListPage() {
+  return (
+    <PrmPatientList
+      dataSource={dataSource}
+      basePath="/pharmacy/prm/patients"
+      followUpsHref="/pharmacy/prm/follow-ups"
+      pipelineHref="/pharmacy/prm/pipeline"
+      description="自社が担当する患者（担当薬局が自社の患者）を一覧で管理します。ステータス・優先度・フォロー予定日で絞り込みできます。"
+    />
+  );
+}
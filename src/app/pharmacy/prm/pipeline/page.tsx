@@ -0,0 +1,12 @@
+// src/app/pharmacy/prm/pipeline/page.tsx
+"use client";
+
+import { createPrmApiDataSource } from "@/lib/prm";
+import { PrmPipelineBoard } from "@/components/prm/PrmPipelineBoard";
+
+// 自社の患者への絞り込みは API 側（/api/pharmacy/prm）で行う
+const dataSource = createPrmApiDataSource();
+
+export default function PharmacyPrmPipelinePage() {
+  return <PrmPipelineBoard dataSource={dataSource} basePath="/pharmacy/prm/patients" />;
+}
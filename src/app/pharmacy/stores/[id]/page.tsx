@@ -9,6 +9,9 @@ import { useUser } from "@/hooks/useUser";
 import { getPharmacyCompanyIdForUser } from "@/lib/pharmacy-company";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
+import { AvailabilityEditor } from "@/components/scheduling/AvailabilityEditor";
+import { CalendarFeedSettings } from "@/components/scheduling/CalendarFeedSettings";
+import { StoreNotificationEmail } from "@/components/notifications/StoreNotificationEmail";
 import type { Pharmacist } from "@/types/supabase";
 import {
   ArrowLeft,
@@ -19,6 +22,8 @@ import {
   AlertTriangle,
   Hospital,
   Plus,
+  CalendarClock,
+  Mail,
 } from "lucide-react";
 
 type LoadStatus = "idle" | "loading" | "loaded" | "error" | "not_found";
@@ -34,6 +39,8 @@ type StoreRow = {
   address_line1?: string | null;
   address_line2?: string | null;
   is_headquarter?: boolean | null;
+  notification_email?: string | null;
+  manager_email?: string | null;
 };
 
 // 店舗詳細ページで使う薬剤師型（必要なカラムだけ拡張）
@@ -107,7 +114,9 @@ export default function StoreDetailPage() {
           city,
           address_line1,
           address_line2,
-          is_headquarter
+          is_headquarter,
+          notification_email,
+          manager_email
         `
         )
         .eq("id", storeId)
@@ -433,6 +442,57 @@ export default function StoreDetailPage() {
               </table>
             )}
           </AppCard>
+
+          {/* 店舗の受付時間（所属薬剤師の既定の予約枠） */}
+          <AppCard className="space-y-3">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-sky-600" />
+              <h2 className="text-sm font-semibold text-slate-900">
+                店舗の受付時間
+              </h2>
+            </div>
+            <AvailabilityEditor
+              owner={{ kind: "store", id: store.id }}
+              description="薬剤師ごとの受付時間が未登録の場合、この店舗の受付時間で予約を受け付けます。店舗の休みは所属薬剤師全員に適用されます。"
+            />
+          </AppCard>
+
+          {/* カレンダー連携（店舗の予約をまとめて購読） */}
+          <AppCard className="space-y-3">
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-sky-600" />
+              <h2 className="text-sm font-semibold text-slate-900">
+                カレンダー連携
+              </h2>
+            </div>
+            <CalendarFeedSettings
+              owner={{ kind: "store", id: store.id }}
+              description="所属薬剤師全員の予約を、店舗の共有カレンダーにまとめて表示できます（読み取り専用）。"
+            />
+          </AppCard>
+
+          {/* 予約・連絡の希望の通知先 */}
+          <AppCard className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-sky-600" />
+              <h2 className="text-sm font-semibold text-slate-900">
+                メール通知
+              </h2>
+            </div>
+            <StoreNotificationEmail
+              storeId={store.id}
+              initialEmail={store.notification_email ?? null}
+            />
+            <div className="border-t border-slate-100 pt-3">
+              <p className="mb-1 text-xs font-medium text-slate-700">店長あて</p>
+              <StoreNotificationEmail
+                storeId={store.id}
+                initialEmail={store.manager_email ?? null}
+                column="manager_email"
+                description="優先度「高」の患者のフォローが期限を過ぎたときに、このアドレスにお知らせします。未設定の場合は上の通知先に届きます。"
+              />
+            </div>
+          </AppCard>
         </div>
       )}
     </div>
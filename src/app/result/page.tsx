@@ -7,32 +7,55 @@ import { useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { supabase } from "@/lib/supabaseClient";
 import type {
+  ContactIntent,
   Patient,
   Pharmacist,
   Pharmacy,
   PatientType,
+  Store,
 } from "@/types/supabase";
 import { AppCard } from "@/components/ui/app-card";
 import { AppButton } from "@/components/ui/app-button";
 import { FavoriteButton } from "@/components/patient/FavoriteButton";
+import {
+  scorePharmacist,
+  fetchActiveMatchingConfig,
+  fetchStoreMap,
+  resolvePharmacistStore,
+  diversifyTopN,
+  classifyPatientType,
+  applyConstraints,
+  constraintsFromPatient,
+  EXCLUSION_REASONS,
+  EXCLUSION_REASON_LABEL,
+  CARE_STYLE_INFO,
+  PATIENT_TYPE_LABEL,
+  TYPE_STYLE_MATCH,
+  type CareStyleKey,
+  type ExclusionReason,
+  type ScoreContribution,
+} from "@/lib/matching";
+import { ScoreBreakdownChart } from "@/components/matching/ScoreBreakdownChart";
+import { PatientTypeProbabilityBars } from "@/components/matching/PatientTypeProbabilityBars";
+import { SlotPicker } from "@/components/scheduling/SlotPicker";
+import {
+  CONTACT_METHOD_LABEL,
+  contactValidationMessage,
+  createContactRequest,
+  parseContact,
+} from "@/lib/contact";
+import { requestNotification } from "@/lib/notifications/client";
 
 interface MatchCandidate {
   pharmacist: Pharmacist;
   pharmacy: Pharmacy | null;
+  store: Store | null;
   score: number;
   reasons: string[];
+  breakdown: ScoreContribution[];
 }
 
-// /diagnosis 側と揃えた相談スタイルキー
-type CareStyleKey =
-  | "understanding"
-  | "empathy"
-  | "expert"
-  | "support"
-  | "family"
-  | "second_opinion";
-
-type IntentType = "spot_consult" | "mentor_candidate" | "save_for_later";
+type IntentType = ContactIntent;
 
 // 薬剤師マッチングのための予約タイプ用の型
 type BookingType = "phone" | "online" | "in_person";
@@ -53,131 +76,6 @@ type SpotConsultOptions = {
 
 type VisibilityType = "public" | "members" | "other";
 
-/**
- * 患者の相談スタイル（6タイプ）と、
- * それに対して「どんな顧問薬剤師タイプが合いそうか」の説明
- */
-const CARE_STYLE_INFO: Record<
-  CareStyleKey,
-  {
-    label: string;
-    description: string;
-    advisorLabel: string;
-    advisorDescription: string;
-    imageCaption: string;
-  }
-> = {
-  understanding: {
-    label: "しっかり理解タイプ",
-    description:
-      "診断名や検査結果の意味をきちんと理解し、納得したうえで治療を進めたいタイプです。",
-    advisorLabel: "ていねい解説タイプの顧問薬剤師",
-    advisorDescription:
-      "難しい専門用語をかみ砕いて説明し、治療の流れや選択肢を一緒に整理してくれる薬剤師が合いそうです。",
-    imageCaption: "しっかり説明を聞いて納得したいタイプ",
-  },
-  empathy: {
-    label: "気持ちケアタイプ",
-    description:
-      "不安やつらさなど、まず気持ちを受け止めてもらえると安心できるタイプです。",
-    advisorLabel: "寄り添いサポートタイプの顧問薬剤師",
-    advisorDescription:
-      "じっくり話を聞き、気持ちに寄り添いながら現実的な対策を一緒に考えてくれる薬剤師が合いそうです。",
-    imageCaption: "気持ちを受け止めてもらえると安心するタイプ",
-  },
-  expert: {
-    label: "おまかせタイプ",
-    description:
-      "情報はほどよく押さえつつ、最終的な判断は信頼できる専門家に任せたいタイプです。",
-    advisorLabel: "戦略プランナータイプの顧問薬剤師",
-    advisorDescription:
-      "ガイドラインやエビデンスを踏まえて全体の方針を組み立て、『この方向でいきましょう』と示してくれる薬剤師が合いそうです。",
-    imageCaption: "信頼できる専門家に任せたいタイプ",
-  },
-  support: {
-    label: "継続苦手タイプ",
-    description:
-      "続けることの大切さは分かっているものの、忙しさや気分の波で中断しがちなタイプです。",
-    advisorLabel: "習慣づくりコーチタイプの顧問薬剤師",
-    advisorDescription:
-      "無理のないペースや工夫を一緒に考え、小さな成功体験を積み上げるサポートをしてくれる薬剤師が合いそうです。",
-    imageCaption: "治療や習慣を続ける後押しがほしいタイプ",
-  },
-  family: {
-    label: "家族サポートタイプ",
-    description:
-      "自分のことだけでなく、高齢の親や子どものことなど、家族全体の健康が気になるタイプです。",
-    advisorLabel: "家族まるごとケアタイプの顧問薬剤師",
-    advisorDescription:
-      "本人だけでなく家族の背景も踏まえて、関わり方や声かけまで一緒に考えてくれる薬剤師が合いそうです。",
-    imageCaption: "家族の健康も含めて相談したいタイプ",
-  },
-  second_opinion: {
-    label: "比較検討タイプ",
-    description:
-      "今の治療が自分に本当に合っているか気になり、他の選択肢も知ったうえで決めたいタイプです。",
-    advisorLabel: "整理＆選択肢ナビタイプの顧問薬剤師",
-    advisorDescription:
-      "情報を整理し、メリット・デメリットを一緒に比較しながら『自分で納得して決める』お手伝いをしてくれる薬剤師が合いそうです。",
-    imageCaption: "いくつかの選択肢を比べて決めたいタイプ",
-  },
-};
-
-const PATIENT_TYPE_LABEL: Record<PatientType, string> = {
-  A: "タイプA：専門性重視タイプ",
-  B: "タイプB：生活支援タイプ",
-  C: "タイプC：メンタル×体質タイプ",
-  D: "タイプD：外国語対応タイプ",
-};
-
-/**
- * A〜Dタイプと相談スタイルのざっくり相性マトリクス
- * ◎：特に相性がよい
- * ◯：相性はよい
- * △：状況によっては合う
- */
-const TYPE_STYLE_MATCH: Record<
-  PatientType,
-  Record<CareStyleKey, "◎" | "◯" | "△">
-> = {
-  A: {
-    // 専門性重視
-    understanding: "◎",
-    empathy: "△",
-    expert: "◎",
-    support: "◯",
-    family: "◯",
-    second_opinion: "◎",
-  },
-  B: {
-    // 生活支援タイプ
-    understanding: "◯",
-    empathy: "◎",
-    expert: "△",
-    support: "◎",
-    family: "◎",
-    second_opinion: "◯",
-  },
-  C: {
-    // メンタル×体質
-    understanding: "◯",
-    empathy: "◎",
-    expert: "◯",
-    support: "◎",
-    family: "△",
-    second_opinion: "◯",
-  },
-  D: {
-    // 外国語対応（相談スタイルとは独立軸なので全体的に◯ベース）
-    understanding: "◯",
-    empathy: "◯",
-    expert: "◯",
-    support: "◯",
-    family: "◯",
-    second_opinion: "◯",
-  },
-};
-
 export default function ResultContent() {
   return (
     <Suspense
@@ -201,6 +99,15 @@ function InnerNewResultPage() {
   const [patient, setPatient] = useState<Patient | null>(null);
   const [type, setType] = useState<PatientType | null>(typeParam);
   const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  // 比較検討タイプ向けに「別の視点」枠として入れた薬剤師
+  const [alternativeId, setAlternativeId] = useState<string | null>(null);
+  // 絶対条件（言語・性別・年代・公開範囲・除外指定）で外れた人数
+  const [exclusionCounts, setExclusionCounts] = useState<Record<
+    ExclusionReason,
+    number
+  > | null>(null);
+  // 「候補から外す」後に結果を計算し直すためのキー
+  const [reloadKey, setReloadKey] = useState(0);
   const [mainCandidate, setMainCandidate] = useState<MatchCandidate | null>(
     null
   );
@@ -311,31 +218,23 @@ function InnerNewResultPage() {
           return;
         }
 
-        // ④ access_scope に基づくフィルタリング
-        //    - public: すべてのユーザーに表示
-        //    - registered_only: ログイン & この患者と紐づいている場合のみ表示
-        const filteredPharmacists = pharmacistsData.filter((ph) => {
-          const rawScope =
-            ((ph as any).access_scope as string | null) ?? "public";
-          const scope =
-            rawScope === "registered_only" || rawScope === "members"
-              ? "registered_only"
-              : "public";
-
-          if (scope === "public") return true;
-          return isLinked; // registered_only はリンク済み患者のみ
-        });
+        // 管理画面で有効化されているマッチング重み・多様性の設定
+        const { rules, diversity } = await fetchActiveMatchingConfig(supabase);
+        const storeMap = await fetchStoreMap(supabase);
 
-        const merged: MatchCandidate[] = filteredPharmacists.map((ph) => {
+        const merged: MatchCandidate[] = pharmacistsData.map((ph) => {
           const pharmacy =
             pharmaciesData.find((p) => p.id === ph.belongs_pharmacy_id) ?? null;
-          const { score, reasons } = scorePharmacist(
+          const store = resolvePharmacistStore(ph, storeMap);
+          const { score, reasons, breakdown } = scorePharmacist(
             patientData,
             effectiveType,
             ph,
-            pharmacy
+            pharmacy,
+            rules,
+            store
           );
-          return { pharmacist: ph, pharmacy, score, reasons };
+          return { pharmacist: ph, pharmacy, store, score, reasons, breakdown };
         });
 
         // 担当薬剤師がいれば、その候補を控えておく（スコアに関係なく）
@@ -345,12 +244,24 @@ function InnerNewResultPage() {
             merged.find((m) => m.pharmacist.id === mainPharmacistId) ?? null;
         }
 
-        const sorted = merged
-          .filter((m) => m.score > 0)
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 3);
-
-        setCandidates(sorted);
+        // ④ 絶対条件で候補を絞り込む（スコアとは別に判定）
+        //    - 登録ユーザー限定の薬剤師は、ログイン & この患者と紐づいている場合のみ表示
+        //    - 言語必須・性別・年代の希望、患者が外した薬剤師
+        const { kept, counts } = applyConstraints(
+          merged,
+          constraintsFromPatient(patientData, isLinked)
+        );
+
+        // スコア順に並べたうえで、同じ店舗・同じ care_role・同じ言語に偏らないよう上位 N 件を選び直す
+        const { items: diversified, alternativeId } = diversifyTopN(
+          kept.filter((m) => m.score > 0),
+          patientData.care_style ?? null,
+          diversity
+        );
+
+        setCandidates(diversified);
+        setAlternativeId(alternativeId);
+        setExclusionCounts(counts);
         setMainCandidate(mainCandidate ?? null);
         setLoading(false);
       } catch (e) {
@@ -361,7 +272,42 @@ function InnerNewResultPage() {
     };
 
     void run();
-  }, [patientId, typeParam]);
+  }, [patientId, typeParam, reloadKey]);
+
+  // 患者が「この薬剤師を候補から外す」を選んだとき
+  const handleExcludePharmacist = async (pharmacistId: string) => {
+    if (!patient) return;
+    const current = patient.excluded_pharmacist_ids ?? [];
+    if (current.includes(pharmacistId)) return;
+
+    const { error: updateError } = await supabase
+      .from("patients")
+      .update({ excluded_pharmacist_ids: [...current, pharmacistId] })
+      .eq("id", patient.id);
+
+    if (updateError) {
+      console.error(updateError);
+      alert("候補から外す処理に失敗しました。時間をおいて再度お試しください。");
+      return;
+    }
+    setReloadKey((k) => k + 1);
+  };
+
+  // 「候補から外した薬剤師」を元に戻す
+  const handleResetExclusions = async () => {
+    if (!patient) return;
+    const { error: updateError } = await supabase
+      .from("patients")
+      .update({ excluded_pharmacist_ids: null })
+      .eq("id", patient.id);
+
+    if (updateError) {
+      console.error(updateError);
+      alert("候補を元に戻す処理に失敗しました。");
+      return;
+    }
+    setReloadKey((k) => k + 1);
+  };
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -481,6 +427,21 @@ function InnerNewResultPage() {
           です。
         </p>
         <ResultTypeDescription type={type} />
+        {patient && (
+          <div className="space-y-1.5 pt-1">
+            <p className="text-[11px] text-slate-500">
+              診断の回答から推定した、各タイプへの当てはまり度合い
+            </p>
+            <PatientTypeProbabilityBars
+              probabilities={
+                // 確率が保存されていない旧データはその場で推定する
+                patient.type_probabilities ??
+                classifyPatientType(patient).probabilities
+              }
+              activeType={type}
+            />
+          </div>
+        )}
       </AppCard>
 
       {/* 担当薬剤師（main_pharmacist_id がある場合） */}
@@ -620,6 +581,12 @@ function InnerNewResultPage() {
             ※ログインして担当患者として登録されると、「登録患者限定」の薬剤師も表示されるようになります。
           </p>
         )}
+        {exclusionCounts && (
+          <ExclusionSummary
+            counts={exclusionCounts}
+            onResetExcluded={handleResetExclusions}
+          />
+        )}
         {candidates.length === 0 && (
           <p className="text-sm text-slate-600">
             条件に合う薬剤師がまだ登録されていません。サービス準備中のため、順次追加予定です。
@@ -632,6 +599,8 @@ function InnerNewResultPage() {
               candidate={c}
               patient={patient}
               type={type}
+              isAlternative={c.pharmacist.id === alternativeId}
+              onExclude={() => handleExcludePharmacist(c.pharmacist.id)}
               onSpotConsultClick={(options?: SpotConsultOptions) => {
                 setSelectedPharmacist(c.pharmacist);
                 setIntent("spot_consult");
@@ -699,345 +668,6 @@ function InnerNewResultPage() {
   );
 }
 
-/* ============================
- *   マッチングロジック本体
- * ============================ */
-
-function scorePharmacist(
-  patient: Patient,
-  type: PatientType,
-  pharmacist: Pharmacist,
-  pharmacy: Pharmacy | null
-): { score: number; reasons: string[] } {
-  let score = 0;
-  const reasons: string[] = [];
-
-  const specialties = pharmacist.specialty ?? [];
-  const languages = pharmacist.language ?? [];
-  const experiences = pharmacist.experience_case ?? [];
-
-  // pharmacy.services は text[] / text / null の可能性があるので安全に配列化
-  const rawServices = pharmacy?.services as unknown;
-  const services: string[] = Array.isArray(rawServices)
-    ? (rawServices as string[])
-    : typeof rawServices === "string"
-    ? rawServices
-        .split(/[、,]/)
-        .map((s) => s.trim())
-        .filter(Boolean)
-    : [];
-
-  const patientLanguage = patient.language ?? "ja";
-  const valuePref = patient.value_preference ?? "";
-  const severity = patient.severity ?? "";
-  const area = patient.area ?? "";
-  const symptomScore =
-    (patient.symptom_score as Record<string, number> | null) ?? {};
-  const lifestyleScore =
-    (patient.lifestyle_score as Record<string, number> | null) ?? {};
-
-  // 相談スタイル（care_style）と薬剤師側のテキスト情報
-  const careStyle = (patient.care_style as CareStyleKey | null) ?? null;
-  const styleText = (pharmacist.consultation_style ?? "") as string;
-  const personality = (pharmacist.personality ?? "") as string;
-  const years = pharmacist.years_of_experience ?? 0;
-
-  // 薬剤師が登録している「得意な相談スタイル」の配列
-  const careRoles = (pharmacist.care_role as string[] | null) ?? [];
-
-  /* --- 1. 言語マッチ（最重要） --- */
-  if (languages.includes(patientLanguage)) {
-    score += 40;
-    reasons.push("希望する言語で相談できる薬剤師です。");
-
-    // Dタイプ（外国語重視）の場合はさらに加点
-    if (type === "D") {
-      score += 10;
-      reasons.push("外国語対応タイプの診断結果と一致しています。");
-    }
-  } else if (patientLanguage !== "ja") {
-    // 外国語希望だが完全一致しない場合は軽く減点
-    score -= 10;
-  }
-
-  /* --- 2. 症状 × 専門性 --- */
-  const mainSymptom = getMainSymptom(symptomScore);
-
-  if (mainSymptom === "ibs_skin") {
-    if (
-      specialties.includes("漢方") ||
-      specialties.includes("体質改善") ||
-      experiences.includes("IBS") ||
-      experiences.includes("皮膚")
-    ) {
-      score += 25;
-      reasons.push("IBS・皮膚トラブルや体質改善の支援経験があります。");
-    }
-  }
-
-  if (mainSymptom === "cancer") {
-    if (specialties.includes("がん") || experiences.includes("がん")) {
-      score += 30;
-      reasons.push("がん治療中・治療後の薬物療法支援に慣れています。");
-    }
-  }
-
-  if (mainSymptom === "mental") {
-    if (
-      specialties.includes("メンタル") ||
-      experiences.includes("不眠") ||
-      experiences.includes("自律神経失調") ||
-      experiences.includes("不安障害")
-    ) {
-      score += 25;
-      reasons.push("メンタル・睡眠・自律神経の相談を多く担当しています。");
-    }
-  }
-
-  if (mainSymptom === "lifestyle") {
-    if (specialties.includes("在宅") || specialties.includes("高齢者ケア")) {
-      score += 20;
-      reasons.push("在宅・生活習慣病・高齢者ケアの支援が得意です。");
-    }
-  }
-
-  if (lifestyleScore["support_homecare"] === 1) {
-    if (specialties.includes("在宅") || services.includes("在宅")) {
-      score += 15;
-      reasons.push("在宅医療や訪問対応を重視するニーズに合致しています。");
-    }
-  }
-
-  /* --- 3. 価値観 × 性格・スタイル --- */
-  if (valuePref === "expertise") {
-    score += Math.min(years * 2, 20);
-    reasons.push(
-      `経験年数が比較的長く（${years}年）、専門性を重視する方に向いています。`
-    );
-  }
-
-  if (valuePref === "empathy") {
-    if (
-      styleText.includes("丁寧") ||
-      styleText.includes("じっくり") ||
-      personality.includes("やさ") ||
-      personality.includes("穏やか") ||
-      personality.includes("共感")
-    ) {
-      score += 20;
-      reasons.push("じっくり話を聞き、共感してくれるスタイルの薬剤師です。");
-    }
-  }
-
-  if (valuePref === "lifestyle_support") {
-    if (
-      specialties.includes("在宅") ||
-      services.includes("在宅") ||
-      services.includes("オンライン相談")
-    ) {
-      score += 15;
-      reasons.push(
-        "生活や仕事との両立を含めた現実的な相談に乗ることを得意としています。"
-      );
-    }
-  }
-
-  if (valuePref === "multilingual") {
-    if (languages.length > 1) {
-      score += 15;
-      reasons.push("複数言語でのコミュニケーションに対応できます。");
-    }
-  }
-
-  /* --- 3-b. 相談スタイル（care_style）との相性 --- */
-  if (careStyle) {
-    switch (careStyle) {
-      case "understanding": {
-        const good =
-          styleText.includes("丁寧") ||
-          styleText.includes("わかりやす") ||
-          styleText.includes("説明") ||
-          years >= 5;
-        if (good) {
-          score += 18;
-          reasons.push(
-            "診断や薬の内容を、わかりやすく丁寧に説明してくれるスタイルです。"
-          );
-        }
-        break;
-      }
-      case "empathy": {
-        const good =
-          styleText.includes("じっくり") ||
-          styleText.includes("話を聞く") ||
-          personality.includes("やさ") ||
-          personality.includes("穏やか") ||
-          personality.includes("共感");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "不安やつらさなどの気持ちも含めて、じっくり寄り添ってくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "expert": {
-        const good =
-          years >= 7 ||
-          specialties.length >= 2 ||
-          styleText.includes("提案") ||
-          styleText.includes("方針");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "ガイドラインや経験をふまえて、全体の方針を一緒に決めてくれるタイプです。"
-          );
-        }
-        break;
-      }
-      case "support": {
-        const good =
-          styleText.includes("伴走") ||
-          styleText.includes("一緒に") ||
-          styleText.includes("フォロー") ||
-          services.includes("オンライン相談") ||
-          services.includes("在宅");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "続けやすい工夫やペースづくりを、一緒に考えてくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "family": {
-        const good =
-          experiences.includes("小児") ||
-          experiences.includes("高齢者") ||
-          specialties.includes("在宅") ||
-          services.includes("在宅") ||
-          styleText.includes("家族");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "ご自身だけでなく、ご家族の薬や通院も含めて相談しやすい薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "second_opinion": {
-        const good =
-          styleText.includes("整理") ||
-          styleText.includes("選択肢") ||
-          styleText.includes("セカンド") ||
-          specialties.length >= 2 ||
-          years >= 5;
-        if (good) {
-          score += 18;
-          reasons.push(
-            "治療の選択肢やメリット・デメリットを整理しながら、一緒に考えてくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-    }
-
-    // ★ 患者の相談スタイル と 薬剤師の care_role が一致している場合の強い加点
-    if (careRoles.includes(careStyle)) {
-      const info = CARE_STYLE_INFO[careStyle];
-      score += 12;
-      reasons.push(
-        `この薬剤師は、まさに「${info.label}」タイプの患者さんを得意とするケアロールとして登録されています。`
-      );
-    }
-  }
-
-  /* --- 4. 顧問薬剤師タイプ（A〜D）による微調整 --- */
-  if (type === "A") {
-    if (specialties.length >= 2) {
-      score += 10;
-      reasons.push("複数の専門領域を持つオールラウンダーです。");
-    }
-  }
-
-  if (type === "B") {
-    if (specialties.includes("在宅") || services.includes("在宅")) {
-      score += 10;
-      reasons.push("生活や在宅ケアを含めた継続支援が得意です。");
-    }
-  }
-
-  if (type === "C") {
-    if (
-      specialties.includes("漢方") ||
-      specialties.includes("体質改善") ||
-      specialties.includes("メンタル")
-    ) {
-      score += 10;
-      reasons.push("漢方・体質改善やメンタル面のケアを重視するタイプです。");
-    }
-  }
-
-  /* --- 5. 通いやすさ（エリア） --- */
-  if (area && pharmacy?.area) {
-    if (
-      pharmacy.area.includes(area) ||
-      area.replace(/\s/g, "").includes(pharmacy.area.replace(/\s/g, ""))
-    ) {
-      score += 10;
-      reasons.push("お住まいのエリアと近い薬局に所属しています。");
-    }
-  }
-
-  /* --- 6. 重症度に応じて専門性寄りに --- */
-  if (severity === "severe") {
-    score += Math.min(years * 1.5, 15);
-  }
-
-  /* --- 7. スコア正規化 & 理由の整理 --- */
-
-  // スコアを 0〜100 にクリップ
-  const normalizedScore = Math.max(0, Math.min(100, Math.round(score)));
-
-  // 理由の重複を削除し、最大 3 つまでに絞る
-  const uniqueReasons = Array.from(new Set(reasons)).slice(0, 3);
-
-  return { score: normalizedScore, reasons: uniqueReasons };
-}
-
-/**
- * 診断画面側で分割した複数の症状キーを、
- * マッチングロジック用のグループスコアにまとめる
- */
-function getMainSymptom(scores: Record<string, number>): string | null {
-  const groupScores: Record<string, number> = {
-    ibs_skin:
-      (scores.ibs ?? 0) +
-      (scores.skin ?? 0) +
-      (scores.ibs_skin ?? 0),
-    cancer: scores.cancer ?? 0,
-    mental:
-      (scores.mental ?? 0) +
-      (scores.mental_sleep ?? 0) +
-      (scores.mental_mood ?? 0) +
-      (scores.mental_autonomic ?? 0),
-    pain: scores.pain ?? 0,
-    cold_edema: scores.cold_edema ?? 0,
-    other_body: scores.other_body ?? 0,
-  };
-
-  let maxKey: string | null = null;
-  let maxVal = -1;
-  for (const [key, val] of Object.entries(groupScores)) {
-    if (val > maxVal) {
-      maxVal = val;
-      maxKey = key;
-    }
-  }
-  if (maxVal <= 0) return null;
-  return maxKey;
-}
-
 /* ============================
  *   UI 用コンポーネント
  * ============================ */
@@ -1363,14 +993,20 @@ function PharmacistCard({
   candidate,
   patient,
   type,
+  isAlternative = false,
+  onExclude,
   onSpotConsultClick,
 }: {
   candidate: MatchCandidate;
   patient: Patient;
   type: PatientType;
+  /** 比較検討用の「別の視点」枠として表示しているか */
+  isAlternative?: boolean;
+  /** 「この薬剤師を候補から外す」 */
+  onExclude?: () => void;
   onSpotConsultClick?: (options?: SpotConsultOptions) => void;
 }) {
-  const { pharmacist, pharmacy, score, reasons } = candidate;
+  const { pharmacist, pharmacy, score, reasons, breakdown } = candidate;
   const specialties = pharmacist.specialty ?? [];
   const languages = pharmacist.language ?? [];
   const experiences = pharmacist.experience_case ?? [];
@@ -1422,6 +1058,12 @@ function PharmacistCard({
     | null
     | undefined;
 
+  // スコア内訳（なぜこの点数か）の表示切り替え
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  // 空き枠から日時を選ぶ予約の表示切り替え
+  const [showSlotPicker, setShowSlotPicker] = useState(false);
+
   // 予約フォーム用の状態
   const [showBookingForm, setShowBookingForm] = useState(false);
   const [bookingType, setBookingType] = useState<BookingType | "">("");
@@ -1497,6 +1139,11 @@ function PharmacistCard({
 
   return (
     <AppCard className="flex flex-col p-3 sm:p-4 shadow-sm">
+      {isAlternative && (
+        <p className="mb-2 rounded-md bg-amber-50 px-2 py-1 text-[11px] text-amber-800">
+          別の視点の薬剤師：1人目の候補とは異なる相談スタイルを得意としています。比較の参考にどうぞ。
+        </p>
+      )}
       {/* 上部：顔写真アイコン＋名前＋可視性＋お気に入り */}
       <div className="mb-3 flex items-start justify-between gap-2">
         <div className="flex items-start gap-3">
@@ -1681,8 +1328,35 @@ function PharmacistCard({
           ))}
         </ul>
 
+        <button
+          type="button"
+          onClick={() => setShowBreakdown((prev) => !prev)}
+          className="text-[11px] text-sky-700 underline underline-offset-2"
+        >
+          {showBreakdown ? "スコアの内訳を閉じる" : "なぜこのスコア？（内訳を見る）"}
+        </button>
+        {showBreakdown && (
+          <div className="rounded-md border border-slate-200 bg-slate-50 p-2">
+            <ScoreBreakdownChart breakdown={breakdown} />
+          </div>
+        )}
+
         <div className="mt-2
  flex flex-col gap-1">
+          {/* 空き枠から日時を選んで予約 */}
+          <button
+            type="button"
+            onClick={() => setShowSlotPicker((prev) => !prev)}
+            className="w-full rounded-md border border-sky-300 bg-sky-50 px-3 py-1.5 text-[11px] font-medium text-sky-800 hover:bg-sky-100"
+          >
+            {showSlotPicker ? "日時の選択を閉じる" : "日時を選んで予約する"}
+          </button>
+          {showSlotPicker && (
+            <div className="rounded-md border border-slate-200 p-2">
+              <SlotPicker pharmacist={pharmacist} patientId={patient.id} />
+            </div>
+          )}
+
           {/* Googleカレンダー予約（事前フォーム付き） */}
           {bookingUrl && (
             <div className="space-y-1">
@@ -1800,6 +1474,16 @@ function PharmacistCard({
               この薬剤師にスポット相談を申し込む
             </button>
           )}
+
+          {onExclude && (
+            <button
+              type="button"
+              onClick={onExclude}
+              className="mt-1 text-[11px] text-slate-500 underline underline-offset-2 hover:text-slate-700"
+            >
+              この薬剤師を候補から外す
+            </button>
+          )}
         </div>
       </div>
     </AppCard>
@@ -1823,6 +1507,9 @@ function ContactForm({
   onIntentChange: (intent: IntentType) => void;
   contactPrefill: ContactPrefill;
 }) {
+  const [contactMethod, setContactMethod] = useState<"phone" | "email">(
+    "email"
+  );
   const [contact, setContact] = useState<string>("");
   const [message, setMessage] = useState<string>("");
   const [status, setStatus] = useState<"idle" | "saving" | "done" | "error">(
@@ -1831,7 +1518,7 @@ function ContactForm({
   const [error, setError] = useState<string | null>(null);
 
   const defaultPlaceholder =
-    "メールアドレスや、連絡がつきやすい手段を入力してください";
+    "連絡がつきやすいメールアドレスか電話番号を入力してください";
   const [contactPlaceholder, setContactPlaceholder] =
     useState<string>(defaultPlaceholder);
 
@@ -1844,24 +1531,23 @@ function ContactForm({
         : defaultPlaceholder;
     setContactPlaceholder(ph);
 
+    // 電話／店舗相談から来たときは電話番号で受け付ける
+    if (contactPrefill.highlight) {
+      setContactMethod("phone");
+    }
+
     if (contactPrefill.message && contactPrefill.message.length > 0) {
       setMessage(contactPrefill.message);
     }
   }, [contactPrefill]);
 
-  const intentLabel: Record<IntentType, string> = {
-    spot_consult: "【スポット相談希望】",
-    mentor_candidate: "【顧問候補として相談】",
-    save_for_later: "【あとで連絡希望】",
-  };
-
   const intentDescription: Record<IntentType, string> = {
     spot_consult:
       "まずは1回、オンラインで具体的な相談をしてみたい方向けです。",
     mentor_candidate:
       "将来的に顧問薬剤師として関係を持つことも視野に入れて、話を聞いてみたい方向けです。",
     save_for_later:
-      "今すぐ相談はしないものの、診断結果や連絡手段を残しておきたい方向けです。（将来的にLINE連携も予定しています）",
+      "今すぐ相談はしないものの、診断結果や連絡手段を残しておきたい方向けです。（マイページから LINE 連携をすると、お知らせを LINE で受け取れます）",
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -1870,26 +1556,28 @@ function ContactForm({
     setStatus("saving");
     setError(null);
 
-    try {
-      // ① これまで通り patients.note に追記
-      const notePrefix = patient.note ? `${patient.note}\n` : "";
-
-      const intentTag = intentLabel[intent];
-      const pharmacistTag = selectedPharmacist
-        ? `（希望薬剤師: ${selectedPharmacist.name}）`
-        : "";
-      const messageTag = message ? `\n[相談したいことメモ] ${message}` : "";
-
-      const newLine = `${intentTag}${pharmacistTag} 連絡先: ${contact}${messageTag}`;
-      const newNote = `${notePrefix}${newLine}`;
-
-      const { error: updateError } = await supabase
-        .from("patients")
-        .update({ note: newNote })
-        .eq("id", patient.id);
+    // 形式の確認は送信前に（保存時にも createContactRequest で確認する）
+    const parsed = parseContact(contact, contactMethod);
+    if (!parsed) {
+      setError(contactValidationMessage(contactMethod));
+      setStatus("error");
+      return;
+    }
 
-      if (updateError) {
-        console.error(updateError);
+    try {
+      // ① contact_requests に登録（以前は patients.note に追記していた）
+      try {
+        const request = await createContactRequest(supabase, {
+          patientId: patient.id,
+          pharmacistId: selectedPharmacist?.id ?? null,
+          intent,
+          method: contactMethod,
+          contact,
+          message: message || null,
+        });
+        void requestNotification("contact_requested", request.id);
+      } catch (saveError) {
+        console.error(saveError);
         setError("連絡先の保存に失敗しました。");
         setStatus("error");
         return;
@@ -2027,8 +1715,20 @@ function ContactForm({
       {/* 連絡先 */}
       <div className="space-y-1">
         <p className="text-xs font-semibold text-slate-800">連絡先</p>
+        <div className="flex gap-3 text-xs text-slate-700">
+          {(["email", "phone"] as const).map((m) => (
+            <label key={m} className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={contactMethod === m}
+                onChange={() => setContactMethod(m)}
+              />
+              {CONTACT_METHOD_LABEL[m]}
+            </label>
+          ))}
+        </div>
         <input
-          type="text"
+          type={contactMethod === "email" ? "email" : "tel"}
           className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
           placeholder={contactPlaceholder}
           value={contact}
@@ -2061,3 +1761,36 @@ function ContactForm({
     </form>
   );
 }
+
+/**
+ * 絶対条件で候補から外れた人数の内訳
+ * - 0件の理由は表示しない
+ */
+function ExclusionSummary({
+  counts,
+  onResetExcluded,
+}: {
+  counts: Record<ExclusionReason, number>;
+  onResetExcluded: () => void;
+}) {
+  const visible = EXCLUSION_REASONS.filter((r) => counts[r] > 0);
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-[11px] text-slate-600">
+      <span className="font-medium text-slate-700">条件により除外：</span>
+      {visible
+        .map((r) => `${EXCLUSION_REASON_LABEL[r]} ${counts[r]}人`)
+        .join(" / ")}
+      {counts.excluded > 0 && (
+        <button
+          type="button"
+          onClick={onResetExcluded}
+          className="ml-2 text-sky-700 underline underline-offset-2"
+        >
+          外した薬剤師を元に戻す
+        </button>
+      )}
+    </div>
+  );
+}
@@ -61,6 +61,7 @@ export function SiteHeader() {
     { href: "/pharmacy/stores", label: "店舗一覧" },
     { href: "/pharmacy/pharmacists", label: "薬剤師一覧" },
     { href: "/pharmacy/bookings", label: "予約・患者一覧" },
+    { href: "/pharmacy/prm/patients", label: "患者フォロー（PRM）" },
   ];
 
   const mainLinks = isPharmacyLike ? pharmacyLinks : patientLinks;
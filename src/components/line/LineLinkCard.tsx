@@ -0,0 +1,154 @@
+// src/components/line/LineLinkCard.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { LineLinkCode } from "@/types/supabase";
+// index は node 専用のモジュールも含むので、ブラウザからは linking を直接読む
+import {
+  fetchLineLinkStatus,
+  issueLineLinkCode,
+  LINK_CODE_TTL_MINUTES,
+  unlinkLine,
+  type LineLinkStatus,
+} from "@/lib/line/linking";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import { Loader2, MessageCircle } from "lucide-react";
+
+const ADD_FRIEND_URL = process.env.NEXT_PUBLIC_LINE_ADD_FRIEND_URL ?? null;
+
+/**
+ * マイページ：LINE 連携
+ * - 発行したコードを公式アカウントに送るとひも付く（/api/line/webhook）
+ * - 連携すると予約のお知らせ・薬剤師からのフォローが LINE に届く
+ */
+export function LineLinkCard({ patientId }: { patientId: string }) {
+  const [link, setLink] = useState<LineLinkStatus | null>(null);
+  const [code, setCode] = useState<LineLinkCode | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      try {
+        setLink(await fetchLineLinkStatus(supabase, patientId));
+      } catch (err) {
+        console.error("Failed to load line link", err);
+        setError("LINE 連携の状態を取得できませんでした。");
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+  }, [patientId, reloadKey]);
+
+  const handleIssue = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      setCode(await issueLineLinkCode(supabase, patientId));
+    } catch (err) {
+      console.error("Failed to issue line link code", err);
+      setError(
+        err instanceof Error && err.message ? err.message : "コードの発行に失敗しました。"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    if (!window.confirm("LINE 連携を解除しますか？予約のお知らせが LINE に届かなくなります。")) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await unlinkLine(supabase, { patientId });
+      setCode(null);
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error("Failed to unlink line", err);
+      setError("連携の解除に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AppCard className="space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageCircle className="h-5 w-5 text-emerald-600" />
+        <h2 className="text-base font-semibold text-slate-900">LINE 連携</h2>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>読み込んでいます...</span>
+        </div>
+      ) : link ? (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-700">
+          <span>
+            連携済み（{new Date(link.created_at).toLocaleDateString()}〜）。予約のお知らせなどが LINE に届きます。
+          </span>
+          <AppButton type="button" size="sm" variant="outline" onClick={handleUnlink} disabled={saving}>
+            連携を解除
+          </AppButton>
+        </div>
+      ) : (
+        <div className="space-y-2 text-xs text-slate-700">
+          <p>
+            LINE で予約の前日のお知らせや、薬剤師からのフォローを受け取れます。
+            {ADD_FRIEND_URL ? (
+              <>
+                まず
+                <a
+                  href={ADD_FRIEND_URL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mx-1 text-emerald-700 underline underline-offset-2"
+                >
+                  ヒトヤク公式アカウント
+                </a>
+                を友だち追加し、
+              </>
+            ) : (
+              "ヒトヤク公式アカウントを友だち追加し、"
+            )}
+            下のコードをトークに送ってください。
+          </p>
+          {code ? (
+            <div className="space-y-1">
+              <p className="font-mono text-2xl font-bold tracking-widest text-slate-900">
+                {code.code}
+              </p>
+              <p className="text-[11px] text-slate-500">
+                有効期限：{new Date(code.expires_at).toLocaleTimeString()}まで（{LINK_CODE_TTL_MINUTES}分間）。
+                送信後に
+                <button
+                  type="button"
+                  onClick={() => setReloadKey((k) => k + 1)}
+                  className="mx-1 text-sky-700 underline underline-offset-2"
+                >
+                  状態を更新
+                </button>
+                してください。
+              </p>
+            </div>
+          ) : (
+            <AppButton type="button" size="sm" onClick={handleIssue} disabled={saving}>
+              {saving ? "発行中..." : "連携コードを発行"}
+            </AppButton>
+          )}
+        </div>
+      )}
+    </AppCard>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/line/LinePushButton.tsx
+"use client";
+
+import { useState } from "react";
+import { AppButton } from "@/components/ui/app-button";
+import { MessageCircle } from "lucide-react";
+
+const LABEL = {
+  reminder: "LINEでお知らせ",
+  follow_up: "LINEでフォロー",
+} as const;
+
+/**
+ * 予約一覧の「LINE で送る」ボタン（/api/line/push を呼ぶ）
+ * - 患者が LINE 連携していないときはその旨を表示する
+ */
+export function LinePushButton({
+  appointmentId,
+  kind,
+}: {
+  appointmentId: string;
+  kind: keyof typeof LABEL;
+}) {
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleSend = async () => {
+    setSending(true);
+    setResult(null);
+    try {
+      const res = await fetch("/api/line/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ appointmentId, kind }),
+      });
+      const json = (await res.json().catch(() => ({}))) as { error?: string };
+      setResult(
+        res.ok
+          ? { ok: true, text: "送信しました" }
+          : { ok: false, text: json.error ?? "送信に失敗しました。" }
+      );
+    } catch (err) {
+      console.error("Failed to push line message", err);
+      setResult({ ok: false, text: "送信に失敗しました。" });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <AppButton
+        variant="outline"
+        size="sm"
+        className="text-[11px]"
+        type="button"
+        onClick={handleSend}
+        disabled={sending}
+      >
+        <MessageCircle className="mr-1 h-3 w-3" />
+        {sending ? "送信中..." : LABEL[kind]}
+      </AppButton>
+      {result && (
+        <span className={`text-[10px] ${result.ok ? "text-emerald-700" : "text-red-600"}`}>
+          {result.text}
+        </span>
+      )}
+    </div>
+  );
+}
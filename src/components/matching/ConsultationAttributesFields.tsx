@@ -0,0 +1,82 @@
+// src/components/matching/ConsultationAttributesFields.tsx
+import {
+  CHANNEL_LABEL,
+  COMM_STYLE_LABEL,
+  EXPLANATION_DEPTH_LABEL,
+  FOLLOWUP_FREQUENCY_LABEL,
+  type PharmacistConsultationAttributes,
+} from "@/lib/matching";
+
+interface ConsultationAttributesFieldsProps {
+  value: PharmacistConsultationAttributes;
+  onChange: (patch: Partial<PharmacistConsultationAttributes>) => void;
+}
+
+const GROUPS: {
+  field: keyof PharmacistConsultationAttributes;
+  title: string;
+  labels: Record<string, string>;
+}[] = [
+  { field: "supported_channels", title: "対応できる相談方法", labels: CHANNEL_LABEL },
+  {
+    field: "followup_cadences",
+    title: "提供できるフォロー頻度",
+    labels: FOLLOWUP_FREQUENCY_LABEL,
+  },
+  {
+    field: "explanation_styles",
+    title: "対応できる説明の深さ",
+    labels: EXPLANATION_DEPTH_LABEL,
+  },
+  { field: "comm_styles", title: "得意な話し方", labels: COMM_STYLE_LABEL },
+];
+
+/**
+ * 薬剤師プロフィール編集用：マッチングに使う対応項目のチェックボックス群
+ * - 診断 Step3・Step5 の回答と突き合わせてスコアに加点される
+ * - 何も選ばなかった項目は null として保存する想定
+ */
+export function ConsultationAttributesFields({
+  value,
+  onChange,
+}: ConsultationAttributesFieldsProps) {
+  const toggle = (field: keyof PharmacistConsultationAttributes, key: string) => {
+    const current = value[field] ?? [];
+    const next = current.includes(key)
+      ? current.filter((k) => k !== key)
+      : [...current, key];
+    onChange({ [field]: next.length > 0 ? next : null });
+  };
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {GROUPS.map((group) => (
+        <div key={group.field}>
+          <div className="text-xs font-medium text-slate-700">
+            {group.title}（複数選択可）
+          </div>
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {Object.entries(group.labels).map(([key, label]) => {
+              const active = (value[group.field] ?? []).includes(key);
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => toggle(group.field, key)}
+                  className={[
+                    "rounded-full border px-2.5 py-1 text-[11px]",
+                    active
+                      ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                      : "border-slate-300 bg-white text-slate-600 hover:bg-slate-50",
+                  ].join(" ")}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
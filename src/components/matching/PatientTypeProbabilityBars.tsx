@@ -0,0 +1,63 @@
+// src/components/matching/PatientTypeProbabilityBars.tsx
+import type { PatientType } from "@/types/supabase";
+import {
+  PATIENT_TYPES,
+  PATIENT_TYPE_LABEL,
+  type PatientTypeProbabilities,
+} from "@/lib/matching";
+
+interface PatientTypeProbabilityBarsProps {
+  probabilities: PatientTypeProbabilities;
+  /** 強調表示するタイプ（通常は確定したタイプ） */
+  activeType?: PatientType | null;
+  /** 「タイプA：専門性重視タイプ」のように説明付きで表示するか */
+  showLabel?: boolean;
+}
+
+/**
+ * A〜D タイプごとの確率を横棒で表示する
+ */
+export function PatientTypeProbabilityBars({
+  probabilities,
+  activeType = null,
+  showLabel = true,
+}: PatientTypeProbabilityBarsProps) {
+  return (
+    <ul className="space-y-1.5">
+      {PATIENT_TYPES.map((t) => {
+        const pct = Math.round((probabilities[t] ?? 0) * 100);
+        const active = t === activeType;
+        return (
+          <li key={t} className="space-y-0.5">
+            <div className="flex items-center justify-between gap-2 text-[11px]">
+              <span
+                className={
+                  active ? "font-semibold text-sky-800" : "text-slate-600"
+                }
+              >
+                {showLabel ? PATIENT_TYPE_LABEL[t] : `タイプ${t}`}
+              </span>
+              <span
+                className={[
+                  "shrink-0",
+                  active ? "font-semibold text-sky-700" : "text-slate-500",
+                ].join(" ")}
+              >
+                {pct}%
+              </span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-slate-100">
+              <div
+                className={[
+                  "h-1.5 rounded-full",
+                  active ? "bg-sky-500" : "bg-slate-300",
+                ].join(" ")}
+                style={{ width: `${pct}%` }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,81 @@
+// src/components/matching/ScoreBreakdownChart.tsx
+import type { ScoreContribution } from "@/lib/matching";
+
+interface ScoreBreakdownChartProps {
+  breakdown: ScoreContribution[];
+  /** 減点（マイナス）の行も表示するか（管理画面向け） */
+  showNegative?: boolean;
+  /** ルールIDを併記するか（管理画面向け） */
+  showRuleId?: boolean;
+}
+
+function formatPoints(points: number): string {
+  const rounded = Math.round(points * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+/**
+ * 「なぜこのスコアか」の横棒グラフ
+ * - ルールごとの加点（減点）を、最大値を基準にした棒の長さで表示する
+ * - 0 点の行は表示しない
+ */
+export function ScoreBreakdownChart({
+  breakdown,
+  showNegative = false,
+  showRuleId = false,
+}: ScoreBreakdownChartProps) {
+  const rows = breakdown
+    .filter((c) => c.points !== 0)
+    .filter((c) => showNegative || c.points > 0)
+    .sort((a, b) => b.points - a.points);
+
+  if (rows.length === 0) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        スコアに影響した項目はありません。
+      </p>
+    );
+  }
+
+  const maxAbs = Math.max(...rows.map((c) => Math.abs(c.points)));
+
+  return (
+    <ul className="space-y-1.5">
+      {rows.map((c) => {
+        const width = `${Math.max(4, (Math.abs(c.points) / maxAbs) * 100)}%`;
+        const negative = c.points < 0;
+        return (
+          <li key={c.ruleId} className="space-y-0.5">
+            <div className="flex items-start justify-between gap-2 text-[11px]">
+              <span className="text-slate-700 leading-snug">
+                {c.message}
+                {showRuleId && (
+                  <span className="ml-1 font-mono text-[10px] text-slate-400">
+                    {c.ruleId}
+                  </span>
+                )}
+              </span>
+              <span
+                className={[
+                  "shrink-0 font-semibold",
+                  negative ? "text-red-600" : "text-sky-700",
+                ].join(" ")}
+              >
+                {formatPoints(c.points)}
+              </span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-slate-100">
+              <div
+                className={[
+                  "h-1.5 rounded-full",
+                  negative ? "bg-red-400" : "bg-sky-500",
+                ].join(" ")}
+                style={{ width }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,80 @@
+// src/components/notifications/StoreNotificationEmail.tsx
+"use client";
+
+import { useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { normalizeEmail } from "@/lib/contact";
+import { AppButton } from "@/components/ui/app-button";
+
+const DEFAULT_DESCRIPTION =
+  "所属薬剤師への予約リクエストや連絡の希望が届いたときに、このアドレスにメールでお知らせします。薬剤師ごとの通知先はプロフィール編集で設定できます。";
+
+/**
+ * 店舗の通知先メールアドレス
+ * - notification_email：予約リクエスト・連絡の希望の通知
+ * - manager_email：店長あて（フォロー遅れのエスカレーション）
+ * - 空で保存すると通知を止める
+ */
+export function StoreNotificationEmail({
+  storeId,
+  initialEmail,
+  column = "notification_email",
+  description = DEFAULT_DESCRIPTION,
+}: {
+  storeId: string;
+  initialEmail: string | null;
+  column?: "notification_email" | "manager_email";
+  description?: string;
+}) {
+  const [email, setEmail] = useState(initialEmail ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const normalized = email.trim() ? normalizeEmail(email) : null;
+    if (email.trim() && !normalized) {
+      setError("メールアドレスの形式が正しくありません。");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { error: updateError } = await supabase
+        .from("stores")
+        .update({ [column]: normalized })
+        .eq("id", storeId);
+      if (updateError) throw updateError;
+
+      setEmail(normalized ?? "");
+      setMessage(normalized ? "保存しました。" : "通知を停止しました。");
+    } catch (err) {
+      console.error("Failed to save store notification email", err);
+      setError("保存に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-slate-500">{description}</p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="例：store@example.com"
+          className="min-w-[16rem] flex-1 rounded-md border border-slate-300 px-2 py-1 text-xs outline-none focus:border-sky-500"
+        />
+        <AppButton type="button" size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "保存中..." : "保存"}
+        </AppButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+// src/components/patient/MyAppointments.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import type { Appointment, BookingType, Pharmacist } from "@/types/supabase";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import { AppointmentStatusBadge } from "@/components/scheduling/AppointmentStatusActions";
+import { SlotPicker } from "@/components/scheduling/SlotPicker";
+import { consultationPath } from "@/lib/consultation/client";
+import {
+  appointmentPatientToken,
+  requestAppointmentTransition,
+} from "@/lib/scheduling/client";
+import {
+  changeCutoffHours,
+  checkPatientChange,
+  formatJstDateLabel,
+  formatJstTime,
+  statusOf,
+  toJstDate,
+} from "@/lib/scheduling";
+import { CalendarClock, Loader2, Video } from "lucide-react";
+
+type MyAppointmentRow = Appointment & {
+  pharmacist: Pick<Pharmacist, "id" | "name" | "belongs_store_id"> | null;
+};
+
+const BOOKING_TYPE_LABEL: Record<BookingType, string> = {
+  online: "オンライン相談",
+  phone: "電話相談",
+  in_person: "店舗で相談",
+};
+
+function formatSlot(start: string | null, end: string | null): string {
+  if (!start) return "日時未定";
+  const date = formatJstDateLabel(toJstDate(new Date(start)));
+  return `${date} ${formatJstTime(start)}〜${end ? formatJstTime(end) : ""}`;
+}
+
+/**
+ * マイページ：自分の予約一覧
+ * - 相談日時の近い「申込中・確定」を上に、終わった予約はその下に並べる
+ * - 日時変更・キャンセルは相談開始の changeCutoffHours() 時間前まで
+ *   （変更内容は appointments に書くので、薬局側の予約一覧にもそのまま反映される）
+ * - 操作・相談ルームの入室ができるのは、予約したときのトークンがこの端末にある予約だけ。ほかは薬局への連絡を案内する
+ */
+export function MyAppointments({ patientId }: { patientId: string }) {
+  const [items, setItems] = useState<MyAppointmentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+
+  const cutoffHours = changeCutoffHours();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: fetchError } = await supabase
+        .from("appointments")
+        .select("*, pharmacist:pharmacists(id, name, belongs_store_id)")
+        .eq("patient_id", patientId)
+        .order("created_at", { ascending: false })
+        .returns<MyAppointmentRow[]>();
+
+      if (cancelled) return;
+      if (fetchError) {
+        console.error("Failed to load my appointments", fetchError);
+        setError("予約の取得に失敗しました。");
+      } else {
+        setItems(data ?? []);
+      }
+      setLoading(false);
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [patientId]);
+
+  const replaceRow = (updated: Appointment) => {
+    setItems((prev) =>
+      prev.map((row) => (row.id === updated.id ? { ...row, ...updated } : row))
+    );
+  };
+
+  const handleCancel = async (row: MyAppointmentRow) => {
+    const check = checkPatientChange(row, new Date(), cutoffHours);
+    if (!check.allowed) {
+      setError(check.reason);
+      return;
+    }
+    if (!window.confirm("この予約をキャンセルします。よろしいですか？")) return;
+
+    setBusyId(row.id);
+    setError(null);
+    try {
+      const updated = await requestAppointmentTransition(row.id, "cancelled");
+      replaceRow(updated);
+    } catch (err) {
+      console.error("Failed to cancel appointment", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "キャンセルに失敗しました。時間をおいて再度お試しください。"
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const now = new Date();
+  const isOpen = (row: MyAppointmentRow) => {
+    const s = statusOf(row);
+    return s === "requested" || s === "confirmed";
+  };
+  const openRows = items
+    .filter(isOpen)
+    .sort((a, b) =>
+      (a.scheduled_start ?? "9999").localeCompare(b.scheduled_start ?? "9999")
+    );
+  const pastRows = items.filter((row) => !isOpen(row));
+
+  return (
+    <section className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-sky-600" />
+        <h2 className="text-base font-semibold text-slate-900">予約の確認</h2>
+        <span className="text-xs text-slate-400">{openRows.length}件</span>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>予約を読み込んでいます...</span>
+        </div>
+      ) : items.length === 0 ? (
+        <AppCard className="text-xs text-slate-500">
+          まだ予約はありません。診断結果や薬剤師の詳細ページから予約できます。
+        </AppCard>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {[...openRows, ...pastRows].map((row) => {
+            const check = checkPatientChange(row, now, cutoffHours);
+            const canChange = !!appointmentPatientToken(row.id);
+            const pharmacist = row.pharmacist;
+
+            return (
+              <AppCard key={row.id} className="flex flex-col gap-2 text-xs">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <AppointmentStatusBadge status={row.status} />
+                    <span className="font-medium text-slate-900">
+                      {formatSlot(row.scheduled_start, row.scheduled_end)}
+                    </span>
+                    {row.booking_type && (
+                      <span className="text-slate-500">
+                        {BOOKING_TYPE_LABEL[row.booking_type]}
+                      </span>
+                    )}
+                  </div>
+                  {pharmacist && (
+                    <Link
+                      href={`/pharmacists/${pharmacist.id}`}
+                      className="text-sky-700 underline underline-offset-2"
+                    >
+                      {pharmacist.name ?? "薬剤師"}
+                    </Link>
+                  )}
+                </div>
+
+                {row.memo && (
+                  <p className="whitespace-pre-wrap text-[11px] text-slate-600">
+                    {row.memo}
+                  </p>
+                )}
+
+                {row.booking_type === "online" &&
+                  canChange &&
+                  (statusOf(row) === "confirmed" || statusOf(row) === "completed") && (
+                    <Link
+                      href={consultationPath(row.id)}
+                      className="inline-flex w-fit items-center gap-1 text-sky-700 underline underline-offset-2"
+                    >
+                      <Video className="h-3 w-3" />
+                      {statusOf(row) === "confirmed"
+                        ? "相談ルームに入る（ビデオ通話・チャット）"
+                        : "相談のやりとりを見る"}
+                    </Link>
+                  )}
+
+                {row.rescheduled_at && row.previous_scheduled_start && (
+                  <p className="text-[11px] text-slate-500">
+                    変更前：{formatSlot(row.previous_scheduled_start, null)}
+                  </p>
+                )}
+
+                {isOpen(row) &&
+                  (!canChange ? (
+                    <p className="text-[11px] text-slate-500">
+                      この端末からは変更・キャンセルできません。予約した端末から操作するか、薬局へご連絡ください。
+                    </p>
+                  ) : check.allowed && check.deadline ? (
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      <span className="mr-auto text-[11px] text-slate-400">
+                        変更・キャンセルは
+                        {formatJstDateLabel(toJstDate(check.deadline))}{" "}
+                        {formatJstTime(check.deadline.toISOString())}まで
+                      </span>
+                      {pharmacist && (
+                        <AppButton
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setReschedulingId((id) => (id === row.id ? null : row.id))
+                          }
+                        >
+                          日時を変更
+                        </AppButton>
+                      )}
+                      <AppButton
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === row.id}
+                        onClick={() => handleCancel(row)}
+                      >
+                        {busyId === row.id ? "処理中..." : "キャンセル"}
+                      </AppButton>
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-slate-500">{check.reason}</p>
+                  ))}
+
+                {reschedulingId === row.id && pharmacist && (
+                  <div className="rounded-md border border-slate-200 p-2">
+                    <SlotPicker
+                      pharmacist={pharmacist}
+                      patientId={patientId}
+                      reschedule={row}
+                      onBooked={(updated) => replaceRow(updated)}
+                    />
+                  </div>
+                )}
+              </AppCard>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,117 @@
+// src/components/prm/ExpiringContracts.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AppCard } from "@/components/ui/app-card";
+import type { AdvisorContract } from "@/types/prm";
+import {
+  ADVISOR_PLAN_LABEL,
+  CONTRACT_EXPIRING_DAYS,
+  daysBetween,
+  expiringContracts,
+  type PrmDataSource,
+} from "@/lib/prm";
+import { toJstDate } from "@/lib/scheduling";
+import { FileClock, Loader2 } from "lucide-react";
+
+/**
+ * 更新が近い顧問契約の一覧（PRM 一覧の上部・薬局ダッシュボード）
+ * - contracts は範囲内の全契約。更新済みのものは expiringContracts() で除く
+ */
+export function ExpiringContractsCard({
+  contracts,
+  patientNames,
+  basePath,
+}: {
+  contracts: AdvisorContract[];
+  patientNames: Map<string, string>;
+  basePath: string;
+}) {
+  const today = toJstDate(new Date());
+  const expiring = expiringContracts(contracts, today);
+  if (expiring.length === 0) return null;
+
+  return (
+    <AppCard className="space-y-2 border-amber-200 bg-amber-50/50">
+      <div className="flex items-center gap-2">
+        <FileClock className="h-5 w-5 text-amber-600" />
+        <h2 className="text-sm font-semibold text-slate-900">
+          更新が近い顧問契約（{expiring.length}件）
+        </h2>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        満了まで{CONTRACT_EXPIRING_DAYS}日以内で、まだ更新していない契約です。自動更新の契約は満了日の翌日に更新されます。
+      </p>
+      <ul className="space-y-1 text-xs">
+        {expiring.map((c) => (
+          <li key={c.id} className="flex flex-wrap items-center gap-2">
+            <Link
+              href={`${basePath}/${c.patient_id}`}
+              className="font-medium text-slate-900 underline-offset-2 hover:underline"
+            >
+              {patientNames.get(c.patient_id) ?? "（名称未設定）"}
+            </Link>
+            <span className="text-slate-600">{ADVISOR_PLAN_LABEL[c.plan]}</span>
+            <span className="text-amber-700">
+              {c.end_date.replace(/-/g, "/")} 満了（あと{daysBetween(today, c.end_date)}日）
+            </span>
+            <span className="text-slate-500">{c.auto_renew ? "自動更新" : "要更新手続き"}</span>
+          </li>
+        ))}
+      </ul>
+    </AppCard>
+  );
+}
+
+/**
+ * 薬局ダッシュボード用（自分で読み込む版）
+ */
+export function ExpiringContracts({
+  dataSource,
+  basePath,
+}: {
+  dataSource: PrmDataSource;
+  basePath: string;
+}) {
+  const [contracts, setContracts] = useState<AdvisorContract[]>([]);
+  const [patientNames, setPatientNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [contractRows, list] = await Promise.all([
+          dataSource.listContracts(),
+          dataSource.listPatients(),
+        ]);
+        setContracts(contractRows);
+        setPatientNames(new Map(list.patients.map((p) => [p.id, p.name ?? "（名称未設定）"])));
+      } catch (err) {
+        console.error("Failed to load expiring contracts", err);
+        setError("顧問契約を取得できませんでした。");
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+  }, [dataSource]);
+
+  if (loading) {
+    return (
+      <AppCard className="flex items-center gap-2 text-xs text-slate-600">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>顧問契約を確認しています...</span>
+      </AppCard>
+    );
+  }
+  if (error) {
+    return <AppCard className="text-xs text-red-600">{error}</AppCard>;
+  }
+  return (
+    <ExpiringContractsCard contracts={contracts} patientNames={patientNames} basePath={basePath} />
+  );
+}
@@ -0,0 +1,373 @@
+// src/components/prm/PrmAdvisorContracts.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import type {
+  AdvisorContract,
+  AdvisorPlan,
+  PatientLog,
+  RelationStatusEvent,
+} from "@/types/prm";
+import {
+  ADVISOR_PLANS,
+  ADVISOR_PLAN_DEFAULTS,
+  ADVISOR_PLAN_LABEL,
+  CONTRACT_STATE_LABEL,
+  CONTRACT_TERM_OPTIONS,
+  contractEndDate,
+  contractState,
+  contractUsage,
+  currentContract,
+  daysBetween,
+  isRenewed,
+  parseAdvisorContractInput,
+  type ContractState,
+  type PrmDataSource,
+} from "@/lib/prm";
+import { toJstDate } from "@/lib/scheduling";
+import { FileSignature } from "lucide-react";
+
+const STATE_BADGE_CLASS: Record<ContractState, string> = {
+  scheduled: "border-slate-200 bg-slate-50 text-slate-600",
+  active: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  expiring: "border-amber-200 bg-amber-50 text-amber-800",
+  expired: "border-slate-200 bg-slate-100 text-slate-500",
+};
+
+const inputClass =
+  "h-9 w-full rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200";
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+function formatYen(value: number): string {
+  return `${value.toLocaleString("ja-JP")}円`;
+}
+
+function formatPeriod(contract: AdvisorContract): string {
+  return `${contract.start_date.replace(/-/g, "/")} 〜 ${contract.end_date.replace(/-/g, "/")}`;
+}
+
+/**
+ * 患者詳細：顧問契約
+ * - 今の契約の期間・今月の相談回数（相談ログの件数）・自動更新・更新操作
+ * - 新しい契約を登録すると、期間中なら関係ステータスが「顧問中」になる（onStatusEvent で詳細画面に伝える）
+ */
+export function PrmAdvisorContracts({
+  dataSource,
+  patientId,
+  logs,
+  onStatusEvent,
+}: {
+  dataSource: PrmDataSource;
+  patientId: string;
+  logs: PatientLog[];
+  onStatusEvent: (event: RelationStatusEvent) => void;
+}) {
+  const today = toJstDate(new Date());
+
+  const [contracts, setContracts] = useState<AdvisorContract[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [showForm, setShowForm] = useState(false);
+  const [plan, setPlan] = useState<AdvisorPlan>("standard");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(() => contractEndDate(today, 12));
+  const [monthlyFee, setMonthlyFee] = useState(String(ADVISOR_PLAN_DEFAULTS.standard.monthlyFee));
+  const [monthlyAllowance, setMonthlyAllowance] = useState(
+    String(ADVISOR_PLAN_DEFAULTS.standard.monthlyAllowance)
+  );
+  const [autoRenew, setAutoRenew] = useState(true);
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setContracts(await dataSource.listPatientContracts(patientId));
+      } catch (err) {
+        console.error("Failed to fetch advisor contracts", err);
+        setError(errorMessage(err, "顧問契約の取得に失敗しました。"));
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+  }, [dataSource, patientId]);
+
+  const current = useMemo(() => currentContract(contracts, today), [contracts, today]);
+  const usage = useMemo(
+    () => (current ? contractUsage(current, logs, new Date()) : null),
+    [current, logs]
+  );
+
+  const handlePlanChange = (next: AdvisorPlan) => {
+    setPlan(next);
+    setMonthlyFee(String(ADVISOR_PLAN_DEFAULTS[next].monthlyFee));
+    setMonthlyAllowance(String(ADVISOR_PLAN_DEFAULTS[next].monthlyAllowance));
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    let input;
+    try {
+      input = parseAdvisorContractInput({
+        plan,
+        start_date: startDate,
+        end_date: endDate,
+        auto_renew: autoRenew,
+        monthly_fee: monthlyFee,
+        monthly_allowance: monthlyAllowance,
+        note,
+      });
+    } catch (err) {
+      setError(errorMessage(err, "入力内容を確認してください。"));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await dataSource.createContract(patientId, input);
+      setContracts((prev) => [result.contract, ...prev]);
+      if (result.event) onStatusEvent(result.event);
+      setShowForm(false);
+      setNote("");
+    } catch (err) {
+      console.error("Failed to create advisor contract", err);
+      setError(errorMessage(err, "顧問契約の登録に失敗しました。"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRenew = async (contract: AdvisorContract) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const renewed = await dataSource.renewContract(contract.id);
+      setContracts((prev) => [renewed, ...prev]);
+    } catch (err) {
+      console.error("Failed to renew advisor contract", err);
+      setError(errorMessage(err, "契約の更新に失敗しました。"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAutoRenew = async (contract: AdvisorContract, next: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await dataSource.setContractAutoRenew(contract.id, next);
+      setContracts((prev) =>
+        prev.map((c) => (c.id === contract.id ? { ...c, auto_renew: next } : c))
+      );
+    } catch (err) {
+      console.error("Failed to update auto renew", err);
+      setError(errorMessage(err, "保存中にエラーが発生しました。"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <AppCard className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5 text-emerald-600" />
+          <h2 className="text-sm font-semibold text-slate-900">顧問契約</h2>
+        </div>
+        {!showForm && (
+          <AppButton type="button" variant="outline" size="sm" onClick={() => setShowForm(true)}>
+            契約を登録
+          </AppButton>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-xs text-slate-500">顧問契約を読み込み中です…</p>
+      ) : contracts.length === 0 ? (
+        <p className="text-xs text-slate-500">まだ顧問契約はありません。</p>
+      ) : (
+        <ul className="space-y-2">
+          {contracts.map((c) => {
+            const state = contractState(c, today);
+            const renewed = isRenewed(c, contracts);
+            const left = daysBetween(today, c.end_date);
+            return (
+              <li
+                key={c.id}
+                className={`space-y-1 rounded-md border px-3 py-2 text-xs ${
+                  current?.id === c.id ? "border-emerald-200 bg-white" : "border-slate-200 bg-slate-50/60"
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`inline-flex rounded-full border px-2 py-0.5 text-[11px] ${STATE_BADGE_CLASS[state]}`}
+                  >
+                    {CONTRACT_STATE_LABEL[state]}
+                  </span>
+                  <span className="font-medium text-slate-900">{ADVISOR_PLAN_LABEL[c.plan]}</span>
+                  <span className="text-slate-600">{formatPeriod(c)}</span>
+                  <span className="text-slate-600">
+                    月額 {formatYen(c.monthly_fee)}・月{c.monthly_allowance}回まで
+                  </span>
+                  {state === "expiring" && !renewed && (
+                    <span className="text-amber-700">満了まであと{left}日</span>
+                  )}
+                  {renewed && <span className="text-slate-500">更新済み</span>}
+                </div>
+
+                {current?.id === c.id && usage && (
+                  <p className={usage.over ? "text-red-600" : "text-slate-700"}>
+                    今月の相談：{usage.used} / {usage.allowance}回
+                    {usage.over
+                      ? `（${usage.used - usage.allowance}回超過）`
+                      : `（残り${usage.remaining}回）`}
+                  </p>
+                )}
+                {c.note && <p className="text-slate-500">{c.note}</p>}
+
+                {state !== "expired" && !renewed && (
+                  <div className="flex flex-wrap items-center gap-3 pt-1">
+                    <label className="inline-flex items-center gap-1 text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={c.auto_renew}
+                        disabled={busy}
+                        onChange={(e) => handleAutoRenew(c, e.target.checked)}
+                      />
+                      満了時に自動更新
+                    </label>
+                    {state === "expiring" && (
+                      <AppButton
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        disabled={busy}
+                        onClick={() => handleRenew(c)}
+                      >
+                        同じ条件で更新
+                      </AppButton>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showForm && (
+        <div className="space-y-3 rounded-md border border-slate-200 bg-slate-50/60 p-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">プラン</label>
+              <select
+                value={plan}
+                onChange={(e) => handlePlanChange(e.target.value as AdvisorPlan)}
+                className={inputClass}
+              >
+                {ADVISOR_PLANS.map((p) => (
+                  <option key={p} value={p}>
+                    {ADVISOR_PLAN_LABEL[p]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">月額（円）</label>
+              <input
+                type="number"
+                min={0}
+                value={monthlyFee}
+                onChange={(e) => setMonthlyFee(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">月あたりの相談回数</label>
+              <input
+                type="number"
+                min={0}
+                value={monthlyAllowance}
+                onChange={(e) => setMonthlyAllowance(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">開始日</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-slate-700">終了日</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClass}
+              />
+              <div className="flex gap-1">
+                {CONTRACT_TERM_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.months}
+                    type="button"
+                    disabled={!startDate}
+                    onClick={() => setEndDate(contractEndDate(startDate, opt.months))}
+                    className="rounded-full border border-slate-300 px-2 py-0.5 text-[11px] text-slate-700 hover:bg-white"
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end pb-2">
+              <label className="inline-flex items-center gap-1 text-xs text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={autoRenew}
+                  onChange={(e) => setAutoRenew(e.target.checked)}
+                />
+                満了時に自動更新
+              </label>
+            </div>
+          </div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="契約メモ（任意）例：家族分の相談も含む"
+            className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+          />
+          <div className="flex justify-end gap-2">
+            <AppButton
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={busy}
+              onClick={() => setShowForm(false)}
+            >
+              閉じる
+            </AppButton>
+            <AppButton type="button" size="sm" disabled={busy} onClick={handleCreate}>
+              {busy ? "登録中..." : "契約を登録"}
+            </AppButton>
+          </div>
+        </div>
+      )}
+    </AppCard>
+  );
+}
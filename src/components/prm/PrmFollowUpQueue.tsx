@@ -0,0 +1,359 @@
+// src/components/prm/PrmFollowUpQueue.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import type { Pharmacist } from "@/types/supabase";
+import type { PatientLogChannel, PatientWithPrm } from "@/types/prm";
+import {
+  buildFollowUpQueue,
+  defaultNextContactDays,
+  FOLLOW_UP_BUCKETS,
+  FOLLOW_UP_BUCKET_LABEL,
+  FOLLOW_UP_WINDOW_DAYS,
+  LOG_CHANNEL_OPTIONS,
+  NEXT_CONTACT_PRESETS,
+  PRIORITY_LABEL,
+  scheduleNextContact,
+  type FollowUpBucket,
+  type FollowUpItem,
+  type PrmDataSource,
+} from "@/lib/prm";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+/** 担当薬剤師の絞り込み："all" / 薬剤師ID / "none"（担当未設定） */
+type PharmacistFilter = string;
+
+const STORAGE_KEY = "prmFollowUpPharmacist_v1";
+
+const BUCKET_CLASS: Record<FollowUpBucket, string> = {
+  overdue: "border-red-200 bg-red-50/40",
+  today: "border-amber-200 bg-amber-50/40",
+  this_week: "border-slate-200 bg-white",
+};
+
+const inputClass =
+  "h-9 w-full rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200";
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "-";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleDateString("ja-JP", { month: "short", day: "numeric", weekday: "short" });
+}
+
+function toDateInputValue(value: string | null): string {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "";
+  // 日本時間の日付
+  return new Date(d.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * 「連絡を記録して次回を予約」のフォーム
+ * - 相談ログを1件残し、最終フォロー日・次回フォロー予定日をまとめて更新する
+ */
+function FollowUpForm({
+  patient,
+  dataSource,
+  onDone,
+  onCancel,
+}: {
+  patient: PatientWithPrm;
+  dataSource: PrmDataSource;
+  onDone: (updated: Pick<PatientWithPrm, "last_contact_at" | "next_contact_at">) => void;
+  onCancel: () => void;
+}) {
+  const [channel, setChannel] = useState<PatientLogChannel>("call");
+  const [summary, setSummary] = useState("");
+  const [note, setNote] = useState("");
+  const [nextDate, setNextDate] = useState(() =>
+    toDateInputValue(scheduleNextContact(new Date(), defaultNextContactDays(patient)))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!summary.trim()) {
+      setError("一行要約を入力してください。");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await dataSource.logFollowUp(patient.id, {
+        log: {
+          contact_at: new Date().toISOString(),
+          channel,
+          summary: summary.trim(),
+          note: note.trim() || null,
+        },
+        next_contact_at: nextDate ? new Date(`${nextDate}T00:00:00+09:00`).toISOString() : null,
+      });
+      onDone({
+        last_contact_at: result.last_contact_at,
+        next_contact_at: result.next_contact_at,
+      });
+    } catch (err) {
+      console.error("Failed to log follow-up", err);
+      setError(err instanceof Error && err.message ? err.message : "フォローの記録に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2 rounded-md border border-slate-200 bg-white p-3">
+      <div className="grid gap-2 md:grid-cols-3">
+        <select
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as PatientLogChannel)}
+          className={inputClass}
+        >
+          {LOG_CHANNEL_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          placeholder="一行要約（例：服薬状況を確認、変化なし）"
+          className={`${inputClass} md:col-span-2`}
+        />
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        placeholder="詳細メモ（任意）"
+        className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-700">
+        <span>次回フォロー：</span>
+        {NEXT_CONTACT_PRESETS.map((preset) => (
+          <button
+            key={preset.days}
+            type="button"
+            onClick={() =>
+              setNextDate(toDateInputValue(scheduleNextContact(new Date(), preset.days)))
+            }
+            className="rounded-full border border-slate-300 px-2 py-0.5 hover:bg-slate-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <input
+          type="date"
+          value={nextDate}
+          onChange={(e) => setNextDate(e.target.value)}
+          className="h-8 rounded-md border border-slate-300 px-2 text-xs"
+        />
+        {!nextDate && <span className="text-slate-500">（予定なし）</span>}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <AppButton type="button" variant="outline" size="sm" onClick={onCancel} disabled={saving}>
+          閉じる
+        </AppButton>
+        <AppButton type="button" size="sm" onClick={handleSubmit} disabled={saving}>
+          {saving ? "記録中..." : "記録して次回を予約"}
+        </AppButton>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 今日のフォロー（管理者画面・薬局画面で共通）
+ * - 担当薬剤師ごとに、期限超過 / 今日 / 今週 のフォローを並べる
+ * - 優先度「高」の期限超過は店長にメールでエスカレーションされる（/api/cron/follow-ups）
+ */
+export function PrmFollowUpQueue({
+  dataSource,
+  basePath,
+}: {
+  dataSource: PrmDataSource;
+  basePath: string;
+}) {
+  const [patients, setPatients] = useState<PatientWithPrm[]>([]);
+  const [pharmacists, setPharmacists] = useState<Pharmacist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pharmacistFilter, setPharmacistFilter] = useState<PharmacistFilter>("all");
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [doneIds, setDoneIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) setPharmacistFilter(stored);
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, pharmacistFilter);
+  }, [pharmacistFilter]);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const list = await dataSource.listPatients();
+        setPatients(list.patients);
+        setPharmacists(list.pharmacists);
+      } catch (err) {
+        console.error("Failed to fetch follow-up queue", err);
+        setError(err instanceof Error && err.message ? err.message : "データ取得に失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+  }, [dataSource]);
+
+  const queue = useMemo(
+    () =>
+      buildFollowUpQueue(
+        patients,
+        new Date(),
+        pharmacistFilter === "all"
+          ? {}
+          : { pharmacistId: pharmacistFilter === "none" ? null : pharmacistFilter }
+      ),
+    [patients, pharmacistFilter]
+  );
+
+  const handleDone = (
+    patientId: string,
+    updated: Pick<PatientWithPrm, "last_contact_at" | "next_contact_at">
+  ) => {
+    setPatients((prev) => prev.map((p) => (p.id === patientId ? { ...p, ...updated } : p)));
+    setDoneIds((prev) => [...prev, patientId]);
+    setOpenId(null);
+  };
+
+  const renderItem = (item: FollowUpItem) => {
+    const p = item.patient;
+    return (
+      <li key={p.id} className="rounded-md border border-slate-200 bg-white px-3 py-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span
+              className={`inline-flex rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                p.priority === 1
+                  ? "bg-red-50 text-red-700"
+                  : p.priority === 2
+                  ? "bg-amber-50 text-amber-700"
+                  : "bg-slate-50 text-slate-600"
+              }`}
+            >
+              {PRIORITY_LABEL[p.priority]}
+            </span>
+            <Link
+              href={`${basePath}/${p.id}`}
+              className="text-sm font-medium text-slate-900 underline-offset-2 hover:underline"
+            >
+              {p.name ?? "（名称未設定）"}
+            </Link>
+            <span className="text-slate-500">予定：{formatDate(p.next_contact_at)}</span>
+            {item.daysOverdue > 0 && (
+              <span className="text-red-600">{item.daysOverdue}日超過</span>
+            )}
+            {item.escalate && (
+              <span className="inline-flex items-center gap-1 rounded-full bg-red-600 px-2 py-0.5 text-[10px] text-white">
+                <AlertTriangle className="h-3 w-3" />
+                店長にエスカレーション
+              </span>
+            )}
+          </div>
+          {openId !== p.id && (
+            <AppButton type="button" size="sm" onClick={() => setOpenId(p.id)}>
+              連絡を記録
+            </AppButton>
+          )}
+        </div>
+        <p className="mt-1 text-[11px] text-slate-500">
+          最終フォロー：{formatDate(p.last_contact_at)}
+          {p.tags && p.tags.length > 0 && ` ／ ${p.tags.join("・")}`}
+        </p>
+        {openId === p.id && (
+          <FollowUpForm
+            patient={p}
+            dataSource={dataSource}
+            onDone={(updated) => handleDone(p.id, updated)}
+            onCancel={() => setOpenId(null)}
+          />
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 px-4 py-8">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-slate-900 sm:text-2xl">
+            今日のフォロー
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            次回フォロー予定日が過ぎた患者・今日の患者・{FOLLOW_UP_WINDOW_DAYS}日以内の患者を、優先度の高い順に並べています。
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={pharmacistFilter}
+            onChange={(e) => setPharmacistFilter(e.target.value)}
+            className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm"
+          >
+            <option value="all">担当：すべて</option>
+            {pharmacists.map((ph) => (
+              <option key={ph.id} value={ph.id}>
+                {ph.name ?? "名称未設定"}
+              </option>
+            ))}
+            <option value="none">担当未設定</option>
+          </select>
+          <Link href={basePath}>
+            <AppButton variant="outline" size="sm">
+              患者一覧
+            </AppButton>
+          </Link>
+        </div>
+      </div>
+
+      {doneIds.length > 0 && (
+        <p className="text-xs text-emerald-700">今日 {doneIds.length} 件のフォローを記録しました。</p>
+      )}
+
+      {loading ? (
+        <AppCard className="flex items-center justify-center gap-2 py-10 text-sm text-slate-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          読み込み中です…
+        </AppCard>
+      ) : error ? (
+        <AppCard className="border-red-200 bg-red-50 py-4 text-sm text-red-700">{error}</AppCard>
+      ) : (
+        FOLLOW_UP_BUCKETS.map((bucket) => (
+          <AppCard key={bucket} className={`space-y-3 ${BUCKET_CLASS[bucket]}`}>
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-semibold text-slate-900">
+                {FOLLOW_UP_BUCKET_LABEL[bucket]}
+              </h2>
+              <span className="text-xs text-slate-500">{queue[bucket].length}件</span>
+            </div>
+            {queue[bucket].length === 0 ? (
+              <p className="text-xs text-slate-500">対象の患者はいません。</p>
+            ) : (
+              <ul className="space-y-2">{queue[bucket].map(renderItem)}</ul>
+            )}
+          </AppCard>
+        ))
+      )}
+    </div>
+  );
+}
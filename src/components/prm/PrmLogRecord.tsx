@@ -0,0 +1,208 @@
+// src/components/prm/PrmLogRecord.tsx
+"use client";
+
+import type { PatientLog, PatientLogChannel } from "@/types/prm";
+import { AppButton } from "@/components/ui/app-button";
+import {
+  applyLogTemplate,
+  EMPTY_SOAP_DRAFT,
+  LOG_ACTION_ITEMS_MAX,
+  SOAP_SECTIONS,
+  type SoapDraft,
+} from "@/lib/prm";
+import { CheckSquare, ClipboardList, Pill, Plus, Square, X } from "lucide-react";
+
+/** 相談ログの構造化記録の入力中の値 */
+export type LogRecordDraft = {
+  soap: SoapDraft;
+  /** 「,」「、」区切り */
+  medications: string;
+  actionItems: { text: string; due_date: string }[];
+};
+
+export const EMPTY_LOG_RECORD_DRAFT: LogRecordDraft = {
+  soap: EMPTY_SOAP_DRAFT,
+  medications: "",
+  actionItems: [],
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-300 bg-white px-3 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200";
+
+/**
+ * 相談ログの追加フォームのうち、SOAP・薬・対応事項の欄
+ * - テンプレートはチャネルごと。入力済みの欄は上書きしない
+ */
+export function LogRecordFields({
+  value,
+  onChange,
+  channel,
+}: {
+  value: LogRecordDraft;
+  onChange: (next: LogRecordDraft) => void;
+  channel: PatientLogChannel;
+}) {
+  const updateActionItem = (index: number, patch: Partial<LogRecordDraft["actionItems"][number]>) =>
+    onChange({
+      ...value,
+      actionItems: value.actionItems.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1 text-xs font-medium text-slate-700">
+          <ClipboardList className="h-3.5 w-3.5" />
+          SOAP（任意）
+        </div>
+        <AppButton
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, soap: applyLogTemplate(value.soap, channel) })}
+        >
+          テンプレートを入れる
+        </AppButton>
+      </div>
+      <div className="grid gap-3 md:grid-cols-2">
+        {SOAP_SECTIONS.map((section) => (
+          <div key={section.key} className="space-y-1">
+            <label className="text-xs font-medium text-slate-700">{section.label}</label>
+            <textarea
+              value={value.soap[section.key]}
+              onChange={(e) =>
+                onChange({ ...value, soap: { ...value.soap, [section.key]: e.target.value } })
+              }
+              rows={3}
+              placeholder={section.hint}
+              className={`${inputClass} py-2`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 text-xs font-medium text-slate-700">
+          <Pill className="h-3.5 w-3.5" />
+          話に出た薬（任意・「、」区切り）
+        </label>
+        <input
+          type="text"
+          value={value.medications}
+          onChange={(e) => onChange({ ...value, medications: e.target.value })}
+          placeholder="例：ロキソプロフェン、レバミピド"
+          className={`${inputClass} h-9`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label className="text-xs font-medium text-slate-700">次回までの対応事項（任意）</label>
+          <AppButton
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={value.actionItems.length >= LOG_ACTION_ITEMS_MAX}
+            onClick={() =>
+              onChange({ ...value, actionItems: [...value.actionItems, { text: "", due_date: "" }] })
+            }
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            対応事項を追加
+          </AppButton>
+        </div>
+        {value.actionItems.map((item, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={item.text}
+              onChange={(e) => updateActionItem(index, { text: e.target.value })}
+              placeholder="例：整腸剤を2週間続けたあとの便通を確認"
+              className={`${inputClass} h-9 min-w-0 flex-1`}
+            />
+            <input
+              type="date"
+              value={item.due_date}
+              onChange={(e) => updateActionItem(index, { due_date: e.target.value })}
+              className="h-9 rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+            />
+            <button
+              type="button"
+              aria-label="対応事項を削除"
+              onClick={() =>
+                onChange({
+                  ...value,
+                  actionItems: value.actionItems.filter((_, i) => i !== index),
+                })
+              }
+              className="rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** 相談ログ一覧での SOAP・薬・対応事項の表示（何もなければ出さない） */
+export function LogRecordView({ log }: { log: PatientLog }) {
+  const sections = SOAP_SECTIONS.filter((s) => log.soap?.[s.key]);
+  const medications = log.medications ?? [];
+  const actionItems = log.action_items ?? [];
+  if (sections.length === 0 && medications.length === 0 && actionItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {sections.length > 0 && (
+        <dl className="space-y-1 rounded-md bg-slate-50 px-2 py-1.5">
+          {sections.map((section) => (
+            <div key={section.key} className="flex gap-2">
+              <dt className="w-16 shrink-0 text-[11px] font-medium text-slate-500">
+                {section.label}
+              </dt>
+              <dd className="whitespace-pre-wrap text-[12px] text-slate-700">
+                {log.soap?.[section.key]}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {medications.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <Pill className="h-3.5 w-3.5 text-slate-400" />
+          {medications.map((name) => (
+            <span
+              key={name}
+              className="inline-flex rounded-full bg-sky-50 px-2 py-0.5 text-[11px] text-sky-700"
+            >
+              {name}
+            </span>
+          ))}
+        </div>
+      )}
+      {actionItems.length > 0 && (
+        <ul className="space-y-0.5">
+          {actionItems.map((item, index) => (
+            <li key={index} className="flex items-center gap-1 text-[12px] text-slate-700">
+              {item.done ? (
+                <CheckSquare className="h-3.5 w-3.5 text-emerald-600" />
+              ) : (
+                <Square className="h-3.5 w-3.5 text-slate-400" />
+              )}
+              <span className={item.done ? "text-slate-400 line-through" : ""}>{item.text}</span>
+              {item.due_date && (
+                <span className="text-[11px] text-slate-500">
+                  （期日 {item.due_date.replace(/-/g, "/")}）
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
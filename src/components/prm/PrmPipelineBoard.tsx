@@ -0,0 +1,249 @@
+// src/components/prm/PrmPipelineBoard.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AppCard } from "@/components/ui/app-card";
+import { AppButton } from "@/components/ui/app-button";
+import type { Pharmacist } from "@/types/supabase";
+import type { PatientWithPrm, RelationStatus } from "@/types/prm";
+import {
+  PRIORITY_LABEL,
+  RELATION_STATUSES,
+  RELATION_STATUS_COLUMN_CLASS,
+  RELATION_STATUS_LABEL,
+  type PrmDataSource,
+} from "@/lib/prm";
+import { Loader2 } from "lucide-react";
+
+type PendingMove = {
+  patient: PatientWithPrm;
+  to: RelationStatus;
+};
+
+function formatDate(value: string | null | undefined): string {
+  if (!value) return "-";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return "-";
+  return d.toLocaleDateString("ja-JP", { month: "short", day: "numeric" });
+}
+
+/**
+ * 関係ステータスのかんばん（管理者画面・薬局画面で共通）
+ * - カードを別の列にドラッグすると、理由を入れて確定する（スマホはカードの「移動」から）
+ * - 移動は dataSource.moveRelationStatus を通るので、操作者・日時・理由が履歴に残る
+ */
+export function PrmPipelineBoard({
+  dataSource,
+  basePath,
+}: {
+  dataSource: PrmDataSource;
+  basePath: string;
+}) {
+  const [patients, setPatients] = useState<PatientWithPrm[]>([]);
+  const [pharmacists, setPharmacists] = useState<Pharmacist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<RelationStatus | null>(null);
+  const [pending, setPending] = useState<PendingMove | null>(null);
+  const [reason, setReason] = useState("");
+  const [moving, setMoving] = useState(false);
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const list = await dataSource.listPatients();
+        setPatients(list.patients);
+        setPharmacists(list.pharmacists);
+      } catch (err) {
+        console.error("Failed to fetch pipeline", err);
+        setError(err instanceof Error && err.message ? err.message : "データ取得に失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+    void run();
+  }, [dataSource]);
+
+  const columns = useMemo(() => {
+    const grouped: Record<RelationStatus, PatientWithPrm[]> = {
+      lead: [],
+      active: [],
+      advisor: [],
+      ended: [],
+    };
+    patients.forEach((p) => grouped[p.relation_status].push(p));
+    RELATION_STATUSES.forEach((status) =>
+      grouped[status].sort(
+        (a, b) =>
+          a.priority - b.priority ||
+          (a.name ?? "").localeCompare(b.name ?? "", "ja")
+      )
+    );
+    return grouped;
+  }, [patients]);
+
+  const pharmacistName = (id: string | null) =>
+    (id && pharmacists.find((ph) => ph.id === id)?.name) || "担当未設定";
+
+  const requestMove = (patientId: string, to: RelationStatus) => {
+    const patient = patients.find((p) => p.id === patientId);
+    if (!patient || patient.relation_status === to) return;
+    setPending({ patient, to });
+    setReason("");
+    setMoveError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    setMoving(true);
+    setMoveError(null);
+    try {
+      await dataSource.moveRelationStatus(pending.patient.id, {
+        to: pending.to,
+        reason: reason.trim() || null,
+      });
+      setPatients((prev) =>
+        prev.map((p) =>
+          p.id === pending.patient.id ? { ...p, relation_status: pending.to } : p
+        )
+      );
+      setPending(null);
+    } catch (err) {
+      console.error("Failed to move relation status", err);
+      setMoveError(
+        err instanceof Error && err.message ? err.message : "ステータスの変更に失敗しました。"
+      );
+    } finally {
+      setMoving(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 px-4 py-8">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-slate-900 sm:text-2xl">
+            ステータスのパイプライン
+          </h1>
+          <p className="mt-1 text-sm text-slate-500">
+            カードを別の列にドラッグしてステータスを変更します。変更は理由とあわせて履歴に残ります。
+          </p>
+        </div>
+        <Link href={basePath}>
+          <AppButton variant="outline" size="sm">
+            患者一覧
+          </AppButton>
+        </Link>
+      </div>
+
+      {pending && (
+        <AppCard className="space-y-3 border-emerald-200 bg-emerald-50/40">
+          <p className="text-sm text-slate-800">
+            「{pending.patient.name ?? "（名称未設定）"}」を
+            {RELATION_STATUS_LABEL[pending.patient.relation_status]} →{" "}
+            <span className="font-semibold">{RELATION_STATUS_LABEL[pending.to]}</span>
+            に変更します。
+          </p>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="変更の理由（任意）例：初回相談を実施、顧問契約を締結"
+            className="h-9 w-full rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus:border-emerald-500 focus:ring-1 focus:ring-emerald-200"
+          />
+          {moveError && <p className="text-xs text-red-600">{moveError}</p>}
+          <div className="flex justify-end gap-2">
+            <AppButton
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPending(null)}
+              disabled={moving}
+            >
+              やめる
+            </AppButton>
+            <AppButton type="button" size="sm" onClick={handleConfirm} disabled={moving}>
+              {moving ? "変更中..." : "変更する"}
+            </AppButton>
+          </div>
+        </AppCard>
+      )}
+
+      {loading ? (
+        <AppCard className="flex items-center justify-center gap-2 py-10 text-sm text-slate-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          読み込み中です…
+        </AppCard>
+      ) : error ? (
+        <AppCard className="border-red-200 bg-red-50 py-4 text-sm text-red-700">{error}</AppCard>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {RELATION_STATUSES.map((status) => (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOver(status);
+              }}
+              onDragLeave={() => setDragOver((cur) => (cur === status ? null : cur))}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragOver(null);
+                requestMove(e.dataTransfer.getData("text/plain"), status);
+              }}
+              className={`min-h-[12rem] space-y-2 rounded-xl border p-3 ${
+                RELATION_STATUS_COLUMN_CLASS[status]
+              } ${dragOver === status ? "ring-2 ring-emerald-300" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-slate-900">
+                  {RELATION_STATUS_LABEL[status]}
+                </h2>
+                <span className="text-xs text-slate-500">{columns[status].length}名</span>
+              </div>
+              {columns[status].map((p) => (
+                <div
+                  key={p.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData("text/plain", p.id)}
+                  className="cursor-grab space-y-1 rounded-md border border-slate-200 bg-white px-3 py-2 shadow-sm active:cursor-grabbing"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <Link
+                      href={`${basePath}/${p.id}`}
+                      className="truncate text-sm font-medium text-slate-900 underline-offset-2 hover:underline"
+                    >
+                      {p.name ?? "（名称未設定）"}
+                    </Link>
+                    <span className="shrink-0 text-[11px] text-slate-500">
+                      優先度 {PRIORITY_LABEL[p.priority]}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-slate-500">
+                    {pharmacistName(p.main_pharmacist_id)}・次回 {formatDate(p.next_contact_at)}
+                  </p>
+                  <select
+                    value=""
+                    onChange={(e) => requestMove(p.id, e.target.value as RelationStatus)}
+                    className="h-7 rounded border border-slate-200 bg-white px-1 text-[11px] text-slate-600"
+                  >
+                    <option value="">移動…</option>
+                    {RELATION_STATUSES.filter((s) => s !== status).map((s) => (
+                      <option key={s} value={s}>
+                        {RELATION_STATUS_LABEL[s]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
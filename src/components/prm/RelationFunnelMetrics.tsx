@@ -0,0 +1,129 @@
+// src/components/prm/RelationFunnelMetrics.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { RelationStatus, RelationStatusEvent } from "@/types/prm";
+import {
+  RELATION_STATUS_LABEL,
+  relationFunnel,
+  type PipelinePatient,
+  type RelationFunnel,
+} from "@/lib/prm";
+import { AppCard } from "@/components/ui/app-card";
+import { Filter, Loader2 } from "lucide-react";
+
+/** 日数の中央値を出すステータス（対応終了は「いた期間」が終わらないので出さない） */
+const STAGES: RelationStatus[] = ["lead", "active", "advisor"];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * 管理者ダッシュボード：関係ステータスのファネル
+ * - 見込み→対応中→顧問中の転換率と、各段階にいた日数の中央値
+ * - relation_status_events（かんばん・患者詳細での変更履歴）から集計する
+ */
+export function RelationFunnelMetrics() {
+  const [funnel, setFunnel] = useState<RelationFunnel | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data: patients, error: patientError } = await supabase
+          .from("patients")
+          .select("id, created_at, relation_status");
+        if (patientError) throw patientError;
+
+        const { data: events, error: eventError } = await supabase
+          .from("relation_status_events")
+          .select("patient_id, from_status, to_status, created_at");
+        if (eventError) throw eventError;
+
+        setFunnel(
+          relationFunnel(
+            (patients ?? []) as PipelinePatient[],
+            (events ?? []) as Pick<
+              RelationStatusEvent,
+              "patient_id" | "from_status" | "to_status" | "created_at"
+            >[]
+          )
+        );
+      } catch (err) {
+        console.error("Failed to load relation funnel", err);
+        setError("ファネルを集計できませんでした。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void run();
+  }, []);
+
+  return (
+    <AppCard className="space-y-4 p-4">
+      <div className="flex items-center gap-2">
+        <Filter className="h-5 w-5 text-emerald-600" />
+        <h2 className="text-sm font-semibold text-slate-900">顧問化までのファネル</h2>
+      </div>
+      <p className="text-xs text-slate-500">
+        ステータスの変更履歴から集計しています。転換率は「その段階に入った患者のうち、その後に次の段階まで進んだ割合」です。
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>集計しています...</span>
+        </div>
+      ) : funnel ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-800">転換率</h3>
+            <table className="w-full text-xs">
+              <tbody>
+                {funnel.conversions.map((c) => (
+                  <tr key={`${c.from}-${c.to}`} className="border-b border-slate-100 text-slate-700">
+                    <td className="py-1">
+                      {RELATION_STATUS_LABEL[c.from]} → {RELATION_STATUS_LABEL[c.to]}
+                    </td>
+                    <td className="py-1 text-right text-slate-500">
+                      {c.converted} / {c.entered}
+                    </td>
+                    <td className="py-1 text-right font-semibold text-slate-900">
+                      {formatRate(c.rate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-800">各段階の日数（中央値）</h3>
+            <table className="w-full text-xs">
+              <tbody>
+                {STAGES.map((status) => (
+                  <tr key={status} className="border-b border-slate-100 text-slate-700">
+                    <td className="py-1">{RELATION_STATUS_LABEL[status]}</td>
+                    <td className="py-1 text-right text-slate-500">
+                      現在 {funnel.counts[status]}名
+                    </td>
+                    <td className="py-1 text-right font-semibold text-slate-900">
+                      {funnel.medianDays[status] === null ? "-" : `${funnel.medianDays[status]}日`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </AppCard>
+  );
+}
@@ -0,0 +1,101 @@
+// src/components/scheduling/AppointmentStatusActions.tsx
+"use client";
+
+import { useState } from "react";
+import type { Appointment, AppointmentStatus } from "@/types/supabase";
+import { AppButton } from "@/components/ui/app-button";
+import {
+  APPOINTMENT_ACTION_LABEL,
+  APPOINTMENT_STATUS_BADGE_CLASS,
+  APPOINTMENT_STATUS_LABEL,
+  availableTransitions,
+  statusOf,
+  type AppointmentActor,
+} from "@/lib/scheduling";
+import { requestAppointmentTransition } from "@/lib/scheduling/client";
+
+/** 取り消せない（取り消しにくい）操作は確認してから実行する */
+const CONFIRM_MESSAGE: Partial<Record<AppointmentStatus, string>> = {
+  cancelled: "この予約をキャンセルします。よろしいですか？",
+  no_show: "この予約を無断欠席として記録します。よろしいですか？",
+  completed: "この予約を完了にします。よろしいですか？",
+};
+
+export function AppointmentStatusBadge({
+  status,
+}: {
+  status: AppointmentStatus | null | undefined;
+}) {
+  const s = statusOf({ status });
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] ${APPOINTMENT_STATUS_BADGE_CLASS[s]}`}
+    >
+      {APPOINTMENT_STATUS_LABEL[s]}
+    </span>
+  );
+}
+
+/**
+ * 予約の状態変更ボタン
+ * - 操作者（actor.role）が今の状態から選べる遷移だけを出す
+ *   （出し分けだけ。実際に変更できるかは /api/appointments がログイン中のアカウントで判定する）
+ * - 変更後の予約を onChanged で親に返す（一覧の行を差し替える用）
+ */
+export function AppointmentStatusActions({
+  appointment,
+  actor,
+  onChanged,
+}: {
+  appointment: Pick<Appointment, "id"> & { status?: AppointmentStatus | null };
+  actor: AppointmentActor;
+  onChanged: (updated: Appointment) => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets = availableTransitions(statusOf(appointment), actor.role);
+  if (targets.length === 0) return null;
+
+  const handleTransition = async (to: AppointmentStatus) => {
+    const message = CONFIRM_MESSAGE[to];
+    if (message && !window.confirm(message)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await requestAppointmentTransition(appointment.id, to);
+      onChanged(updated);
+    } catch (err) {
+      console.error("Failed to change appointment status", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "予約の状態を変更できませんでした。"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap justify-end gap-1">
+        {targets.map((to) => (
+          <AppButton
+            key={to}
+            type="button"
+            size="sm"
+            variant={to === "confirmed" || to === "completed" ? "primary" : "outline"}
+            className="text-[11px]"
+            disabled={saving}
+            onClick={() => handleTransition(to)}
+          >
+            {APPOINTMENT_ACTION_LABEL[to]}
+          </AppButton>
+        ))}
+      </div>
+      {error && <p className="text-right text-[10px] text-red-600">{error}</p>}
+    </div>
+  );
+}
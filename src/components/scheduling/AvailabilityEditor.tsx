@@ -0,0 +1,318 @@
+// src/components/scheduling/AvailabilityEditor.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { AvailabilityException } from "@/types/supabase";
+import { AppButton } from "@/components/ui/app-button";
+import {
+  WEEKDAY_LABEL,
+  addAvailabilityException,
+  deleteAvailabilityException,
+  fetchOwnAvailability,
+  formatJstDateLabel,
+  replaceWeeklyAvailability,
+  type AvailabilityOwner,
+} from "@/lib/scheduling";
+
+type WeeklyRow = {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+};
+
+type ExceptionKind = "closed_all_day" | "closed_hours" | "extra";
+
+const SLOT_MINUTE_OPTIONS = [15, 30, 45, 60];
+
+const inputClass =
+  "rounded-md border border-slate-300 px-2 py-1 text-xs outline-none focus:border-sky-500";
+
+/**
+ * 週ごとの受付時間と例外（休み・臨時枠）の編集
+ * - owner が薬剤師なら本人の受付時間、店舗なら所属薬剤師の既定の受付時間
+ * - 週ごとの受付時間は「保存」でまとめて置き換える。例外は追加・削除のたびに保存する
+ */
+export function AvailabilityEditor({
+  owner,
+  description,
+}: {
+  owner: AvailabilityOwner;
+  description?: string;
+}) {
+  const [rows, setRows] = useState<WeeklyRow[]>([]);
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [exDate, setExDate] = useState("");
+  const [exKind, setExKind] = useState<ExceptionKind>("closed_all_day");
+  const [exStart, setExStart] = useState("10:00");
+  const [exEnd, setExEnd] = useState("12:00");
+  const [exNote, setExNote] = useState("");
+
+  const ownerKind = owner.kind;
+  const ownerId = owner.id;
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchOwnAvailability(supabase, {
+          kind: ownerKind,
+          id: ownerId,
+        });
+        setRows(
+          data.weekly.map((w) => ({
+            weekday: w.weekday,
+            start_time: w.start_time.slice(0, 5),
+            end_time: w.end_time.slice(0, 5),
+            slot_minutes: w.slot_minutes,
+          }))
+        );
+        setExceptions(data.exceptions);
+      } catch (err) {
+        console.error("Failed to load availability", err);
+        setError("受付時間の読み込みに失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void run();
+  }, [ownerKind, ownerId]);
+
+  const updateRow = (index: number, patch: Partial<WeeklyRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleSaveWeekly = async () => {
+    if (rows.some((r) => r.start_time >= r.end_time)) {
+      setError("終了時刻は開始時刻より後にしてください。");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await replaceWeeklyAvailability(supabase, owner, rows);
+      setMessage("受付時間を保存しました。");
+    } catch (err) {
+      console.error("Failed to save availability", err);
+      setError("受付時間の保存に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddException = async () => {
+    if (!exDate) {
+      setError("日付を選択してください。");
+      return;
+    }
+    const withHours = exKind !== "closed_all_day";
+    if (withHours && exStart >= exEnd) {
+      setError("終了時刻は開始時刻より後にしてください。");
+      return;
+    }
+    setError(null);
+    setMessage(null);
+    try {
+      const created = await addAvailabilityException(supabase, owner, {
+        date: exDate,
+        start_time: withHours ? exStart : null,
+        end_time: withHours ? exEnd : null,
+        is_available: exKind === "extra",
+        note: exNote.trim() || null,
+      });
+      setExceptions((prev) =>
+        [...prev, created].sort((a, b) => a.date.localeCompare(b.date))
+      );
+      setExDate("");
+      setExNote("");
+    } catch (err) {
+      console.error("Failed to add availability exception", err);
+      setError("例外の追加に失敗しました。");
+    }
+  };
+
+  const handleDeleteException = async (id: string) => {
+    setError(null);
+    try {
+      await deleteAvailabilityException(supabase, id);
+      setExceptions((prev) => prev.filter((e) => e.id !== id));
+    } catch (err) {
+      console.error("Failed to delete availability exception", err);
+      setError("例外の削除に失敗しました。");
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-slate-500">受付時間を読み込んでいます…</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {description && <p className="text-[11px] text-slate-500">{description}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+
+      {/* 週ごとの受付時間 */}
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-700">週ごとの受付時間</div>
+        {rows.length === 0 && (
+          <p className="text-[11px] text-slate-500">まだ登録されていません。</p>
+        )}
+        {rows.map((row, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              className={inputClass}
+              value={row.weekday}
+              onChange={(e) => updateRow(i, { weekday: Number(e.target.value) })}
+            >
+              {WEEKDAY_LABEL.map((label, d) => (
+                <option key={d} value={d}>
+                  {label}曜
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              className={inputClass}
+              value={row.start_time}
+              onChange={(e) => updateRow(i, { start_time: e.target.value })}
+            />
+            <span>〜</span>
+            <input
+              type="time"
+              className={inputClass}
+              value={row.end_time}
+              onChange={(e) => updateRow(i, { end_time: e.target.value })}
+            />
+            <select
+              className={inputClass}
+              value={row.slot_minutes}
+              onChange={(e) =>
+                updateRow(i, { slot_minutes: Number(e.target.value) })
+              }
+            >
+              {SLOT_MINUTE_OPTIONS.map((m) => (
+                <option key={m} value={m}>
+                  {m}分枠
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="text-[11px] text-slate-500 underline underline-offset-2"
+              onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+            >
+              削除
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <AppButton
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setRows((prev) => [
+                ...prev,
+                { weekday: 1, start_time: "10:00", end_time: "17:00", slot_minutes: 30 },
+              ])
+            }
+          >
+            受付時間を追加
+          </AppButton>
+          <AppButton size="sm" onClick={handleSaveWeekly} disabled={saving}>
+            {saving ? "保存中..." : "受付時間を保存"}
+          </AppButton>
+        </div>
+      </div>
+
+      {/* 例外（休み・臨時枠） */}
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-slate-700">休み・臨時の受付</div>
+        {exceptions.length > 0 && (
+          <ul className="space-y-1 text-[11px] text-slate-700">
+            {exceptions.map((e) => (
+              <li key={e.id} className="flex items-center gap-2">
+                <span>{formatJstDateLabel(e.date)}</span>
+                <span
+                  className={e.is_available ? "text-emerald-700" : "text-rose-600"}
+                >
+                  {e.is_available
+                    ? "臨時受付"
+                    : e.start_time
+                    ? "休み"
+                    : "終日休み"}
+                </span>
+                {e.start_time && e.end_time && (
+                  <span>
+                    {e.start_time.slice(0, 5)}〜{e.end_time.slice(0, 5)}
+                  </span>
+                )}
+                {e.note && <span className="text-slate-500">{e.note}</span>}
+                <button
+                  type="button"
+                  className="text-slate-500 underline underline-offset-2"
+                  onClick={() => handleDeleteException(e.id)}
+                >
+                  削除
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <input
+            type="date"
+            className={inputClass}
+            value={exDate}
+            onChange={(e) => setExDate(e.target.value)}
+          />
+          <select
+            className={inputClass}
+            value={exKind}
+            onChange={(e) => setExKind(e.target.value as ExceptionKind)}
+          >
+            <option value="closed_all_day">終日休み</option>
+            <option value="closed_hours">時間帯だけ休み</option>
+            <option value="extra">臨時で受付</option>
+          </select>
+          {exKind !== "closed_all_day" && (
+            <>
+              <input
+                type="time"
+                className={inputClass}
+                value={exStart}
+                onChange={(e) => setExStart(e.target.value)}
+              />
+              <span>〜</span>
+              <input
+                type="time"
+                className={inputClass}
+                value={exEnd}
+                onChange={(e) => setExEnd(e.target.value)}
+              />
+            </>
+          )}
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="メモ（任意）"
+            value={exNote}
+            onChange={(e) => setExNote(e.target.value)}
+          />
+          <AppButton size="sm" variant="outline" onClick={handleAddException}>
+            追加
+          </AppButton>
+        </div>
+      </div>
+    </div>
+  );
+}
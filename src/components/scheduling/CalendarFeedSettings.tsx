@@ -0,0 +1,138 @@
+// src/components/scheduling/CalendarFeedSettings.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { CalendarFeedToken } from "@/types/supabase";
+import type { AvailabilityOwner } from "@/lib/scheduling";
+import {
+  calendarFeedPath,
+  fetchActiveFeedToken,
+  issueFeedToken,
+} from "@/lib/calendar";
+import { AppButton } from "@/components/ui/app-button";
+
+/**
+ * 予約カレンダーの購読 URL の表示・発行
+ * - URL を知っていれば誰でも読めるので、漏れたときは再発行して古い URL を無効にする
+ */
+export function CalendarFeedSettings({
+  owner,
+  description,
+}: {
+  owner: AvailabilityOwner;
+  description?: string;
+}) {
+  const [token, setToken] = useState<CalendarFeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [origin, setOrigin] = useState("");
+
+  const ownerKind = owner.kind;
+  const ownerId = owner.id;
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setToken(await fetchActiveFeedToken(supabase, { kind: ownerKind, id: ownerId }));
+      } catch (err) {
+        console.error("Failed to load calendar feed token", err);
+        setError("カレンダー連携の設定を読み込めませんでした。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void run();
+  }, [ownerKind, ownerId]);
+
+  const handleIssue = async () => {
+    if (
+      token &&
+      !window.confirm(
+        "URL を再発行すると、今の URL を登録しているカレンダーには予約が表示されなくなります。よろしいですか？"
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setCopied(false);
+    try {
+      setToken(await issueFeedToken(supabase, owner));
+    } catch (err) {
+      console.error("Failed to issue calendar feed token", err);
+      setError("URL の発行に失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const feedUrl = token ? `${origin}${calendarFeedPath(token.token)}` : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error("Failed to copy feed url", err);
+      setError("コピーできませんでした。URL を選択してコピーしてください。");
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-slate-500">カレンダー連携を読み込んでいます…</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {description && <p className="text-[11px] text-slate-500">{description}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {feedUrl ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full rounded-md border border-slate-300 bg-slate-50 px-2 py-1 font-mono text-[11px] text-slate-700"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <AppButton type="button" size="sm" variant="outline" onClick={handleCopy}>
+              {copied ? "コピーしました" : "URL をコピー"}
+            </AppButton>
+            <a
+              href={feedUrl.replace(/^https?:/, "webcal:")}
+              className="text-[11px] text-sky-700 underline underline-offset-2"
+            >
+              カレンダーアプリで開く
+            </a>
+            <AppButton
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleIssue}
+              disabled={saving}
+            >
+              {saving ? "発行中..." : "URL を再発行"}
+            </AppButton>
+          </div>
+        </div>
+      ) : (
+        <AppButton type="button" size="sm" onClick={handleIssue} disabled={saving}>
+          {saving ? "発行中..." : "購読用 URL を発行"}
+        </AppButton>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+// src/components/scheduling/ExternalCalendarImport.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { ExternalBusyInterval } from "@/types/supabase";
+import {
+  EXTERNAL_IMPORT_DAYS,
+  fetchExternalBusySummary,
+  importExternalCalendar,
+  type ExternalImportResult,
+} from "@/lib/calendar";
+import { AppButton } from "@/components/ui/app-button";
+
+const inputClass =
+  "rounded-md border border-slate-300 px-2 py-1 text-xs outline-none focus:border-sky-500";
+
+/** booking_url が .ics / webcal ならそのまま取り込み元の候補にする */
+function icsUrlCandidate(bookingUrl: string | null | undefined): string {
+  if (!bookingUrl) return "";
+  return /^webcal:|\.ics(\?|$)/i.test(bookingUrl) ? bookingUrl : "";
+}
+
+function resultMessage(result: ExternalImportResult): string {
+  const parts = [`${result.imported}件の予定あり時間帯を取り込みました。`];
+  if (result.skipped > 0) parts.push(`キャンセル・予定なしの${result.skipped}件は除外しました。`);
+  if (result.unsupportedRules > 0) {
+    parts.push(`繰り返し設定に対応していない${result.unsupportedRules}件は初回だけ取り込みました。`);
+  }
+  return parts.join("");
+}
+
+/**
+ * 外部カレンダー（.ics）の取り込み
+ * - ファイルはブラウザで読み込んでそのまま保存、URL はサーバー経由で取得する
+ * - 取り込んだ時間帯は予約枠から外れる（取り込むたびに今後の分を置き換え）
+ */
+export function ExternalCalendarImport({
+  pharmacistId,
+  bookingUrl,
+}: {
+  pharmacistId: string;
+  bookingUrl?: string | null;
+}) {
+  const [url, setUrl] = useState(icsUrlCandidate(bookingUrl));
+  const [summary, setSummary] = useState<{
+    upcoming: number;
+    last: ExternalBusyInterval | null;
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const run = async () => {
+      try {
+        setSummary(await fetchExternalBusySummary(supabase, pharmacistId));
+      } catch (err) {
+        console.error("Failed to load external busy summary", err);
+      }
+    };
+    void run();
+  }, [pharmacistId, reloadKey]);
+
+  const handleFile = async (file: File | null) => {
+    if (!file) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const text = await file.text();
+      const result = await importExternalCalendar(supabase, pharmacistId, text, {
+        kind: "upload",
+        label: file.name,
+      });
+      setMessage(resultMessage(result));
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error("Failed to import ics file", err);
+      setError(
+        err instanceof Error && err.message ? err.message : "取り込みに失敗しました。"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUrl = async () => {
+    if (!url.trim()) {
+      setError("URL を入力してください。");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/calendar/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pharmacistId, url: url.trim() }),
+      });
+      const json = (await res.json()) as ExternalImportResult & { error?: string };
+      if (!res.ok) {
+        setError(json.error ?? "取り込みに失敗しました。");
+        return;
+      }
+      setMessage(resultMessage(json));
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error("Failed to import ics url", err);
+      setError("取り込みに失敗しました。");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[11px] text-slate-500">
+        シフトや予定を管理している外部カレンダー（.ics）を取り込むと、予定のある時間は予約を受け付けなくなります。
+        今日から{EXTERNAL_IMPORT_DAYS}日分を取り込み、取り込むたびに置き換えます（予定の件名などは保存しません）。
+      </p>
+      {summary && (
+        <p className="text-[11px] text-slate-600">
+          {summary.last
+            ? `取り込み済み：今後 ${summary.upcoming} 件（${new Date(
+                summary.last.imported_at
+              ).toLocaleString()} / ${summary.last.source_label ?? "ファイル"}）`
+            : "まだ取り込んでいません。"}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {message && <p className="text-xs text-emerald-700">{message}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="text-slate-700">ファイルから</label>
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          disabled={saving}
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+          className="text-[11px]"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="text-slate-700">URL から</label>
+        <input
+          type="url"
+          className={`${inputClass} min-w-[16rem] flex-1`}
+          placeholder="https://…/basic.ics"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <AppButton type="button" size="sm" variant="outline" onClick={handleUrl} disabled={saving}>
+          {saving ? "取り込み中..." : "取り込む"}
+        </AppButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+// src/components/scheduling/NoShowRates.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { AppointmentStatus } from "@/types/supabase";
+import {
+  aggregateNoShowRates,
+  type NoShowRate,
+  type NoShowRow,
+} from "@/lib/scheduling";
+import { AppCard } from "@/components/ui/app-card";
+import { Loader2, UserX } from "lucide-react";
+
+/** 集計する期間（相談日時がこの日数以内のもの） */
+const NO_SHOW_PERIOD_DAYS = 90;
+
+type NoShowAppointmentRow = {
+  id: string;
+  status: AppointmentStatus | null;
+  pharmacist_id: string | null;
+  pharmacist: { name: string | null; belongs_store_id: string | null } | null;
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "-" : `${Math.round(rate * 1000) / 10}%`;
+}
+
+function RateTable({ title, rates }: { title: string; rates: NoShowRate[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-800">{title}</h3>
+      {rates.length === 0 ? (
+        <p className="text-xs text-slate-500">対象の予約はまだありません。</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-200 text-left text-slate-500">
+              <th className="py-1 font-medium">名前</th>
+              <th className="py-1 text-right font-medium">無断欠席 / 対象</th>
+              <th className="py-1 text-right font-medium">うち自動判定</th>
+              <th className="py-1 text-right font-medium">無断欠席率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map((r) => (
+              <tr key={r.key} className="border-b border-slate-100 text-slate-700">
+                <td className="py-1">{r.label}</td>
+                <td className="py-1 text-right">
+                  {r.noShows} / {r.total}
+                </td>
+                <td className="py-1 text-right">{r.autoFlagged}</td>
+                <td
+                  className={`py-1 text-right font-semibold ${
+                    (r.rate ?? 0) >= 0.2 ? "text-red-600" : "text-slate-900"
+                  }`}
+                >
+                  {formatRate(r.rate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ダッシュボード：薬剤師別・店舗別の無断欠席率
+ * - 分母は直近の「完了」と「無断欠席」（キャンセル・未実施は含めない）
+ * - 自動判定（相談終了から NO_SHOW_GRACE_HOURS 時間たっても完了にならなかった予約）の件数も出す
+ */
+export function NoShowRates() {
+  const [byPharmacist, setByPharmacist] = useState<NoShowRate[]>([]);
+  const [byStore, setByStore] = useState<NoShowRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const since = new Date(Date.now() - NO_SHOW_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+        const { data, error: apptError } = await supabase
+          .from("appointments")
+          .select("id, status, pharmacist_id, pharmacist:pharmacists(name, belongs_store_id)")
+          .in("status", ["completed", "no_show"])
+          .gte("scheduled_start", since.toISOString())
+          .returns<NoShowAppointmentRow[]>();
+        if (apptError) throw apptError;
+        const appointments = data ?? [];
+
+        const noShowIds = appointments.filter((a) => a.status === "no_show").map((a) => a.id);
+        const autoFlagged = new Set<string>();
+        if (noShowIds.length > 0) {
+          const { data: events, error: eventError } = await supabase
+            .from("appointment_status_events")
+            .select("appointment_id")
+            .in("appointment_id", noShowIds)
+            .eq("actor_role", "system")
+            .eq("to_status", "no_show");
+          if (eventError) throw eventError;
+          ((events ?? []) as { appointment_id: string }[]).forEach((e) =>
+            autoFlagged.add(e.appointment_id)
+          );
+        }
+
+        const storeIds = Array.from(
+          new Set(
+            appointments
+              .map((a) => a.pharmacist?.belongs_store_id)
+              .filter((id): id is string => !!id)
+          )
+        );
+        const storeNames = new Map<string, string>();
+        if (storeIds.length > 0) {
+          const { data: stores, error: storeError } = await supabase
+            .from("stores")
+            .select("id, name")
+            .in("id", storeIds);
+          if (storeError) throw storeError;
+          ((stores ?? []) as { id: string; name: string | null }[]).forEach((s) =>
+            storeNames.set(s.id, s.name ?? "名称未設定の店舗")
+          );
+        }
+
+        const pharmacistRows: NoShowRow[] = appointments.map((a) => ({
+          status: a.status,
+          groupKey: a.pharmacist_id ?? "none",
+          groupLabel: a.pharmacist?.name ?? "担当未設定",
+          autoFlagged: autoFlagged.has(a.id),
+        }));
+        const storeRows: NoShowRow[] = appointments.map((a) => {
+          const storeId = a.pharmacist?.belongs_store_id ?? null;
+          return {
+            status: a.status,
+            groupKey: storeId ?? "none",
+            groupLabel: storeId ? storeNames.get(storeId) ?? "名称未設定の店舗" : "所属店舗なし",
+            autoFlagged: autoFlagged.has(a.id),
+          };
+        });
+
+        setByPharmacist(aggregateNoShowRates(pharmacistRows));
+        setByStore(aggregateNoShowRates(storeRows));
+      } catch (err) {
+        console.error("Failed to load no-show rates", err);
+        setError("無断欠席率を取得できませんでした。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void run();
+  }, []);
+
+  return (
+    <AppCard className="space-y-4">
+      <div className="flex items-center gap-2">
+        <UserX className="h-5 w-5 text-rose-600" />
+        <h2 className="text-base font-semibold text-slate-900">無断欠席率</h2>
+      </div>
+      <p className="text-xs text-slate-500">
+        直近{NO_SHOW_PERIOD_DAYS}日の相談のうち「完了」「無断欠席」になったものが対象です。
+        相談終了から時間がたっても完了にならなかった予約は自動で無断欠席になります（予約一覧から完了に直せます）。
+      </p>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>集計しています...</span>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          <RateTable title="薬剤師別" rates={byPharmacist} />
+          <RateTable title="店舗別" rates={byStore} />
+        </div>
+      )}
+    </AppCard>
+  );
+}
@@ -0,0 +1,294 @@
+// src/components/scheduling/SlotPicker.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { Appointment, BookingType } from "@/types/supabase";
+import {
+  BOOKING_WINDOW_DAYS,
+  fetchBusyIntervals,
+  fetchPharmacistAvailability,
+  formatJstDateLabel,
+  formatJstTime,
+  generateSlots,
+  groupSlotsByDate,
+  toJstDate,
+  type TimeInterval,
+} from "@/lib/scheduling";
+import {
+  requestAppointmentBooking,
+  requestAppointmentReschedule,
+} from "@/lib/scheduling/client";
+import { requestNotification } from "@/lib/notifications/client";
+
+const PATIENT_ID_KEY = "hito_yaku_patient_id";
+
+const BOOKING_TYPE_OPTIONS: { value: BookingType; label: string }[] = [
+  { value: "online", label: "オンライン相談" },
+  { value: "phone", label: "電話相談" },
+  { value: "in_person", label: "店舗で相談" },
+];
+
+type SlotPickerProps = {
+  pharmacist: { id: string; belongs_store_id: string | null };
+  /** 未指定なら localStorage の患者ID（診断済みの端末）を使う */
+  patientId?: string | null;
+  /** 何日先までの枠を表示するか */
+  days?: number;
+  onBooked?: (appointment: Appointment) => void;
+  /** 指定すると新規予約ではなく、この予約の日時変更になる */
+  reschedule?: Appointment;
+};
+
+/**
+ * 薬剤師の空き枠から日時を選んで予約する
+ * - 受付時間が未登録の薬剤師では「まだ予約枠がありません」とだけ表示する
+ * - 予約直前にもう一度重なりを確認し（/api/appointments）、埋まっていたら枠を読み直す
+ * - reschedule を渡すと、その予約の日時変更として使う（相談方法・メモは元のまま）
+ */
+export function SlotPicker({
+  pharmacist,
+  patientId: patientIdProp = null,
+  days = BOOKING_WINDOW_DAYS,
+  onBooked,
+  reschedule,
+}: SlotPickerProps) {
+  const pharmacistId = pharmacist.id;
+  const rescheduleId = reschedule?.id ?? null;
+  const storeId = pharmacist.belongs_store_id;
+  const [patientId, setPatientId] = useState<string | null>(patientIdProp);
+  const [slots, setSlots] = useState<TimeInterval[]>([]);
+  const [hasAvailability, setHasAvailability] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeInterval | null>(null);
+  const [bookingType, setBookingType] = useState<BookingType>("online");
+  const [memo, setMemo] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [booked, setBooked] = useState<Appointment | null>(null);
+
+  useEffect(() => {
+    if (patientIdProp) {
+      setPatientId(patientIdProp);
+      return;
+    }
+    if (typeof window === "undefined") return;
+    setPatientId(window.localStorage.getItem(PATIENT_ID_KEY));
+  }, [patientIdProp]);
+
+  useEffect(() => {
+    const run = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const now = new Date();
+        const rangeEnd = new Date(now.getTime() + (days + 1) * 24 * 60 * 60 * 1000);
+        const availability = await fetchPharmacistAvailability(supabase, {
+          id: pharmacistId,
+          belongs_store_id: storeId,
+        });
+        const busy = await fetchBusyIntervals(
+          supabase,
+          pharmacistId,
+          { start: now.toISOString(), end: rangeEnd.toISOString() },
+          rescheduleId
+        );
+
+        setHasAvailability(
+          availability.weekly.length > 0 ||
+            availability.exceptions.some((e) => e.is_available)
+        );
+        setSlots(
+          generateSlots({
+            weekly: availability.weekly,
+            exceptions: availability.exceptions,
+            busy,
+            from: now,
+            days,
+            now,
+          })
+        );
+      } catch (err) {
+        console.error("Failed to load slots", err);
+        setError("予約枠の読み込みに失敗しました。");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void run();
+  }, [pharmacistId, storeId, days, rescheduleId, reloadKey]);
+
+  const groups = useMemo(() => groupSlotsByDate(slots), [slots]);
+  const activeDate = selectedDate ?? groups[0]?.date ?? null;
+  const activeSlots = groups.find((g) => g.date === activeDate)?.slots ?? [];
+
+  const handleBook = async () => {
+    if (!patientId || !selectedSlot) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const appointment = reschedule
+        ? await requestAppointmentReschedule(reschedule.id, selectedSlot)
+        : await requestAppointmentBooking({
+            patientId,
+            pharmacistId,
+            slot: selectedSlot,
+            bookingType,
+            memo: memo.trim() || null,
+          });
+      setBooked(appointment);
+      onBooked?.(appointment);
+      if (!reschedule) void requestNotification("appointment_requested", appointment.id);
+    } catch (err) {
+      console.error("Failed to book slot", err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "予約に失敗しました。時間をおいて再度お試しください。"
+      );
+      setSelectedSlot(null);
+      setReloadKey((k) => k + 1);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (booked?.scheduled_start) {
+    const date = toJstDate(new Date(booked.scheduled_start));
+    return (
+      <div className="rounded-md border border-emerald-200 bg-emerald-50 p-3 text-xs text-emerald-800">
+        {formatJstDateLabel(date)} {formatJstTime(booked.scheduled_start)}〜
+        {booked.scheduled_end ? formatJstTime(booked.scheduled_end) : ""}
+        {reschedule ? "に日時を変更しました。" : "で予約を受け付けました。"}
+        薬剤師からの確認連絡をお待ちください。
+        {booked.booking_type === "online" &&
+          "確定後、当日はマイページの「相談ルーム」からビデオ通話・チャットに入れます。"}
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <p className="text-[11px] text-slate-500">予約枠を読み込んでいます…</p>;
+  }
+
+  if (!hasAvailability) {
+    return (
+      <p className="text-[11px] text-slate-500">
+        この薬剤師はまだ予約枠を公開していません。
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+
+      {groups.length === 0 ? (
+        <p className="text-[11px] text-slate-500">
+          {days}日以内に空いている枠がありません。
+        </p>
+      ) : (
+        <>
+          {/* 日付 */}
+          <div className="flex flex-wrap gap-1.5">
+            {groups.map((g) => (
+              <button
+                key={g.date}
+                type="button"
+                onClick={() => {
+                  setSelectedDate(g.date);
+                  setSelectedSlot(null);
+                }}
+                className={[
+                  "rounded-full border px-2.5 py-1 text-[11px]",
+                  g.date === activeDate
+                    ? "border-emerald-500 bg-emerald-50 text-emerald-800"
+                    : "border-slate-300 bg-white text-slate-600 hover:bg-slate-50",
+                ].join(" ")}
+              >
+                {formatJstDateLabel(g.date)}
+              </button>
+            ))}
+          </div>
+
+          {/* 時間 */}
+          <div className="grid grid-cols-3 gap-1.5 sm:grid-cols-4">
+            {activeSlots.map((slot) => (
+              <button
+                key={slot.start}
+                type="button"
+                onClick={() => setSelectedSlot(slot)}
+                className={[
+                  "rounded-md border px-2 py-1 text-[11px]",
+                  selectedSlot?.start === slot.start
+                    ? "border-sky-500 bg-sky-50 text-sky-800"
+                    : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50",
+                ].join(" ")}
+              >
+                {formatJstTime(slot.start)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {selectedSlot && (
+        <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-2">
+          <p className="text-[11px] text-slate-700">
+            {formatJstDateLabel(toJstDate(new Date(selectedSlot.start)))}{" "}
+            {formatJstTime(selectedSlot.start)}〜{formatJstTime(selectedSlot.end)}
+          </p>
+          {!reschedule && (
+            <>
+              <div className="flex flex-wrap gap-3 text-[11px] text-slate-700">
+                {BOOKING_TYPE_OPTIONS.map((o) => (
+                  <label key={o.value} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={bookingType === o.value}
+                      onChange={() => setBookingType(o.value)}
+                    />
+                    {o.label}
+                  </label>
+                ))}
+              </div>
+              <textarea
+                className="w-full rounded-md border border-slate-300 px-2 py-1 text-[11px]"
+                rows={2}
+                placeholder="相談したい内容（任意）"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+              />
+            </>
+          )}
+          {patientId ? (
+            <button
+              type="button"
+              onClick={handleBook}
+              disabled={saving}
+              className="w-full rounded-md bg-sky-600 px-3 py-1.5 text-[11px] font-medium text-white hover:bg-sky-700 disabled:opacity-60"
+            >
+              {saving
+                ? "予約しています..."
+                : reschedule
+                ? "この日時に変更する"
+                : "この日時で予約する"}
+            </button>
+          ) : (
+            <p className="text-[11px] text-slate-600">
+              予約するには、先に
+              <a href="/diagnosis" className="mx-1 text-sky-700 underline underline-offset-2">
+                顧問薬剤師診断
+              </a>
+              を受けてください。
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
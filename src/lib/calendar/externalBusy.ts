@@ -0,0 +1,87 @@
+// src/lib/calendar/externalBusy.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExternalBusyInterval } from "@/types/supabase";
+import { parseIcsBusyIntervals, type ExternalBusyParseResult } from "./icsImport";
+
+/** 取り込む範囲（今日から何日先まで） */
+export const EXTERNAL_IMPORT_DAYS = 90;
+
+export const NOT_ICS_MESSAGE = "iCalendar（.ics）形式のデータではありません。";
+
+export type ExternalCalendarSource = {
+  kind: ExternalBusyInterval["source"];
+  label: string | null;
+};
+
+export type ExternalImportResult = Omit<ExternalBusyParseResult, "intervals"> & {
+  imported: number;
+};
+
+/**
+ * .ics を取り込んで、薬剤師の「予定あり」時間帯を置き換える
+ * - 置き換えるのは今（now）以降に終わる分だけ。過去の分は残す
+ * - 取り込んだ時間帯は fetchBusyIntervals で予約済みと同じ扱いになる
+ */
+export async function importExternalCalendar(
+  supabase: SupabaseClient,
+  pharmacistId: string,
+  ics: string,
+  source: ExternalCalendarSource,
+  options: { now?: Date; days?: number } = {}
+): Promise<ExternalImportResult> {
+  const now = options.now ?? new Date();
+  const days = options.days ?? EXTERNAL_IMPORT_DAYS;
+  const to = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  if (!/BEGIN:VCALENDAR/i.test(ics)) {
+    throw new Error(NOT_ICS_MESSAGE);
+  }
+  const { intervals, ...stats } = parseIcsBusyIntervals(ics, { from: now, to });
+
+  const { error: deleteError } = await supabase
+    .from("external_busy_intervals")
+    .delete()
+    .eq("pharmacist_id", pharmacistId)
+    .gt("end_at", now.toISOString());
+  if (deleteError) throw deleteError;
+
+  if (intervals.length > 0) {
+    const importedAt = now.toISOString();
+    const { error } = await supabase.from("external_busy_intervals").insert(
+      intervals.map((iv) => ({
+        pharmacist_id: pharmacistId,
+        start_at: iv.start,
+        end_at: iv.end,
+        source: source.kind,
+        source_label: source.label,
+        imported_at: importedAt,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  return { ...stats, imported: intervals.length };
+}
+
+/**
+ * 取り込み済みの状況（今後の件数と、最後に取り込んだ日時・元データ）
+ */
+export async function fetchExternalBusySummary(
+  supabase: SupabaseClient,
+  pharmacistId: string,
+  now: Date = new Date()
+): Promise<{ upcoming: number; last: ExternalBusyInterval | null }> {
+  const { data, count, error } = await supabase
+    .from("external_busy_intervals")
+    .select("*", { count: "exact" })
+    .eq("pharmacist_id", pharmacistId)
+    .gt("end_at", now.toISOString())
+    .order("imported_at", { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  return {
+    upcoming: count ?? 0,
+    last: ((data ?? []) as ExternalBusyInterval[])[0] ?? null,
+  };
+}
@@ -0,0 +1,171 @@
+// src/lib/calendar/feed.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Appointment, CalendarFeedToken } from "@/types/supabase";
+import type { AvailabilityOwner } from "../scheduling/availability";
+import { appointmentToIcsEvent, buildIcsCalendar, type IcsEvent } from "./ical";
+
+/** フィードに載せる範囲（過去は30日、先は180日） */
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+
+function ownerOf(token: CalendarFeedToken): AvailabilityOwner | null {
+  if (token.pharmacist_id) return { kind: "pharmacist", id: token.pharmacist_id };
+  if (token.store_id) return { kind: "store", id: token.store_id };
+  return null;
+}
+
+/** 推測されにくいトークン（32バイトの16進） */
+export function generateFeedToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function calendarFeedPath(token: string): string {
+  return `/api/calendar/${token}`;
+}
+
+/**
+ * 薬剤師 or 店舗の有効なトークン（なければ null）
+ */
+export async function fetchActiveFeedToken(
+  supabase: SupabaseClient,
+  owner: AvailabilityOwner
+): Promise<CalendarFeedToken | null> {
+  const column = owner.kind === "pharmacist" ? "pharmacist_id" : "store_id";
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .select("*")
+    .eq(column, owner.id)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as CalendarFeedToken | null) ?? null;
+}
+
+/**
+ * トークンを発行する（既存の有効なトークンは無効にする）
+ * - URL が漏れたときは再発行すれば古い URL は読めなくなる
+ */
+export async function issueFeedToken(
+  supabase: SupabaseClient,
+  owner: AvailabilityOwner
+): Promise<CalendarFeedToken> {
+  const column = owner.kind === "pharmacist" ? "pharmacist_id" : "store_id";
+
+  const { error: revokeError } = await supabase
+    .from("calendar_feed_tokens")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq(column, owner.id)
+    .is("revoked_at", null);
+  if (revokeError) throw revokeError;
+
+  const { data, error } = await supabase
+    .from("calendar_feed_tokens")
+    .insert({
+      token: generateFeedToken(),
+      pharmacist_id: owner.kind === "pharmacist" ? owner.id : null,
+      store_id: owner.kind === "store" ? owner.id : null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as CalendarFeedToken;
+}
+
+type FeedAppointmentRow = Pick<
+  Appointment,
+  | "id"
+  | "booking_type"
+  | "scheduled_start"
+  | "scheduled_end"
+  | "status"
+  | "status_changed_at"
+  | "created_at"
+> & {
+  patient: { name: string | null } | null;
+  pharmacist: { name: string | null } | null;
+};
+
+/**
+ * トークンから iCal フィードを組み立てる（Route Handler 用）
+ * - トークンが無効なら null
+ * - RLS を通らない匿名アクセスなので、service role のクライアントを渡す前提
+ */
+export async function buildCalendarFeed(
+  supabase: SupabaseClient,
+  token: string,
+  options: { now?: Date; bookingsUrl?: string | null } = {}
+): Promise<{ name: string; ics: string } | null> {
+  const { data: tokenRow, error: tokenError } = await supabase
+    .from("calendar_feed_tokens")
+    .select("*")
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (tokenError) throw tokenError;
+
+  const owner = tokenRow ? ownerOf(tokenRow as CalendarFeedToken) : null;
+  if (!owner) return null;
+
+  // 対象の薬剤師（店舗なら所属薬剤師全員）と、カレンダー名
+  let pharmacistIds: string[] = [];
+  let name = "";
+  if (owner.kind === "pharmacist") {
+    const { data, error } = await supabase
+      .from("pharmacists")
+      .select("id, name")
+      .eq("id", owner.id)
+      .maybeSingle();
+    if (error) throw error;
+    pharmacistIds = [owner.id];
+    name = `${(data as { name: string | null } | null)?.name ?? "薬剤師"}の予約`;
+  } else {
+    const [{ data: store, error: storeError }, { data: members, error: memberError }] =
+      await Promise.all([
+        supabase.from("stores").select("id, name").eq("id", owner.id).maybeSingle(),
+        supabase.from("pharmacists").select("id").eq("belongs_store_id", owner.id),
+      ]);
+    if (storeError) throw storeError;
+    if (memberError) throw memberError;
+    pharmacistIds = ((members ?? []) as { id: string }[]).map((m) => m.id);
+    name = `${(store as { name: string | null } | null)?.name ?? "店舗"}の予約`;
+  }
+
+  const now = options.now ?? new Date();
+  const day = 24 * 60 * 60 * 1000;
+  let events: IcsEvent[] = [];
+
+  if (pharmacistIds.length > 0) {
+    const { data, error } = await supabase
+      .from("appointments")
+      .select(
+        "id, booking_type, scheduled_start, scheduled_end, status, status_changed_at, created_at, patient:patients(name), pharmacist:pharmacists(name)"
+      )
+      .in("pharmacist_id", pharmacistIds)
+      .gte("scheduled_start", new Date(now.getTime() - FEED_PAST_DAYS * day).toISOString())
+      .lte("scheduled_start", new Date(now.getTime() + FEED_FUTURE_DAYS * day).toISOString())
+      .order("scheduled_start", { ascending: true })
+      .returns<FeedAppointmentRow[]>();
+    if (error) throw error;
+
+    events = (data ?? [])
+      .map((a) =>
+        appointmentToIcsEvent(
+          a,
+          {
+            patientName: a.patient?.name ?? null,
+            pharmacistName: a.pharmacist?.name ?? null,
+          },
+          { bookingsUrl: options.bookingsUrl ?? null }
+        )
+      )
+      .filter((e): e is IcsEvent => e !== null);
+  }
+
+  return { name, ics: buildIcsCalendar({ name, events, now }) };
+}
@@ -0,0 +1,173 @@
+// src/lib/calendar/fetchIcs.ts
+// URL からの .ics 取得（サーバー専用。index からは公開しない）
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/** URL から読む .ics の上限サイズ */
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+/** リダイレクトをたどる回数（行き先は毎回確かめ直す） */
+const MAX_REDIRECTS = 3;
+
+const ICS_TOO_LARGE_MESSAGE = "カレンダーのデータが大きすぎます。";
+
+/** 取得先の応答（ステータスなど）は画面に出さない */
+export const ICS_FETCH_FAILED_MESSAGE =
+  "カレンダーを取得できませんでした。公開用の URL か確認してください。";
+
+/**
+ * 取得先にしてはいけないアドレス（ループバック・プライベート・リンクローカル・マルチキャストなど）
+ * - クラウドのメタデータ（169.254.169.254）や社内のサーバーをカレンダー取り込みで読ませない
+ * - IPv4 射影の IPv6（::ffff:10.0.0.1）は IPv4 として判定する
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isNonPublicAddress(mapped[1]);
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (isIP(ip) === 6) {
+    return (
+      ip === "::" ||
+      ip === "::1" ||
+      /^f[cd]/.test(ip) ||
+      /^fe[89ab]/.test(ip) ||
+      ip.startsWith("ff") ||
+      ip.startsWith("64:ff9b:") ||
+      ip.startsWith("::ffff:")
+    );
+  }
+  // IP として読めないものは通さない
+  return true;
+}
+
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+async function lookupHostAddresses(hostname: string): Promise<string[]> {
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  return results.map((r) => r.address);
+}
+
+/** http(s) の URL で、ホストの名前解決先がすべて公開アドレスのときだけ通す */
+async function assertFetchableUrl(url: URL, lookupHost: HostLookup): Promise<void> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("http(s) の URL を指定してください。");
+  }
+  if (url.username || url.password) {
+    throw new Error("ユーザー名・パスワードを含む URL は使えません。");
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await lookupHost(hostname);
+  } catch {
+    throw new Error(ICS_FETCH_FAILED_MESSAGE);
+  }
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new Error("このアドレスのカレンダーは取り込めません。");
+  }
+}
+
+/**
+ * 応答の本文を上限バイト数まで読む
+ * - 上限を超えた時点で読むのをやめる（本文を全部メモリに載せてから比べない）
+ */
+async function readBodyWithLimit(res: Response, maxBytes: number): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") throw err;
+      throw new Error(ICS_FETCH_FAILED_MESSAGE);
+    }
+    if (chunk.done) break;
+    total += chunk.value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(ICS_TOO_LARGE_MESSAGE);
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * URL から .ics を読む（サーバー側で使う。ブラウザからは CORS で読めないことが多い）
+ * - webcal:// は https:// として読む
+ * - http(s) 以外・公開されていないアドレス・大きすぎるデータ・時間のかかる応答はエラー
+ * - リダイレクトは自分でたどり、行き先ごとにアドレスを確かめ直す
+ * - 取得先のステータスやエラーの中身は返さない（ICS_FETCH_FAILED_MESSAGE にまとめる）
+ */
+export async function fetchIcsFromUrl(
+  rawUrl: string,
+  options: { fetchImpl?: typeof fetch; lookupHost?: HostLookup } = {}
+): Promise<string> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const lookupHost = options.lookupHost ?? lookupHostAddresses;
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim().replace(/^webcal:/i, "https:"));
+  } catch {
+    throw new Error("URL の形式が正しくありません。");
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let res: Response | null = null;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      await assertFetchableUrl(url, lookupHost);
+      try {
+        res = await fetchImpl(url.toString(), {
+          signal: controller.signal,
+          headers: { Accept: "text/calendar" },
+          redirect: "manual",
+        });
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") throw err;
+        throw new Error(ICS_FETCH_FAILED_MESSAGE);
+      }
+      const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+      if (!location) break;
+      url = new URL(location, url);
+      res = null;
+    }
+    if (!res || !res.ok) {
+      throw new Error(ICS_FETCH_FAILED_MESSAGE);
+    }
+    // 申告されたサイズで先に断り、申告がない・偽っている応答は読みながら打ち切る
+    const length = Number(res.headers.get("content-length") ?? 0);
+    if (length > MAX_ICS_BYTES) {
+      await res.body?.cancel().catch(() => undefined);
+      throw new Error(ICS_TOO_LARGE_MESSAGE);
+    }
+    return await readBodyWithLimit(res, MAX_ICS_BYTES);
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error("カレンダーの取得がタイムアウトしました。");
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,160 @@
+// src/lib/calendar/ical.ts
+import type { Appointment, AppointmentStatus, BookingType } from "@/types/supabase";
+
+/**
+ * iCalendar（RFC 5545）の組み立て
+ * - 外部カレンダーに渡すので、患者の連絡先・相談メモは載せない（名前と相談方法だけ）
+ * - 日時はすべて UTC（末尾 Z）で出す
+ */
+
+export type IcsEvent = {
+  uid: string;
+  start: string; // ISO
+  end: string; // ISO
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  /** 最終更新日時（ISO）。カレンダー側の差分判定に使われる */
+  updatedAt?: string | null;
+};
+
+const CRLF = "\r\n";
+
+const BOOKING_TYPE_SUMMARY: Record<BookingType, string> = {
+  online: "オンライン相談",
+  phone: "電話相談",
+  in_person: "店舗相談",
+};
+
+const ICS_STATUS: Record<AppointmentStatus, IcsEvent["status"]> = {
+  requested: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  completed: "CONFIRMED",
+  cancelled: "CANCELLED",
+  no_show: "CANCELLED",
+};
+
+/** "20261019T010000Z" 形式 */
+export function formatIcsDate(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** TEXT 値のエスケープ（\ ; , 改行） */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * 1行 75 オクテットで折り返す（続きの行は先頭に空白）
+ * - マルチバイト文字の途中で切らないよう、文字（コードポイント）単位で数える
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+
+  Array.from(line).forEach((ch) => {
+    const size = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  });
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+function eventLines(event: IcsEvent, now: Date): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(now.toISOString())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * VCALENDAR 全体を組み立てる
+ */
+export function buildIcsCalendar(input: {
+  name: string;
+  events: IcsEvent[];
+  now?: Date;
+}): string {
+  const now = input.now ?? new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//hito-yaku//pharmacy-os//JA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(input.name)}`,
+    "X-WR-TIMEZONE:Asia/Tokyo",
+    ...input.events.flatMap((e) => eventLines(e, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+}
+
+/**
+ * 予約 → カレンダーの予定
+ * - 相談日時が決まっていない予約（外部予約のログ）は null
+ */
+export function appointmentToIcsEvent(
+  appointment: Pick<
+    Appointment,
+    | "id"
+    | "booking_type"
+    | "scheduled_start"
+    | "scheduled_end"
+    | "status"
+    | "status_changed_at"
+    | "created_at"
+  >,
+  names: { patientName?: string | null; pharmacistName?: string | null },
+  options: { bookingsUrl?: string | null } = {}
+): IcsEvent | null {
+  if (!appointment.scheduled_start || !appointment.scheduled_end) return null;
+
+  const kind = appointment.booking_type
+    ? BOOKING_TYPE_SUMMARY[appointment.booking_type]
+    : "相談";
+  const patient = names.patientName ? `${names.patientName} 様` : "患者";
+  const description = [
+    names.pharmacistName ? `担当：${names.pharmacistName}` : null,
+    options.bookingsUrl ? `予約の詳細：${options.bookingsUrl}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    uid: `${appointment.id}@hito-yaku`,
+    start: appointment.scheduled_start,
+    end: appointment.scheduled_end,
+    summary: `【${kind}】${patient}`,
+    description: description || null,
+    url: options.bookingsUrl ?? null,
+    status: ICS_STATUS[appointment.status ?? "requested"],
+    updatedAt: appointment.status_changed_at ?? appointment.created_at,
+  };
+}
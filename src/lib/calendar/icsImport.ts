@@ -0,0 +1,388 @@
+// src/lib/calendar/icsImport.ts
+import type { TimeInterval } from "../scheduling/slots";
+
+/**
+ * 外部カレンダー（.ics）の読み込み
+ *
+ * - 予定が入っている時間帯（busy）だけを取り出す。件名・場所などは使わない
+ * - STATUS:CANCELLED と TRANSP:TRANSPARENT（「予定なし」表示）の予定は除く
+ * - 時刻：末尾 Z は UTC、TZID 付き・タイムゾーンなしは日本時間として扱う
+ *   （海外のタイムゾーンのシフト表は想定していない）
+ * - 終日予定（VALUE=DATE）は日本時間の 0:00〜翌 0:00
+ * - 繰り返し（RRULE）は FREQ=DAILY / WEEKLY（INTERVAL, COUNT, UNTIL, BYDAY）と
+ *   EXDATE, RECURRENCE-ID による個別変更に対応。それ以外の FREQ は初回だけ取り込む
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+/** 1つの繰り返し予定から範囲内に作る回数の上限 */
+const MAX_OCCURRENCES = 1000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export type IcsProperty = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+export type ExternalBusyParseResult = {
+  intervals: TimeInterval[];
+  /** 取り込み対象の予定（VEVENT）の数 */
+  events: number;
+  /** キャンセル・「予定なし」などで除いた予定の数 */
+  skipped: number;
+  /** 対応していない繰り返し（初回だけ取り込んだ）予定の数 */
+  unsupportedRules: number;
+};
+
+type RawEvent = {
+  uid: string | null;
+  start: Date | null;
+  allDay: boolean;
+  end: Date | null;
+  durationMs: number | null;
+  status: string | null;
+  transp: string | null;
+  rrule: Record<string, string> | null;
+  exdates: number[];
+  recurrenceId: number | null;
+};
+
+/** 折り返された行（先頭が空白・タブ）を元に戻す */
+export function unfoldIcsLines(text: string): string[] {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    if ((line.startsWith(" ") || line.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.length > 0) {
+      lines.push(line);
+    }
+  });
+  return lines;
+}
+
+/** "DTSTART;TZID=Asia/Tokyo:20261019T100000" → { name, params, value } */
+export function parseIcsProperty(line: string): IcsProperty {
+  // 値の中の ":" は区切りではないので、引用符の外にある最初の ":" で分ける
+  let inQuote = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (ch === '"') inQuote = !inQuote;
+    if (ch === ":" && !inQuote) {
+      colon = i;
+      break;
+    }
+  }
+  const head = colon >= 0 ? line.slice(0, colon) : line;
+  const value = colon >= 0 ? line.slice(colon + 1) : "";
+
+  const [name, ...paramParts] = head.split(";");
+  const params: Record<string, string> = {};
+  paramParts.forEach((p) => {
+    const eq = p.indexOf("=");
+    if (eq < 0) return;
+    params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value };
+}
+
+/**
+ * DTSTART / DTEND などの日時
+ * - "20261019" / VALUE=DATE → 日本時間の 0:00（allDay）
+ * - "20261019T010000Z" → UTC
+ * - "20261019T100000"（TZID あり・なし）→ 日本時間
+ */
+export function parseIcsDateTime(
+  value: string,
+  params: Record<string, string> = {}
+): { date: Date; allDay: boolean } | null {
+  const v = value.trim();
+
+  const dateOnly = v.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === "DATE") {
+    if (!dateOnly) return null;
+    const [, y, m, d] = dateOnly;
+    return { date: new Date(`${y}-${m}-${d}T00:00:00+09:00`), allDay: true };
+  }
+
+  const m = v.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, z] = m;
+  const offset = z ? "Z" : "+09:00";
+  return {
+    date: new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`),
+    allDay: false,
+  };
+}
+
+/** "PT1H30M" / "P1D" / "-PT15M" → ミリ秒 */
+export function parseIcsDuration(value: string): number | null {
+  const m = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms =
+    (Number(w ?? 0) * 7 + Number(d ?? 0)) * DAY_MS +
+    (Number(h ?? 0) * 3600 + Number(mi ?? 0) * 60 + Number(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function parseRrule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  value.split(";").forEach((part) => {
+    const [k, v] = part.split("=");
+    if (k && v) rule[k.toUpperCase()] = v;
+  });
+  return rule;
+}
+
+function emptyEvent(): RawEvent {
+  return {
+    uid: null,
+    start: null,
+    allDay: false,
+    end: null,
+    durationMs: null,
+    status: null,
+    transp: null,
+    rrule: null,
+    exdates: [],
+    recurrenceId: null,
+  };
+}
+
+function readEvents(text: string): RawEvent[] {
+  const events: RawEvent[] = [];
+  let current: RawEvent | null = null;
+  // VEVENT の中の VALARM などは読み飛ばす
+  let nested = 0;
+
+  unfoldIcsLines(text).forEach((line) => {
+    const prop = parseIcsProperty(line);
+
+    if (prop.name === "BEGIN") {
+      if (prop.value.toUpperCase() === "VEVENT" && !current) {
+        current = emptyEvent();
+      } else if (current) {
+        nested += 1;
+      }
+      return;
+    }
+    if (prop.name === "END") {
+      if (current && nested > 0) {
+        nested -= 1;
+      } else if (current && prop.value.toUpperCase() === "VEVENT") {
+        events.push(current);
+        current = null;
+      }
+      return;
+    }
+    if (!current || nested > 0) return;
+
+    const ev: RawEvent = current;
+    switch (prop.name) {
+      case "UID":
+        ev.uid = prop.value;
+        break;
+      case "DTSTART": {
+        const parsed = parseIcsDateTime(prop.value, prop.params);
+        ev.start = parsed?.date ?? null;
+        ev.allDay = parsed?.allDay ?? false;
+        break;
+      }
+      case "DTEND":
+        ev.end = parseIcsDateTime(prop.value, prop.params)?.date ?? null;
+        break;
+      case "DURATION":
+        ev.durationMs = parseIcsDuration(prop.value);
+        break;
+      case "STATUS":
+        ev.status = prop.value.toUpperCase();
+        break;
+      case "TRANSP":
+        ev.transp = prop.value.toUpperCase();
+        break;
+      case "RRULE":
+        ev.rrule = parseRrule(prop.value);
+        break;
+      case "EXDATE":
+        prop.value.split(",").forEach((v) => {
+          const parsed = parseIcsDateTime(v, prop.params);
+          if (parsed) ev.exdates.push(parsed.date.getTime());
+        });
+        break;
+      case "RECURRENCE-ID":
+        ev.recurrenceId = parseIcsDateTime(prop.value, prop.params)?.date.getTime() ?? null;
+        break;
+      default:
+        break;
+    }
+  });
+
+  return events;
+}
+
+/** 日本時間での曜日（0=日〜6=土） */
+function jstWeekday(ms: number): number {
+  return new Date(ms + JST_OFFSET_MS).getUTCDay();
+}
+
+/** 日本時間で、その日を含む週の月曜 0:00（WKST=MO） */
+function jstWeekStart(ms: number): number {
+  const local = ms + JST_OFFSET_MS;
+  const dayStart = local - (((local % DAY_MS) + DAY_MS) % DAY_MS);
+  const sinceMonday = (new Date(local).getUTCDay() + 6) % 7;
+  return dayStart - sinceMonday * DAY_MS - JST_OFFSET_MS;
+}
+
+/**
+ * 繰り返しを展開した開始時刻の一覧（windowStart〜until の分だけ）
+ * - COUNT は範囲外の回も含めて数える
+ * - 対応していない FREQ は null（呼び出し側で初回だけ使う）
+ */
+function expandStarts(
+  start: number,
+  rule: Record<string, string>,
+  windowStart: number,
+  until: number
+): number[] | null {
+  const freq = rule.FREQ;
+  if (freq !== "DAILY" && freq !== "WEEKLY") return null;
+
+  const interval = Math.max(1, Number(rule.INTERVAL ?? 1) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : null;
+  const ruleUntil = rule.UNTIL ? parseIcsDateTime(rule.UNTIL)?.date.getTime() ?? null : null;
+  const last = ruleUntil !== null ? Math.min(ruleUntil, until) : until;
+
+  const starts: number[] = [];
+  const push = (t: number) => {
+    if (t >= windowStart && starts.length < MAX_OCCURRENCES) starts.push(t);
+  };
+
+  if (freq === "DAILY") {
+    for (
+      let t = start, n = 0;
+      t <= last && (count === null || n < count);
+      t += interval * DAY_MS, n += 1
+    ) {
+      push(t);
+    }
+    return starts;
+  }
+
+  // WEEKLY：BYDAY がなければ DTSTART の曜日
+  const byDay = rule.BYDAY
+    ? rule.BYDAY.split(",")
+        .map((code) => WEEKDAY_CODES.indexOf(code.slice(-2).toUpperCase()))
+        .filter((d) => d >= 0)
+    : [jstWeekday(start)];
+  const firstWeek = jstWeekStart(start);
+
+  let n = 0;
+  for (let t = start; t <= last; t += DAY_MS) {
+    if (count !== null && n >= count) break;
+    const weekIndex = Math.round((jstWeekStart(t) - firstWeek) / (7 * DAY_MS));
+    if (weekIndex % interval !== 0) continue;
+    if (!byDay.includes(jstWeekday(t))) continue;
+    push(t);
+    n += 1;
+  }
+  return starts;
+}
+
+/**
+ * .ics の文字列から、範囲内の busy な時間帯を取り出す
+ */
+export function parseIcsBusyIntervals(
+  text: string,
+  range: { from: Date; to: Date }
+): ExternalBusyParseResult {
+  const from = range.from.getTime();
+  const to = range.to.getTime();
+  const events = readEvents(text);
+
+  // RECURRENCE-ID 付き（繰り返しの1回だけ変更）は、元の回を置き換える
+  const overridden = new Set(
+    events
+      .filter((e) => e.uid && e.recurrenceId !== null)
+      .map((e) => `${e.uid}|${e.recurrenceId}`)
+  );
+
+  const intervals: TimeInterval[] = [];
+  let skipped = 0;
+  let unsupportedRules = 0;
+
+  events.forEach((ev) => {
+    if (!ev.start) {
+      skipped += 1;
+      return;
+    }
+    if (ev.status === "CANCELLED" || ev.transp === "TRANSPARENT") {
+      skipped += 1;
+      return;
+    }
+
+    const startMs = ev.start.getTime();
+    const lengthMs =
+      ev.end !== null
+        ? ev.end.getTime() - startMs
+        : ev.durationMs !== null
+        ? ev.durationMs
+        : ev.allDay
+        ? DAY_MS
+        : 0;
+    if (lengthMs <= 0) {
+      skipped += 1;
+      return;
+    }
+
+    let starts: number[] = [startMs];
+    if (ev.rrule && ev.recurrenceId === null) {
+      const expanded = expandStarts(startMs, ev.rrule, from - lengthMs, to);
+      if (expanded) {
+        starts = expanded;
+      } else {
+        unsupportedRules += 1;
+      }
+    }
+
+    starts
+      .filter((s) => !ev.exdates.includes(s))
+      .filter((s) => ev.recurrenceId !== null || !overridden.has(`${ev.uid}|${s}`))
+      .forEach((s) => {
+        const e = s + lengthMs;
+        if (s < to && e > from) {
+          intervals.push({
+            start: new Date(s).toISOString(),
+            end: new Date(e).toISOString(),
+          });
+        }
+      });
+  });
+
+  intervals.sort((a, b) => a.start.localeCompare(b.start));
+  return {
+    intervals: mergeIntervals(intervals),
+    events: events.length,
+    skipped,
+    unsupportedRules,
+  };
+}
+
+/** 重なる・接する時間帯をまとめる（保存件数を減らす） */
+export function mergeIntervals(sorted: TimeInterval[]): TimeInterval[] {
+  const merged: TimeInterval[] = [];
+  sorted.forEach((iv) => {
+    const last = merged[merged.length - 1];
+    if (last && iv.start <= last.end) {
+      if (iv.end > last.end) last.end = iv.end;
+    } else {
+      merged.push({ ...iv });
+    }
+  });
+  return merged;
+}
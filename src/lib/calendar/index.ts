@@ -0,0 +1,6 @@
+// src/lib/calendar/index.ts
+// 予約カレンダー（.ics の組み立て・購読フィード）の公開窓口
+export * from "./ical";
+export * from "./feed";
+export * from "./icsImport";
+export * from "./externalBusy";
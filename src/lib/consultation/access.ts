@@ -0,0 +1,114 @@
+// src/lib/consultation/access.ts
+import type { Appointment, ConsultationSenderRole } from "@/types/supabase";
+import { APPOINTMENT_STATUS_LABEL, statusOf } from "../scheduling/appointmentStatus";
+import type { AppointmentActor } from "../scheduling/appointments";
+
+/**
+ * オンライン相談ルームの入室チェック（DB には触らない）
+ * - 入れるのは予約した患者と、その予約を扱う薬局側ユーザー・管理者だけ
+ *   （誰なのかは appointmentAccessForRequest で決めたものを受け取る。患者は予約のときのトークンで確認済み）
+ * - ビデオ通話は相談開始の少し前から終了後しばらくまで、チャットは確定中ずっと使える
+ */
+
+/** 相談開始の何分前からビデオ通話に入れるか */
+export const ROOM_OPENS_MINUTES_BEFORE = 15;
+/** 相談終了の何分後までビデオ通話・チャットを使えるか */
+export const ROOM_CLOSES_MINUTES_AFTER = 60;
+
+export type ConsultationAppointment = Pick<
+  Appointment,
+  | "id"
+  | "patient_id"
+  | "pharmacist_id"
+  | "booking_type"
+  | "status"
+  | "scheduled_start"
+  | "scheduled_end"
+> & {
+  patient: { name: string | null } | null;
+  pharmacist: { name: string | null; booking_url: string | null } | null;
+};
+
+export type ConsultationParticipant = {
+  role: ConsultationSenderRole;
+  /** consultation_messages.sender_id に入れる値 */
+  senderId: string | null;
+  displayName: string;
+};
+
+export type ConsultationRoomState = {
+  canJoinVideo: boolean;
+  canPost: boolean;
+  /** 使えないときの理由・案内（使えるときは null） */
+  notice: string | null;
+};
+
+/** 自動処理（system）や、ほかの予約の患者は入れない */
+export function consultationParticipant(
+  appointment: ConsultationAppointment,
+  actor: AppointmentActor | null
+): ConsultationParticipant | null {
+  if (actor && (actor.role === "pharmacy_company" || actor.role === "admin") && actor.id) {
+    return {
+      role: "pharmacist",
+      senderId: actor.id,
+      displayName: appointment.pharmacist?.name ?? "薬剤師",
+    };
+  }
+  if (actor?.role === "patient" && appointment.patient_id && actor.id === appointment.patient_id) {
+    return {
+      role: "patient",
+      senderId: appointment.patient_id,
+      displayName: appointment.patient?.name ?? "患者さん",
+    };
+  }
+  return null;
+}
+
+export function consultationRoomState(
+  appointment: Pick<Appointment, "booking_type" | "status" | "scheduled_start" | "scheduled_end">,
+  now: Date
+): ConsultationRoomState {
+  if (appointment.booking_type !== "online") {
+    return { canJoinVideo: false, canPost: false, notice: "オンライン相談の予約ではありません。" };
+  }
+
+  const status = statusOf(appointment);
+  if (status === "requested") {
+    return { canJoinVideo: false, canPost: false, notice: "予約が確定すると入室できます。" };
+  }
+  if (status === "cancelled" || status === "no_show") {
+    return {
+      canJoinVideo: false,
+      canPost: false,
+      notice: `この予約は「${APPOINTMENT_STATUS_LABEL[status]}」のため、やりとりの閲覧だけできます。`,
+    };
+  }
+
+  const start = appointment.scheduled_start ? new Date(appointment.scheduled_start).getTime() : null;
+  const endIso = appointment.scheduled_end ?? appointment.scheduled_start;
+  const closesAt = endIso
+    ? new Date(endIso).getTime() + ROOM_CLOSES_MINUTES_AFTER * 60 * 1000
+    : null;
+  const closed = closesAt !== null && now.getTime() > closesAt;
+
+  if (status === "completed") {
+    return {
+      canJoinVideo: false,
+      canPost: !closed,
+      notice: "相談は完了しました。",
+    };
+  }
+
+  if (closed) {
+    return { canJoinVideo: false, canPost: false, notice: "相談の時間は終了しました。" };
+  }
+  if (start === null || now.getTime() < start - ROOM_OPENS_MINUTES_BEFORE * 60 * 1000) {
+    return {
+      canJoinVideo: false,
+      canPost: true,
+      notice: `ビデオ通話は相談開始の${ROOM_OPENS_MINUTES_BEFORE}分前から入れます。それまではチャットでやりとりできます。`,
+    };
+  }
+  return { canJoinVideo: true, canPost: true, notice: null };
+}
@@ -0,0 +1,103 @@
+// src/lib/consultation/chat.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ConsultationMessage, ConsultationSession } from "@/types/supabase";
+import type { ConsultationParticipant } from "./access";
+import type { VideoProvider } from "./video";
+
+/**
+ * オンライン相談のチャットとルーム（service role のクライアントで呼ぶ）
+ * - 入室チェック（consultationParticipant）を通った後に使う
+ */
+
+export const CONSULTATION_MESSAGE_MAX_LENGTH = 2000;
+
+/** 前後の空白を落とした本文。空・長すぎるときはエラー */
+export function normalizeMessageBody(raw: unknown): string {
+  const body = typeof raw === "string" ? raw.replace(/\r\n/g, "\n").trim() : "";
+  if (!body) {
+    throw new Error("メッセージを入力してください。");
+  }
+  if (body.length > CONSULTATION_MESSAGE_MAX_LENGTH) {
+    throw new Error(
+      `メッセージは${CONSULTATION_MESSAGE_MAX_LENGTH}文字以内で入力してください。`
+    );
+  }
+  return body;
+}
+
+/**
+ * 予約のルームを取得（なければビデオ通話のルームを作って保存）
+ * - 患者と薬剤師が同時に入っても1つになるよう、unique 制約違反なら作られた方を読み直す
+ */
+export async function ensureConsultationSession(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  provider: VideoProvider
+): Promise<ConsultationSession> {
+  const { data: existing, error } = await supabase
+    .from("consultation_sessions")
+    .select("*")
+    .eq("appointment_id", appointmentId)
+    .maybeSingle<ConsultationSession>();
+  if (error) throw error;
+  if (existing) return existing;
+
+  const room = await provider.createRoom(appointmentId);
+  const { data: created, error: insertError } = await supabase
+    .from("consultation_sessions")
+    .insert({
+      appointment_id: appointmentId,
+      video_provider: room.provider,
+      video_room_id: room.roomId,
+    })
+    .select("*")
+    .single<ConsultationSession>();
+  if (!insertError && created) return created;
+  if (insertError?.code !== "23505") throw insertError;
+
+  const { data: raced, error: reloadError } = await supabase
+    .from("consultation_sessions")
+    .select("*")
+    .eq("appointment_id", appointmentId)
+    .single<ConsultationSession>();
+  if (reloadError) throw reloadError;
+  return raced;
+}
+
+/** 古い順。since を渡すとそれより後のものだけ */
+export async function fetchConsultationMessages(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  since?: string | null
+): Promise<ConsultationMessage[]> {
+  let query = supabase
+    .from("consultation_messages")
+    .select("*")
+    .eq("appointment_id", appointmentId);
+  if (since) query = query.gt("created_at", since);
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ConsultationMessage[];
+}
+
+export async function postConsultationMessage(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  participant: ConsultationParticipant,
+  rawBody: unknown
+): Promise<ConsultationMessage> {
+  const body = normalizeMessageBody(rawBody);
+  const { data, error } = await supabase
+    .from("consultation_messages")
+    .insert({
+      appointment_id: appointmentId,
+      sender_role: participant.role,
+      sender_id: participant.senderId,
+      body,
+    })
+    .select("*")
+    .single<ConsultationMessage>();
+  if (error) throw error;
+  return data;
+}
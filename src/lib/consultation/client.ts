@@ -0,0 +1,82 @@
+// src/lib/consultation/client.ts
+import type { BookingType, AppointmentStatus, ConsultationMessage } from "@/types/supabase";
+import type { ConsultationParticipant, ConsultationRoomState } from "./access";
+import type { VideoJoinInfo } from "./video";
+import {
+  APPOINTMENT_PATIENT_TOKEN_HEADER,
+  appointmentPatientToken,
+} from "../scheduling/client";
+
+/**
+ * オンライン相談ルームの API 呼び出し（ブラウザ用）
+ * - 患者は予約のときに受け取ったトークン（この端末に保存）をヘッダーで送る
+ *   （薬局側はログインの cookie で判定）
+ */
+
+export type ConsultationRoom = {
+  appointment: {
+    id: string;
+    bookingType: BookingType | null;
+    status: AppointmentStatus | null;
+    scheduledStart: string | null;
+    scheduledEnd: string | null;
+    patientName: string | null;
+    pharmacistName: string | null;
+  };
+  participant: ConsultationParticipant;
+  state: ConsultationRoomState;
+  /** 通話に入れない時間帯は null */
+  video: VideoJoinInfo | null;
+  messages: ConsultationMessage[];
+};
+
+export function consultationPath(appointmentId: string): string {
+  return `/consultation/${encodeURIComponent(appointmentId)}`;
+}
+
+async function callRoomApi<T>(
+  appointmentId: string,
+  init: { method: "GET" | "POST"; query?: string; body?: unknown }
+): Promise<T> {
+  const headers: Record<string, string> = {};
+  const token = appointmentPatientToken(appointmentId);
+  if (token) headers[APPOINTMENT_PATIENT_TOKEN_HEADER] = token;
+  if (init.body !== undefined) headers["Content-Type"] = "application/json";
+
+  const res = await fetch(
+    `/api/consultations/${encodeURIComponent(appointmentId)}${init.query ?? ""}`,
+    {
+      method: init.method,
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      cache: "no-store",
+    }
+  );
+  const json = (await res.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!res.ok || !json) {
+    throw new Error(json?.error ?? "相談ルームに接続できませんでした。");
+  }
+  return json;
+}
+
+/** since を渡すと、それより後のメッセージだけ返る（ポーリング用） */
+export function fetchConsultationRoom(
+  appointmentId: string,
+  since?: string | null
+): Promise<ConsultationRoom> {
+  return callRoomApi<ConsultationRoom>(appointmentId, {
+    method: "GET",
+    query: since ? `?since=${encodeURIComponent(since)}` : "",
+  });
+}
+
+export async function sendConsultationMessage(
+  appointmentId: string,
+  body: string
+): Promise<ConsultationMessage> {
+  const json = await callRoomApi<{ message: ConsultationMessage }>(appointmentId, {
+    method: "POST",
+    body: { body },
+  });
+  return json.message;
+}
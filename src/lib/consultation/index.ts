@@ -0,0 +1,5 @@
+// src/lib/consultation/index.ts
+// オンライン相談ルーム（入室チェック・チャット・ビデオ通話）の公開窓口（サーバー専用）
+export * from "./access";
+export * from "./chat";
+export * from "./video";
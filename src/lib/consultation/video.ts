@@ -0,0 +1,103 @@
+// src/lib/consultation/video.ts
+import { randomUUID } from "node:crypto";
+
+/**
+ * オンライン相談のビデオ通話（差し替え可能）
+ * - stub     : 開発用。ルームだけ作り、実際の通話にはつながない
+ * - external : 薬剤師の予約URL（booking_url）に外部ツールで入ってもらう（これまでの動き）
+ * - 本番で使うサービスを決めたら、VideoProvider を実装してここに足す
+ *
+ * 環境変数（サーバー側のみ）
+ * - VIDEO_PROVIDER : stub | external（未設定なら stub。本番では stub を使わない）
+ */
+
+export type VideoRoom = {
+  provider: string;
+  roomId: string;
+};
+
+export type VideoParticipant = {
+  role: "patient" | "pharmacist";
+  displayName: string;
+};
+
+export type VideoJoinInfo = {
+  provider: string;
+  /** 通話に入る URL（null のときは画面に note だけ出す） */
+  url: string | null;
+  note: string;
+};
+
+export interface VideoProvider {
+  /** consultation_sessions.video_provider に残す名前 */
+  name: "stub" | "external";
+  createRoom(appointmentId: string): Promise<VideoRoom>;
+  joinInfo(
+    room: VideoRoom,
+    participant: VideoParticipant,
+    context: { bookingUrl: string | null }
+  ): VideoJoinInfo;
+}
+
+export function createStubVideoProvider(): VideoProvider {
+  return {
+    name: "stub",
+    async createRoom(appointmentId) {
+      return { provider: "stub", roomId: `stub-${appointmentId}-${randomUUID().slice(0, 8)}` };
+    },
+    joinInfo(room, participant) {
+      return {
+        provider: "stub",
+        url: null,
+        note: `開発用のビデオ通話です（ルーム ${room.roomId} に${participant.displayName}として参加）。実際の通話にはつながりません。`,
+      };
+    },
+  };
+}
+
+export function createExternalVideoProvider(): VideoProvider {
+  return {
+    name: "external",
+    async createRoom(appointmentId) {
+      return { provider: "external", roomId: appointmentId };
+    },
+    joinInfo(_room, participant, context) {
+      if (!context.bookingUrl) {
+        return {
+          provider: "external",
+          url: null,
+          note:
+            participant.role === "pharmacist"
+              ? "ビデオ通話の URL（予約URL）が未設定です。薬剤師の登録情報から設定してください。"
+              : "ビデオ通話の URL はまだ届いていません。チャットで薬剤師にお問い合わせください。",
+        };
+      }
+      return {
+        provider: "external",
+        url: context.bookingUrl,
+        note: "別のタブでビデオ通話が開きます。",
+      };
+    },
+  };
+}
+
+export function videoProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): VideoProvider {
+  const kind = (env.VIDEO_PROVIDER ?? "stub").trim().toLowerCase();
+  if (kind === "external") return createExternalVideoProvider();
+  if (kind === "stub") {
+    if (env.NODE_ENV === "production") {
+      throw new Error(
+        "本番環境では VIDEO_PROVIDER（external）を設定してください。stub は開発・テスト用です。"
+      );
+    }
+    return createStubVideoProvider();
+  }
+  throw new Error(`VIDEO_PROVIDER の値が不正です（${kind}）。`);
+}
+
+/** 保存済みのルームに対応する provider（VIDEO_PROVIDER を切り替えた後も、作った時の provider で入る） */
+export function videoProviderFor(room: VideoRoom): VideoProvider {
+  return room.provider === "external" ? createExternalVideoProvider() : createStubVideoProvider();
+}
@@ -0,0 +1,74 @@
+// src/lib/contact/contactRequests.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ContactIntent, ContactMethod, ContactRequest } from "@/types/supabase";
+import { contactValidationMessage, parseContact } from "./validation";
+
+/**
+ * 連絡先フォームからの登録
+ * - 電話番号・メールアドレスは形式を確認して正規化する（不正ならエラー）
+ * - ブラウザは contact_requests に insert しかできない（読み返さない）ので、id も手元で作る
+ */
+export async function createContactRequest(
+  supabase: SupabaseClient,
+  input: {
+    patientId: string;
+    pharmacistId: string | null;
+    intent: ContactIntent;
+    method: Exclude<ContactMethod, "other">;
+    contact: string;
+    message: string | null;
+  },
+  now: Date = new Date()
+): Promise<ContactRequest> {
+  const parsed = parseContact(input.contact, input.method);
+  if (!parsed) throw new Error(contactValidationMessage(input.method));
+
+  const { id, created_at, ...row }: ContactRequest = {
+    id: crypto.randomUUID(),
+    created_at: now.toISOString(),
+    patient_id: input.patientId,
+    pharmacist_id: input.pharmacistId,
+    intent: input.intent,
+    method: parsed.method,
+    phone: parsed.phone,
+    email: parsed.email,
+    contact_text: input.contact.trim(),
+    message: input.message?.trim() || null,
+    source: "form",
+    legacy_note: null,
+  };
+  const { error } = await supabase.from("contact_requests").insert({ id, ...row });
+
+  if (error) throw error;
+  return { id, created_at, ...row };
+}
+
+/**
+ * 患者ごとの最新の連絡先登録（一覧画面で連絡先を出す用）
+ */
+export async function fetchLatestContactRequests(
+  supabase: SupabaseClient,
+  patientIds: string[]
+): Promise<Map<string, ContactRequest>> {
+  const latest = new Map<string, ContactRequest>();
+  if (patientIds.length === 0) return latest;
+
+  const { data, error } = await supabase
+    .from("contact_requests")
+    .select("*")
+    .in("patient_id", patientIds)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  ((data ?? []) as ContactRequest[]).forEach((req) => {
+    if (!latest.has(req.patient_id)) latest.set(req.patient_id, req);
+  });
+  return latest;
+}
+
+/** 表示用の連絡先（正規化済みの値があればそれを使う） */
+export function formatContactRequest(
+  req: Pick<ContactRequest, "phone" | "email" | "contact_text">
+): string {
+  return req.email ?? req.phone ?? req.contact_text;
+}
@@ -0,0 +1,5 @@
+// src/lib/contact/index.ts
+// 連絡先の登録（contact_requests）の公開窓口
+export * from "./validation";
+export * from "./legacyNote";
+export * from "./contactRequests";
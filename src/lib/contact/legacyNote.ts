@@ -0,0 +1,56 @@
+// src/lib/contact/legacyNote.ts
+import type { ContactIntent } from "@/types/supabase";
+
+/**
+ * patients.note に追記されていた連絡先の読み取り（contact_requests への移行用）
+ *
+ * 旧フォームは次の形で追記していた：
+ *   【スポット相談希望】（希望薬剤師: 山田 花子） 連絡先: 090-1234-5678
+ *   [相談したいことメモ] 眠りが浅い
+ * - 希望薬剤師・メモの行はないこともある（メモが複数行だった場合は1行目だけ拾う）
+ * - それ以外の行（運営のメモなど）は対象外
+ */
+
+export type LegacyContactEntry = {
+  intent: ContactIntent;
+  pharmacistName: string | null;
+  contact: string;
+  message: string | null;
+  /** note に書かれていたままの行（メモの行を含む） */
+  raw: string;
+};
+
+const INTENT_BY_TAG: Record<string, ContactIntent> = {
+  スポット相談希望: "spot_consult",
+  顧問候補として相談: "mentor_candidate",
+  あとで連絡希望: "save_for_later",
+};
+
+const ENTRY_LINE = /^【(スポット相談希望|顧問候補として相談|あとで連絡希望)】(?:（希望薬剤師:\s*(.+?)）)?\s*連絡先[:：]\s*(.+)$/;
+const MESSAGE_LINE = /^\[相談したいことメモ\]\s*(.*)$/;
+
+export function parseLegacyContactNote(
+  note: string | null | undefined
+): LegacyContactEntry[] {
+  if (!note) return [];
+  const lines = note.split(/\r?\n/).map((l) => l.trim());
+  const entries: LegacyContactEntry[] = [];
+
+  lines.forEach((line, i) => {
+    const m = line.match(ENTRY_LINE);
+    if (!m) return;
+
+    const next = lines[i + 1]?.match(MESSAGE_LINE);
+    const message = next ? next[1].trim() || null : null;
+
+    entries.push({
+      intent: INTENT_BY_TAG[m[1]],
+      pharmacistName: m[2]?.trim() || null,
+      contact: m[3].trim(),
+      message,
+      raw: next ? `${line}\n${lines[i + 1]}` : line,
+    });
+  });
+
+  return entries;
+}
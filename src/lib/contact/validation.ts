@@ -0,0 +1,78 @@
+// src/lib/contact/validation.ts
+import type { ContactIntent, ContactMethod } from "@/types/supabase";
+
+export const CONTACT_INTENT_LABEL: Record<ContactIntent, string> = {
+  spot_consult: "スポット相談希望",
+  mentor_candidate: "顧問候補として相談",
+  save_for_later: "あとで連絡希望",
+};
+
+export const CONTACT_METHOD_LABEL: Record<ContactMethod, string> = {
+  phone: "電話",
+  email: "メール",
+  other: "その他",
+};
+
+/** 全角英数・記号を半角に（電話番号・メールアドレスの入力ゆれ対策） */
+function toHalfWidth(value: string): string {
+  return value
+    .replace(/[！-～]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/[ー－―‐]/g, "-")
+    .replace(/　/g, " ");
+}
+
+/**
+ * 電話番号を数字だけにして返す（不正なら null）
+ * - 国内の番号：0 から始まる 10〜11 桁
+ * - +81 / 81 始まりは 0 始まりに直す
+ */
+export function normalizePhone(raw: string): string | null {
+  const half = toHalfWidth(raw).trim();
+  if (!/^[+\d\s()-]+$/.test(half)) return null;
+
+  let digits = half.replace(/\D/g, "");
+  if (half.startsWith("+81") || (digits.startsWith("81") && digits.length >= 11)) {
+    digits = `0${digits.slice(2)}`;
+  }
+  return /^0\d{9,10}$/.test(digits) ? digits : null;
+}
+
+/** メールアドレスを小文字にして返す（不正なら null） */
+export function normalizeEmail(raw: string): string | null {
+  const email = toHalfWidth(raw).trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
+
+export type ParsedContact = {
+  method: ContactMethod;
+  phone: string | null;
+  email: string | null;
+};
+
+/**
+ * 入力された連絡先を判定する
+ * - method を指定したときはその形式だけを受け付ける（フォーム用）
+ * - 指定しないときはメール → 電話の順に判定し、どちらでもなければ "other"（移行用）
+ */
+export function parseContact(
+  raw: string,
+  method?: Exclude<ContactMethod, "other">
+): ParsedContact | null {
+  const email = method === "phone" ? null : normalizeEmail(raw);
+  if (email) return { method: "email", phone: null, email };
+
+  const phone = method === "email" ? null : normalizePhone(raw);
+  if (phone) return { method: "phone", phone, email: null };
+
+  if (method) return null;
+  return raw.trim() ? { method: "other", phone: null, email: null } : null;
+}
+
+/** フォームのエラーメッセージ */
+export function contactValidationMessage(
+  method: Exclude<ContactMethod, "other">
+): string {
+  return method === "phone"
+    ? "電話番号の形式が正しくありません（例：090-1234-5678）。"
+    : "メールアドレスの形式が正しくありません。";
+}
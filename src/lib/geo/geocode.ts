@@ -0,0 +1,184 @@
+// src/lib/geo/geocode.ts
+import type { Store } from "@/types/supabase";
+import {
+  MUNICIPALITY_CENTROIDS,
+  POSTAL_PREFIX_RANGES,
+  PREFECTURE_CENTROIDS,
+  type Centroid,
+  type PrefectureCentroid,
+} from "./jpCentroids";
+
+/**
+ * どの粒度で位置が分かったか
+ * - municipality: 市区町村名から特定
+ * - postal: 郵便番号から特定（市区まで、または都道府県まで）
+ * - prefecture: 都道府県しか分からない
+ */
+export type GeoPrecision = "municipality" | "postal" | "prefecture";
+
+export interface GeoPoint extends Centroid {
+  precision: GeoPrecision;
+  /** 表示用（例：東京都渋谷区） */
+  label: string;
+}
+
+/** 店舗のうち、位置の推定に使う項目 */
+export type StoreAddress = Pick<
+  Store,
+  "postal_code" | "prefecture" | "city" | "address_line1"
+>;
+
+const EARTH_RADIUS_KM = 6371;
+
+const cache = new Map<string, GeoPoint | null>();
+
+// 全角数字・ハイフンを半角にそろえる
+function normalize(text: string): string {
+  return text
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[ー－−‐]/g, "-")
+    .replace(/\s/g, "");
+}
+
+function findPrefecture(text: string): PrefectureCentroid | null {
+  // 「東京都」に「京都」が含まれるため、正式名 → 短い名前の順に探す
+  const full = PREFECTURE_CENTROIDS.find((p) => text.includes(p.name));
+  if (full) return full;
+
+  let best: PrefectureCentroid | null = null;
+  let bestIndex = Number.MAX_SAFE_INTEGER;
+  for (const p of PREFECTURE_CENTROIDS) {
+    const idx = text.indexOf(p.shortName);
+    if (idx >= 0 && idx < bestIndex) {
+      best = p;
+      bestIndex = idx;
+    }
+  }
+  return best;
+}
+
+function findMunicipality(
+  text: string,
+  prefecture: PrefectureCentroid | null
+): GeoPoint | null {
+  // 「大阪市中央区」のように市 → 区の順で書かれるため、先に現れた名前を採用する
+  let best: GeoPoint | null = null;
+  let bestIndex = Number.MAX_SAFE_INTEGER;
+  for (const m of MUNICIPALITY_CENTROIDS) {
+    if (prefecture && m.prefecture !== prefecture.name) continue;
+    const idx = text.indexOf(m.name);
+    if (idx >= 0 && idx < bestIndex) {
+      best = {
+        lat: m.lat,
+        lng: m.lng,
+        precision: "municipality",
+        label: `${m.prefecture}${m.name}`,
+      };
+      bestIndex = idx;
+    }
+  }
+  return best;
+}
+
+function findByPostalCode(text: string): GeoPoint | null {
+  const match = text.match(/(\d{3})-?(\d{4})/);
+  if (!match) return null;
+
+  const prefix = Number(match[1]);
+  const range = POSTAL_PREFIX_RANGES.find(
+    (r) => prefix >= r.from && prefix <= r.to
+  );
+  if (!range) return null;
+
+  if (range.municipality) {
+    const m = MUNICIPALITY_CENTROIDS.find(
+      (c) => c.prefecture === range.prefecture && c.name === range.municipality
+    );
+    if (m) {
+      return {
+        lat: m.lat,
+        lng: m.lng,
+        precision: "postal",
+        label: `${m.prefecture}${m.name}`,
+      };
+    }
+  }
+
+  const p = PREFECTURE_CENTROIDS.find((c) => c.name === range.prefecture);
+  return p
+    ? { lat: p.lat, lng: p.lng, precision: "prefecture", label: p.name }
+    : null;
+}
+
+/**
+ * 住所・エリアの自由入力（「京都市中京区」「150-0001」「大阪」など）から
+ * 同梱データを使っておおよその座標を求める。分からなければ null。
+ *
+ * 市区町村名 → 郵便番号 → 都道府県名 の順で、細かく分かるものを優先する。
+ */
+export function geocodeText(text: string | null | undefined): GeoPoint | null {
+  if (!text) return null;
+  const normalized = normalize(text);
+  if (!normalized) return null;
+
+  if (cache.has(normalized)) return cache.get(normalized) ?? null;
+
+  const prefecture = findPrefecture(normalized);
+  const point =
+    findMunicipality(normalized, prefecture) ??
+    findByPostalCode(normalized) ??
+    (prefecture
+      ? {
+          lat: prefecture.lat,
+          lng: prefecture.lng,
+          precision: "prefecture" as const,
+          label: prefecture.name,
+        }
+      : null);
+
+  cache.set(normalized, point);
+  return point;
+}
+
+/**
+ * 店舗の住所（都道府県・市区町村・番地・郵便番号）から座標を求める
+ */
+export function geocodeStore(store: StoreAddress | null): GeoPoint | null {
+  if (!store) return null;
+  const text = [
+    store.prefecture,
+    store.city,
+    store.address_line1,
+    store.postal_code,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return geocodeText(text);
+}
+
+/**
+ * 2点間の距離（km、球面上の大円距離）
+ */
+export function haversineKm(a: Centroid, b: Centroid): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * マッチングや絞り込みに使う距離（km）
+ * - どちらかの位置が不明、または都道府県までしか分からない場合は null
+ *   （都道府県の代表点どうしの距離では「通えるか」を判断できないため）
+ */
+export function distanceBetween(
+  a: GeoPoint | null,
+  b: GeoPoint | null
+): number | null {
+  if (!a || !b) return null;
+  if (a.precision === "prefecture" || b.precision === "prefecture") return null;
+  return haversineKm(a, b);
+}
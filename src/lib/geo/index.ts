@@ -0,0 +1,4 @@
+// src/lib/geo/index.ts
+// 住所 → 座標のオフライン推定と距離計算
+export * from "./jpCentroids";
+export * from "./geocode";
@@ -0,0 +1,317 @@
+// src/lib/geo/jpCentroids.ts
+//
+// オフライン ジオコーディング用の同梱データ（外部 API は使わない）
+// - 座標は都道府県庁・市区役所のおおよその位置（小数第4位程度の精度）
+// - 市区町村は 東京23区・政令指定都市・県庁所在地・主要都市のみ収録
+// - 郵便番号は上3桁の範囲 → 都道府県（一部は市区）に対応づける
+
+export interface Centroid {
+  lat: number;
+  lng: number;
+}
+
+export interface PrefectureCentroid extends Centroid {
+  /** 正式名（例：東京都・大阪府・北海道） */
+  name: string;
+  /** 都道府県を省いた短い名前（例：東京・大阪・北海道） */
+  shortName: string;
+}
+
+export interface MunicipalityCentroid extends Centroid {
+  prefecture: string;
+  /** 市区町村名（例：渋谷区・横浜市） */
+  name: string;
+}
+
+export interface PostalPrefixRange {
+  /** 郵便番号上3桁の範囲（両端を含む） */
+  from: number;
+  to: number;
+  prefecture: string;
+  /** 市区まで特定できる範囲のみ設定 */
+  municipality?: string;
+}
+
+const pref = (name: string, lat: number, lng: number): PrefectureCentroid => ({
+  name,
+  shortName: name === "北海道" ? name : name.replace(/[都府県]$/, ""),
+  lat,
+  lng,
+});
+
+export const PREFECTURE_CENTROIDS: PrefectureCentroid[] = [
+  pref("北海道", 43.0642, 141.3469),
+  pref("青森県", 40.8244, 140.74),
+  pref("岩手県", 39.7036, 141.1527),
+  pref("宮城県", 38.2688, 140.8721),
+  pref("秋田県", 39.7186, 140.1024),
+  pref("山形県", 38.2404, 140.3633),
+  pref("福島県", 37.7503, 140.4676),
+  pref("茨城県", 36.3418, 140.4468),
+  pref("栃木県", 36.5657, 139.8836),
+  pref("群馬県", 36.3912, 139.0608),
+  pref("埼玉県", 35.857, 139.6489),
+  pref("千葉県", 35.6051, 140.1233),
+  pref("東京都", 35.6895, 139.6917),
+  pref("神奈川県", 35.4478, 139.6425),
+  pref("新潟県", 37.9026, 139.0236),
+  pref("富山県", 36.6953, 137.2113),
+  pref("石川県", 36.5947, 136.6256),
+  pref("福井県", 36.0652, 136.2216),
+  pref("山梨県", 35.6642, 138.5684),
+  pref("長野県", 36.6513, 138.181),
+  pref("岐阜県", 35.3912, 136.7223),
+  pref("静岡県", 34.9769, 138.3831),
+  pref("愛知県", 35.1802, 136.9066),
+  pref("三重県", 34.7303, 136.5086),
+  pref("滋賀県", 35.0045, 135.8686),
+  pref("京都府", 35.0212, 135.7556),
+  pref("大阪府", 34.6863, 135.52),
+  pref("兵庫県", 34.6913, 135.183),
+  pref("奈良県", 34.6851, 135.8329),
+  pref("和歌山県", 34.2261, 135.1675),
+  pref("鳥取県", 35.5039, 134.2377),
+  pref("島根県", 35.4723, 133.0505),
+  pref("岡山県", 34.6618, 133.9344),
+  pref("広島県", 34.3966, 132.4596),
+  pref("山口県", 34.1859, 131.4714),
+  pref("徳島県", 34.0658, 134.5593),
+  pref("香川県", 34.3401, 134.0434),
+  pref("愛媛県", 33.8417, 132.7661),
+  pref("高知県", 33.5597, 133.5311),
+  pref("福岡県", 33.6064, 130.4181),
+  pref("佐賀県", 33.2494, 130.2988),
+  pref("長崎県", 32.7448, 129.8737),
+  pref("熊本県", 32.7898, 130.7417),
+  pref("大分県", 33.2382, 131.6126),
+  pref("宮崎県", 31.9111, 131.4239),
+  pref("鹿児島県", 31.5602, 130.5581),
+  pref("沖縄県", 26.2124, 127.6809),
+];
+
+const muni = (
+  prefecture: string,
+  name: string,
+  lat: number,
+  lng: number
+): MunicipalityCentroid => ({ prefecture, name, lat, lng });
+
+export const MUNICIPALITY_CENTROIDS: MunicipalityCentroid[] = [
+  // 東京23区
+  muni("東京都", "千代田区", 35.694, 139.7536),
+  muni("東京都", "中央区", 35.6707, 139.772),
+  muni("東京都", "港区", 35.6581, 139.7516),
+  muni("東京都", "新宿区", 35.6938, 139.7036),
+  muni("東京都", "文京区", 35.7081, 139.7522),
+  muni("東京都", "台東区", 35.7126, 139.78),
+  muni("東京都", "墨田区", 35.7107, 139.8015),
+  muni("東京都", "江東区", 35.673, 139.8171),
+  muni("東京都", "品川区", 35.6092, 139.7302),
+  muni("東京都", "目黒区", 35.6415, 139.6982),
+  muni("東京都", "大田区", 35.5613, 139.716),
+  muni("東京都", "世田谷区", 35.6464, 139.6532),
+  muni("東京都", "渋谷区", 35.664, 139.6982),
+  muni("東京都", "中野区", 35.7074, 139.6638),
+  muni("東京都", "杉並区", 35.6995, 139.6364),
+  muni("東京都", "豊島区", 35.7262, 139.7163),
+  muni("東京都", "北区", 35.7528, 139.7337),
+  muni("東京都", "荒川区", 35.7361, 139.7834),
+  muni("東京都", "板橋区", 35.7512, 139.7093),
+  muni("東京都", "練馬区", 35.7356, 139.6517),
+  muni("東京都", "足立区", 35.775, 139.8045),
+  muni("東京都", "葛飾区", 35.7434, 139.8472),
+  muni("東京都", "江戸川区", 35.7067, 139.8683),
+
+  // 東京都（多摩地域の主要市）
+  muni("東京都", "八王子市", 35.6664, 139.316),
+  muni("東京都", "立川市", 35.6939, 139.4077),
+  muni("東京都", "武蔵野市", 35.7178, 139.5661),
+  muni("東京都", "三鷹市", 35.6836, 139.5595),
+  muni("東京都", "府中市", 35.6689, 139.4776),
+  muni("東京都", "調布市", 35.6506, 139.5407),
+  muni("東京都", "町田市", 35.5484, 139.4467),
+
+  // 政令指定都市
+  muni("北海道", "札幌市", 43.0621, 141.3544),
+  muni("宮城県", "仙台市", 38.2682, 140.8694),
+  muni("埼玉県", "さいたま市", 35.8617, 139.6455),
+  muni("千葉県", "千葉市", 35.6073, 140.1063),
+  muni("神奈川県", "横浜市", 35.4437, 139.638),
+  muni("神奈川県", "川崎市", 35.5308, 139.7029),
+  muni("神奈川県", "相模原市", 35.5714, 139.3733),
+  muni("新潟県", "新潟市", 37.9161, 139.0364),
+  muni("静岡県", "静岡市", 34.9756, 138.3828),
+  muni("静岡県", "浜松市", 34.7108, 137.7261),
+  muni("愛知県", "名古屋市", 35.1815, 136.9066),
+  muni("京都府", "京都市", 35.0116, 135.7681),
+  muni("大阪府", "大阪市", 34.6937, 135.5023),
+  muni("大阪府", "堺市", 34.5733, 135.483),
+  muni("兵庫県", "神戸市", 34.6901, 135.1955),
+  muni("岡山県", "岡山市", 34.6551, 133.9195),
+  muni("広島県", "広島市", 34.3853, 132.4553),
+  muni("福岡県", "北九州市", 33.8834, 130.8752),
+  muni("福岡県", "福岡市", 33.5902, 130.4017),
+  muni("熊本県", "熊本市", 32.8032, 130.7079),
+
+  // 県庁所在地（政令指定都市以外）
+  muni("青森県", "青森市", 40.8222, 140.7474),
+  muni("岩手県", "盛岡市", 39.7019, 141.1544),
+  muni("秋田県", "秋田市", 39.72, 140.1025),
+  muni("山形県", "山形市", 38.2554, 140.3396),
+  muni("福島県", "福島市", 37.7608, 140.4748),
+  muni("茨城県", "水戸市", 36.3659, 140.4714),
+  muni("栃木県", "宇都宮市", 36.5551, 139.8828),
+  muni("群馬県", "前橋市", 36.3895, 139.0634),
+  muni("富山県", "富山市", 36.6959, 137.2137),
+  muni("石川県", "金沢市", 36.5613, 136.6562),
+  muni("福井県", "福井市", 36.0641, 136.2196),
+  muni("山梨県", "甲府市", 35.6622, 138.5683),
+  muni("長野県", "長野市", 36.6485, 138.1948),
+  muni("岐阜県", "岐阜市", 35.4233, 136.7607),
+  muni("三重県", "津市", 34.7186, 136.5056),
+  muni("滋賀県", "大津市", 35.0179, 135.8546),
+  muni("奈良県", "奈良市", 34.6851, 135.805),
+  muni("和歌山県", "和歌山市", 34.2305, 135.1708),
+  muni("鳥取県", "鳥取市", 35.5011, 134.235),
+  muni("島根県", "松江市", 35.468, 133.0484),
+  muni("山口県", "山口市", 34.1783, 131.4737),
+  muni("徳島県", "徳島市", 34.0703, 134.5548),
+  muni("香川県", "高松市", 34.3428, 134.0466),
+  muni("愛媛県", "松山市", 33.8392, 132.7657),
+  muni("高知県", "高知市", 33.5588, 133.5312),
+  muni("佐賀県", "佐賀市", 33.2635, 130.3009),
+  muni("長崎県", "長崎市", 32.7503, 129.8777),
+  muni("大分県", "大分市", 33.2396, 131.6093),
+  muni("宮崎県", "宮崎市", 31.9077, 131.4202),
+  muni("鹿児島県", "鹿児島市", 31.5966, 130.5571),
+  muni("沖縄県", "那覇市", 26.2124, 127.6792),
+
+  // その他の主要都市
+  muni("北海道", "旭川市", 43.7706, 142.365),
+  muni("北海道", "函館市", 41.7687, 140.7288),
+  muni("福島県", "郡山市", 37.4005, 140.3597),
+  muni("福島県", "いわき市", 37.0505, 140.8877),
+  muni("茨城県", "つくば市", 36.0835, 140.0764),
+  muni("群馬県", "高崎市", 36.322, 139.0032),
+  muni("埼玉県", "川口市", 35.8078, 139.7241),
+  muni("埼玉県", "川越市", 35.9251, 139.4858),
+  muni("埼玉県", "越谷市", 35.8911, 139.7909),
+  muni("千葉県", "船橋市", 35.6947, 139.9827),
+  muni("千葉県", "市川市", 35.7219, 139.931),
+  muni("千葉県", "松戸市", 35.7876, 139.9032),
+  muni("千葉県", "柏市", 35.8676, 139.9758),
+  muni("神奈川県", "横須賀市", 35.2813, 139.6722),
+  muni("神奈川県", "藤沢市", 35.3392, 139.49),
+  muni("愛知県", "豊田市", 35.0826, 137.156),
+  muni("愛知県", "岡崎市", 34.9549, 137.1744),
+  muni("京都府", "宇治市", 34.8844, 135.7998),
+  muni("大阪府", "豊中市", 34.7813, 135.4699),
+  muni("大阪府", "吹田市", 34.7594, 135.5169),
+  muni("大阪府", "東大阪市", 34.6794, 135.6008),
+  muni("兵庫県", "姫路市", 34.8151, 134.6853),
+  muni("兵庫県", "西宮市", 34.7376, 135.3416),
+  muni("兵庫県", "尼崎市", 34.7332, 135.4068),
+  muni("岡山県", "倉敷市", 34.585, 133.772),
+  muni("広島県", "福山市", 34.4858, 133.3623),
+  muni("福岡県", "久留米市", 33.3192, 130.5083),
+];
+
+const range = (
+  from: number,
+  to: number,
+  prefecture: string,
+  municipality?: string
+): PostalPrefixRange => ({ from, to, prefecture, municipality });
+
+/**
+ * 郵便番号上3桁 → 地域
+ * - 市区まで分かる範囲を先に並べ、最初に一致したものを使う
+ */
+export const POSTAL_PREFIX_RANGES: PostalPrefixRange[] = [
+  // 東京23区
+  range(100, 102, "東京都", "千代田区"),
+  range(103, 104, "東京都", "中央区"),
+  range(105, 108, "東京都", "港区"),
+  range(110, 111, "東京都", "台東区"),
+  range(112, 113, "東京都", "文京区"),
+  range(114, 115, "東京都", "北区"),
+  range(116, 116, "東京都", "荒川区"),
+  range(120, 121, "東京都", "足立区"),
+  range(123, 123, "東京都", "足立区"),
+  range(124, 125, "東京都", "葛飾区"),
+  range(130, 131, "東京都", "墨田区"),
+  range(132, 134, "東京都", "江戸川区"),
+  range(135, 136, "東京都", "江東区"),
+  range(140, 142, "東京都", "品川区"),
+  range(143, 146, "東京都", "大田区"),
+  range(150, 151, "東京都", "渋谷区"),
+  range(152, 153, "東京都", "目黒区"),
+  range(154, 158, "東京都", "世田谷区"),
+  range(160, 162, "東京都", "新宿区"),
+  range(164, 165, "東京都", "中野区"),
+  range(166, 168, "東京都", "杉並区"),
+  range(169, 169, "東京都", "新宿区"),
+  range(170, 171, "東京都", "豊島区"),
+  range(173, 175, "東京都", "板橋区"),
+  range(176, 179, "東京都", "練馬区"),
+
+  // 主要都市
+  range(60, 65, "北海道", "札幌市"),
+  range(210, 216, "神奈川県", "川崎市"),
+  range(220, 241, "神奈川県", "横浜市"),
+  range(460, 468, "愛知県", "名古屋市"),
+  range(530, 559, "大阪府", "大阪市"),
+  range(600, 607, "京都府", "京都市"),
+  range(650, 658, "兵庫県", "神戸市"),
+  range(810, 819, "福岡県", "福岡市"),
+
+  // 都道府県
+  range(0, 9, "北海道"),
+  range(10, 19, "秋田県"),
+  range(20, 29, "岩手県"),
+  range(30, 39, "青森県"),
+  range(40, 99, "北海道"),
+  range(100, 209, "東京都"),
+  range(210, 259, "神奈川県"),
+  range(260, 299, "千葉県"),
+  range(300, 319, "茨城県"),
+  range(320, 329, "栃木県"),
+  range(330, 369, "埼玉県"),
+  range(370, 379, "群馬県"),
+  range(380, 399, "長野県"),
+  range(400, 409, "山梨県"),
+  range(410, 439, "静岡県"),
+  range(440, 499, "愛知県"),
+  range(500, 509, "岐阜県"),
+  range(510, 519, "三重県"),
+  range(520, 529, "滋賀県"),
+  range(530, 599, "大阪府"),
+  range(600, 629, "京都府"),
+  range(630, 639, "奈良県"),
+  range(640, 649, "和歌山県"),
+  range(650, 679, "兵庫県"),
+  range(680, 689, "鳥取県"),
+  range(690, 699, "島根県"),
+  range(700, 719, "岡山県"),
+  range(720, 739, "広島県"),
+  range(740, 759, "山口県"),
+  range(760, 769, "香川県"),
+  range(770, 779, "徳島県"),
+  range(780, 789, "高知県"),
+  range(790, 799, "愛媛県"),
+  range(800, 839, "福岡県"),
+  range(840, 849, "佐賀県"),
+  range(850, 859, "長崎県"),
+  range(860, 869, "熊本県"),
+  range(870, 879, "大分県"),
+  range(880, 889, "宮崎県"),
+  range(890, 899, "鹿児島県"),
+  range(900, 909, "沖縄県"),
+  range(910, 919, "福井県"),
+  range(920, 929, "石川県"),
+  range(930, 939, "富山県"),
+  range(940, 959, "新潟県"),
+  range(960, 979, "福島県"),
+  range(980, 989, "宮城県"),
+  range(990, 999, "山形県"),
+];
@@ -0,0 +1,288 @@
+// src/lib/jobs/appointmentJobs.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Appointment, AppointmentReminderLog } from "@/types/supabase";
+import {
+  dueReminder,
+  formatReminderOffset,
+  isProbableNoShow,
+  noShowGraceHours,
+  parseReminderOffsets,
+} from "../scheduling/reminders";
+import { transitionAppointment } from "../scheduling/appointments";
+import { appointmentReminderEmail } from "../notifications/templates";
+import { transportFromEnv, type EmailTransport } from "../notifications/transport";
+import { normalizeEmail } from "../contact/validation";
+import { log } from "../logger";
+import { lineClientFromEnv, type LineClient } from "../line/client";
+import { appointmentReminderMessage } from "../line/messages";
+import { pushToPatient } from "../line/linking";
+
+/**
+ * 定期実行する予約まわりの処理（/api/cron/appointments・scripts/run-appointment-jobs.ts から呼ぶ）
+ * - 予約リマインド：メール（患者のメールアドレスがあれば）と LINE（連携していれば）
+ * - 無断欠席の判定：確定のまま終わった予約を no_show にする（操作者は system）
+ * - service role のクライアントを渡す前提
+ */
+
+export type AppointmentJobOptions = {
+  now?: Date;
+  /** リマインドのタイミング（分）。parseReminderOffsets() の結果 */
+  offsets: number[];
+  graceHours: number;
+  /** メール・LINE 内リンクの起点 */
+  baseUrl: string;
+};
+
+export type AppointmentJobDeps = {
+  transport: EmailTransport;
+  /** LINE の設定がない環境では null（メールだけ送る） */
+  line: LineClient | null;
+};
+
+export type ReminderRunResult = {
+  sent: number;
+  skipped: number;
+  failed: number;
+  /** 連絡手段がなく送れなかった予約 */
+  unreachable: number;
+};
+
+export type AppointmentJobResult = {
+  reminders: ReminderRunResult;
+  noShows: { flagged: number; failed: number };
+};
+
+type ReminderAppointmentRow = Pick<
+  Appointment,
+  "id" | "patient_id" | "booking_type" | "scheduled_start" | "scheduled_end" | "status"
+> & {
+  patient: { name: string | null; email: string | null } | null;
+  pharmacist: { name: string | null } | null;
+};
+
+export const NO_SHOW_REASON = "自動判定：相談時間を過ぎても完了の記録がありません";
+
+/**
+ * 送るべきリマインドを送る
+ * - 行を先に入れてから送る（unique 制約で、同時に動いても二重に送らない）
+ */
+export async function sendDueReminders(
+  supabase: SupabaseClient,
+  deps: AppointmentJobDeps,
+  options: AppointmentJobOptions
+): Promise<ReminderRunResult> {
+  const now = options.now ?? new Date();
+  const result: ReminderRunResult = { sent: 0, skipped: 0, failed: 0, unreachable: 0 };
+  if (options.offsets.length === 0) return result;
+
+  const horizon = new Date(now.getTime() + Math.max(...options.offsets) * 60 * 1000);
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(
+      "id, patient_id, booking_type, scheduled_start, scheduled_end, status, patient:patients(name, email), pharmacist:pharmacists(name)"
+    )
+    .eq("status", "confirmed")
+    .gt("scheduled_start", now.toISOString())
+    .lte("scheduled_start", horizon.toISOString())
+    .returns<ReminderAppointmentRow[]>();
+  if (error) throw error;
+
+  const appointments = data ?? [];
+  if (appointments.length === 0) return result;
+
+  const { data: logData, error: logError } = await supabase
+    .from("appointment_reminders")
+    .select("appointment_id, offset_minutes, scheduled_start")
+    .in(
+      "appointment_id",
+      appointments.map((a) => a.id)
+    );
+  if (logError) throw logError;
+
+  const logs = (logData ?? []) as Pick<
+    AppointmentReminderLog,
+    "appointment_id" | "offset_minutes" | "scheduled_start"
+  >[];
+
+  for (const appt of appointments) {
+    const sentOffsets = logs
+      .filter(
+        (l) =>
+          l.appointment_id === appt.id &&
+          new Date(l.scheduled_start).getTime() === new Date(appt.scheduled_start!).getTime()
+      )
+      .map((l) => l.offset_minutes);
+
+    const due = dueReminder(appt, options.offsets, sentOffsets, now);
+    if (!due) continue;
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("appointment_reminders")
+      .insert(
+        due.mark.map((offset) => ({
+          appointment_id: appt.id,
+          offset_minutes: offset,
+          scheduled_start: appt.scheduled_start,
+          channels: [],
+          skipped: offset !== due.send,
+        }))
+      )
+      .select("id, offset_minutes");
+    if (claimError) {
+      // 他の実行が先に送った（unique 制約違反）
+      if (claimError.code === "23505") continue;
+      throw claimError;
+    }
+    result.skipped += due.mark.length - 1;
+
+    const channels = await sendReminder(supabase, deps, appt, options.baseUrl);
+    if (channels.failed) result.failed += 1;
+    if (channels.sent.length > 0) result.sent += 1;
+    else if (!channels.failed) result.unreachable += 1;
+
+    const sentRow = ((claimed ?? []) as { id: string; offset_minutes: number }[]).find(
+      (r) => r.offset_minutes === due.send
+    );
+    if (sentRow && channels.sent.length > 0) {
+      const { error: updateError } = await supabase
+        .from("appointment_reminders")
+        .update({ channels: channels.sent })
+        .eq("id", sentRow.id);
+      if (updateError) console.error("[jobs] failed to record reminder channels", updateError);
+    }
+    log(
+      `[jobs] reminder ${appt.id} (${formatReminderOffset(due.send)}): ${channels.sent.join(",") || "送信先なし"}`
+    );
+  }
+
+  return result;
+}
+
+async function sendReminder(
+  supabase: SupabaseClient,
+  deps: AppointmentJobDeps,
+  appt: ReminderAppointmentRow,
+  baseUrl: string
+): Promise<{ sent: string[]; failed: boolean }> {
+  const mypageUrl = `${baseUrl}/mypage`;
+  const sent: string[] = [];
+  let failed = false;
+
+  const email = appt.patient?.email ? normalizeEmail(appt.patient.email) : null;
+  if (email) {
+    try {
+      const content = appointmentReminderEmail(
+        {
+          patientName: appt.patient?.name ?? null,
+          pharmacistName: appt.pharmacist?.name ?? null,
+          storeName: null,
+          bookingType: appt.booking_type,
+          scheduledStart: appt.scheduled_start,
+          scheduledEnd: appt.scheduled_end,
+          memo: null,
+          patientContact: null,
+        },
+        { mypageUrl }
+      );
+      await deps.transport.send({ to: [email], subject: content.subject, text: content.text });
+      sent.push("email");
+    } catch (err) {
+      console.error(`[jobs] reminder email ${appt.id} failed`, err);
+      failed = true;
+    }
+  }
+
+  if (deps.line && appt.patient_id) {
+    try {
+      const pushed = await pushToPatient(supabase, deps.line, appt.patient_id, [
+        appointmentReminderMessage(
+          {
+            pharmacistName: appt.pharmacist?.name ?? null,
+            bookingType: appt.booking_type,
+            scheduledStart: appt.scheduled_start,
+            scheduledEnd: appt.scheduled_end,
+          },
+          { mypageUrl }
+        ),
+      ]);
+      if (pushed) sent.push("line");
+    } catch (err) {
+      console.error(`[jobs] reminder line ${appt.id} failed`, err);
+      failed = true;
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * 確定のまま相談終了から graceHours たった予約を無断欠席にする
+ * - 履歴（appointment_status_events）には system と判定理由が残る
+ * - 外れていたら薬局側で「完了」に直せる（no_show → completed）
+ */
+export async function flagProbableNoShows(
+  supabase: SupabaseClient,
+  options: Pick<AppointmentJobOptions, "now" | "graceHours">
+): Promise<{ flagged: number; failed: number }> {
+  const now = options.now ?? new Date();
+  const threshold = new Date(now.getTime() - options.graceHours * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("id, status, scheduled_start, scheduled_end")
+    .eq("status", "confirmed")
+    .lte("scheduled_start", threshold.toISOString())
+    .returns<Pick<Appointment, "id" | "status" | "scheduled_start" | "scheduled_end">[]>();
+  if (error) throw error;
+
+  const result = { flagged: 0, failed: 0 };
+  for (const appt of data ?? []) {
+    if (!isProbableNoShow(appt, now, options.graceHours)) continue;
+    try {
+      await transitionAppointment(
+        supabase,
+        appt,
+        "no_show",
+        { role: "system", id: null },
+        { reason: NO_SHOW_REASON, now }
+      );
+      result.flagged += 1;
+    } catch (err) {
+      // 同時に薬局側で完了にされた場合など
+      console.error(`[jobs] failed to flag no-show ${appt.id}`, err);
+      result.failed += 1;
+    }
+  }
+  return result;
+}
+
+export async function runAppointmentJobs(
+  supabase: SupabaseClient,
+  deps: AppointmentJobDeps,
+  options: AppointmentJobOptions
+): Promise<AppointmentJobResult> {
+  const reminders = await sendDueReminders(supabase, deps, options);
+  const noShows = await flagProbableNoShows(supabase, options);
+  return { reminders, noShows };
+}
+
+/**
+ * 環境変数から送り方・タイミングを組み立てる
+ * - REMINDER_OFFSETS / NO_SHOW_GRACE_HOURS / NEXT_PUBLIC_BASE_URL
+ * - LINE_CHANNEL_ACCESS_TOKEN がなければ LINE は送らない
+ */
+export function appointmentJobConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): { deps: AppointmentJobDeps; options: AppointmentJobOptions } {
+  return {
+    deps: {
+      transport: transportFromEnv(env),
+      line: env.LINE_CHANNEL_ACCESS_TOKEN ? lineClientFromEnv(env) : null,
+    },
+    options: {
+      offsets: parseReminderOffsets(env.REMINDER_OFFSETS),
+      graceHours: noShowGraceHours(env.NO_SHOW_GRACE_HOURS),
+      baseUrl: env.NEXT_PUBLIC_BASE_URL ?? "http://localhost:3000",
+    },
+  };
+}
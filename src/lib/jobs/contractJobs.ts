@@ -0,0 +1,288 @@
+// src/lib/jobs/contractJobs.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AdvisorContract, AdvisorContractReminder } from "@/types/prm";
+import {
+  addDays,
+  ADVISOR_PLAN_LABEL,
+  CONTRACT_RENEWAL_REMINDER_DAYS,
+  daysBetween,
+  dueRenewalReminder,
+  renewalOf,
+} from "../prm/contracts";
+import { toJstDate } from "../scheduling/slots";
+import { contractRenewalReminderEmail } from "../notifications/templates";
+import { transportFromEnv, type EmailTransport } from "../notifications/transport";
+import { normalizeEmail } from "../contact/validation";
+import { log } from "../logger";
+
+/**
+ * 顧問契約の定期処理（/api/cron/contracts・scripts/run-contract-jobs.ts から呼ぶ）
+ * - 更新リマインド：満了の CONTRACT_RENEWAL_REMINDER_DAYS 日前に、メイン担当薬剤師と所属店舗の通知先へ
+ * - 自動更新：auto_renew の契約を満了日の翌日に同じ条件で更新する
+ * - service role のクライアントを渡す前提
+ */
+
+export type ContractJobOptions = {
+  now?: Date;
+  /** 満了の何日前に送るか（大きい順） */
+  reminderDays: number[];
+  /** メール内リンクの起点 */
+  baseUrl: string;
+};
+
+export type ContractJobDeps = {
+  transport: EmailTransport;
+};
+
+export type ContractReminderResult = {
+  sent: number;
+  skipped: number;
+  failed: number;
+  /** 通知先がなく送れなかった契約 */
+  unreachable: number;
+};
+
+export type ContractJobResult = {
+  reminders: ContractReminderResult;
+  renewals: { renewed: number; failed: number };
+};
+
+/** 満了からこの日数を過ぎた契約は自動更新しない（長く止まっていた分をさかのぼって作らない） */
+export const AUTO_RENEW_GRACE_DAYS = 30;
+
+type ContractRecipient = {
+  patientName: string | null;
+  pharmacistName: string | null;
+  emails: string[];
+};
+
+async function fetchRecipient(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<ContractRecipient> {
+  const { data: patient, error } = await supabase
+    .from("patients")
+    .select("name, main_pharmacist_id")
+    .eq("id", patientId)
+    .maybeSingle<{ name: string | null; main_pharmacist_id: string | null }>();
+  if (error) throw error;
+
+  const recipient: ContractRecipient = {
+    patientName: patient?.name ?? null,
+    pharmacistName: null,
+    emails: [],
+  };
+  if (!patient?.main_pharmacist_id) return recipient;
+
+  const { data: pharmacist, error: pharmacistError } = await supabase
+    .from("pharmacists")
+    .select("name, notification_email, belongs_store_id")
+    .eq("id", patient.main_pharmacist_id)
+    .maybeSingle<{
+      name: string | null;
+      notification_email: string | null;
+      belongs_store_id: string | null;
+    }>();
+  if (pharmacistError) throw pharmacistError;
+  recipient.pharmacistName = pharmacist?.name ?? null;
+
+  let storeEmail: string | null = null;
+  if (pharmacist?.belongs_store_id) {
+    const { data: store, error: storeError } = await supabase
+      .from("stores")
+      .select("notification_email")
+      .eq("id", pharmacist.belongs_store_id)
+      .maybeSingle<{ notification_email: string | null }>();
+    if (storeError) throw storeError;
+    storeEmail = store?.notification_email ?? null;
+  }
+
+  const emails = [pharmacist?.notification_email, storeEmail]
+    .map((v) => (v ? normalizeEmail(v) : null))
+    .filter((v): v is string => !!v);
+  recipient.emails = Array.from(new Set(emails));
+  return recipient;
+}
+
+/** 次の契約（renewed_from_id で元をさす行）がすでにある契約の id */
+async function fetchRenewedContractIds(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<Set<string>> {
+  if (ids.length === 0) return new Set();
+  const { data, error } = await supabase
+    .from("advisor_contracts")
+    .select("renewed_from_id")
+    .in("renewed_from_id", ids);
+  if (error) throw error;
+  return new Set(((data ?? []) as { renewed_from_id: string }[]).map((s) => s.renewed_from_id));
+}
+
+/**
+ * 送るべき更新リマインドを送る
+ * - 行を先に入れてから送る（unique 制約で、同時に動いても二重に送らない）
+ * - 更新済み（次の契約がある）の契約には送らない
+ */
+export async function sendContractRenewalReminders(
+  supabase: SupabaseClient,
+  deps: ContractJobDeps,
+  options: ContractJobOptions
+): Promise<ContractReminderResult> {
+  const today = toJstDate(options.now ?? new Date());
+  const result: ContractReminderResult = { sent: 0, skipped: 0, failed: 0, unreachable: 0 };
+  if (options.reminderDays.length === 0) return result;
+
+  const { data, error } = await supabase
+    .from("advisor_contracts")
+    .select("*")
+    .gte("end_date", today)
+    .lte("end_date", addDays(today, Math.max(...options.reminderDays)));
+  if (error) throw error;
+
+  const contracts = (data ?? []) as AdvisorContract[];
+  if (contracts.length === 0) return result;
+  const ids = contracts.map((c) => c.id);
+
+  const renewed = await fetchRenewedContractIds(supabase, ids);
+
+  const { data: logData, error: logError } = await supabase
+    .from("advisor_contract_reminders")
+    .select("contract_id, days_before")
+    .in("contract_id", ids);
+  if (logError) throw logError;
+  const logs = (logData ?? []) as Pick<AdvisorContractReminder, "contract_id" | "days_before">[];
+
+  for (const contract of contracts) {
+    if (renewed.has(contract.id)) continue;
+    const sentDays = logs.filter((l) => l.contract_id === contract.id).map((l) => l.days_before);
+    const due = dueRenewalReminder(contract, options.reminderDays, sentDays, today);
+    if (!due) continue;
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("advisor_contract_reminders")
+      .insert(
+        due.mark.map((days) => ({
+          contract_id: contract.id,
+          days_before: days,
+          skipped: days !== due.send,
+          sent_to: [],
+        }))
+      )
+      .select("id, days_before");
+    if (claimError) {
+      // 他の実行が先に送った（unique 制約違反）
+      if (claimError.code === "23505") continue;
+      throw claimError;
+    }
+    result.skipped += due.mark.length - 1;
+
+    try {
+      const recipient = await fetchRecipient(supabase, contract.patient_id);
+      if (recipient.emails.length === 0) {
+        result.unreachable += 1;
+        continue;
+      }
+
+      const content = contractRenewalReminderEmail(
+        {
+          patientName: recipient.patientName,
+          pharmacistName: recipient.pharmacistName,
+          planLabel: ADVISOR_PLAN_LABEL[contract.plan],
+          endDate: contract.end_date,
+          daysLeft: daysBetween(today, contract.end_date),
+          autoRenew: contract.auto_renew,
+        },
+        { patientUrl: `${options.baseUrl}/pharmacy/prm/patients/${contract.patient_id}` }
+      );
+      await deps.transport.send({
+        to: recipient.emails,
+        subject: content.subject,
+        text: content.text,
+      });
+      result.sent += 1;
+
+      const sentRow = ((claimed ?? []) as { id: string; days_before: number }[]).find(
+        (r) => r.days_before === due.send
+      );
+      if (sentRow) {
+        const { error: updateError } = await supabase
+          .from("advisor_contract_reminders")
+          .update({ sent_to: recipient.emails })
+          .eq("id", sentRow.id);
+        if (updateError) console.error("[jobs] failed to record contract reminder", updateError);
+      }
+      log(`[jobs] contract reminder ${contract.id} (${due.send}日前)`);
+    } catch (err) {
+      console.error(`[jobs] contract reminder ${contract.id} failed`, err);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 自動更新の契約を、満了日の翌日に同じ条件・同じ長さで更新する
+ * - 次の契約がすでにある契約は飛ばす（前回の実行・画面からの更新）
+ * - 同時に作られたときは renewed_from_id の unique 制約違反になるので、それも飛ばす
+ */
+export async function renewDueContracts(
+  supabase: SupabaseClient,
+  options: Pick<ContractJobOptions, "now">
+): Promise<{ renewed: number; failed: number }> {
+  const today = toJstDate(options.now ?? new Date());
+  const { data, error } = await supabase
+    .from("advisor_contracts")
+    .select("*")
+    .eq("auto_renew", true)
+    .lt("end_date", today)
+    .gte("end_date", addDays(today, -AUTO_RENEW_GRACE_DAYS));
+  if (error) throw error;
+
+  const contracts = (data ?? []) as AdvisorContract[];
+  const renewed = await fetchRenewedContractIds(
+    supabase,
+    contracts.map((c) => c.id)
+  );
+
+  const result = { renewed: 0, failed: 0 };
+  for (const contract of contracts) {
+    if (renewed.has(contract.id)) continue;
+    const { error: insertError } = await supabase
+      .from("advisor_contracts")
+      .insert(renewalOf(contract));
+    if (insertError) {
+      if (insertError.code === "23505") continue;
+      console.error(`[jobs] failed to renew contract ${contract.id}`, insertError);
+      result.failed += 1;
+      continue;
+    }
+    result.renewed += 1;
+  }
+  return result;
+}
+
+export async function runContractJobs(
+  supabase: SupabaseClient,
+  deps: ContractJobDeps,
+  options: ContractJobOptions
+): Promise<ContractJobResult> {
+  const renewals = await renewDueContracts(supabase, options);
+  const reminders = await sendContractRenewalReminders(supabase, deps, options);
+  return { reminders, renewals };
+}
+
+/**
+ * 環境変数から送り方を組み立てる（NOTIFY_TRANSPORT ほか / NEXT_PUBLIC_BASE_URL）
+ */
+export function contractJobConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): { deps: ContractJobDeps; options: ContractJobOptions } {
+  return {
+    deps: { transport: transportFromEnv(env) },
+    options: {
+      reminderDays: CONTRACT_RENEWAL_REMINDER_DAYS,
+      baseUrl: env.NEXT_PUBLIC_BASE_URL ?? "http://localhost:3000",
+    },
+  };
+}
@@ -0,0 +1,19 @@
+// src/lib/jobs/cronAuth.ts
+import { createHash, timingSafeEqual } from "node:crypto";
+
+/**
+ * 定期実行用 API（/api/cron/*）の呼び出し元を確かめる
+ * - Authorization: Bearer <CRON_SECRET> と一致するときだけ true。CRON_SECRET 未設定なら常に false
+ * - 長さの違いも含めて比較時間から推測されないよう、ハッシュどうしを定数時間で比べる
+ */
+export function isAuthorizedCronRequest(
+  req: Request,
+  secret: string | undefined = process.env.CRON_SECRET
+): boolean {
+  if (!secret) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(req.headers.get("authorization") ?? ""),
+    digest(`Bearer ${secret}`)
+  );
+}
@@ -0,0 +1,183 @@
+// src/lib/jobs/followUpJobs.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PatientWithPrm } from "@/types/prm";
+import { buildFollowUpQueue } from "../prm/followUps";
+import { followUpEscalationEmail } from "../notifications/templates";
+import { transportFromEnv, type EmailTransport } from "../notifications/transport";
+import { normalizeEmail } from "../contact/validation";
+import { log } from "../logger";
+
+/**
+ * フォロー遅れのエスカレーション（/api/cron/follow-ups・scripts/run-follow-up-escalations.ts から呼ぶ）
+ * - 優先度「高」で次回フォロー予定日を過ぎた患者を、メイン担当の所属店舗の店長にまとめて知らせる
+ * - 宛先は stores.manager_email、なければ stores.notification_email
+ * - service role のクライアントを渡す前提
+ */
+
+export type FollowUpJobOptions = {
+  now?: Date;
+  /** メール内リンクの起点 */
+  baseUrl: string;
+};
+
+export type FollowUpJobDeps = {
+  transport: EmailTransport;
+};
+
+export type FollowUpEscalationResult = {
+  /** 送ったメールの通数（店舗ごとに1通） */
+  sent: number;
+  /** 知らせた患者の数 */
+  escalated: number;
+  /** 宛先の店舗・メールアドレスがなく知らせられなかった患者の数 */
+  unreachable: number;
+  failed: number;
+};
+
+type EscalationPharmacistRow = {
+  id: string;
+  name: string | null;
+  belongs_store_id: string | null;
+};
+
+type EscalationStoreRow = {
+  id: string;
+  name: string | null;
+  manager_email: string | null;
+  notification_email: string | null;
+};
+
+function storeRecipient(store: EscalationStoreRow | undefined): string | null {
+  if (!store) return null;
+  return normalizeEmail(store.manager_email ?? store.notification_email ?? "");
+}
+
+export async function escalateOverdueFollowUps(
+  supabase: SupabaseClient,
+  deps: FollowUpJobDeps,
+  options: FollowUpJobOptions
+): Promise<FollowUpEscalationResult> {
+  const now = options.now ?? new Date();
+  const result: FollowUpEscalationResult = { sent: 0, escalated: 0, unreachable: 0, failed: 0 };
+
+  const { data, error } = await supabase
+    .from("patients")
+    .select("*")
+    .eq("priority", 1)
+    // neq だけだと relation_status が null の旧い患者まで外れる
+    .or("relation_status.is.null,relation_status.neq.ended")
+    .lt("next_contact_at", now.toISOString());
+  if (error) throw error;
+
+  const overdue = buildFollowUpQueue((data ?? []) as PatientWithPrm[], now).overdue.filter(
+    (item) => item.escalate
+  );
+  if (overdue.length === 0) return result;
+
+  const pharmacistIds = Array.from(
+    new Set(
+      overdue
+        .map((item) => item.patient.main_pharmacist_id)
+        .filter((id): id is string => !!id)
+    )
+  );
+  const pharmacists = new Map<string, EscalationPharmacistRow>();
+  if (pharmacistIds.length > 0) {
+    const { data: rows, error: pharmacistError } = await supabase
+      .from("pharmacists")
+      .select("id, name, belongs_store_id")
+      .in("id", pharmacistIds);
+    if (pharmacistError) throw pharmacistError;
+    ((rows ?? []) as EscalationPharmacistRow[]).forEach((p) => pharmacists.set(p.id, p));
+  }
+
+  const storeIds = Array.from(
+    new Set(
+      Array.from(pharmacists.values())
+        .map((p) => p.belongs_store_id)
+        .filter((id): id is string => !!id)
+    )
+  );
+  const stores = new Map<string, EscalationStoreRow>();
+  if (storeIds.length > 0) {
+    const { data: rows, error: storeError } = await supabase
+      .from("stores")
+      .select("id, name, manager_email, notification_email")
+      .in("id", storeIds);
+    if (storeError) throw storeError;
+    ((rows ?? []) as EscalationStoreRow[]).forEach((s) => stores.set(s.id, s));
+  }
+
+  // 店舗ごとにまとめる（店舗がわからない患者は宛先なし）
+  const byStore = new Map<
+    string,
+    { store: EscalationStoreRow; to: string; items: typeof overdue }
+  >();
+  for (const item of overdue) {
+    const pharmacist = item.patient.main_pharmacist_id
+      ? pharmacists.get(item.patient.main_pharmacist_id)
+      : undefined;
+    const store = pharmacist?.belongs_store_id ? stores.get(pharmacist.belongs_store_id) : undefined;
+    const to = storeRecipient(store);
+
+    // 行を先に入れる（unique 制約で、同じ予定日の遅れは1回だけ）
+    const { error: claimError } = await supabase.from("follow_up_escalations").insert({
+      patient_id: item.patient.id,
+      next_contact_at: item.patient.next_contact_at,
+      store_id: store?.id ?? null,
+      sent_to: to,
+    });
+    if (claimError) {
+      if (claimError.code === "23505") continue;
+      throw claimError;
+    }
+
+    if (!store || !to) {
+      result.unreachable += 1;
+      continue;
+    }
+    const group = byStore.get(store.id) ?? { store, to, items: [] };
+    group.items.push(item);
+    byStore.set(store.id, group);
+  }
+
+  for (const { store, to, items } of Array.from(byStore.values())) {
+    try {
+      const content = followUpEscalationEmail(
+        {
+          storeName: store.name,
+          patients: items.map((item) => ({
+            name: item.patient.name ?? null,
+            pharmacistName: item.patient.main_pharmacist_id
+              ? pharmacists.get(item.patient.main_pharmacist_id)?.name ?? null
+              : null,
+            nextContactAt: item.patient.next_contact_at!,
+            daysOverdue: item.daysOverdue,
+          })),
+        },
+        { followUpsUrl: `${options.baseUrl}/pharmacy/prm/follow-ups` }
+      );
+      await deps.transport.send({ to: [to], subject: content.subject, text: content.text });
+      result.sent += 1;
+      result.escalated += items.length;
+      log(`[jobs] follow-up escalation ${store.id}: ${items.length} 名`);
+    } catch (err) {
+      console.error(`[jobs] follow-up escalation ${store.id} failed`, err);
+      result.failed += items.length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 環境変数から送り方を組み立てる（NOTIFY_TRANSPORT ほか / NEXT_PUBLIC_BASE_URL）
+ */
+export function followUpJobConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): { deps: FollowUpJobDeps; options: FollowUpJobOptions } {
+  return {
+    deps: { transport: transportFromEnv(env) },
+    options: { baseUrl: env.NEXT_PUBLIC_BASE_URL ?? "http://localhost:3000" },
+  };
+}
@@ -0,0 +1,6 @@
+// src/lib/jobs/index.ts
+// 定期実行する処理（サーバー専用）の公開窓口
+export * from "./appointmentJobs";
+export * from "./followUpJobs";
+export * from "./contractJobs";
+export * from "./cronAuth";
@@ -0,0 +1,68 @@
+// src/lib/line/client.ts
+
+/**
+ * LINE Messaging API の呼び出し（サーバー専用）
+ *
+ * 環境変数
+ * - LINE_CHANNEL_ACCESS_TOKEN : チャネルアクセストークン（長期）
+ * - LINE_CHANNEL_SECRET       : Webhook の署名検証用
+ * - LINE_API_BASE_URL         : 開発時に scripts/mock-line-server.ts へ向ける（未設定なら本番 API）
+ */
+
+export type LineTextMessage = { type: "text"; text: string };
+
+export interface LineClient {
+  pushMessage(to: string, messages: LineTextMessage[]): Promise<void>;
+  replyMessage(replyToken: string, messages: LineTextMessage[]): Promise<void>;
+}
+
+export const LINE_API_BASE_URL = "https://api.line.me";
+/** テキストメッセージの上限（文字数） */
+const MAX_TEXT_LENGTH = 5000;
+/** 1回の送信で送れるメッセージ数 */
+const MAX_MESSAGES = 5;
+
+export function lineText(text: string): LineTextMessage {
+  return { type: "text", text: text.slice(0, MAX_TEXT_LENGTH) };
+}
+
+export function createLineClient(
+  config: { channelAccessToken: string; apiBaseUrl?: string | null },
+  fetchImpl: typeof fetch = fetch
+): LineClient {
+  const base = (config.apiBaseUrl || LINE_API_BASE_URL).replace(/\/$/, "");
+
+  const post = async (path: string, body: unknown) => {
+    const res = await fetchImpl(`${base}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${config.channelAccessToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new Error(`LINE API エラー（HTTP ${res.status}）${detail ? `：${detail}` : ""}`);
+    }
+  };
+
+  return {
+    pushMessage: (to, messages) =>
+      post("/v2/bot/message/push", { to, messages: messages.slice(0, MAX_MESSAGES) }),
+    replyMessage: (replyToken, messages) =>
+      post("/v2/bot/message/reply", { replyToken, messages: messages.slice(0, MAX_MESSAGES) }),
+  };
+}
+
+export function lineClientFromEnv(
+  env: Record<string, string | undefined> = process.env
+): LineClient {
+  if (!env.LINE_CHANNEL_ACCESS_TOKEN) {
+    throw new Error("LINE_CHANNEL_ACCESS_TOKEN が設定されていません。");
+  }
+  return createLineClient({
+    channelAccessToken: env.LINE_CHANNEL_ACCESS_TOKEN,
+    apiBaseUrl: env.LINE_API_BASE_URL ?? null,
+  });
+}
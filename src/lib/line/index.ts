@@ -0,0 +1,8 @@
+// src/lib/line/index.ts
+// LINE 連携（Messaging API）の公開窓口
+// - signature / client / webhook は node の crypto・環境変数を使うのでサーバー専用
+export * from "./signature";
+export * from "./client";
+export * from "./messages";
+export * from "./linking";
+export * from "./webhook";
@@ -0,0 +1,221 @@
+// src/lib/line/linking.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LineLink, LineLinkAttempt, LineLinkCode } from "@/types/supabase";
+import type { LineClient, LineTextMessage } from "./client";
+
+/**
+ * LINE アカウントと患者のひも付け
+ * 1. マイページでワンタイムコードを発行（issueLineLinkCode）
+ * 2. 患者が公式アカウントにコードを送る → Webhook で consumeLineLinkCode
+ * 3. 以降は pushToPatient で患者に送れる
+ *
+ * - コードは読み間違えやすい文字（0/O・1/I/L）を除いた英数字10文字
+ * - 外れたコードを送った回数は LINE の userId ごとに数え、上限を超えたらしばらく受け付けない
+ */
+
+/** コードの有効期限（分） */
+export const LINK_CODE_TTL_MINUTES = 30;
+export const LINK_CODE_LENGTH = 10;
+const LINK_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const LINK_CODE_PATTERN = new RegExp(`^[${LINK_CODE_ALPHABET}]{${LINK_CODE_LENGTH}}$`);
+
+/** 外れたコードを何回まで受け付けるか（LINK_ATTEMPT_WINDOW_MINUTES 分あたり） */
+export const LINK_ATTEMPT_LIMIT = 5;
+export const LINK_ATTEMPT_WINDOW_MINUTES = 60;
+
+export function generateLinkCode(): string {
+  // 文字の出やすさに偏りが出ないよう、アルファベットの倍数に収まる値だけ使う
+  const limit = Math.floor(256 / LINK_CODE_ALPHABET.length) * LINK_CODE_ALPHABET.length;
+  let code = "";
+  while (code.length < LINK_CODE_LENGTH) {
+    const bytes = new Uint8Array(LINK_CODE_LENGTH * 2);
+    crypto.getRandomValues(bytes);
+    bytes.forEach((b) => {
+      if (b < limit && code.length < LINK_CODE_LENGTH) {
+        code += LINK_CODE_ALPHABET[b % LINK_CODE_ALPHABET.length];
+      }
+    });
+  }
+  return code;
+}
+
+/** 送られてきたテキストからコードを取り出す（全角・小文字・空白・ハイフンは許す） */
+export function parseLinkCode(text: string): string | null {
+  const code = text
+    .replace(/[０-９Ａ-Ｚａ-ｚ－]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0))
+    .replace(/[\s-]/g, "")
+    .toUpperCase();
+  return LINK_CODE_PATTERN.test(code) ? code : null;
+}
+
+/** 直近 LINK_ATTEMPT_WINDOW_MINUTES 分の外れが上限に達していたら true */
+export async function isLineLinkLocked(
+  supabase: SupabaseClient,
+  lineUserId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const since = new Date(now.getTime() - LINK_ATTEMPT_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { count, error } = await supabase
+    .from("line_link_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("line_user_id", lineUserId)
+    .gt("created_at", since);
+  if (error) throw error;
+  return (count ?? 0) >= LINK_ATTEMPT_LIMIT;
+}
+
+export async function recordLineLinkFailure(
+  supabase: SupabaseClient,
+  lineUserId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const attempt: Omit<LineLinkAttempt, "id"> = {
+    line_user_id: lineUserId,
+    created_at: now.toISOString(),
+  };
+  const { error } = await supabase.from("line_link_attempts").insert(attempt);
+  if (error) throw error;
+}
+
+/**
+ * ワンタイムコードを発行する（マイページから）
+ * - ブラウザは line_link_codes に insert しかできない（読み返さない）ので、id も手元で作る
+ */
+export async function issueLineLinkCode(
+  supabase: SupabaseClient,
+  patientId: string,
+  now: Date = new Date()
+): Promise<LineLinkCode> {
+  const expiresAt = new Date(now.getTime() + LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString();
+
+  // まれにコードが重複したら（unique 制約違反）発行し直す
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const linkCode: LineLinkCode = {
+      id: crypto.randomUUID(),
+      created_at: now.toISOString(),
+      patient_id: patientId,
+      code: generateLinkCode(),
+      expires_at: expiresAt,
+      used_at: null,
+    };
+    const { error } = await supabase.from("line_link_codes").insert({
+      id: linkCode.id,
+      patient_id: linkCode.patient_id,
+      code: linkCode.code,
+      expires_at: linkCode.expires_at,
+    });
+    if (!error) return linkCode;
+    if (error.code !== "23505") throw error;
+  }
+  throw new Error("連携コードを発行できませんでした。時間をおいて再度お試しください。");
+}
+
+/** ブラウザから読めるひも付けの列（line_user_id は service role だけが読む） */
+export type LineLinkStatus = Pick<LineLink, "id" | "created_at" | "patient_id" | "unlinked_at">;
+
+async function fetchActiveLineLinkColumns<T>(
+  supabase: SupabaseClient,
+  patientId: string,
+  columns: string
+): Promise<T | null> {
+  const { data, error } = await supabase
+    .from("line_links")
+    .select(columns)
+    .eq("patient_id", patientId)
+    .is("unlinked_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as T | null) ?? null;
+}
+
+/** 有効なひも付け（送信用。service role 前提） */
+export async function fetchActiveLineLink(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<LineLink | null> {
+  return fetchActiveLineLinkColumns<LineLink>(supabase, patientId, "*");
+}
+
+/** マイページ用：有効なひも付けがあるか（LINE の userId は返さない） */
+export async function fetchLineLinkStatus(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<LineLinkStatus | null> {
+  return fetchActiveLineLinkColumns<LineLinkStatus>(
+    supabase,
+    patientId,
+    "id, created_at, patient_id, unlinked_at"
+  );
+}
+
+export async function unlinkLine(
+  supabase: SupabaseClient,
+  target: { patientId: string } | { lineUserId: string },
+  now: Date = new Date()
+): Promise<void> {
+  let query = supabase
+    .from("line_links")
+    .update({ unlinked_at: now.toISOString() })
+    .is("unlinked_at", null);
+  query =
+    "patientId" in target
+      ? query.eq("patient_id", target.patientId)
+      : query.eq("line_user_id", target.lineUserId);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * コードを使ってひも付ける（Webhook から。service role 前提）
+ * - コードが見つからない・期限切れ・使用済みなら null
+ * - 同じ患者・同じ LINE アカウントの以前のひも付けは解除する
+ */
+export async function consumeLineLinkCode(
+  supabase: SupabaseClient,
+  code: string,
+  lineUserId: string,
+  now: Date = new Date()
+): Promise<LineLink | null> {
+  const { data, error } = await supabase
+    .from("line_link_codes")
+    .update({ used_at: now.toISOString() })
+    .eq("code", code)
+    .is("used_at", null)
+    .gt("expires_at", now.toISOString())
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+
+  const linkCode = data as LineLinkCode | null;
+  if (!linkCode) return null;
+
+  await unlinkLine(supabase, { patientId: linkCode.patient_id }, now);
+  await unlinkLine(supabase, { lineUserId }, now);
+
+  const { data: link, error: linkError } = await supabase
+    .from("line_links")
+    .insert({ patient_id: linkCode.patient_id, line_user_id: lineUserId })
+    .select("*")
+    .single();
+  if (linkError) throw linkError;
+  return link as LineLink;
+}
+
+/**
+ * 患者に LINE で送る
+ * - ひも付いていなければ送らずに false
+ */
+export async function pushToPatient(
+  supabase: SupabaseClient,
+  client: LineClient,
+  patientId: string,
+  messages: LineTextMessage[]
+): Promise<boolean> {
+  const link = await fetchActiveLineLink(supabase, patientId);
+  if (!link) return false;
+  await client.pushMessage(link.line_user_id, messages);
+  return true;
+}
@@ -0,0 +1,80 @@
+// src/lib/line/messages.ts
+import type { BookingType } from "@/types/supabase";
+import { LINK_ATTEMPT_WINDOW_MINUTES } from "./linking";
+import { formatScheduleLabel } from "../notifications/templates";
+import { lineText, type LineTextMessage } from "./client";
+
+/**
+ * LINE で送る文面
+ * - LINE は通知のプレビューに本文が出るので、相談メモ・症状などは載せない
+ */
+
+const BOOKING_TYPE_LABEL: Record<BookingType, string> = {
+  online: "オンライン相談",
+  phone: "電話相談",
+  in_person: "店舗での相談",
+};
+
+export function linkInstructionMessage(): LineTextMessage {
+  return lineText(
+    [
+      "友だち追加ありがとうございます。ヒトヤクです。",
+      "マイページの「LINE 連携」で表示される連携コード（英数字10文字）を、このトークに送ってください。",
+      "連携すると、予約の前日のお知らせや薬剤師からのフォローを LINE で受け取れます。",
+    ].join("\n")
+  );
+}
+
+/** 名前などは入れない（通知のプレビューやトークを見た人に、誰とひも付いたかが分からないように） */
+export function linkSucceededMessage(): LineTextMessage {
+  return lineText("LINE 連携が完了しました。\n予約のお知らせなどをこのトークでお送りします。");
+}
+
+export function linkAttemptsExceededMessage(): LineTextMessage {
+  return lineText(
+    `コードの入力が続けて正しくなかったため、しばらく受け付けを止めています。${LINK_ATTEMPT_WINDOW_MINUTES}分ほど待ってから、マイページで発行したコードを送ってください。`
+  );
+}
+
+export function linkCodeInvalidMessage(): LineTextMessage {
+  return lineText(
+    "コードが正しくないか、有効期限が切れています。マイページでコードを発行し直してください。"
+  );
+}
+
+export type AppointmentReminder = {
+  pharmacistName: string | null;
+  bookingType: BookingType | null;
+  scheduledStart: string | null;
+  scheduledEnd: string | null;
+};
+
+export function appointmentReminderMessage(
+  reminder: AppointmentReminder,
+  options: { mypageUrl: string }
+): LineTextMessage {
+  return lineText(
+    [
+      "【ご予約のお知らせ】",
+      `日時：${formatScheduleLabel(reminder.scheduledStart, reminder.scheduledEnd)}`,
+      `相談方法：${reminder.bookingType ? BOOKING_TYPE_LABEL[reminder.bookingType] : "未設定"}`,
+      `担当：${reminder.pharmacistName ?? "薬剤師"}`,
+      "",
+      `日時の変更・キャンセルはマイページから：${options.mypageUrl}`,
+    ].join("\n")
+  );
+}
+
+export function followUpNudgeMessage(
+  followUp: { pharmacistName: string | null },
+  options: { mypageUrl: string }
+): LineTextMessage {
+  return lineText(
+    [
+      `${followUp.pharmacistName ?? "薬剤師"}です。先日はご相談ありがとうございました。`,
+      "その後、お薬や体調で気になることはありませんか？",
+      "また相談したいときは、マイページから予約できます。",
+      options.mypageUrl,
+    ].join("\n")
+  );
+}
@@ -0,0 +1,21 @@
+// src/lib/line/signature.ts
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Webhook の署名（X-Line-Signature）
+ * - リクエスト本文（加工前の文字列）をチャネルシークレットで HMAC-SHA256 → base64
+ */
+export function signLineBody(body: string, channelSecret: string): string {
+  return createHmac("sha256", channelSecret).update(body, "utf8").digest("base64");
+}
+
+export function verifyLineSignature(
+  body: string,
+  signature: string | null | undefined,
+  channelSecret: string
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signLineBody(body, channelSecret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
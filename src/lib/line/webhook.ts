@@ -0,0 +1,78 @@
+// src/lib/line/webhook.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LineClient } from "./client";
+import {
+  consumeLineLinkCode,
+  isLineLinkLocked,
+  parseLinkCode,
+  recordLineLinkFailure,
+  unlinkLine,
+} from "./linking";
+import {
+  linkAttemptsExceededMessage,
+  linkCodeInvalidMessage,
+  linkInstructionMessage,
+  linkSucceededMessage,
+} from "./messages";
+
+/** Webhook で受け取るイベント（使う項目だけ） */
+export type LineWebhookEvent = {
+  type: string;
+  replyToken?: string;
+  source?: { type: string; userId?: string };
+  message?: { type: string; text?: string };
+};
+
+export type LineWebhookBody = {
+  destination?: string;
+  events?: LineWebhookEvent[];
+};
+
+/**
+ * Webhook のイベント処理（署名の確認は Route Handler 側で済ませておく）
+ * - follow（友だち追加）：連携のしかたを返信
+ * - unfollow（ブロック）：ひも付けを解除
+ * - テキスト：連携コードの形ならひも付け。それ以外のメッセージには返信しない
+ *   外れが続いた LINE アカウントからは、しばらくコードを受け付けない（isLineLinkLocked）
+ *   （薬局とのやりとりは LINE 公式アカウントの管理画面で行う）
+ * - 1件の失敗で残りのイベントを止めない
+ */
+export async function handleLineWebhookEvents(
+  supabase: SupabaseClient,
+  client: LineClient,
+  events: LineWebhookEvent[],
+  options: { now?: Date } = {}
+): Promise<void> {
+  const now = options.now ?? new Date();
+
+  for (const event of events) {
+    const userId = event.source?.type === "user" ? event.source.userId : undefined;
+    if (!userId) continue;
+
+    try {
+      if (event.type === "follow" && event.replyToken) {
+        await client.replyMessage(event.replyToken, [linkInstructionMessage()]);
+      } else if (event.type === "unfollow") {
+        await unlinkLine(supabase, { lineUserId: userId }, now);
+      } else if (event.type === "message" && event.message?.type === "text") {
+        const code = parseLinkCode(event.message.text ?? "");
+        if (!code || !event.replyToken) continue;
+
+        if (await isLineLinkLocked(supabase, userId, now)) {
+          await client.replyMessage(event.replyToken, [linkAttemptsExceededMessage()]);
+          continue;
+        }
+
+        const link = await consumeLineLinkCode(supabase, code, userId, now);
+        if (!link) {
+          await recordLineLinkFailure(supabase, userId, now);
+          await client.replyMessage(event.replyToken, [linkCodeInvalidMessage()]);
+          continue;
+        }
+        await client.replyMessage(event.replyToken, [linkSucceededMessage()]);
+      }
+    } catch (err) {
+      console.error(`[line/webhook] failed to handle ${event.type}`, err);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// src/lib/matching/careStyles.ts
+import type { PatientType } from "@/types/supabase";
+
+// /diagnosis・/result・/pharmacists で共通で使う相談スタイルキー
+export type CareStyleKey =
+  | "understanding"
+  | "empathy"
+  | "expert"
+  | "support"
+  | "family"
+  | "second_opinion";
+
+/**
+ * 相談スタイルごとのラベル・説明
+ * - UI 表示やスコア理由メッセージの両方で利用
+ */
+export const CARE_STYLE_INFO: Record<
+  CareStyleKey,
+  {
+    label: string;
+    description: string;
+    advisorLabel: string;
+    advisorDescription: string;
+    imageCaption: string;
+  }
+> = {
+  understanding: {
+    label: "しっかり理解タイプ",
+    description:
+      "診断名や検査結果の意味をきちんと理解し、納得したうえで治療を進めたいタイプです。",
+    advisorLabel: "ていねい解説タイプの顧問薬剤師",
+    advisorDescription:
+      "難しい専門用語をかみ砕いて説明し、治療の流れや選択肢を一緒に整理してくれる薬剤師が合いそうです。",
+    imageCaption: "しっかり説明を聞いて納得したいタイプ",
+  },
+  empathy: {
+    label: "気持ちケアタイプ",
+    description:
+      "不安やつらさなど、まず気持ちを受け止めてもらえると安心できるタイプです。",
+    advisorLabel: "寄り添いサポートタイプの顧問薬剤師",
+    advisorDescription:
+      "じっくり話を聞き、気持ちに寄り添いながら現実的な対策を一緒に考えてくれる薬剤師が合いそうです。",
+    imageCaption: "気持ちを受け止めてもらえると安心するタイプ",
+  },
+  expert: {
+    label: "おまかせタイプ",
+    description:
+      "情報はほどよく押さえつつ、最終的な判断は信頼できる専門家に任せたいタイプです。",
+    advisorLabel: "戦略プランナータイプの顧問薬剤師",
+    advisorDescription:
+      "ガイドラインやエビデンスを踏まえて全体の方針を組み立て、『この方向でいきましょう』と示してくれる薬剤師が合いそうです。",
+    imageCaption: "信頼できる専門家に任せたいタイプ",
+  },
+  support: {
+    label: "継続苦手タイプ",
+    description:
+      "続けることの大切さは分かっているものの、忙しさや気分の波で中断しがちなタイプです。",
+    advisorLabel: "習慣づくりコーチタイプの顧問薬剤師",
+    advisorDescription:
+      "無理のないペースや工夫を一緒に考え、小さな成功体験を積み上げるサポートをしてくれる薬剤師が合いそうです。",
+    imageCaption: "治療や習慣を続ける後押しがほしいタイプ",
+  },
+  family: {
+    label: "家族サポートタイプ",
+    description:
+      "自分のことだけでなく、高齢の親や子どものことなど、家族全体の健康が気になるタイプです。",
+    advisorLabel: "家族まるごとケアタイプの顧問薬剤師",
+    advisorDescription:
+      "本人だけでなく家族の背景も踏まえて、関わり方や声かけまで一緒に考えてくれる薬剤師が合いそうです。",
+    imageCaption: "家族の健康も含めて相談したいタイプ",
+  },
+  second_opinion: {
+    label: "比較検討タイプ",
+    description:
+      "今の治療が自分に本当に合っているか気になり、他の選択肢も知ったうえで決めたいタイプです。",
+    advisorLabel: "整理＆選択肢ナビタイプの顧問薬剤師",
+    advisorDescription:
+      "情報を整理し、メリット・デメリットを一緒に比較しながら『自分で納得して決める』お手伝いをしてくれる薬剤師が合いそうです。",
+    imageCaption: "いくつかの選択肢を比べて決めたいタイプ",
+  },
+};
+
+export const PATIENT_TYPE_LABEL: Record<PatientType, string> = {
+  A: "タイプA：専門性重視タイプ",
+  B: "タイプB：生活支援タイプ",
+  C: "タイプC：メンタル×体質タイプ",
+  D: "タイプD：外国語対応タイプ",
+};
+
+/**
+ * A〜Dタイプと相談スタイルのざっくり相性マトリクス
+ * ◎：特に相性がよい
+ * ◯：相性はよい
+ * △：状況によっては合う
+ */
+export const TYPE_STYLE_MATCH: Record<
+  PatientType,
+  Record<CareStyleKey, "◎" | "◯" | "△">
+> = {
+  A: {
+    // 専門性重視
+    understanding: "◎",
+    empathy: "△",
+    expert: "◎",
+    support: "◯",
+    family: "◯",
+    second_opinion: "◎",
+  },
+  B: {
+    // 生活支援タイプ
+    understanding: "◯",
+    empathy: "◎",
+    expert: "△",
+    support: "◎",
+    family: "◎",
+    second_opinion: "◯",
+  },
+  C: {
+    // メンタル×体質
+    understanding: "◯",
+    empathy: "◎",
+    expert: "◯",
+    support: "◎",
+    family: "△",
+    second_opinion: "◯",
+  },
+  D: {
+    // 外国語対応（相談スタイルとは独立軸なので全体的に◯ベース）
+    understanding: "◯",
+    empathy: "◯",
+    expert: "◯",
+    support: "◯",
+    family: "◯",
+    second_opinion: "◯",
+  },
+};
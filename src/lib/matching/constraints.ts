@@ -0,0 +1,151 @@
+// src/lib/matching/constraints.ts
+import type { Patient, Pharmacist } from "@/types/supabase";
+
+/**
+ * スコアとは別に「そもそも候補に入れない」ための絶対条件
+ *
+ * - requiredLanguage: この言語に対応していない薬剤師は除外
+ * - gender / ageCategories: 指定がある場合、一致しない（未登録を含む）薬剤師は除外
+ * - membersOnlyVisible: false のとき「登録ユーザー限定」の薬剤師は除外
+ * - excludedPharmacistIds: 患者が候補から外した薬剤師
+ */
+export interface MatchingConstraints {
+  requiredLanguage: string | null;
+  gender: string | null;
+  ageCategories: string[];
+  membersOnlyVisible: boolean;
+  excludedPharmacistIds: string[];
+}
+
+/** 除外理由（最初に当てはまった1つだけを数える） */
+export type ExclusionReason =
+  | "excluded"
+  | "members_only"
+  | "language"
+  | "gender"
+  | "age_category";
+
+export const EXCLUSION_REASON_LABEL: Record<ExclusionReason, string> = {
+  excluded: "候補から外した薬剤師",
+  members_only: "登録ユーザー限定",
+  language: "希望言語に未対応",
+  gender: "性別の希望と異なる",
+  age_category: "年代の希望と異なる",
+};
+
+// 判定順（表示順もこれに合わせる）
+export const EXCLUSION_REASONS: ExclusionReason[] = [
+  "excluded",
+  "members_only",
+  "language",
+  "gender",
+  "age_category",
+];
+
+export const NO_CONSTRAINTS: MatchingConstraints = {
+  requiredLanguage: null,
+  gender: null,
+  ageCategories: [],
+  membersOnlyVisible: true,
+  excludedPharmacistIds: [],
+};
+
+export interface ConstraintResult<T> {
+  kept: T[];
+  excluded: { item: T; reason: ExclusionReason }[];
+  counts: Record<ExclusionReason, number>;
+}
+
+/**
+ * 患者の診断回答から絶対条件を組み立てる
+ * - language_required が true のときだけ、希望言語を必須にする
+ * - membersOnlyVisible は閲覧者（ログイン・患者との紐づけ）で決まるので呼び出し側が渡す
+ */
+export function constraintsFromPatient(
+  patient: Patient | null,
+  membersOnlyVisible: boolean
+): MatchingConstraints {
+  if (!patient) return { ...NO_CONSTRAINTS, membersOnlyVisible };
+  return {
+    requiredLanguage: patient.language_required
+      ? patient.language ?? "ja"
+      : null,
+    gender: patient.preferred_gender ?? null,
+    ageCategories: patient.preferred_age_categories ?? [],
+    membersOnlyVisible,
+    excludedPharmacistIds: patient.excluded_pharmacist_ids ?? [],
+  };
+}
+
+/**
+ * 薬剤師の公開範囲が「登録ユーザー限定」か
+ * - visibility（members）と access_scope（registered_only）の両方の表記を見る
+ */
+export function isMembersOnly(pharmacist: Pharmacist): boolean {
+  const record = pharmacist as Pharmacist & {
+    visibility?: string | null;
+    access_scope?: string | null;
+  };
+  const scope = record.access_scope ?? record.visibility ?? "public";
+  return scope === "registered_only" || scope === "members";
+}
+
+/**
+ * 絶対条件に当てはまらない理由を返す（当てはまれば null）
+ */
+export function exclusionReasonOf(
+  pharmacist: Pharmacist,
+  constraints: MatchingConstraints
+): ExclusionReason | null {
+  if (constraints.excludedPharmacistIds.includes(pharmacist.id)) {
+    return "excluded";
+  }
+  if (!constraints.membersOnlyVisible && isMembersOnly(pharmacist)) {
+    return "members_only";
+  }
+  if (
+    constraints.requiredLanguage &&
+    !(pharmacist.language ?? []).includes(constraints.requiredLanguage)
+  ) {
+    return "language";
+  }
+  if (constraints.gender && pharmacist.gender !== constraints.gender) {
+    return "gender";
+  }
+  if (
+    constraints.ageCategories.length > 0 &&
+    !(
+      pharmacist.age_category &&
+      constraints.ageCategories.includes(pharmacist.age_category)
+    )
+  ) {
+    return "age_category";
+  }
+  return null;
+}
+
+/**
+ * 候補を絶対条件で振り分け、除外理由ごとの件数も返す
+ */
+export function applyConstraints<T extends { pharmacist: Pharmacist }>(
+  items: T[],
+  constraints: MatchingConstraints
+): ConstraintResult<T> {
+  const counts = Object.fromEntries(
+    EXCLUSION_REASONS.map((r) => [r, 0])
+  ) as Record<ExclusionReason, number>;
+  const kept: T[] = [];
+  const excluded: { item: T; reason: ExclusionReason }[] = [];
+
+  for (const item of items) {
+    const reason = exclusionReasonOf(item.pharmacist, constraints);
+    if (reason) {
+      excluded.push({ item, reason });
+      counts[reason] += 1;
+    } else {
+      kept.push(item);
+    }
+  }
+
+  return { kept, excluded, counts };
+}
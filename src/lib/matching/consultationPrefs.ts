@@ -0,0 +1,63 @@
+// src/lib/matching/consultationPrefs.ts
+
+/**
+ * 診断 Step3・Step5 で患者が選ぶ「話し方・説明の深さ・フォロー頻度・相談方法」と、
+ * 薬剤師がプロフィールで宣言する対応可能な項目の共通キー
+ *
+ * - 患者側：patients.comm_style / explanation_depth / followup_frequency / channel_preference
+ * - 薬剤師側：pharmacists.comm_styles / explanation_styles / followup_cadences / supported_channels（いずれも text[]）
+ */
+export type CommStyleKey =
+  | "calm"
+  | "direct"
+  | "visual"
+  | "empathy"
+  | "collaborative"
+  | "logical";
+
+export type ExplanationDepthKey = "simple" | "evidence";
+
+export type FollowupFrequencyKey = "spot" | "monthly" | "regular";
+
+export type ChannelKey = "chat" | "video" | "in_person";
+
+export const COMM_STYLE_LABEL: Record<CommStyleKey, string> = {
+  calm: "落ち着いてゆっくり",
+  direct: "結論からはっきり",
+  visual: "例え話・図で説明",
+  empathy: "気持ちに寄り添う",
+  collaborative: "一緒に考える",
+  logical: "根拠・データで説明",
+};
+
+export const EXPLANATION_DEPTH_LABEL: Record<ExplanationDepthKey, string> = {
+  simple: "専門用語を使わずざっくり",
+  evidence: "根拠・ガイドラインまで詳しく",
+};
+
+export const FOLLOWUP_FREQUENCY_LABEL: Record<FollowupFrequencyKey, string> = {
+  spot: "必要なときだけスポット",
+  monthly: "月1回程度",
+  regular: "定期的にしっかり",
+};
+
+export const CHANNEL_LABEL: Record<ChannelKey, string> = {
+  chat: "チャット",
+  video: "ビデオ通話",
+  in_person: "対面",
+};
+
+/**
+ * 薬剤師が宣言する対応項目（pharmacists テーブルの列）
+ */
+export interface PharmacistConsultationAttributes {
+  comm_styles: string[] | null;
+  explanation_styles: string[] | null;
+  followup_cadences: string[] | null;
+  supported_channels: string[] | null;
+}
+
+/** ラベル表から未知のキーを許容してラベルを引く */
+export function labelOf(map: Record<string, string>, key: string): string {
+  return map[key] ?? key;
+}
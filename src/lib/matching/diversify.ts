@@ -0,0 +1,157 @@
+// src/lib/matching/diversify.ts
+import type { Pharmacist, Pharmacy, Store } from "@/types/supabase";
+
+/**
+ * 上位 N 件の多様性を調整するための設定
+ * - *Penalty は「すでに上位に選ばれた候補と同じ〇〇」1件ごとに差し引く点数
+ * - alternativeStyleFor に含まれる相談スタイルの患者には、
+ *   1位と異なる care_role の薬剤師を最低1人入れる（比較検討用の枠）
+ */
+export interface DiversitySettings {
+  topN: number;
+  storePenalty: number;
+  careRolePenalty: number;
+  languagePenalty: number;
+  alternativeStyleFor: string[];
+}
+
+export const DEFAULT_DIVERSITY_SETTINGS: DiversitySettings = {
+  topN: 3,
+  storePenalty: 15,
+  careRolePenalty: 8,
+  languagePenalty: 4,
+  alternativeStyleFor: ["second_opinion"],
+};
+
+/**
+ * 保存された設定（matching_weight_sets.diversity の jsonb）を標準値に重ねる
+ * - 値が壊れている・足りない項目は標準値を使う
+ */
+export function diversitySettingsFrom(raw: unknown): DiversitySettings {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const number = (value: unknown, fallback: number, min: number) =>
+    typeof value === "number" && Number.isFinite(value) && value >= min ? value : fallback;
+
+  return {
+    topN: Math.floor(number(input.topN, DEFAULT_DIVERSITY_SETTINGS.topN, 1)),
+    storePenalty: number(input.storePenalty, DEFAULT_DIVERSITY_SETTINGS.storePenalty, 0),
+    careRolePenalty: number(input.careRolePenalty, DEFAULT_DIVERSITY_SETTINGS.careRolePenalty, 0),
+    languagePenalty: number(input.languagePenalty, DEFAULT_DIVERSITY_SETTINGS.languagePenalty, 0),
+    alternativeStyleFor: Array.isArray(input.alternativeStyleFor)
+      ? input.alternativeStyleFor.filter((v): v is string => typeof v === "string")
+      : DEFAULT_DIVERSITY_SETTINGS.alternativeStyleFor,
+  };
+}
+
+/** 並べ替えの対象（スコア計算済みの候補） */
+export interface DiversityCandidate {
+  pharmacist: Pharmacist;
+  pharmacy: Pharmacy | null;
+  store?: Store | null;
+  score: number;
+}
+
+export interface DiversifiedResult<T extends DiversityCandidate> {
+  items: T[];
+  /** 「別の視点」枠として入れた薬剤師の id（入れていない場合は null） */
+  alternativeId: string | null;
+}
+
+// 店舗 → 薬局法人 の順で「同じ所属」を判定するキー
+function affiliationKey(c: DiversityCandidate): string | null {
+  return (
+    c.store?.id ?? c.pharmacist.belongs_store_id ?? c.pharmacy?.id ?? null
+  );
+}
+
+function setKey(values: string[] | null | undefined): string {
+  return [...(values ?? [])].sort().join(",");
+}
+
+function careRoleKey(c: DiversityCandidate): string {
+  return setKey(c.pharmacist.care_role);
+}
+
+function languageKey(c: DiversityCandidate): string {
+  return setKey(c.pharmacist.language);
+}
+
+function isAlternativeTo(
+  candidate: DiversityCandidate,
+  leader: DiversityCandidate
+): boolean {
+  const roles = candidate.pharmacist.care_role ?? [];
+  const leaderRoles = leader.pharmacist.care_role ?? [];
+  if (roles.length === 0) return false;
+  return !roles.some((r) => leaderRoles.includes(r));
+}
+
+/**
+ * スコア順の候補から、所属店舗・care_role・対応言語が偏らないように上位 N 件を選び直す
+ *
+ * - 1位は常に最高スコアの候補
+ * - 2位以降は「スコア − すでに選んだ候補との重複ペナルティ」が最大の候補を順に選ぶ
+ * - 重複がなければ元のスコア順と同じになる
+ */
+export function diversifyTopN<T extends DiversityCandidate>(
+  ranked: T[],
+  patientCareStyle: string | null,
+  settings: DiversitySettings = DEFAULT_DIVERSITY_SETTINGS
+): DiversifiedResult<T> {
+  const pool = [...ranked].sort((a, b) => b.score - a.score);
+  const selected: T[] = [];
+
+  while (selected.length < settings.topN && pool.length > 0) {
+    let bestIndex = 0;
+    let bestValue = Number.NEGATIVE_INFINITY;
+
+    pool.forEach((c, i) => {
+      const affiliation = affiliationKey(c);
+      const sameStore = affiliation
+        ? selected.filter((s) => affiliationKey(s) === affiliation).length
+        : 0;
+      const sameRoles = selected.filter(
+        (s) => careRoleKey(s) === careRoleKey(c)
+      ).length;
+      const sameLanguages = selected.filter(
+        (s) => languageKey(s) === languageKey(c)
+      ).length;
+
+      const value =
+        c.score -
+        sameStore * settings.storePenalty -
+        sameRoles * settings.careRolePenalty -
+        sameLanguages * settings.languagePenalty;
+
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+
+    selected.push(pool[bestIndex]);
+    pool.splice(bestIndex, 1);
+  }
+
+  // 比較検討したい患者向け：1位と違うスタイルの薬剤師を最低1人入れる
+  let alternativeId: string | null = null;
+  const wantsAlternative =
+    !!patientCareStyle &&
+    settings.alternativeStyleFor.includes(patientCareStyle);
+
+  if (wantsAlternative && selected.length >= 2) {
+    const leader = selected[0];
+    const existing = selected.slice(1).find((c) => isAlternativeTo(c, leader));
+    if (existing) {
+      alternativeId = existing.pharmacist.id;
+    } else {
+      const replacement = pool.find((c) => isAlternativeTo(c, leader));
+      if (replacement) {
+        selected[selected.length - 1] = replacement;
+        alternativeId = replacement.pharmacist.id;
+      }
+    }
+  }
+
+  return { items: selected, alternativeId };
+}
@@ -0,0 +1,231 @@
+// src/lib/matching/evaluation.ts
+import type {
+  Patient,
+  Pharmacist,
+  Pharmacy,
+  PatientType,
+  Store,
+} from "@/types/supabase";
+import type { MatchingRule } from "./rules";
+import { rankPharmacists } from "./ranking";
+import { applyConstraints, constraintsFromPatient } from "./constraints";
+
+/**
+ * オフライン評価用のスナップショット（各テーブルを JSON に書き出したもの）
+ * - scripts/evaluate-matching.ts の export で作成する
+ * - 評価に使うのは patient_id / pharmacist_id だけなので、お気に入り・予約は最小限の型にしている
+ */
+export interface EvaluationSnapshot {
+  patients: Patient[];
+  pharmacists: Pharmacist[];
+  pharmacies: Pharmacy[];
+  stores: Store[];
+  patient_favorites: { patient_id: string; pharmacist_id: string }[];
+  appointments: { patient_id: string | null; pharmacist_id: string | null }[];
+}
+
+/** 「正解」とみなす行動：お気に入り登録 / 予約 / そのどちらか */
+export type RelevanceSource = "favorites" | "appointments" | "combined";
+
+export const RELEVANCE_SOURCES: RelevanceSource[] = [
+  "favorites",
+  "appointments",
+  "combined",
+];
+
+export const RELEVANCE_SOURCE_LABEL: Record<RelevanceSource, string> = {
+  favorites: "お気に入り",
+  appointments: "予約",
+  combined: "お気に入り or 予約",
+};
+
+export interface EvaluationMetrics {
+  /** 正解が1件以上ある（＝評価対象になった）患者数 */
+  patients: number;
+  precisionAtK: number;
+  recallAtK: number;
+  /** 上位 k 件に正解が1件でも入った患者の割合 */
+  hitRateAtK: number;
+  /** 最初の正解の順位の逆数の平均（候補に出なければ 0） */
+  mrr: number;
+}
+
+export interface EvaluationReport {
+  k: number;
+  metrics: Record<RelevanceSource, EvaluationMetrics>;
+  /** 患者ごとの最初の正解の逆順位（combined 基準。比較用） */
+  reciprocalRanks: Record<string, number>;
+}
+
+export interface EvaluationComparison {
+  k: number;
+  baseline: EvaluationReport;
+  candidate: EvaluationReport;
+  /** candidate − baseline */
+  delta: Record<RelevanceSource, Omit<EvaluationMetrics, "patients">>;
+  /** combined 基準で最初の正解の順位が上がった / 下がった患者数 */
+  patientsImproved: number;
+  patientsWorsened: number;
+}
+
+function relevantIdsBySource(
+  snapshot: EvaluationSnapshot
+): Record<RelevanceSource, Map<string, Set<string>>> {
+  const result: Record<RelevanceSource, Map<string, Set<string>>> = {
+    favorites: new Map(),
+    appointments: new Map(),
+    combined: new Map(),
+  };
+
+  const add = (source: RelevanceSource, patientId: string, pharmacistId: string) => {
+    const set = result[source].get(patientId) ?? new Set<string>();
+    set.add(pharmacistId);
+    result[source].set(patientId, set);
+  };
+
+  snapshot.patient_favorites.forEach((f) => {
+    add("favorites", f.patient_id, f.pharmacist_id);
+    add("combined", f.patient_id, f.pharmacist_id);
+  });
+  snapshot.appointments.forEach((a) => {
+    if (!a.patient_id || !a.pharmacist_id) return;
+    add("appointments", a.patient_id, a.pharmacist_id);
+    add("combined", a.patient_id, a.pharmacist_id);
+  });
+
+  return result;
+}
+
+/**
+ * 1人の患者に対する推薦順（/result と同じく絶対条件を適用し、スコア 0 以下は出さない）
+ * - 公開範囲は「登録ユーザー限定も見える」前提で評価する
+ */
+export function recommendForEvaluation(
+  patient: Patient,
+  snapshot: EvaluationSnapshot,
+  rules: MatchingRule[]
+): string[] {
+  const type = (patient.type as PatientType | null) ?? "A";
+  const ranked = rankPharmacists(
+    patient,
+    type,
+    snapshot.pharmacists,
+    snapshot.pharmacies,
+    rules,
+    snapshot.stores
+  );
+  const { kept } = applyConstraints(ranked, constraintsFromPatient(patient, true));
+  return kept.filter((r) => r.score > 0).map((r) => r.pharmacist.id);
+}
+
+function metricsFor(
+  recommendations: Map<string, string[]>,
+  relevant: Map<string, Set<string>>,
+  k: number
+): EvaluationMetrics {
+  let patients = 0;
+  let precision = 0;
+  let recall = 0;
+  let hits = 0;
+  let rr = 0;
+
+  relevant.forEach((ids, patientId) => {
+    const ranked = recommendations.get(patientId);
+    if (!ranked || ids.size === 0) return;
+    patients += 1;
+
+    const topK = ranked.slice(0, k);
+    const hitCount = topK.filter((id) => ids.has(id)).length;
+    precision += hitCount / k;
+    recall += hitCount / ids.size;
+    if (hitCount > 0) hits += 1;
+
+    const firstIndex = ranked.findIndex((id) => ids.has(id));
+    if (firstIndex >= 0) rr += 1 / (firstIndex + 1);
+  });
+
+  const avg = (v: number) => (patients > 0 ? v / patients : 0);
+  return {
+    patients,
+    precisionAtK: avg(precision),
+    recallAtK: avg(recall),
+    hitRateAtK: avg(hits),
+    mrr: avg(rr),
+  };
+}
+
+/**
+ * スナップショット上の過去の患者を、指定した重み設定で再計算して評価する
+ * - お気に入り・予約は「推薦を見た後の行動」なので、表示時のランキングの影響を受けている点に注意
+ */
+export function evaluateMatchingRules(
+  snapshot: EvaluationSnapshot,
+  rules: MatchingRule[],
+  k = 3
+): EvaluationReport {
+  const relevant = relevantIdsBySource(snapshot);
+  const recommendations = new Map<string, string[]>();
+
+  snapshot.patients.forEach((patient) => {
+    if (!relevant.combined.has(patient.id)) return;
+    recommendations.set(
+      patient.id,
+      recommendForEvaluation(patient, snapshot, rules)
+    );
+  });
+
+  const metrics = Object.fromEntries(
+    RELEVANCE_SOURCES.map((source) => [
+      source,
+      metricsFor(recommendations, relevant[source], k),
+    ])
+  ) as Record<RelevanceSource, EvaluationMetrics>;
+
+  const reciprocalRanks: Record<string, number> = {};
+  recommendations.forEach((ranked, patientId) => {
+    const ids = relevant.combined.get(patientId)!;
+    const firstIndex = ranked.findIndex((id) => ids.has(id));
+    reciprocalRanks[patientId] = firstIndex >= 0 ? 1 / (firstIndex + 1) : 0;
+  });
+
+  return { k, metrics, reciprocalRanks };
+}
+
+/**
+ * 2つの重み設定（変更前 / 変更後）を同じスナップショットで並べて評価する
+ */
+export function compareMatchingRules(
+  snapshot: EvaluationSnapshot,
+  baselineRules: MatchingRule[],
+  candidateRules: MatchingRule[],
+  k = 3
+): EvaluationComparison {
+  const baseline = evaluateMatchingRules(snapshot, baselineRules, k);
+  const candidate = evaluateMatchingRules(snapshot, candidateRules, k);
+
+  const delta = Object.fromEntries(
+    RELEVANCE_SOURCES.map((source) => {
+      const b = baseline.metrics[source];
+      const c = candidate.metrics[source];
+      return [
+        source,
+        {
+          precisionAtK: c.precisionAtK - b.precisionAtK,
+          recallAtK: c.recallAtK - b.recallAtK,
+          hitRateAtK: c.hitRateAtK - b.hitRateAtK,
+          mrr: c.mrr - b.mrr,
+        },
+      ];
+    })
+  ) as EvaluationComparison["delta"];
+
+  let patientsImproved = 0;
+  let patientsWorsened = 0;
+  Object.entries(baseline.reciprocalRanks).forEach(([patientId, before]) => {
+    const after = candidate.reciprocalRanks[patientId] ?? 0;
+    if (after > before) patientsImproved += 1;
+    if (after < before) patientsWorsened += 1;
+  });
+
+  return { k, baseline, candidate, delta, patientsImproved, patientsWorsened };
+}
@@ -0,0 +1,268 @@
+// src/lib/matching/feedback.ts
+import type { PatientType } from "@/types/supabase";
+import type { MatchingRule, RulePoints } from "./rules";
+import { rankPharmacists } from "./ranking";
+import { applyConstraints, constraintsFromPatient } from "./constraints";
+import type { EvaluationSnapshot } from "./evaluation";
+
+/**
+ * お気に入り・予約の実績から重みを提案するときの設定
+ *
+ * - favoriteWeight / appointmentWeight: 1件あたりの重み（予約のほうが強いシグナル）
+ * - priorStrength: 実績が少ないルールを「全体の発火率」に寄せるための擬似件数
+ * - dampening: lift をどれだけ重みに反映するか（0.5 なら平方根）
+ * - minFactor / maxFactor: 1回の提案で動かす倍率の上下限
+ * - minPositives: これより実績が少ないときは提案しない
+ */
+export interface FeedbackSettings {
+  favoriteWeight: number;
+  appointmentWeight: number;
+  priorStrength: number;
+  dampening: number;
+  minFactor: number;
+  maxFactor: number;
+  minPositives: number;
+}
+
+export const DEFAULT_FEEDBACK_SETTINGS: FeedbackSettings = {
+  favoriteWeight: 1,
+  appointmentWeight: 2,
+  priorStrength: 5,
+  dampening: 0.5,
+  minFactor: 0.5,
+  maxFactor: 1.5,
+  minPositives: 10,
+};
+
+/** ルール1件の重みの変更案 */
+export interface RuleWeightChange {
+  ruleId: string;
+  label: string;
+  before: RulePoints;
+  after: RulePoints;
+  /** お気に入り・予約された組み合わせでの発火率 ÷ 全体の発火率（平滑化後） */
+  lift: number;
+  /** お気に入り・予約された組み合わせで発火した件数（重み付き） */
+  positiveFires: number;
+}
+
+/**
+ * 患者セグメント（タイプ × 相談スタイル）ごとの集計
+ * - attributeLifts は「選ばれた薬剤師の care_role / 専門領域」が候補全体よりどれだけ多いか
+ */
+export interface FeedbackSegment {
+  type: PatientType;
+  careStyle: string | null;
+  patients: number;
+  positives: number;
+  attributeLifts: { attribute: string; lift: number }[];
+}
+
+export interface WeightProposalResult {
+  /** 提案後のルール表（変更のないルールもそのまま含む） */
+  rules: MatchingRule[];
+  changes: RuleWeightChange[];
+  segments: FeedbackSegment[];
+  patients: number;
+  positives: number;
+  /** 実績が minPositives に満たず、重みを変えなかった場合 true */
+  insufficientData: boolean;
+}
+
+function scalePoints(points: RulePoints, factor: number): RulePoints {
+  if (typeof points === "number") {
+    // 減点ルールは「選ばれた組み合わせで多く発火する＝減点しすぎ」なので逆に動かす
+    return Math.round(points >= 0 ? points * factor : points / factor);
+  }
+  const round1 = (v: number) => Math.round(v * 10) / 10;
+  if ("perKm" in points) {
+    return { perKm: round1(points.perKm * factor), max: Math.round(points.max * factor) };
+  }
+  return { perYear: round1(points.perYear * factor), max: Math.round(points.max * factor) };
+}
+
+function samePoints(a: RulePoints, b: RulePoints): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** 患者ごとの「選ばれた薬剤師 → 重み」（お気に入りと予約の両方なら大きいほう） */
+function positiveWeights(
+  snapshot: EvaluationSnapshot,
+  settings: FeedbackSettings
+): Map<string, Map<string, number>> {
+  const result = new Map<string, Map<string, number>>();
+  const add = (patientId: string, pharmacistId: string, weight: number) => {
+    const map = result.get(patientId) ?? new Map<string, number>();
+    map.set(pharmacistId, Math.max(map.get(pharmacistId) ?? 0, weight));
+    result.set(patientId, map);
+  };
+
+  snapshot.patient_favorites.forEach((f) =>
+    add(f.patient_id, f.pharmacist_id, settings.favoriteWeight)
+  );
+  snapshot.appointments.forEach((a) => {
+    if (!a.patient_id || !a.pharmacist_id) return;
+    add(a.patient_id, a.pharmacist_id, settings.appointmentWeight);
+  });
+  return result;
+}
+
+/**
+ * お気に入り・予約の実績から、各ルールの重みの調整案を作る（外部の ML サービスは使わない）
+ *
+ * 1. 実績のある患者ごとに、絶対条件を満たす全薬剤師を現在のルールで採点する
+ * 2. ルールごとに「選ばれた組み合わせでの発火率」と「全組み合わせでの発火率」を比べる（lift）
+ * 3. lift を dampening で弱め、minFactor〜maxFactor に収めた倍率で点数を掛け直す
+ */
+export function proposeRuleWeights(
+  snapshot: EvaluationSnapshot,
+  rules: MatchingRule[],
+  settings: FeedbackSettings = DEFAULT_FEEDBACK_SETTINGS
+): WeightProposalResult {
+  const positives = positiveWeights(snapshot, settings);
+
+  const fires = new Map<string, { all: number; positive: number }>();
+  rules.forEach((r) => fires.set(r.id, { all: 0, positive: 0 }));
+  let pairCount = 0;
+  let positiveTotal = 0;
+  let patientCount = 0;
+
+  const segmentMap = new Map<
+    string,
+    FeedbackSegment & {
+      attributeAll: Map<string, number>;
+      attributePositive: Map<string, number>;
+      pairs: number;
+    }
+  >();
+
+  snapshot.patients.forEach((patient) => {
+    const chosen = positives.get(patient.id);
+    if (!chosen || chosen.size === 0) return;
+    patientCount += 1;
+
+    const type = (patient.type as PatientType | null) ?? "A";
+    const ranked = rankPharmacists(
+      patient,
+      type,
+      snapshot.pharmacists,
+      snapshot.pharmacies,
+      rules,
+      snapshot.stores
+    );
+    const { kept } = applyConstraints(ranked, constraintsFromPatient(patient, true));
+
+    const segmentKey = `${type}|${patient.care_style ?? ""}`;
+    const segment = segmentMap.get(segmentKey) ?? {
+      type,
+      careStyle: patient.care_style ?? null,
+      patients: 0,
+      positives: 0,
+      attributeLifts: [],
+      attributeAll: new Map<string, number>(),
+      attributePositive: new Map<string, number>(),
+      pairs: 0,
+    };
+    segment.patients += 1;
+
+    kept.forEach((r) => {
+      const weight = chosen.get(r.pharmacist.id) ?? 0;
+      pairCount += 1;
+      positiveTotal += weight;
+      segment.pairs += 1;
+      segment.positives += weight;
+
+      r.breakdown.forEach((c) => {
+        const f = fires.get(c.ruleId);
+        if (!f) return;
+        f.all += 1;
+        f.positive += weight;
+      });
+
+      const attributes = [
+        ...(r.pharmacist.care_role ?? []).map((v) => `care_role:${v}`),
+        ...(r.pharmacist.specialty ?? []).map((v) => `specialty:${v}`),
+      ];
+      attributes.forEach((a) => {
+        segment.attributeAll.set(a, (segment.attributeAll.get(a) ?? 0) + 1);
+        if (weight > 0) {
+          segment.attributePositive.set(
+            a,
+            (segment.attributePositive.get(a) ?? 0) + weight
+          );
+        }
+      });
+    });
+
+    segmentMap.set(segmentKey, segment);
+  });
+
+  const segments: FeedbackSegment[] = Array.from(segmentMap.values()).map(
+    (s) => {
+      const attributeLifts = Array.from(s.attributePositive.entries())
+        .map(([attribute, positive]) => {
+          const baseRate = (s.attributeAll.get(attribute) ?? 0) / s.pairs;
+          return { attribute, lift: positive / s.positives / baseRate };
+        })
+        .sort((a, b) => b.lift - a.lift)
+        .slice(0, 3);
+      return {
+        type: s.type,
+        careStyle: s.careStyle,
+        patients: s.patients,
+        positives: s.positives,
+        attributeLifts,
+      };
+    }
+  );
+
+  const insufficientData = positiveTotal < settings.minPositives;
+  if (insufficientData || pairCount === 0) {
+    return {
+      rules,
+      changes: [],
+      segments,
+      patients: patientCount,
+      positives: positiveTotal,
+      insufficientData: true,
+    };
+  }
+
+  const changes: RuleWeightChange[] = [];
+  const proposed = rules.map((rule) => {
+    const f = fires.get(rule.id)!;
+    if (f.all === 0) return rule;
+
+    const baseRate = f.all / pairCount;
+    const positiveRate =
+      (f.positive + settings.priorStrength * baseRate) /
+      (positiveTotal + settings.priorStrength);
+    const lift = positiveRate / baseRate;
+    const factor = Math.min(
+      settings.maxFactor,
+      Math.max(settings.minFactor, Math.pow(lift, settings.dampening))
+    );
+
+    const after = scalePoints(rule.points, factor);
+    if (samePoints(after, rule.points)) return rule;
+
+    changes.push({
+      ruleId: rule.id,
+      label: rule.label ?? rule.id,
+      before: rule.points,
+      after,
+      lift,
+      positiveFires: f.positive,
+    });
+    return { ...rule, points: after };
+  });
+
+  return {
+    rules: proposed,
+    changes,
+    segments,
+    patients: patientCount,
+    positives: positiveTotal,
+    insufficientData: false,
+  };
+}
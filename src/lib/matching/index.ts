@@ -0,0 +1,15 @@
+// src/lib/matching/index.ts
+// マッチングエンジンの公開窓口。各ページはここから import する。
+export * from "./careStyles";
+export * from "./consultationPrefs";
+export * from "./rules";
+export * from "./scorePharmacist";
+export * from "./ranking";
+export * from "./weightSets";
+export * from "./patientType";
+export * from "./stores";
+export * from "./diversify";
+export * from "./constraints";
+export * from "./evaluation";
+export * from "./feedback";
+export * from "./weightProposals";
@@ -0,0 +1,120 @@
+// src/lib/matching/patientType.ts
+import type { Patient, PatientType } from "@/types/supabase";
+
+export const PATIENT_TYPES: PatientType[] = ["A", "B", "C", "D"];
+
+export type PatientTypeProbabilities = Record<PatientType, number>;
+
+/** 分類に使う診断回答（patients テーブルの一部） */
+export type PatientTypeInput = Pick<
+  Patient,
+  "language" | "value_preference" | "severity" | "symptom_score" | "lifestyle_score"
+>;
+
+export interface PatientTypeClassification {
+  type: PatientType;
+  probabilities: PatientTypeProbabilities;
+}
+
+type TypeWeights = Partial<Record<PatientType, number>>;
+
+/**
+ * 診断回答ごとに、各タイプへの加点（ロジット）を並べた表
+ * - 合計したロジットを softmax して確率にする
+ * - 症状・生活のスコアは 0 / 1 のチェックなので、値をそのまま掛ける
+ */
+const BASE_WEIGHTS: TypeWeights = { A: 0.3, B: 0, C: 0, D: -1 };
+
+const VALUE_PREFERENCE_WEIGHTS: Record<string, TypeWeights> = {
+  expertise: { A: 1.5 },
+  empathy: { C: 1, B: 0.5 },
+  lifestyle_support: { B: 1.5 },
+  multilingual: { D: 2 },
+};
+
+const SEVERITY_WEIGHTS: Record<string, TypeWeights> = {
+  severe: { A: 1 },
+  moderate: { A: 0.5 },
+  mild: { B: 0.3, C: 0.3 },
+};
+
+const SYMPTOM_WEIGHTS: Record<string, TypeWeights> = {
+  cancer: { A: 1.5 },
+  ibs: { A: 0.5, C: 0.5 },
+  skin: { A: 0.5, C: 0.5 },
+  mental_sleep: { C: 1 },
+  mental_mood: { C: 1 },
+  mental_autonomic: { C: 1 },
+  cold_edema: { C: 0.8 },
+  pain: { C: 0.5 },
+};
+
+const LIFESTYLE_WEIGHTS: Record<string, TypeWeights> = {
+  support_homecare: { B: 1.5 },
+  elder_care: { B: 1 },
+  child_care: { B: 0.8 },
+  metabolic: { B: 0.8 },
+  diet_exercise: { B: 0.6 },
+};
+
+/** 日本語以外を選んだ場合の D への加点 */
+const NON_JAPANESE_WEIGHT: TypeWeights = { D: 3 };
+
+function addWeights(
+  logits: PatientTypeProbabilities,
+  weights: TypeWeights | undefined,
+  factor = 1
+) {
+  if (!weights) return;
+  for (const t of PATIENT_TYPES) {
+    logits[t] += (weights[t] ?? 0) * factor;
+  }
+}
+
+function addScoreWeights(
+  logits: PatientTypeProbabilities,
+  table: Record<string, TypeWeights>,
+  scores: Record<string, number> | null
+) {
+  if (!scores) return;
+  for (const [key, value] of Object.entries(scores)) {
+    if (!value) continue;
+    addWeights(logits, table[key], value);
+  }
+}
+
+/**
+ * 診断回答から A〜D タイプの確率を求め、最も確率の高いタイプを返す
+ * - 同率の場合は A → D の順で先のタイプを優先
+ * - 確率は小数第3位で丸める（合計はおおむね 1）
+ */
+export function classifyPatientType(
+  input: PatientTypeInput
+): PatientTypeClassification {
+  const logits: PatientTypeProbabilities = { A: 0, B: 0, C: 0, D: 0 };
+
+  addWeights(logits, BASE_WEIGHTS);
+  if (input.language && input.language !== "ja") {
+    addWeights(logits, NON_JAPANESE_WEIGHT);
+  }
+  addWeights(logits, VALUE_PREFERENCE_WEIGHTS[input.value_preference ?? ""]);
+  addWeights(logits, SEVERITY_WEIGHTS[input.severity ?? ""]);
+  addScoreWeights(logits, SYMPTOM_WEIGHTS, input.symptom_score);
+  addScoreWeights(logits, LIFESTYLE_WEIGHTS, input.lifestyle_score);
+
+  const maxLogit = Math.max(...PATIENT_TYPES.map((t) => logits[t]));
+  const exps = PATIENT_TYPES.map((t) => Math.exp(logits[t] - maxLogit));
+  const sum = exps.reduce((a, b) => a + b, 0);
+
+  const probabilities = {} as PatientTypeProbabilities;
+  PATIENT_TYPES.forEach((t, i) => {
+    probabilities[t] = Math.round((exps[i] / sum) * 1000) / 1000;
+  });
+
+  let best: PatientType = "A";
+  for (const t of PATIENT_TYPES) {
+    if (logits[t] > logits[best]) best = t;
+  }
+
+  return { type: best, probabilities };
+}
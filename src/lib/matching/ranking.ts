@@ -0,0 +1,119 @@
+// src/lib/matching/ranking.ts
+import type {
+  Patient,
+  Pharmacist,
+  Pharmacy,
+  PatientType,
+  Store,
+} from "@/types/supabase";
+import type { MatchingRule } from "./rules";
+import {
+  resolvePharmacistStore,
+  scorePharmacist,
+  type ScoreContribution,
+} from "./scorePharmacist";
+
+export interface RankedPharmacist {
+  pharmacist: Pharmacist;
+  pharmacy: Pharmacy | null;
+  store: Store | null;
+  score: number;
+  reasons: string[];
+  breakdown: ScoreContribution[];
+}
+
+/**
+ * 重み設定の変更前後で、1人の薬剤師の順位がどう動いたか
+ * - rank は 1 始まり。上位 N 件に入っていない場合は null
+ */
+export interface RankingDiffRow {
+  pharmacistId: string;
+  name: string;
+  beforeRank: number | null;
+  afterRank: number | null;
+  beforeScore: number;
+  afterScore: number;
+}
+
+/**
+ * 患者1人に対して全薬剤師をスコア順に並べる
+ * - 同点の場合は元の並び順を保つ
+ */
+export function rankPharmacists(
+  patient: Patient,
+  type: PatientType,
+  pharmacists: Pharmacist[],
+  pharmacies: Pharmacy[],
+  rules: MatchingRule[],
+  stores: Store[] = []
+): RankedPharmacist[] {
+  const pharmacyMap = new Map<string, Pharmacy>();
+  pharmacies.forEach((p) => pharmacyMap.set(p.id, p));
+  const storeMap = new Map<string, Store>();
+  stores.forEach((s) => storeMap.set(s.id, s));
+
+  return pharmacists
+    .map((pharmacist) => {
+      const pharmacy =
+        (pharmacist.belongs_pharmacy_id &&
+          pharmacyMap.get(pharmacist.belongs_pharmacy_id)) ||
+        null;
+      const store = resolvePharmacistStore(pharmacist, storeMap);
+      const { score, reasons, breakdown } = scorePharmacist(
+        patient,
+        type,
+        pharmacist,
+        pharmacy,
+        rules,
+        store
+      );
+      return { pharmacist, pharmacy, store, score, reasons, breakdown };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 変更前後のランキングを比べ、どちらかの上位 topN に入る薬剤師の順位差を返す
+ * - 並び順は変更後の順位 → 変更前の順位
+ */
+export function diffRankings(
+  before: RankedPharmacist[],
+  after: RankedPharmacist[],
+  topN: number
+): RankingDiffRow[] {
+  const rankOf = (list: RankedPharmacist[], id: string) => {
+    const idx = list.findIndex((r) => r.pharmacist.id === id);
+    return idx >= 0 && idx < topN ? idx + 1 : null;
+  };
+  const scoreOf = (list: RankedPharmacist[], id: string) =>
+    list.find((r) => r.pharmacist.id === id)?.score ?? 0;
+
+  const ids: string[] = [];
+  [...after.slice(0, topN), ...before.slice(0, topN)].forEach((r) => {
+    if (!ids.includes(r.pharmacist.id)) ids.push(r.pharmacist.id);
+  });
+
+  return ids
+    .map((id) => {
+      const pharmacist =
+        after.find((r) => r.pharmacist.id === id)?.pharmacist ??
+        before.find((r) => r.pharmacist.id === id)!.pharmacist;
+      return {
+        pharmacistId: id,
+        name: pharmacist.name,
+        beforeRank: rankOf(before, id),
+        afterRank: rankOf(after, id),
+        beforeScore: scoreOf(before, id),
+        afterScore: scoreOf(after, id),
+      };
+    })
+    .sort((a, b) => {
+      const ar = a.afterRank ?? Number.MAX_SAFE_INTEGER;
+      const br = b.afterRank ?? Number.MAX_SAFE_INTEGER;
+      if (ar !== br) return ar - br;
+      return (
+        (a.beforeRank ?? Number.MAX_SAFE_INTEGER) -
+        (b.beforeRank ?? Number.MAX_SAFE_INTEGER)
+      );
+    });
+}
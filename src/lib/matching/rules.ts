@@ -0,0 +1,480 @@
+// src/lib/matching/rules.ts
+
+/**
+ * マッチングルールの分類（管理画面や内訳表示でのグルーピング用）
+ */
+export type MatchingCategory =
+  | "language"
+  | "symptom"
+  | "value_preference"
+  | "care_style"
+  | "patient_type"
+  | "area"
+  | "severity"
+  | "communication"
+  | "consultation";
+
+/**
+ * 患者側の発火条件
+ * - main_symptom は getMainSymptom() でまとめた症状グループ
+ * - language は未設定なら "ja" とみなす
+ */
+export type PatientCondition =
+  | {
+      field:
+        | "language"
+        | "value_preference"
+        | "severity"
+        | "care_style"
+        | "type"
+        | "main_symptom";
+      equals?: string;
+      notEquals?: string;
+    }
+  | {
+      field: "lifestyle_score";
+      key: string;
+      equals: number;
+    };
+
+/**
+ * 薬剤師・薬局側のシグナル
+ * - includes: 配列項目のいずれかに一致
+ * - contains: テキスト項目にいずれかのキーワードを含む
+ * - gte: 数値（件数・年数）が指定値以上
+ * - patient_*: 患者側の値と突き合わせる
+ */
+export type PharmacistSignal =
+  | {
+      source: "specialty" | "experience_case" | "services" | "language";
+      includes: string[];
+    }
+  | {
+      source: "consultation_style" | "personality";
+      contains: string[];
+    }
+  | {
+      source: "years_of_experience" | "specialty_count" | "language_count";
+      gte: number;
+    }
+  | {
+      // 薬剤師の対応言語に患者の希望言語が含まれる
+      source: "patient_language";
+    }
+  | {
+      // 薬剤師の care_role に患者の相談スタイルが含まれる
+      source: "patient_care_style";
+    }
+  | {
+      // 所属薬局のエリアと患者のエリアが重なる
+      source: "patient_area";
+    }
+  | {
+      // 患者のエリアと所属店舗の住所がどちらも推定でき、withinKm 以内にある
+      source: "store_distance";
+      withinKm: number;
+    }
+  | {
+      // 薬剤師の comm_styles に患者の希望する話し方が1つ以上含まれる
+      source: "patient_comm_style";
+    }
+  | {
+      // 薬剤師の explanation_styles に患者の希望する説明の深さが含まれる
+      source: "patient_explanation_depth";
+    }
+  | {
+      // 薬剤師の followup_cadences に患者の希望するフォロー頻度が含まれる
+      source: "patient_followup_frequency";
+    }
+  | {
+      // 薬剤師の supported_channels に患者の希望する相談方法が含まれる
+      source: "patient_channel";
+    };
+
+/**
+ * 加点・減点
+ * - 数値: 固定点
+ * - perYear: 経験年数 × perYear（max で頭打ち）
+ * - perKm: max から 所属店舗までの距離 × perKm を引いた点（0 未満にはしない）
+ */
+export type RulePoints =
+  | number
+  | { perYear: number; max: number }
+  | { perKm: number; max: number };
+
+/**
+ * マッチングルール 1 件
+ *
+ * when をすべて満たし、anyOf のいずれかに当てはまると points を加算する。
+ * anyOf を省略したルールは when だけで発火する。
+ * negate が true の場合は「anyOf のどれにも当てはまらない」ときに発火する。
+ *
+ * reason 内の {years} は経験年数、{careStyleLabel} は相談スタイル名、
+ * {commStyleLabels} は一致した話し方、{explanationLabel} / {followupLabel} /
+ * {channelLabel} は患者が選んだ説明の深さ・フォロー頻度・相談方法、
+ * {distanceKm} は所属店舗までの距離（km）に置き換える。
+ * label は管理画面やスコア内訳で使う短い名前（reason がないルールの説明にも使う）。
+ */
+export interface MatchingRule {
+  id: string;
+  label?: string;
+  category: MatchingCategory;
+  when: PatientCondition[];
+  anyOf?: PharmacistSignal[];
+  negate?: boolean;
+  points: RulePoints;
+  reason: string | null;
+}
+
+/**
+ * 標準のマッチングルール表
+ * - 並び順がそのまま理由メッセージの優先順になる
+ */
+export const DEFAULT_MATCHING_RULES: MatchingRule[] = [
+  /* --- 1. 言語マッチ（最重要） --- */
+  {
+    id: "language.match",
+    label: "希望言語に対応",
+    category: "language",
+    when: [],
+    anyOf: [{ source: "patient_language" }],
+    points: 40,
+    reason: "希望する言語で相談できる薬剤師です。",
+  },
+  {
+    // Dタイプ（外国語重視）の場合はさらに加点
+    id: "language.type_d",
+    label: "外国語対応タイプ（D）との一致",
+    category: "language",
+    when: [{ field: "type", equals: "D" }],
+    anyOf: [{ source: "patient_language" }],
+    points: 10,
+    reason: "外国語対応タイプの診断結果と一致しています。",
+  },
+  {
+    // 外国語希望だが完全一致しない場合は軽く減点
+    id: "language.mismatch",
+    label: "希望言語に未対応",
+    category: "language",
+    when: [{ field: "language", notEquals: "ja" }],
+    anyOf: [{ source: "patient_language" }],
+    negate: true,
+    points: -10,
+    reason: null,
+  },
+
+  /* --- 2. 症状 × 専門性 --- */
+  {
+    id: "symptom.ibs_skin",
+    label: "IBS・皮膚 × 専門性",
+    category: "symptom",
+    when: [{ field: "main_symptom", equals: "ibs_skin" }],
+    anyOf: [
+      { source: "specialty", includes: ["漢方", "体質改善"] },
+      { source: "experience_case", includes: ["IBS", "皮膚"] },
+    ],
+    points: 25,
+    reason: "IBS・皮膚トラブルや体質改善の支援経験があります。",
+  },
+  {
+    id: "symptom.cancer",
+    label: "がん × 専門性",
+    category: "symptom",
+    when: [{ field: "main_symptom", equals: "cancer" }],
+    anyOf: [
+      { source: "specialty", includes: ["がん"] },
+      { source: "experience_case", includes: ["がん"] },
+    ],
+    points: 30,
+    reason: "がん治療中・治療後の薬物療法支援に慣れています。",
+  },
+  {
+    id: "symptom.mental",
+    label: "メンタル × 専門性",
+    category: "symptom",
+    when: [{ field: "main_symptom", equals: "mental" }],
+    anyOf: [
+      { source: "specialty", includes: ["メンタル"] },
+      {
+        source: "experience_case",
+        includes: ["不眠", "自律神経失調", "不安障害"],
+      },
+    ],
+    points: 25,
+    reason: "メンタル・睡眠・自律神経の相談を多く担当しています。",
+  },
+  {
+    id: "symptom.lifestyle",
+    label: "生活習慣病 × 専門性",
+    category: "symptom",
+    when: [{ field: "main_symptom", equals: "lifestyle" }],
+    anyOf: [{ source: "specialty", includes: ["在宅", "高齢者ケア"] }],
+    points: 20,
+    reason: "在宅・生活習慣病・高齢者ケアの支援が得意です。",
+  },
+  {
+    id: "symptom.homecare",
+    label: "在宅ニーズ × 在宅対応",
+    category: "symptom",
+    when: [{ field: "lifestyle_score", key: "support_homecare", equals: 1 }],
+    anyOf: [
+      { source: "specialty", includes: ["在宅"] },
+      { source: "services", includes: ["在宅"] },
+    ],
+    points: 15,
+    reason: "在宅医療や訪問対応を重視するニーズに合致しています。",
+  },
+
+  /* --- 3. 価値観 × 性格・スタイル --- */
+  {
+    id: "value.expertise",
+    label: "専門性重視 × 経験年数",
+    category: "value_preference",
+    when: [{ field: "value_preference", equals: "expertise" }],
+    points: { perYear: 2, max: 20 },
+    reason:
+      "経験年数が比較的長く（{years}年）、専門性を重視する方に向いています。",
+  },
+  {
+    id: "value.empathy",
+    label: "共感重視 × 相談スタイル",
+    category: "value_preference",
+    when: [{ field: "value_preference", equals: "empathy" }],
+    anyOf: [
+      { source: "consultation_style", contains: ["丁寧", "じっくり"] },
+      { source: "personality", contains: ["やさ", "穏やか", "共感"] },
+    ],
+    points: 20,
+    reason: "じっくり話を聞き、共感してくれるスタイルの薬剤師です。",
+  },
+  {
+    id: "value.lifestyle_support",
+    label: "生活支援重視 × 在宅・オンライン",
+    category: "value_preference",
+    when: [{ field: "value_preference", equals: "lifestyle_support" }],
+    anyOf: [
+      { source: "specialty", includes: ["在宅"] },
+      { source: "services", includes: ["在宅", "オンライン相談"] },
+    ],
+    points: 15,
+    reason:
+      "生活や仕事との両立を含めた現実的な相談に乗ることを得意としています。",
+  },
+  {
+    id: "value.multilingual",
+    label: "多言語重視 × 対応言語数",
+    category: "value_preference",
+    when: [{ field: "value_preference", equals: "multilingual" }],
+    anyOf: [{ source: "language_count", gte: 2 }],
+    points: 15,
+    reason: "複数言語でのコミュニケーションに対応できます。",
+  },
+
+  /* --- 3-b. 相談スタイル（care_style）との相性 --- */
+  {
+    id: "care_style.understanding",
+    label: "しっかり理解タイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "understanding" }],
+    anyOf: [
+      {
+        source: "consultation_style",
+        contains: ["丁寧", "わかりやす", "説明"],
+      },
+      { source: "years_of_experience", gte: 5 },
+    ],
+    points: 18,
+    reason:
+      "診断や薬の内容を、わかりやすく丁寧に説明してくれるスタイルです。",
+  },
+  {
+    id: "care_style.empathy",
+    label: "気持ちケアタイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "empathy" }],
+    anyOf: [
+      { source: "consultation_style", contains: ["じっくり", "話を聞く"] },
+      { source: "personality", contains: ["やさ", "穏やか", "共感"] },
+    ],
+    points: 18,
+    reason:
+      "不安やつらさなどの気持ちも含めて、じっくり寄り添ってくれる薬剤師です。",
+  },
+  {
+    id: "care_style.expert",
+    label: "おまかせタイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "expert" }],
+    anyOf: [
+      { source: "years_of_experience", gte: 7 },
+      { source: "specialty_count", gte: 2 },
+      { source: "consultation_style", contains: ["提案", "方針"] },
+    ],
+    points: 18,
+    reason:
+      "ガイドラインや経験をふまえて、全体の方針を一緒に決めてくれるタイプです。",
+  },
+  {
+    id: "care_style.support",
+    label: "継続苦手タイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "support" }],
+    anyOf: [
+      {
+        source: "consultation_style",
+        contains: ["伴走", "一緒に", "フォロー"],
+      },
+      { source: "services", includes: ["オンライン相談", "在宅"] },
+    ],
+    points: 18,
+    reason: "続けやすい工夫やペースづくりを、一緒に考えてくれる薬剤師です。",
+  },
+  {
+    id: "care_style.family",
+    label: "家族サポートタイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "family" }],
+    anyOf: [
+      { source: "experience_case", includes: ["小児", "高齢者"] },
+      { source: "specialty", includes: ["在宅"] },
+      { source: "services", includes: ["在宅"] },
+      { source: "consultation_style", contains: ["家族"] },
+    ],
+    points: 18,
+    reason:
+      "ご自身だけでなく、ご家族の薬や通院も含めて相談しやすい薬剤師です。",
+  },
+  {
+    id: "care_style.second_opinion",
+    label: "比較検討タイプとの相性",
+    category: "care_style",
+    when: [{ field: "care_style", equals: "second_opinion" }],
+    anyOf: [
+      {
+        source: "consultation_style",
+        contains: ["整理", "選択肢", "セカンド"],
+      },
+      { source: "specialty_count", gte: 2 },
+      { source: "years_of_experience", gte: 5 },
+    ],
+    points: 18,
+    reason:
+      "治療の選択肢やメリット・デメリットを整理しながら、一緒に考えてくれる薬剤師です。",
+  },
+  {
+    // ★ 患者の相談スタイル と 薬剤師の care_role が一致している場合の強い加点
+    id: "care_style.role_match",
+    label: "care_role の一致",
+    category: "care_style",
+    when: [],
+    anyOf: [{ source: "patient_care_style" }],
+    points: 12,
+    reason:
+      "この薬剤師は、まさに「{careStyleLabel}」タイプの患者さんを得意とするケアロールとして登録されています。",
+  },
+
+  /* --- 4. 顧問薬剤師タイプ（A〜D）による微調整 --- */
+  {
+    id: "type.A",
+    label: "タイプA × 複数専門領域",
+    category: "patient_type",
+    when: [{ field: "type", equals: "A" }],
+    anyOf: [{ source: "specialty_count", gte: 2 }],
+    points: 10,
+    reason: "複数の専門領域を持つオールラウンダーです。",
+  },
+  {
+    id: "type.B",
+    label: "タイプB × 在宅対応",
+    category: "patient_type",
+    when: [{ field: "type", equals: "B" }],
+    anyOf: [
+      { source: "specialty", includes: ["在宅"] },
+      { source: "services", includes: ["在宅"] },
+    ],
+    points: 10,
+    reason: "生活や在宅ケアを含めた継続支援が得意です。",
+  },
+  {
+    id: "type.C",
+    label: "タイプC × 漢方・メンタル",
+    category: "patient_type",
+    when: [{ field: "type", equals: "C" }],
+    anyOf: [
+      { source: "specialty", includes: ["漢方", "体質改善", "メンタル"] },
+    ],
+    points: 10,
+    reason: "漢方・体質改善やメンタル面のケアを重視するタイプです。",
+  },
+
+  /* --- 5. 通いやすさ（エリア） --- */
+  {
+    id: "area.match",
+    label: "エリアが近い",
+    category: "area",
+    when: [],
+    anyOf: [{ source: "patient_area" }],
+    points: 10,
+    reason: "お住まいのエリアと近い薬局に所属しています。",
+  },
+  {
+    // 近いほど高い（20km 以上離れると 0 点）
+    id: "area.distance",
+    label: "所属店舗までの距離",
+    category: "area",
+    when: [],
+    anyOf: [{ source: "store_distance", withinKm: 20 }],
+    points: { perKm: 0.5, max: 10 },
+    reason: "所属店舗まで約{distanceKm}kmです。",
+  },
+
+  /* --- 6. 重症度に応じて専門性寄りに --- */
+  {
+    id: "severity.severe",
+    label: "重症度 × 経験年数",
+    category: "severity",
+    when: [{ field: "severity", equals: "severe" }],
+    points: { perYear: 1.5, max: 15 },
+    reason: null,
+  },
+
+  /* --- 7. 話し方・説明の深さ（診断 Step3） --- */
+  {
+    id: "communication.comm_style",
+    label: "希望する話し方が得意",
+    category: "communication",
+    when: [],
+    anyOf: [{ source: "patient_comm_style" }],
+    points: 10,
+    reason: "ご希望の話し方（{commStyleLabels}）を得意としています。",
+  },
+  {
+    id: "communication.explanation_depth",
+    label: "希望する説明の深さに対応",
+    category: "communication",
+    when: [],
+    anyOf: [{ source: "patient_explanation_depth" }],
+    points: 8,
+    reason: "「{explanationLabel}」の説明に対応しています。",
+  },
+
+  /* --- 8. フォロー頻度・相談方法（診断 Step5） --- */
+  {
+    id: "consultation.followup_frequency",
+    label: "希望するフォロー頻度に対応",
+    category: "consultation",
+    when: [],
+    anyOf: [{ source: "patient_followup_frequency" }],
+    points: 10,
+    reason: "ご希望のフォロー頻度（{followupLabel}）で相談を続けられます。",
+  },
+  {
+    id: "consultation.channel",
+    label: "希望する相談方法に対応",
+    category: "consultation",
+    when: [],
+    anyOf: [{ source: "patient_channel" }],
+    points: 12,
+    reason: "ご希望の相談方法（{channelLabel}）に対応しています。",
+  },
+];
@@ -4,136 +4,77 @@ import type {
   Pharmacist,
   Pharmacy,
   PatientType,
+  Store,
 } from "@/types/supabase";
-
-// /diagnosis・/result・/pharmacists で共通で使う相談スタイルキー
-export type CareStyleKey =
-  | "understanding"
-  | "empathy"
-  | "expert"
-  | "support"
-  | "family"
-  | "second_opinion";
+import { distanceBetween, geocodeStore, geocodeText } from "../geo";
+import { CARE_STYLE_INFO, type CareStyleKey } from "./careStyles";
+import {
+  CHANNEL_LABEL,
+  COMM_STYLE_LABEL,
+  EXPLANATION_DEPTH_LABEL,
+  FOLLOWUP_FREQUENCY_LABEL,
+  labelOf,
+} from "./consultationPrefs";
+import {
+  DEFAULT_MATCHING_RULES,
+  type MatchingCategory,
+  type MatchingRule,
+  type PatientCondition,
+  type PharmacistSignal,
+  type RulePoints,
+} from "./rules";
 
 /**
- * 相談スタイルごとのラベル・説明
- * - UI 表示やスコア理由メッセージの両方で利用
+ * スコア内訳の1行（発火したルールごと）
+ * - points は経験年数などを反映した実際の加点・減点（0〜100 のクリップ前）
+ * - message は理由メッセージ。理由のないルール（減点など）はルール名を入れる
  */
-export const CARE_STYLE_INFO: Record<
-  CareStyleKey,
-  {
-    label: string;
-    description: string;
-    advisorLabel: string;
-    advisorDescription: string;
-    imageCaption: string;
-  }
-> = {
-  understanding: {
-    label: "しっかり理解タイプ",
-    description:
-      "診断名や検査結果の意味をきちんと理解し、納得したうえで治療を進めたいタイプです。",
-    advisorLabel: "ていねい解説タイプの顧問薬剤師",
-    advisorDescription:
-      "難しい専門用語をかみ砕いて説明し、治療の流れや選択肢を一緒に整理してくれる薬剤師が合いそうです。",
-    imageCaption: "しっかり説明を聞いて納得したいタイプ",
-  },
-  empathy: {
-    label: "気持ちケアタイプ",
-    description:
-      "不安やつらさなど、まず気持ちを受け止めてもらえると安心できるタイプです。",
-    advisorLabel: "寄り添いサポートタイプの顧問薬剤師",
-    advisorDescription:
-      "じっくり話を聞き、気持ちに寄り添いながら現実的な対策を一緒に考えてくれる薬剤師が合いそうです。",
-    imageCaption: "気持ちを受け止めてもらえると安心するタイプ",
-  },
-  expert: {
-    label: "おまかせタイプ",
-    description:
-      "情報はほどよく押さえつつ、最終的な判断は信頼できる専門家に任せたいタイプです。",
-    advisorLabel: "戦略プランナータイプの顧問薬剤師",
-    advisorDescription:
-      "ガイドラインやエビデンスを踏まえて全体の方針を組み立て、『この方向でいきましょう』と示してくれる薬剤師が合いそうです。",
-    imageCaption: "信頼できる専門家に任せたいタイプ",
-  },
-  support: {
-    label: "継続苦手タイプ",
-    description:
-      "続けることの大切さは分かっているものの、忙しさや気分の波で中断しがちなタイプです。",
-    advisorLabel: "習慣づくりコーチタイプの顧問薬剤師",
-    advisorDescription:
-      "無理のないペースや工夫を一緒に考え、小さな成功体験を積み上げるサポートをしてくれる薬剤師が合いそうです。",
-    imageCaption: "治療や習慣を続ける後押しがほしいタイプ",
-  },
-  family: {
-    label: "家族サポートタイプ",
-    description:
-      "自分のことだけでなく、高齢の親や子どものことなど、家族全体の健康が気になるタイプです。",
-    advisorLabel: "家族まるごとケアタイプの顧問薬剤師",
-    advisorDescription:
-      "本人だけでなく家族の背景も踏まえて、関わり方や声かけまで一緒に考えてくれる薬剤師が合いそうです。",
-    imageCaption: "家族の健康も含めて相談したいタイプ",
-  },
-  second_opinion: {
-    label: "比較検討タイプ",
-    description:
-      "今の治療が自分に本当に合っているか気になり、他の選択肢も知ったうえで決めたいタイプです。",
-    advisorLabel: "整理＆選択肢ナビタイプの顧問薬剤師",
-    advisorDescription:
-      "情報を整理し、メリット・デメリットを一緒に比較しながら『自分で納得して決める』お手伝いをしてくれる薬剤師が合いそうです。",
-    imageCaption: "いくつかの選択肢を比べて決めたいタイプ",
-  },
-};
+export interface ScoreContribution {
+  ruleId: string;
+  category: MatchingCategory;
+  points: number;
+  message: string;
+}
 
-export const PATIENT_TYPE_LABEL: Record<PatientType, string> = {
-  A: "タイプA：専門性重視タイプ",
-  B: "タイプB：生活支援タイプ",
-  C: "タイプC：メンタル×体質タイプ",
-  D: "タイプD：外国語対応タイプ",
-};
+export interface ScoreResult {
+  score: number;
+  reasons: string[];
+  breakdown: ScoreContribution[];
+}
 
 /**
- * A〜Dタイプと相談スタイルのざっくり相性マトリクス
- * ◎：特に相性がよい
- * ◯：相性はよい
- * △：状況によっては合う
+ * ルール評価に使う、患者・薬剤師・薬局の正規化済みの値
  */
-export const TYPE_STYLE_MATCH: Record<
-  PatientType,
-  Record<CareStyleKey, "◎" | "◯" | "△">
-> = {
-  A: {
-    understanding: "◎",
-    empathy: "△",
-    expert: "◎",
-    support: "◯",
-    family: "◯",
-    second_opinion: "◎",
-  },
-  B: {
-    understanding: "◯",
-    empathy: "◎",
-    expert: "△",
-    support: "◎",
-    family: "◎",
-    second_opinion: "◯",
-  },
-  C: {
-    understanding: "◯",
-    empathy: "◎",
-    expert: "◯",
-    support: "◎",
-    family: "△",
-    second_opinion: "◯",
-  },
-  D: {
-    understanding: "◯",
-    empathy: "◯",
-    expert: "◯",
-    support: "◯",
-    family: "◯",
-    second_opinion: "◯",
-  },
+type MatchingContext = {
+  type: PatientType;
+  language: string;
+  valuePreference: string;
+  severity: string;
+  careStyle: string | null;
+  area: string;
+  mainSymptom: string | null;
+  lifestyleScore: Record<string, number>;
+  commStyles: string[];
+  explanationDepth: string | null;
+  followupFrequency: string | null;
+  channelPreference: string | null;
+
+  specialties: string[];
+  languages: string[];
+  experiences: string[];
+  services: string[];
+  careRoles: string[];
+  styleText: string;
+  personality: string;
+  years: number;
+  /** 所属店舗の住所（店舗が分からない場合は薬局法人の area） */
+  storeArea: string | null;
+  /** 患者エリア → 所属店舗の距離（km）。推定できない場合は null */
+  distanceKm: number | null;
+  pharmacistCommStyles: string[];
+  explanationStyles: string[];
+  followupCadences: string[];
+  supportedChannels: string[];
 };
 
 /**
@@ -172,25 +113,11 @@ export function getMainSymptom(
 }
 
 /**
- * 患者情報 ＋ 顧問薬剤師タイプ ＋ 薬剤師・薬局情報から
- * 0〜100 点のスコアと、主な理由（最大3つ）を返す
+ * pharmacy.services は text[] / text / null の可能性があるので安全に配列化
  */
-export function scorePharmacist(
-  patient: Patient,
-  type: PatientType,
-  pharmacist: Pharmacist,
-  pharmacy: Pharmacy | null
-): { score: number; reasons: string[] } {
-  let score = 0;
-  const reasons: string[] = [];
-
-  const specialties = pharmacist.specialty ?? [];
-  const languages = pharmacist.language ?? [];
-  const experiences = pharmacist.experience_case ?? [];
-
-  // pharmacy.services は text[] / text / null の可能性があるので安全に配列化
+export function normalizeServices(pharmacy: Pharmacy | null): string[] {
   const rawServices = pharmacy?.services as unknown;
-  const services: string[] = Array.isArray(rawServices)
+  return Array.isArray(rawServices)
     ? (rawServices as string[])
     : typeof rawServices === "string"
     ? rawServices
@@ -198,281 +125,266 @@ export function scorePharmacist(
         .map((s) => s.trim())
         .filter(Boolean)
     : [];
+}
 
-  const patientLanguage = patient.language ?? "ja";
-  const valuePref = patient.value_preference ?? "";
-  const severity = patient.severity ?? "";
-  const area = patient.area ?? "";
-  const symptomScore =
-    (patient.symptom_score as Record<string, number> | null) ?? {};
-  const lifestyleScore =
-    (patient.lifestyle_score as Record<string, number> | null) ?? {};
+/**
+ * 薬剤師の所属店舗を探す
+ * - belongs_store_id を優先
+ * - 古いデータでは belongs_pharmacy_id に店舗IDが入っていることがあるので、それも見る
+ */
+export function resolvePharmacistStore(
+  pharmacist: Pharmacist,
+  storeMap: Map<string, Store>
+): Store | null {
+  if (pharmacist.belongs_store_id) {
+    const store = storeMap.get(pharmacist.belongs_store_id);
+    if (store) return store;
+  }
+  if (pharmacist.belongs_pharmacy_id) {
+    return storeMap.get(pharmacist.belongs_pharmacy_id) ?? null;
+  }
+  return null;
+}
 
-  // 相談スタイル（care_style）と薬剤師側のテキスト情報
-  const careStyle = (patient.care_style as CareStyleKey | null) ?? null;
-  const styleText = (pharmacist.consultation_style ?? "") as string;
-  const personality = (pharmacist.personality ?? "") as string;
-  const years = pharmacist.years_of_experience ?? 0;
+function storeAreaText(store: Store | null): string {
+  if (!store) return "";
+  return [store.prefecture, store.city, store.address_line1]
+    .filter(Boolean)
+    .join("");
+}
 
-  // 薬剤師が登録している「得意な相談スタイル」の配列
-  const careRoles = (pharmacist.care_role as string[] | null) ?? [];
+function buildContext(
+  patient: Patient,
+  type: PatientType,
+  pharmacist: Pharmacist,
+  pharmacy: Pharmacy | null,
+  store: Store | null
+): MatchingContext {
+  const symptomScore =
+    (patient.symptom_score as Record<string, number> | null) ?? {};
 
-  /* --- 1. 言語マッチ（最重要） --- */
-  if (languages.includes(patientLanguage)) {
-    score += 40;
-    reasons.push("希望する言語で相談できる薬剤師です。");
+  return {
+    type,
+    language: patient.language ?? "ja",
+    valuePreference: patient.value_preference ?? "",
+    severity: patient.severity ?? "",
+    careStyle: patient.care_style ?? null,
+    area: patient.area ?? "",
+    mainSymptom: getMainSymptom(symptomScore),
+    lifestyleScore:
+      (patient.lifestyle_score as Record<string, number> | null) ?? {},
+    commStyles: patient.comm_style ?? [],
+    explanationDepth: patient.explanation_depth ?? null,
+    followupFrequency: patient.followup_frequency ?? null,
+    channelPreference: patient.channel_preference ?? null,
+
+    specialties: pharmacist.specialty ?? [],
+    languages: pharmacist.language ?? [],
+    experiences: pharmacist.experience_case ?? [],
+    services: normalizeServices(pharmacy),
+    // 薬剤師が登録している「得意な相談スタイル」の配列
+    careRoles: (pharmacist.care_role as string[] | null) ?? [],
+    styleText: (pharmacist.consultation_style ?? "") as string,
+    personality: (pharmacist.personality ?? "") as string,
+    years: pharmacist.years_of_experience ?? 0,
+    storeArea: storeAreaText(store) || pharmacy?.area || null,
+    distanceKm: distanceBetween(geocodeText(patient.area), geocodeStore(store)),
+    // 薬剤師がプロフィールで宣言した対応項目（未設定なら加点なし）
+    pharmacistCommStyles: pharmacist.comm_styles ?? [],
+    explanationStyles: pharmacist.explanation_styles ?? [],
+    followupCadences: pharmacist.followup_cadences ?? [],
+    supportedChannels: pharmacist.supported_channels ?? [],
+  };
+}
 
-    // Dタイプ（外国語重視）の場合はさらに加点
-    if (type === "D") {
-      score += 10;
-      reasons.push("外国語対応タイプの診断結果と一致しています。");
-    }
-  } else if (patientLanguage !== "ja") {
-    // 外国語希望だが完全一致しない場合は軽く減点
-    score -= 10;
+function patientFieldValue(
+  field: Exclude<PatientCondition["field"], "lifestyle_score">,
+  ctx: MatchingContext
+): string | null {
+  switch (field) {
+    case "language":
+      return ctx.language;
+    case "value_preference":
+      return ctx.valuePreference;
+    case "severity":
+      return ctx.severity;
+    case "care_style":
+      return ctx.careStyle;
+    case "type":
+      return ctx.type;
+    case "main_symptom":
+      return ctx.mainSymptom;
   }
+}
 
-  /* --- 2. 症状 × 専門性 --- */
-  const mainSymptom = getMainSymptom(symptomScore);
-
-  if (mainSymptom === "ibs_skin") {
-    if (
-      specialties.includes("漢方") ||
-      specialties.includes("体質改善") ||
-      experiences.includes("IBS") ||
-      experiences.includes("皮膚")
-    ) {
-      score += 25;
-      reasons.push("IBS・皮膚トラブルや体質改善の支援経験があります。");
-    }
+function matchesCondition(
+  condition: PatientCondition,
+  ctx: MatchingContext
+): boolean {
+  if (condition.field === "lifestyle_score") {
+    return ctx.lifestyleScore[condition.key] === condition.equals;
   }
 
-  if (mainSymptom === "cancer") {
-    if (specialties.includes("がん") || experiences.includes("がん")) {
-      score += 30;
-      reasons.push("がん治療中・治療後の薬物療法支援に慣れています。");
-    }
+  const value = patientFieldValue(condition.field, ctx);
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
   }
-
-  if (mainSymptom === "mental") {
-    if (
-      specialties.includes("メンタル") ||
-      experiences.includes("不眠") ||
-      experiences.includes("自律神経失調") ||
-      experiences.includes("不安障害")
-    ) {
-      score += 25;
-      reasons.push("メンタル・睡眠・自律神経の相談を多く担当しています。");
-    }
-  }
-
-  if (mainSymptom === "lifestyle") {
-    if (specialties.includes("在宅") || specialties.includes("高齢者ケア")) {
-      score += 20;
-      reasons.push("在宅・生活習慣病・高齢者ケアの支援が得意です。");
-    }
+  if (condition.notEquals !== undefined && value === condition.notEquals) {
+    return false;
   }
+  return true;
+}
 
-  if (lifestyleScore["support_homecare"] === 1) {
-    if (specialties.includes("在宅") || services.includes("在宅")) {
-      score += 15;
-      reasons.push("在宅医療や訪問対応を重視するニーズに合致しています。");
+function matchesSignal(
+  signal: PharmacistSignal,
+  ctx: MatchingContext
+): boolean {
+  switch (signal.source) {
+    case "specialty":
+      return signal.includes.some((v) => ctx.specialties.includes(v));
+    case "experience_case":
+      return signal.includes.some((v) => ctx.experiences.includes(v));
+    case "services":
+      return signal.includes.some((v) => ctx.services.includes(v));
+    case "language":
+      return signal.includes.some((v) => ctx.languages.includes(v));
+    case "consultation_style":
+      return signal.contains.some((v) => ctx.styleText.includes(v));
+    case "personality":
+      return signal.contains.some((v) => ctx.personality.includes(v));
+    case "years_of_experience":
+      return ctx.years >= signal.gte;
+    case "specialty_count":
+      return ctx.specialties.length >= signal.gte;
+    case "language_count":
+      return ctx.languages.length >= signal.gte;
+    case "patient_language":
+      return ctx.languages.includes(ctx.language);
+    case "patient_care_style":
+      return !!ctx.careStyle && ctx.careRoles.includes(ctx.careStyle);
+    case "patient_area": {
+      const area = ctx.area;
+      const storeArea = ctx.storeArea;
+      if (!area || !storeArea) return false;
+      return (
+        storeArea.includes(area) ||
+        area.replace(/\s/g, "").includes(storeArea.replace(/\s/g, ""))
+      );
     }
+    case "store_distance":
+      return ctx.distanceKm != null && ctx.distanceKm <= signal.withinKm;
+    case "patient_comm_style":
+      return matchedCommStyles(ctx).length > 0;
+    case "patient_explanation_depth":
+      return (
+        !!ctx.explanationDepth &&
+        ctx.explanationStyles.includes(ctx.explanationDepth)
+      );
+    case "patient_followup_frequency":
+      return (
+        !!ctx.followupFrequency &&
+        ctx.followupCadences.includes(ctx.followupFrequency)
+      );
+    case "patient_channel":
+      return (
+        !!ctx.channelPreference &&
+        ctx.supportedChannels.includes(ctx.channelPreference)
+      );
   }
+}
 
-  /* --- 3. 価値観 × 性格・スタイル --- */
-  if (valuePref === "expertise") {
-    score += Math.min(years * 2, 20);
-    reasons.push(
-      `経験年数が比較的長く（${years}年）、専門性を重視する方に向いています。`
-    );
-  }
+/** 患者が希望した話し方のうち、薬剤師が得意としているもの */
+function matchedCommStyles(ctx: MatchingContext): string[] {
+  return ctx.commStyles.filter((k) => ctx.pharmacistCommStyles.includes(k));
+}
 
-  if (valuePref === "empathy") {
-    if (
-      styleText.includes("丁寧") ||
-      styleText.includes("じっくり") ||
-      personality.includes("やさ") ||
-      personality.includes("穏やか") ||
-      personality.includes("共感")
-    ) {
-      score += 20;
-      reasons.push("じっくり話を聞き、共感してくれるスタイルの薬剤師です。");
-    }
+function rulePoints(points: RulePoints, ctx: MatchingContext): number {
+  if (typeof points === "number") return points;
+  if ("perKm" in points) {
+    if (ctx.distanceKm == null) return 0;
+    return Math.max(0, points.max - ctx.distanceKm * points.perKm);
   }
+  return Math.min(ctx.years * points.perYear, points.max);
+}
 
-  if (valuePref === "lifestyle_support") {
-    if (
-      specialties.includes("在宅") ||
-      services.includes("在宅") ||
-      services.includes("オンライン相談")
-    ) {
-      score += 15;
-      reasons.push(
-        "生活や仕事との両立を含めた現実的な相談に乗ることを得意としています。"
-      );
-    }
-  }
+function ruleFires(rule: MatchingRule, ctx: MatchingContext): boolean {
+  if (!rule.when.every((c) => matchesCondition(c, ctx))) return false;
+  if (!rule.anyOf || rule.anyOf.length === 0) return true;
 
-  if (valuePref === "multilingual") {
-    if (languages.length > 1) {
-      score += 15;
-      reasons.push("複数言語でのコミュニケーションに対応できます。");
-    }
-  }
+  const hit = rule.anyOf.some((s) => matchesSignal(s, ctx));
+  return rule.negate ? !hit : hit;
+}
 
-  /* --- 3-b. 相談スタイル（care_style）との相性 --- */
-  if (careStyle) {
-    switch (careStyle) {
-      case "understanding": {
-        const good =
-          styleText.includes("丁寧") ||
-          styleText.includes("わかりやす") ||
-          styleText.includes("説明") ||
-          years >= 5;
-        if (good) {
-          score += 18;
-          reasons.push(
-            "診断や薬の内容を、わかりやすく丁寧に説明してくれるスタイルです。"
-          );
-        }
-        break;
-      }
-      case "empathy": {
-        const good =
-          styleText.includes("じっくり") ||
-          styleText.includes("話を聞く") ||
-          personality.includes("やさ") ||
-          personality.includes("穏やか") ||
-          personality.includes("共感");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "不安やつらさなどの気持ちも含めて、じっくり寄り添ってくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "expert": {
-        const good =
-          years >= 7 ||
-          specialties.length >= 2 ||
-          styleText.includes("提案") ||
-          styleText.includes("方針");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "ガイドラインや経験をふまえて、全体の方針を一緒に決めてくれるタイプです。"
-          );
-        }
-        break;
-      }
-      case "support": {
-        const good =
-          styleText.includes("伴走") ||
-          styleText.includes("一緒に") ||
-          styleText.includes("フォロー") ||
-          services.includes("オンライン相談") ||
-          services.includes("在宅");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "続けやすい工夫やペースづくりを、一緒に考えてくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "family": {
-        const good =
-          experiences.includes("小児") ||
-          experiences.includes("高齢者") ||
-          specialties.includes("在宅") ||
-          services.includes("在宅") ||
-          styleText.includes("家族");
-        if (good) {
-          score += 18;
-          reasons.push(
-            "ご自身だけでなく、ご家族の薬や通院も含めて相談しやすい薬剤師です。"
-          );
-        }
-        break;
-      }
-      case "second_opinion": {
-        const good =
-          styleText.includes("整理") ||
-          styleText.includes("選択肢") ||
-          styleText.includes("セカンド") ||
-          specialties.length >= 2 ||
-          years >= 5;
-        if (good) {
-          score += 18;
-          reasons.push(
-            "治療の選択肢やメリット・デメリットを整理しながら、一緒に考えてくれる薬剤師です。"
-          );
-        }
-        break;
-      }
-    }
+function formatReason(template: string, ctx: MatchingContext): string {
+  const careStyleLabel = ctx.careStyle
+    ? CARE_STYLE_INFO[ctx.careStyle as CareStyleKey]?.label ?? ctx.careStyle
+    : "";
+  return template
+    .replace(/\{years\}/g, String(ctx.years))
+    .replace(/\{careStyleLabel\}/g, careStyleLabel)
+    .replace(/\{commStyleLabels\}/g, () =>
+      matchedCommStyles(ctx)
+        .map((k) => labelOf(COMM_STYLE_LABEL, k))
+        .join("・")
+    )
+    .replace(/\{explanationLabel\}/g, () =>
+      labelOf(EXPLANATION_DEPTH_LABEL, ctx.explanationDepth ?? "")
+    )
+    .replace(/\{followupLabel\}/g, () =>
+      labelOf(FOLLOWUP_FREQUENCY_LABEL, ctx.followupFrequency ?? "")
+    )
+    .replace(/\{channelLabel\}/g, () =>
+      labelOf(CHANNEL_LABEL, ctx.channelPreference ?? "")
+    )
+    .replace(/\{distanceKm\}/g, () =>
+      ctx.distanceKm == null ? "" : String(Math.round(ctx.distanceKm * 10) / 10)
+    );
+}
 
-    // ★ 患者の相談スタイル と 薬剤師の care_role が一致している場合の強い加点
-    if (careRoles.includes(careStyle)) {
-      const info = CARE_STYLE_INFO[careStyle];
-      score += 12;
-      reasons.push(
-        `この薬剤師は、まさに「${info.label}」タイプの患者さんを得意とするケアロールとして登録されています。`
-      );
-    }
-  }
+/**
+ * 患者情報 ＋ 顧問薬剤師タイプ ＋ 薬剤師・薬局・所属店舗の情報から
+ * 0〜100 点のスコアと、主な理由（最大3つ）、ルールごとの内訳を返す
+ *
+ * 加点・減点の中身は rules（既定は DEFAULT_MATCHING_RULES）で決まる。
+ * エリア・距離のルールは store（resolvePharmacistStore で探した所属店舗）の住所を使う。
+ */
+export function scorePharmacist(
+  patient: Patient,
+  type: PatientType,
+  pharmacist: Pharmacist,
+  pharmacy: Pharmacy | null,
+  rules: MatchingRule[] = DEFAULT_MATCHING_RULES,
+  store: Store | null = null
+): ScoreResult {
+  const ctx = buildContext(patient, type, pharmacist, pharmacy, store);
 
-  /* --- 4. 顧問薬剤師タイプ（A〜D）による微調整 --- */
-  if (type === "A") {
-    if (specialties.length >= 2) {
-      score += 10;
-      reasons.push("複数の専門領域を持つオールラウンダーです。");
-    }
-  }
+  let score = 0;
+  const reasons: string[] = [];
+  const breakdown: ScoreContribution[] = [];
 
-  if (type === "B") {
-    if (specialties.includes("在宅") || services.includes("在宅")) {
-      score += 10;
-      reasons.push("生活や在宅ケアを含めた継続支援が得意です。");
-    }
-  }
+  for (const rule of rules) {
+    if (!ruleFires(rule, ctx)) continue;
 
-  if (type === "C") {
-    if (
-      specialties.includes("漢方") ||
-      specialties.includes("体質改善") ||
-      specialties.includes("メンタル")
-    ) {
-      score += 10;
-      reasons.push("漢方・体質改善やメンタル面のケアを重視するタイプです。");
-    }
-  }
+    const points = rulePoints(rule.points, ctx);
+    const reason = rule.reason ? formatReason(rule.reason, ctx) : null;
 
-  /* --- 5. 通いやすさ（エリア） --- */
-  if (area && pharmacy?.area) {
-    if (
-      pharmacy.area.includes(area) ||
-      area.replace(/\s/g, "").includes(pharmacy.area.replace(/\s/g, ""))
-    ) {
-      score += 10;
-      reasons.push("お住まいのエリアと近い薬局に所属しています。");
+    score += points;
+    if (reason) {
+      reasons.push(reason);
     }
+    breakdown.push({
+      ruleId: rule.id,
+      category: rule.category,
+      points,
+      message: reason ?? rule.label ?? rule.id,
+    });
   }
 
-  /* --- 6. 重症度に応じて専門性寄りに --- */
-  if (severity === "severe") {
-    score += Math.min(years * 1.5, 15);
-  }
-
-  /* --- 7. スコア正規化 & 理由の整理 --- */
-
   // スコアを 0〜100 にクリップ
   const normalizedScore = Math.max(0, Math.min(100, Math.round(score)));
 
   // 理由の重複を削除し、最大 3 つまでに絞る
   const uniqueReasons = Array.from(new Set(reasons)).slice(0, 3);
 
-  return { score: normalizedScore, reasons: uniqueReasons };
+  return { score: normalizedScore, reasons: uniqueReasons, breakdown };
 }
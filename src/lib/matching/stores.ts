@@ -0,0 +1,24 @@
+// src/lib/matching/stores.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Store } from "@/types/supabase";
+
+/**
+ * 距離・エリアのマッチングに使う店舗一覧を id → Store の Map で取得する。
+ * 取得エラーのときは空の Map を返し、店舗住所なし（薬局法人の area）で計算する。
+ */
+export async function fetchStoreMap(
+  supabase: SupabaseClient
+): Promise<Map<string, Store>> {
+  const { data, error } = await supabase
+    .from("stores")
+    .select("id, pharmacy_id, name, postal_code, prefecture, city, address_line1, address_line2")
+    .returns<Store[]>();
+
+  const map = new Map<string, Store>();
+  if (error) {
+    console.error("[fetchStoreMap] error", error);
+    return map;
+  }
+  (data ?? []).forEach((s) => map.set(s.id, s));
+  return map;
+}
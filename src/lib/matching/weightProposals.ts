@@ -0,0 +1,182 @@
+// src/lib/matching/weightProposals.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MatchingRule } from "./rules";
+import type { EvaluationSnapshot } from "./evaluation";
+import {
+  proposeRuleWeights,
+  type FeedbackSegment,
+  type RuleWeightChange,
+} from "./feedback";
+import {
+  fetchActiveMatchingConfig,
+  fetchActiveMatchingRules,
+  saveMatchingWeightSet,
+  type MatchingWeightSet,
+} from "./weightSets";
+
+export type WeightProposalStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * matching_weight_proposals テーブルの1レコード
+ *
+ * - 定期ジョブ（scripts/propose-matching-weights.ts）か管理画面から作成する
+ * - base_version は提案の元にした有効バージョン（標準設定なら null）
+ * - 承認すると rules を新しい matching_weight_sets のバージョンとして保存し、weight_set_id に控える
+ *   （有効化は /admin/matching で従来どおり行う）
+ */
+export interface MatchingWeightProposal {
+  id: string;
+  created_at: string;
+  status: WeightProposalStatus;
+  base_version: number | null;
+  rules: MatchingRule[];
+  changes: RuleWeightChange[];
+  segments: FeedbackSegment[];
+  patients: number;
+  positives: number;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  weight_set_id: string | null;
+}
+
+/**
+ * 重み提案の元になるデータ（患者・薬剤師・お気に入り・予約）をまとめて取得する
+ */
+export async function fetchFeedbackSnapshot(
+  supabase: SupabaseClient
+): Promise<EvaluationSnapshot> {
+  const [patients, pharmacists, pharmacies, stores, favorites, appointments] =
+    await Promise.all([
+      supabase.from("patients").select("*"),
+      supabase.from("pharmacists").select("*"),
+      supabase.from("pharmacies").select("*"),
+      supabase.from("stores").select("*"),
+      supabase.from("patient_favorites").select("patient_id, pharmacist_id"),
+      supabase.from("appointments").select("patient_id, pharmacist_id"),
+    ]);
+
+  for (const res of [patients, pharmacists, pharmacies, favorites, appointments]) {
+    if (res.error) throw res.error;
+  }
+  if (stores.error) {
+    console.error("[fetchFeedbackSnapshot] stores error", stores.error);
+  }
+
+  return {
+    patients: (patients.data ?? []) as EvaluationSnapshot["patients"],
+    pharmacists: (pharmacists.data ?? []) as EvaluationSnapshot["pharmacists"],
+    pharmacies: (pharmacies.data ?? []) as EvaluationSnapshot["pharmacies"],
+    stores: (stores.data ?? []) as EvaluationSnapshot["stores"],
+    patient_favorites: (favorites.data ??
+      []) as EvaluationSnapshot["patient_favorites"],
+    appointments: (appointments.data ??
+      []) as EvaluationSnapshot["appointments"],
+  };
+}
+
+/**
+ * 現在有効な重みを元に提案を作って保存する
+ * - 実績が足りない・変更がない場合は保存せず null を返す
+ */
+export async function generateMatchingWeightProposal(
+  supabase: SupabaseClient
+): Promise<MatchingWeightProposal | null> {
+  const { data: active, error: activeError } = await supabase
+    .from("matching_weight_sets")
+    .select("version")
+    .eq("is_active", true)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (activeError) throw activeError;
+
+  const rules = await fetchActiveMatchingRules(supabase);
+  const snapshot = await fetchFeedbackSnapshot(supabase);
+  const result = proposeRuleWeights(snapshot, rules);
+
+  if (result.insufficientData || result.changes.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("matching_weight_proposals")
+    .insert({
+      status: "pending",
+      base_version: (active as { version: number } | null)?.version ?? null,
+      rules: result.rules,
+      changes: result.changes,
+      segments: result.segments,
+      patients: result.patients,
+      positives: result.positives,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as MatchingWeightProposal;
+}
+
+/**
+ * 重み提案を新しい順に取得する
+ */
+export async function listMatchingWeightProposals(
+  supabase: SupabaseClient
+): Promise<MatchingWeightProposal[]> {
+  const { data, error } = await supabase
+    .from("matching_weight_proposals")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as MatchingWeightProposal[];
+}
+
+/**
+ * 提案を承認し、新しい重み設定のバージョンとして保存する（まだ有効化はしない）
+ * - 提案はルールの重みだけなので、多様性の設定は今有効なものを引き継ぐ
+ */
+export async function acceptMatchingWeightProposal(
+  supabase: SupabaseClient,
+  proposal: MatchingWeightProposal,
+  reviewerId: string | null
+): Promise<MatchingWeightSet> {
+  const { diversity } = await fetchActiveMatchingConfig(supabase);
+  const saved = await saveMatchingWeightSet(supabase, {
+    rules: proposal.rules,
+    diversity,
+    label: "実績からの提案",
+    note: `お気に入り・予約 ${proposal.positives} 件（患者 ${proposal.patients} 人）から ${proposal.changes.length} ルールを調整`,
+    createdBy: reviewerId,
+  });
+
+  const { error } = await supabase
+    .from("matching_weight_proposals")
+    .update({
+      status: "accepted",
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: reviewerId,
+      weight_set_id: saved.id,
+    })
+    .eq("id", proposal.id);
+
+  if (error) throw error;
+  return saved;
+}
+
+/**
+ * 提案を却下する
+ */
+export async function rejectMatchingWeightProposal(
+  supabase: SupabaseClient,
+  id: string,
+  reviewerId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from("matching_weight_proposals")
+    .update({
+      status: "rejected",
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: reviewerId,
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+}
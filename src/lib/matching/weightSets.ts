@@ -0,0 +1,173 @@
+// src/lib/matching/weightSets.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_MATCHING_RULES, type MatchingRule } from "./rules";
+import {
+  DEFAULT_DIVERSITY_SETTINGS,
+  diversitySettingsFrom,
+  type DiversitySettings,
+} from "./diversify";
+
+/**
+ * matching_weight_sets テーブルの1レコード
+ *
+ * - 保存のたびに version を +1 した新しい行を作る（過去の設定は上書きしない）
+ * - is_active = true の行が /result や /pharmacists のスコア計算に使われる
+ * - rules は MatchingRule[] をそのまま jsonb で保持する
+ *   （読み出すときは mergeWithDefaultRules で、保存後に増えたルールを標準値で補う）
+ * - diversity は /result の上位 N 件の選び直しの設定（jsonb。この列より前の行は null → 標準値）
+ */
+export interface MatchingWeightSet {
+  id: string;
+  version: number;
+  label: string | null;
+  note: string | null;
+  rules: MatchingRule[];
+  diversity: DiversitySettings | null;
+  is_active: boolean;
+  created_at: string;
+  created_by: string | null;
+  activated_at: string | null;
+}
+
+/**
+ * 保存済みのルール表を標準のルール表に重ねる（ルール id ごと）
+ * - 並び順は DEFAULT_MATCHING_RULES のまま（理由メッセージの優先順を保つ）
+ * - 保存時になかったルールは標準値で使う
+ * - 標準にない id のルールは末尾にそのまま残す
+ */
+export function mergeWithDefaultRules(saved: MatchingRule[]): MatchingRule[] {
+  const savedById = new Map(saved.map((rule) => [rule.id, rule]));
+  const merged = DEFAULT_MATCHING_RULES.map((rule) => savedById.get(rule.id) ?? rule);
+  const defaultIds = new Set(DEFAULT_MATCHING_RULES.map((rule) => rule.id));
+  return merged.concat(saved.filter((rule) => !defaultIds.has(rule.id)));
+}
+
+export interface MatchingConfig {
+  rules: MatchingRule[];
+  diversity: DiversitySettings;
+}
+
+/**
+ * 有効化されているルール表と多様性の設定を取得する。
+ * 未登録・取得エラーのときは DEFAULT_MATCHING_RULES / DEFAULT_DIVERSITY_SETTINGS にフォールバックする。
+ */
+export async function fetchActiveMatchingConfig(
+  supabase: SupabaseClient
+): Promise<MatchingConfig> {
+  const { data, error } = await supabase
+    .from("matching_weight_sets")
+    .select("rules, diversity")
+    .eq("is_active", true)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[fetchActiveMatchingConfig] error", error);
+    return { rules: DEFAULT_MATCHING_RULES, diversity: DEFAULT_DIVERSITY_SETTINGS };
+  }
+
+  const row = data as { rules: MatchingRule[] | null; diversity: unknown } | null;
+  const rules = row?.rules;
+  return {
+    rules:
+      Array.isArray(rules) && rules.length > 0
+        ? mergeWithDefaultRules(rules)
+        : DEFAULT_MATCHING_RULES,
+    diversity: diversitySettingsFrom(row?.diversity),
+  };
+}
+
+/**
+ * 有効化されているルール表を取得する（多様性の設定が要らない画面用）
+ */
+export async function fetchActiveMatchingRules(
+  supabase: SupabaseClient
+): Promise<MatchingRule[]> {
+  return (await fetchActiveMatchingConfig(supabase)).rules;
+}
+
+/**
+ * 保存済みの重み設定を新しい順に取得する（rules・diversity は標準値に重ねた後のもの）
+ */
+export async function listMatchingWeightSets(
+  supabase: SupabaseClient
+): Promise<MatchingWeightSet[]> {
+  const { data, error } = await supabase
+    .from("matching_weight_sets")
+    .select("*")
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+  return ((data ?? []) as MatchingWeightSet[]).map((set) => ({
+    ...set,
+    rules: mergeWithDefaultRules(Array.isArray(set.rules) ? set.rules : []),
+    diversity: diversitySettingsFrom(set.diversity),
+  }));
+}
+
+/**
+ * 重み設定を新しいバージョンとして保存する（この時点では有効化しない）
+ */
+export async function saveMatchingWeightSet(
+  supabase: SupabaseClient,
+  input: {
+    rules: MatchingRule[];
+    diversity: DiversitySettings;
+    label: string | null;
+    note: string | null;
+    createdBy: string | null;
+  }
+): Promise<MatchingWeightSet> {
+  const { data: latest, error: latestError } = await supabase
+    .from("matching_weight_sets")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+
+  const nextVersion =
+    ((latest as { version: number } | null)?.version ?? 0) + 1;
+
+  const { data, error } = await supabase
+    .from("matching_weight_sets")
+    .insert({
+      version: nextVersion,
+      label: input.label,
+      note: input.note,
+      rules: input.rules,
+      diversity: input.diversity,
+      is_active: false,
+      created_by: input.createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as MatchingWeightSet;
+}
+
+/**
+ * 指定したバージョンを有効化し、それ以外を無効にする
+ */
+export async function activateMatchingWeightSet(
+  supabase: SupabaseClient,
+  id: string
+): Promise<void> {
+  const { error: resetError } = await supabase
+    .from("matching_weight_sets")
+    .update({ is_active: false })
+    .eq("is_active", true)
+    .neq("id", id);
+
+  if (resetError) throw resetError;
+
+  const { error } = await supabase
+    .from("matching_weight_sets")
+    .update({ is_active: true, activated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+}
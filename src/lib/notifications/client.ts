@@ -0,0 +1,24 @@
+// src/lib/notifications/client.ts
+import type { NotificationEvent } from "@/types/supabase";
+
+/**
+ * 通知メールの送信をサーバーに頼む（ブラウザ用）
+ * - 予約・連絡希望の保存は済んでいるので、失敗しても画面にはエラーを出さない
+ */
+export async function requestNotification(
+  event: NotificationEvent,
+  id: string
+): Promise<void> {
+  try {
+    const res = await fetch("/api/notifications", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ event, id }),
+    });
+    if (!res.ok) {
+      console.error("[notifications] request failed", res.status);
+    }
+  } catch (err) {
+    console.error("[notifications] request failed", err);
+  }
+}
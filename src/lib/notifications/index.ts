@@ -0,0 +1,7 @@
+// src/lib/notifications/index.ts
+// 通知メール（サーバー専用。ブラウザからは ./client の requestNotification を使う）
+export * from "./mime";
+export * from "./smtp";
+export * from "./transport";
+export * from "./templates";
+export * from "./notify";
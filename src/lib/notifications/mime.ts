@@ -0,0 +1,64 @@
+// src/lib/notifications/mime.ts
+import type { EmailMessage } from "./transport";
+
+/**
+ * メール本文（RFC 5322 / MIME）の組み立て
+ * - 件名・本文は日本語なので、件名は B エンコード、本文は UTF-8 の base64 で送る
+ * - 改行はすべて CRLF
+ */
+
+const CRLF = "\r\n";
+
+function base64(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64");
+}
+
+/** 76 文字ごとに折り返す（base64 本文用） */
+function wrap76(value: string): string {
+  return (value.match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+/** ASCII 以外を含むヘッダ値を =?UTF-8?B?…?= にする */
+export function encodeMimeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${base64(value)}?=`;
+}
+
+/** "名前 <addr>" の名前部分だけをエンコードする */
+export function formatAddress(address: string): string {
+  const m = address.match(/^\s*(.+?)\s*<([^>]+)>\s*$/);
+  if (!m) return address.trim();
+  return `${encodeMimeHeader(m[1].replace(/^"|"$/g, ""))} <${m[2]}>`;
+}
+
+/** "名前 <addr>" からアドレス部分だけを取り出す（SMTP のエンベロープ用） */
+export function addressOf(address: string): string {
+  const m = address.match(/<([^>]+)>/);
+  return (m ? m[1] : address).trim();
+}
+
+export function buildMimeMessage(
+  message: EmailMessage & { from: string },
+  options: { date?: Date; messageId?: string } = {}
+): string {
+  const date = options.date ?? new Date();
+  const domain = addressOf(message.from).split("@")[1] ?? "localhost";
+  const messageId =
+    options.messageId ??
+    `${date.getTime().toString(36)}.${Math.random().toString(36).slice(2)}@${domain}`;
+
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${message.to.map(formatAddress).join(", ")}`,
+    `Subject: ${encodeMimeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+    `Message-ID: <${messageId}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  if (message.replyTo) headers.push(`Reply-To: ${formatAddress(message.replyTo)}`);
+
+  const body = message.text.replace(/\r?\n/g, CRLF);
+  return `${headers.join(CRLF)}${CRLF}${CRLF}${wrap76(base64(body))}${CRLF}`;
+}
@@ -0,0 +1,291 @@
+// src/lib/notifications/notify.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Appointment,
+  ContactRequest,
+  NotificationEvent,
+  NotificationLog,
+  Patient,
+  Pharmacist,
+  Store,
+} from "@/types/supabase";
+import { fetchLatestContactRequests, formatContactRequest } from "../contact/contactRequests";
+import { normalizeEmail } from "../contact/validation";
+import {
+  appointmentRequestedPatientEmail,
+  appointmentRequestedStaffEmail,
+  contactRequestedPatientEmail,
+  contactRequestedStaffEmail,
+  type EmailContent,
+} from "./templates";
+import type { EmailTransport } from "./transport";
+
+/**
+ * 予約・連絡希望の通知メールを送る（Route Handler から呼ぶ。service role 前提）
+ * - スタッフ宛：薬剤師と所属店舗の notification_email。どちらもなければ staffFallbackEmail
+ * - 患者宛：受付の控え（メールアドレスがわかるときだけ）
+ * - 送った宛先は notification_logs に残し、同じ通知は二度送らない
+ * - 受け付けから NOTIFY_WINDOW_MINUTES 以上たったものは送らない（古い ID での再送防止）
+ */
+
+export const NOTIFY_WINDOW_MINUTES = 60;
+
+export type NotifyOptions = {
+  /** メール内リンクの起点（例：https://hito-yaku.example.com） */
+  baseUrl: string;
+  staffFallbackEmail?: string | null;
+  now?: Date;
+};
+
+export type NotifyResult = { sent: number; skipped: number; failed: number };
+
+type Outgoing = {
+  audience: NotificationLog["audience"];
+  to: string[];
+  content: EmailContent;
+};
+
+type StaffContact = {
+  pharmacist: Pick<Pharmacist, "id" | "name" | "notification_email" | "belongs_store_id"> | null;
+  store: Pick<Store, "id" | "name" | "notification_email"> | null;
+};
+
+function uniqueEmails(values: (string | null | undefined)[]): string[] {
+  const emails = values
+    .map((v) => (v ? normalizeEmail(v) : null))
+    .filter((v): v is string => !!v);
+  return Array.from(new Set(emails));
+}
+
+function isStale(createdAt: string, now: Date): boolean {
+  return now.getTime() - new Date(createdAt).getTime() > NOTIFY_WINDOW_MINUTES * 60 * 1000;
+}
+
+async function fetchStaffContact(
+  supabase: SupabaseClient,
+  pharmacistId: string | null
+): Promise<StaffContact> {
+  if (!pharmacistId) return { pharmacist: null, store: null };
+
+  const { data: pharmacist, error } = await supabase
+    .from("pharmacists")
+    .select("id, name, notification_email, belongs_store_id")
+    .eq("id", pharmacistId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const storeId = (pharmacist as StaffContact["pharmacist"])?.belongs_store_id ?? null;
+  if (!storeId) return { pharmacist: pharmacist as StaffContact["pharmacist"], store: null };
+
+  const { data: store, error: storeError } = await supabase
+    .from("stores")
+    .select("id, name, notification_email")
+    .eq("id", storeId)
+    .maybeSingle();
+  if (storeError) throw storeError;
+
+  return {
+    pharmacist: pharmacist as StaffContact["pharmacist"],
+    store: (store as StaffContact["store"]) ?? null,
+  };
+}
+
+async function fetchPatient(
+  supabase: SupabaseClient,
+  patientId: string | null
+): Promise<Pick<Patient, "id" | "name" | "email"> | null> {
+  if (!patientId) return null;
+  const { data, error } = await supabase
+    .from("patients")
+    .select("id, name, email")
+    .eq("id", patientId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as Pick<Patient, "id" | "name" | "email"> | null) ?? null;
+}
+
+function staffRecipients(staff: StaffContact, fallback: string | null | undefined): string[] {
+  const emails = uniqueEmails([staff.pharmacist?.notification_email, staff.store?.notification_email]);
+  return emails.length > 0 ? emails : uniqueEmails([fallback]);
+}
+
+/**
+ * 送信と記録（送信済みの宛先は飛ばす）
+ * - 記録に失敗しても送信結果は返す（ログだけ残す）
+ */
+async function deliver(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  event: NotificationEvent,
+  refId: string,
+  outgoing: Outgoing[]
+): Promise<NotifyResult> {
+  const { data, error } = await supabase
+    .from("notification_logs")
+    .select("audience, recipient")
+    .eq("event", event)
+    .eq("ref_id", refId)
+    .eq("status", "sent");
+  if (error) throw error;
+
+  const alreadySent = new Set(
+    ((data ?? []) as Pick<NotificationLog, "audience" | "recipient">[]).map(
+      (r) => `${r.audience}:${r.recipient}`
+    )
+  );
+  const result: NotifyResult = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const item of outgoing) {
+    const to = item.to.filter((addr) => !alreadySent.has(`${item.audience}:${addr}`));
+    result.skipped += item.to.length - to.length;
+    if (to.length === 0) continue;
+
+    let sendError: string | null = null;
+    try {
+      await transport.send({ to, subject: item.content.subject, text: item.content.text });
+      result.sent += to.length;
+    } catch (err) {
+      console.error(`[notifications] ${event} ${refId} failed`, err);
+      sendError = err instanceof Error ? err.message : String(err);
+      result.failed += to.length;
+    }
+
+    const { error: logError } = await supabase.from("notification_logs").insert(
+      to.map((recipient) => ({
+        event,
+        ref_id: refId,
+        audience: item.audience,
+        recipient,
+        transport: transport.name,
+        status: sendError ? "failed" : "sent",
+        error: sendError,
+      }))
+    );
+    if (logError) console.error("[notifications] failed to write log", logError);
+  }
+
+  return result;
+}
+
+/**
+ * 予約リクエスト（SlotPicker からの新規予約）の通知
+ * - 予約が見つからない・受付から時間がたっている場合は null
+ */
+export async function notifyAppointmentRequested(
+  supabase: SupabaseClient,
+  appointmentId: string,
+  transport: EmailTransport,
+  options: NotifyOptions
+): Promise<NotifyResult | null> {
+  const now = options.now ?? new Date();
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(
+      "id, created_at, patient_id, pharmacist_id, booking_type, scheduled_start, scheduled_end, memo, contact"
+    )
+    .eq("id", appointmentId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const appt = data as Pick<
+    Appointment,
+    | "id"
+    | "created_at"
+    | "patient_id"
+    | "pharmacist_id"
+    | "booking_type"
+    | "scheduled_start"
+    | "scheduled_end"
+    | "memo"
+    | "contact"
+  > | null;
+  if (!appt || isStale(appt.created_at, now)) return null;
+
+  const [staff, patient, latestContacts] = await Promise.all([
+    fetchStaffContact(supabase, appt.pharmacist_id),
+    fetchPatient(supabase, appt.patient_id),
+    appt.patient_id
+      ? fetchLatestContactRequests(supabase, [appt.patient_id])
+      : Promise.resolve(new Map<string, ContactRequest>()),
+  ]);
+
+  const latestContact = appt.patient_id ? latestContacts.get(appt.patient_id) : undefined;
+  const notice = {
+    patientName: patient?.name ?? null,
+    pharmacistName: staff.pharmacist?.name ?? null,
+    storeName: staff.store?.name ?? null,
+    bookingType: appt.booking_type,
+    scheduledStart: appt.scheduled_start,
+    scheduledEnd: appt.scheduled_end,
+    memo: appt.memo,
+    patientContact:
+      appt.contact ?? (latestContact ? formatContactRequest(latestContact) : null) ?? patient?.email ?? null,
+  };
+
+  return deliver(supabase, transport, "appointment_requested", appt.id, [
+    {
+      audience: "staff",
+      to: staffRecipients(staff, options.staffFallbackEmail),
+      content: appointmentRequestedStaffEmail(notice, {
+        bookingsUrl: `${options.baseUrl}/pharmacy/bookings`,
+      }),
+    },
+    {
+      audience: "patient",
+      to: uniqueEmails([patient?.email]),
+      content: appointmentRequestedPatientEmail(notice, {
+        mypageUrl: `${options.baseUrl}/mypage`,
+      }),
+    },
+  ]);
+}
+
+/**
+ * 連絡希望（/result の連絡先フォーム）の通知
+ * - 患者の控えは、フォームに入力されたメールアドレス → 登録メールアドレスの順で送る
+ */
+export async function notifyContactRequested(
+  supabase: SupabaseClient,
+  contactRequestId: string,
+  transport: EmailTransport,
+  options: NotifyOptions
+): Promise<NotifyResult | null> {
+  const now = options.now ?? new Date();
+  const { data, error } = await supabase
+    .from("contact_requests")
+    .select("*")
+    .eq("id", contactRequestId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const req = data as ContactRequest | null;
+  if (!req || req.source !== "form" || isStale(req.created_at, now)) return null;
+
+  const [staff, patient] = await Promise.all([
+    fetchStaffContact(supabase, req.pharmacist_id),
+    fetchPatient(supabase, req.patient_id),
+  ]);
+
+  const notice = {
+    patientName: patient?.name ?? null,
+    pharmacistName: staff.pharmacist?.name ?? null,
+    intent: req.intent,
+    contact: formatContactRequest(req),
+    message: req.message,
+  };
+
+  return deliver(supabase, transport, "contact_requested", req.id, [
+    {
+      audience: "staff",
+      to: staffRecipients(staff, options.staffFallbackEmail),
+      content: contactRequestedStaffEmail(notice, {
+        dashboardUrl: `${options.baseUrl}/pharmacy/dashboard`,
+      }),
+    },
+    {
+      audience: "patient",
+      to: uniqueEmails([req.email ?? patient?.email]),
+      content: contactRequestedPatientEmail(notice),
+    },
+  ]);
+}
@@ -0,0 +1,216 @@
+// src/lib/notifications/smtp.ts
+import net from "node:net";
+import tls from "node:tls";
+import { withTimeout } from "../withTimeout";
+
+/**
+ * 最小限の SMTP クライアント（通知メールの送信用）
+ * - 465 番などの SMTPS（secure）と、STARTTLS に対応
+ * - 認証は AUTH PLAIN のみ。暗号化されていない接続ではパスワードを送らない
+ * - 接続（TLS の握手を含む）とコマンドごとの応答待ちに timeoutMs の上限を付ける
+ */
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** true: 最初から TLS（465 番）、false: 平文で接続して STARTTLS があれば切り替える */
+  secure: boolean;
+  user?: string | null;
+  pass?: string | null;
+  /** EHLO で名乗るホスト名 */
+  clientName?: string;
+  /** 接続・コマンド1つあたりの待ち時間の上限（既定 15 秒） */
+  timeoutMs?: number;
+};
+
+type SmtpReply = { code: number; text: string };
+
+const CRLF = "\r\n";
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+/** 応答（複数行の "250-..." は最後の "250 ..." までで1つ）を順に受け取る */
+function createReplyReader() {
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void }[] = [];
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let index = buffer.indexOf("\n");
+      while (index >= 0) {
+        const line = buffer.slice(0, index).replace(/\r$/, "");
+        buffer = buffer.slice(index + 1);
+        lines.push(line);
+        if (/^\d{3}(?: |$)/.test(line)) {
+          const reply = {
+            code: Number(line.slice(0, 3)),
+            text: lines.map((l) => l.slice(4)).join("\n"),
+          };
+          lines = [];
+          const waiter = waiters.shift();
+          if (waiter) waiter.resolve(reply);
+          else replies.push(reply);
+        }
+        index = buffer.indexOf("\n");
+      }
+    },
+    fail(err: Error) {
+      failure = err;
+      waiters.splice(0).forEach((w) => w.reject(err));
+    },
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    },
+  };
+}
+
+type Connection = {
+  socket: net.Socket;
+  reader: ReturnType<typeof createReplyReader>;
+  timeoutMs: number;
+  detach: () => void;
+};
+
+function attach(socket: net.Socket, timeoutMs: number): Connection {
+  const reader = createReplyReader();
+  const onData = (chunk: Buffer | string) => reader.push(chunk.toString());
+  const onError = (err: Error) => reader.fail(err);
+  const onClose = () => reader.fail(new Error("SMTP サーバーとの接続が切れました。"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+  socket.setTimeout(timeoutMs, () =>
+    socket.destroy(new Error("SMTP サーバーの応答がタイムアウトしました。"))
+  );
+
+  return {
+    socket,
+    reader,
+    timeoutMs,
+    detach: () => {
+      socket.removeListener("data", onData);
+      socket.removeListener("error", onError);
+      socket.removeListener("close", onClose);
+      socket.setTimeout(0);
+    },
+  };
+}
+
+/** 接続できるまで待つ。timeoutMs を過ぎたらソケットを閉じて失敗にする */
+async function connected(
+  socket: net.Socket,
+  event: "connect" | "secureConnect",
+  timeoutMs: number,
+  label: string
+): Promise<net.Socket> {
+  const ready = new Promise<net.Socket>((resolve, reject) => {
+    socket.once(event, () => resolve(socket));
+    socket.once("error", reject);
+  });
+  try {
+    return await withTimeout(ready, timeoutMs, label);
+  } catch (err) {
+    socket.destroy();
+    throw err;
+  }
+}
+
+function open(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  const label = `SMTP connect ${config.host}:${config.port}`;
+  return config.secure
+    ? connected(
+        tls.connect({ host: config.host, port: config.port, servername: config.host }),
+        "secureConnect",
+        timeoutMs,
+        label
+      )
+    : connected(net.connect({ host: config.host, port: config.port }), "connect", timeoutMs, label);
+}
+
+function startTls(socket: net.Socket, host: string, timeoutMs: number): Promise<net.Socket> {
+  return connected(
+    tls.connect({ socket, servername: host }),
+    "secureConnect",
+    timeoutMs,
+    `SMTP STARTTLS ${host}`
+  );
+}
+
+/**
+ * コマンドを送って応答を待つ
+ * - エラーメッセージにはコマンド名だけを入れる（AUTH の中身を残さない）
+ */
+async function command(
+  conn: Connection,
+  line: string | null,
+  expected: number[]
+): Promise<SmtpReply> {
+  const verb = line === null ? "接続" : line.split(" ")[0];
+  if (line !== null) conn.socket.write(`${line}${CRLF}`);
+  // 少しずつ届き続ける応答でも打ち切れるよう、ソケットの無通信タイムアウトとは別に上限を付ける
+  // （タイムアウトしたら sendSmtpMail の finally で接続を閉じる）
+  const reply = await withTimeout(conn.reader.next(), conn.timeoutMs, `SMTP ${verb}`);
+  if (!expected.includes(reply.code)) {
+    throw new Error(`SMTP エラー（${verb}）：${reply.code} ${reply.text}`);
+  }
+  return reply;
+}
+
+/** 本文中の行頭の "." を ".." にする（RFC 5321 4.5.2） */
+export function dotStuff(data: string): string {
+  const stuffed = data.replace(/\r\n\./g, "\r\n..").replace(/^\./, "..");
+  return stuffed.endsWith(CRLF) ? stuffed : `${stuffed}${CRLF}`;
+}
+
+export async function sendSmtpMail(
+  config: SmtpConfig,
+  envelope: { from: string; to: string[] },
+  data: string
+): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const clientName = config.clientName ?? "localhost";
+  let conn = attach(await open(config, timeoutMs), timeoutMs);
+
+  try {
+    await command(conn, null, [220]);
+    let ehlo = await command(conn, `EHLO ${clientName}`, [250]);
+    let encrypted = config.secure;
+
+    if (!encrypted && /^STARTTLS\b/im.test(ehlo.text)) {
+      await command(conn, "STARTTLS", [220]);
+      conn.detach();
+      conn = attach(await startTls(conn.socket, config.host, timeoutMs), timeoutMs);
+      encrypted = true;
+      ehlo = await command(conn, `EHLO ${clientName}`, [250]);
+    }
+
+    if (config.user) {
+      if (!encrypted) {
+        throw new Error("暗号化されていない SMTP 接続では認証できません。");
+      }
+      const token = Buffer.from(`\u0000${config.user}\u0000${config.pass ?? ""}`, "utf8").toString(
+        "base64"
+      );
+      await command(conn, `AUTH PLAIN ${token}`, [235]);
+    }
+
+    await command(conn, `MAIL FROM:<${envelope.from}>`, [250]);
+    for (const rcpt of envelope.to) {
+      await command(conn, `RCPT TO:<${rcpt}>`, [250, 251]);
+    }
+    await command(conn, "DATA", [354]);
+    conn.socket.write(dotStuff(data));
+    await command(conn, ".", [250]);
+    await command(conn, "QUIT", [221]).catch(() => undefined);
+  } finally {
+    conn.detach();
+    conn.socket.destroy();
+  }
+}
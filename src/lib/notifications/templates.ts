@@ -0,0 +1,236 @@
+// src/lib/notifications/templates.ts
+import type { BookingType, ContactIntent } from "@/types/supabase";
+import { formatJstDateLabel, formatJstTime, toJstDate } from "../scheduling/slots";
+import { CONTACT_INTENT_LABEL } from "../contact/validation";
+
+/**
+ * 通知メールの文面
+ * - 薬局スタッフ向けには連絡先・相談メモまで載せる
+ * - 患者向けの控えには連絡先・メモを載せない（転送・誤送信に備えて）
+ */
+
+export type EmailContent = { subject: string; text: string };
+
+export type AppointmentNotice = {
+  patientName: string | null;
+  pharmacistName: string | null;
+  storeName: string | null;
+  bookingType: BookingType | null;
+  scheduledStart: string | null;
+  scheduledEnd: string | null;
+  memo: string | null;
+  /** 患者の連絡先（スタッフ向けのみ） */
+  patientContact: string | null;
+};
+
+export type ContactNotice = {
+  patientName: string | null;
+  pharmacistName: string | null;
+  intent: ContactIntent;
+  contact: string;
+  message: string | null;
+};
+
+const BOOKING_TYPE_LABEL: Record<BookingType, string> = {
+  online: "オンライン相談",
+  phone: "電話相談",
+  in_person: "店舗相談",
+};
+
+const SERVICE_NAME = "ヒトヤク";
+const FOOTER = [
+  "",
+  "――",
+  `${SERVICE_NAME}（このメールは送信専用です。返信には対応していません）`,
+];
+
+function patientLabel(name: string | null): string {
+  return name ? `${name} 様` : "お名前未登録の方";
+}
+
+/** "10/20（火）10:00〜10:30" */
+export function formatScheduleLabel(start: string | null, end: string | null): string {
+  if (!start) return "日時未定";
+  const date = formatJstDateLabel(toJstDate(new Date(start)));
+  return `${date} ${formatJstTime(start)}〜${end ? formatJstTime(end) : ""}`;
+}
+
+function lines(...rows: (string | null | false)[]): string {
+  return rows.filter((r): r is string => typeof r === "string").join("\n");
+}
+
+export function appointmentRequestedStaffEmail(
+  notice: AppointmentNotice,
+  options: { bookingsUrl: string }
+): EmailContent {
+  const schedule = formatScheduleLabel(notice.scheduledStart, notice.scheduledEnd);
+  return {
+    subject: `【${SERVICE_NAME}】新しい予約リクエスト：${schedule}`,
+    text: lines(
+      "新しい予約リクエストが届きました。内容を確認して、確定の操作をお願いします。",
+      "",
+      `日時　　：${schedule}`,
+      `相談方法：${notice.bookingType ? BOOKING_TYPE_LABEL[notice.bookingType] : "未設定"}`,
+      `患者　　：${patientLabel(notice.patientName)}`,
+      `担当　　：${notice.pharmacistName ?? "未設定"}${notice.storeName ? `（${notice.storeName}）` : ""}`,
+      notice.patientContact ? `連絡先　：${notice.patientContact}` : null,
+      notice.memo ? `相談メモ：${notice.memo}` : null,
+      "",
+      `予約の確認・確定：${options.bookingsUrl}`,
+      ...FOOTER
+    ),
+  };
+}
+
+export function appointmentRequestedPatientEmail(
+  notice: AppointmentNotice,
+  options: { mypageUrl: string }
+): EmailContent {
+  const schedule = formatScheduleLabel(notice.scheduledStart, notice.scheduledEnd);
+  return {
+    subject: `【${SERVICE_NAME}】ご予約を受け付けました（${schedule}）`,
+    text: lines(
+      `${patientLabel(notice.patientName)}`,
+      "",
+      "ご予約のリクエストを受け付けました。",
+      "薬剤師が内容を確認し、確定したらあらためてご連絡します。",
+      "",
+      `日時　　：${schedule}`,
+      `相談方法：${notice.bookingType ? BOOKING_TYPE_LABEL[notice.bookingType] : "未設定"}`,
+      `担当　　：${notice.pharmacistName ?? "未設定"}${notice.storeName ? `（${notice.storeName}）` : ""}`,
+      "",
+      `予約の確認・日時の変更・キャンセル：${options.mypageUrl}`,
+      ...FOOTER
+    ),
+  };
+}
+
+export function appointmentReminderEmail(
+  notice: AppointmentNotice,
+  options: { mypageUrl: string }
+): EmailContent {
+  const schedule = formatScheduleLabel(notice.scheduledStart, notice.scheduledEnd);
+  return {
+    subject: `【${SERVICE_NAME}】ご予約のお知らせ（${schedule}）`,
+    text: lines(
+      `${patientLabel(notice.patientName)}`,
+      "",
+      "ご予約の日時が近づいてきましたのでお知らせします。",
+      "",
+      `日時　　：${schedule}`,
+      `相談方法：${notice.bookingType ? BOOKING_TYPE_LABEL[notice.bookingType] : "未設定"}`,
+      `担当　　：${notice.pharmacistName ?? "未設定"}${notice.storeName ? `（${notice.storeName}）` : ""}`,
+      "",
+      `日時の変更・キャンセル：${options.mypageUrl}`,
+      ...FOOTER
+    ),
+  };
+}
+
+export function contactRequestedStaffEmail(
+  notice: ContactNotice,
+  options: { dashboardUrl: string }
+): EmailContent {
+  const intent = CONTACT_INTENT_LABEL[notice.intent];
+  return {
+    subject: `【${SERVICE_NAME}】連絡の希望が届きました（${intent}）`,
+    text: lines(
+      "患者さんから連絡の希望が届きました。記載の連絡先にご連絡をお願いします。",
+      "",
+      `希望内容：${intent}`,
+      `患者　　：${patientLabel(notice.patientName)}`,
+      notice.pharmacistName ? `希望薬剤師：${notice.pharmacistName}` : null,
+      `連絡先　：${notice.contact}`,
+      notice.message ? `相談したいこと：${notice.message}` : null,
+      "",
+      `管理画面：${options.dashboardUrl}`,
+      ...FOOTER
+    ),
+  };
+}
+
+export function contactRequestedPatientEmail(notice: ContactNotice): EmailContent {
+  const intent = CONTACT_INTENT_LABEL[notice.intent];
+  return {
+    subject: `【${SERVICE_NAME}】連絡のご希望を受け付けました`,
+    text: lines(
+      `${patientLabel(notice.patientName)}`,
+      "",
+      `「${intent}」としてご連絡の希望を受け付けました。`,
+      notice.pharmacistName
+        ? `${notice.pharmacistName} または薬局のスタッフから、ご登録の連絡先にご連絡します。`
+        : "薬局のスタッフから、ご登録の連絡先にご連絡します。",
+      ...FOOTER
+    ),
+  };
+}
+
+export type FollowUpEscalationNotice = {
+  storeName: string | null;
+  /** 期限を過ぎた患者（優先度「高」） */
+  patients: {
+    name: string | null;
+    pharmacistName: string | null;
+    nextContactAt: string;
+    daysOverdue: number;
+  }[];
+};
+
+/** 店長あて：優先度「高」の患者のフォローが期限を過ぎている */
+export function followUpEscalationEmail(
+  notice: FollowUpEscalationNotice,
+  options: { followUpsUrl: string }
+): EmailContent {
+  return {
+    subject: `【${SERVICE_NAME}】フォローが遅れている患者が${notice.patients.length}名います`,
+    text: lines(
+      `${notice.storeName ? `${notice.storeName} ` : ""}店長 様`,
+      "",
+      "優先度「高」の患者のうち、次回フォロー予定日を過ぎたままの方がいます。担当薬剤師と状況の確認をお願いします。",
+      "",
+      ...notice.patients.map(
+        (p) =>
+          `・${patientLabel(p.name)}（担当：${p.pharmacistName ?? "未設定"}）予定 ${formatJstDateLabel(
+            toJstDate(new Date(p.nextContactAt))
+          )}・${p.daysOverdue}日超過`
+      ),
+      "",
+      `今日のフォロー：${options.followUpsUrl}`,
+      ...FOOTER
+    ),
+  };
+}
+
+export type ContractRenewalNotice = {
+  patientName: string | null;
+  pharmacistName: string | null;
+  planLabel: string;
+  endDate: string;
+  daysLeft: number;
+  autoRenew: boolean;
+};
+
+/** 薬局スタッフあて：顧問契約の満了が近い */
+export function contractRenewalReminderEmail(
+  notice: ContractRenewalNotice,
+  options: { patientUrl: string }
+): EmailContent {
+  const endDate = formatJstDateLabel(notice.endDate);
+  return {
+    subject: `【${SERVICE_NAME}】顧問契約の満了が近づいています（${patientLabel(notice.patientName)}・${endDate}）`,
+    text: lines(
+      `顧問契約の満了まであと${notice.daysLeft}日です。`,
+      notice.autoRenew
+        ? "この契約は自動更新の設定になっています。満了日の翌日に同じ条件で更新されます。更新しない場合は自動更新を外してください。"
+        : "この契約は自動更新になっていません。継続する場合は、患者さんに確認のうえ更新の操作をお願いします。",
+      "",
+      `患者　　：${patientLabel(notice.patientName)}`,
+      `担当　　：${notice.pharmacistName ?? "未設定"}`,
+      `プラン　：${notice.planLabel}`,
+      `満了日　：${endDate}`,
+      "",
+      `契約の確認・更新：${options.patientUrl}`,
+      ...FOOTER
+    ),
+  };
+}
@@ -0,0 +1,119 @@
+// src/lib/notifications/transport.ts
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { addressOf, buildMimeMessage } from "./mime";
+import { sendSmtpMail, type SmtpConfig } from "./smtp";
+
+/**
+ * 通知メールの送り方（差し替え可能）
+ * - smtp    : 本番用。SMTP サーバー経由で送る
+ * - file    : 開発用。.eml ファイルとして保存する（メールソフトで開ける）
+ * - console : 開発・テスト用。ログに出すだけ（本番では使えない）
+ *
+ * 環境変数（サーバー側のみ）
+ * - NOTIFY_TRANSPORT : smtp | file | console（未設定なら console。本番（NODE_ENV=production）では必須）
+ * - NOTIFY_FROM      : 差出人（例：ヒトヤク <no-reply@example.com>）
+ * - SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS
+ * - NOTIFY_FILE_DIR  : file のときの保存先（未設定なら .mail-outbox）
+ */
+
+export type EmailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+  replyTo?: string | null;
+};
+
+export interface EmailTransport {
+  /** notification_logs に残す名前 */
+  name: "smtp" | "file" | "console";
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const DEFAULT_NOTIFY_FROM = "ヒトヤク <no-reply@hito-yaku.local>";
+const DEFAULT_FILE_DIR = ".mail-outbox";
+
+export function createConsoleTransport(
+  log: (...args: unknown[]) => void = console.log
+): EmailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      log(`[mail] to=${message.to.join(", ")} subject=${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+export function createFileTransport(
+  dir: string,
+  from: string = DEFAULT_NOTIFY_FROM
+): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const date = new Date();
+      const name = `${date.toISOString().replace(/[:.]/g, "-")}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}.eml`;
+      await writeFile(path.join(dir, name), buildMimeMessage({ ...message, from }, { date }));
+    },
+  };
+}
+
+export function createSmtpTransport(
+  config: SmtpConfig,
+  from: string = DEFAULT_NOTIFY_FROM
+): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      await sendSmtpMail(
+        config,
+        { from: addressOf(from), to: message.to.map(addressOf) },
+        buildMimeMessage({ ...message, from })
+      );
+    },
+  };
+}
+
+/**
+ * 環境変数から送り方を決める
+ * - smtp を指定して SMTP_HOST がないときは設定ミスなのでエラー
+ * - 本番で console になる（未設定を含む）ときも設定ミスとしてエラー。通知が届かないまま個人情報がログに残るため
+ */
+export function transportFromEnv(
+  env: Record<string, string | undefined> = process.env
+): EmailTransport {
+  const kind = (env.NOTIFY_TRANSPORT?.trim() || "console").toLowerCase();
+  const from = env.NOTIFY_FROM?.trim() || DEFAULT_NOTIFY_FROM;
+
+  if (kind === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new Error("NOTIFY_TRANSPORT=smtp ですが SMTP_HOST が設定されていません。");
+    }
+    const secure = env.SMTP_SECURE === "true" || env.SMTP_PORT === "465";
+    return createSmtpTransport(
+      {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || null,
+        pass: env.SMTP_PASS || null,
+      },
+      from
+    );
+  }
+  if (kind === "file") {
+    return createFileTransport(env.NOTIFY_FILE_DIR?.trim() || DEFAULT_FILE_DIR, from);
+  }
+  if (kind === "console") {
+    if (env.NODE_ENV === "production") {
+      throw new Error(
+        "本番環境では NOTIFY_TRANSPORT（smtp または file）を設定してください。console は開発・テスト用です。"
+      );
+    }
+    return createConsoleTransport();
+  }
+  throw new Error(`NOTIFY_TRANSPORT の値が不正です（${kind}）。`);
+}
@@ -0,0 +1,125 @@
+// src/lib/prm/api.ts
+import type { AdvisorContract, PatientLog, RelationStatusEvent } from "@/types/prm";
+import type {
+  PrmContractResult,
+  PrmDataSource,
+  PrmFollowUpResult,
+  PrmPatientDetail,
+  PrmPatientList,
+} from "./repository";
+
+/**
+ * 薬局画面用の PrmDataSource（ブラウザ用）
+ * - 読み書きは /api/pharmacy/prm が自社の患者に絞って行う（ブラウザ側では絞り込まない）
+ */
+
+async function callPrmApi<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+    cache: "no-store",
+  });
+  const json = (await res.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!res.ok || !json) {
+    throw new Error(json?.error ?? "データ取得に失敗しました。");
+  }
+  return json;
+}
+
+export function createPrmApiDataSource(baseUrl = "/api/pharmacy/prm"): PrmDataSource {
+  const patientUrl = (patientId: string) =>
+    `${baseUrl}/patients/${encodeURIComponent(patientId)}`;
+  const contractUrl = (contractId: string) =>
+    `${baseUrl}/contracts/${encodeURIComponent(contractId)}`;
+
+  return {
+    listPatients: () => callPrmApi<PrmPatientList>(`${baseUrl}/patients`),
+
+    async getPatient(patientId) {
+      const json = await callPrmApi<{ detail: PrmPatientDetail | null }>(patientUrl(patientId));
+      return json.detail;
+    },
+
+    async listLogs(patientId) {
+      const json = await callPrmApi<{ logs: PatientLog[] }>(`${patientUrl(patientId)}/logs`);
+      return json.logs;
+    },
+
+    async updatePatient(patientId, patch) {
+      await callPrmApi<{ ok: true }>(patientUrl(patientId), {
+        method: "PATCH",
+        body: JSON.stringify(patch),
+      });
+    },
+
+    async createLog(patientId, input) {
+      const json = await callPrmApi<{ log: PatientLog }>(`${patientUrl(patientId)}/logs`, {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+      return json.log;
+    },
+
+    logFollowUp: (patientId, input) =>
+      callPrmApi<PrmFollowUpResult>(`${patientUrl(patientId)}/follow-up`, {
+        method: "POST",
+        body: JSON.stringify(input),
+      }),
+
+    async searchLogs(keyword) {
+      if (!keyword.trim()) return [];
+      const json = await callPrmApi<{ patientIds: string[] }>(
+        `${baseUrl}/logs/search?q=${encodeURIComponent(keyword)}`
+      );
+      return json.patientIds;
+    },
+
+    async listStatusEvents(patientId) {
+      const json = await callPrmApi<{ events: RelationStatusEvent[] }>(
+        `${patientUrl(patientId)}/status`
+      );
+      return json.events;
+    },
+
+    async moveRelationStatus(patientId, input) {
+      const json = await callPrmApi<{ event: RelationStatusEvent | null }>(
+        `${patientUrl(patientId)}/status`,
+        { method: "POST", body: JSON.stringify(input) }
+      );
+      return json.event;
+    },
+
+    async listContracts() {
+      const json = await callPrmApi<{ contracts: AdvisorContract[] }>(`${baseUrl}/contracts`);
+      return json.contracts;
+    },
+
+    async listPatientContracts(patientId) {
+      const json = await callPrmApi<{ contracts: AdvisorContract[] }>(
+        `${patientUrl(patientId)}/contracts`
+      );
+      return json.contracts;
+    },
+
+    createContract: (patientId, input) =>
+      callPrmApi<PrmContractResult>(`${patientUrl(patientId)}/contracts`, {
+        method: "POST",
+        body: JSON.stringify(input),
+      }),
+
+    async renewContract(contractId) {
+      const json = await callPrmApi<{ contract: AdvisorContract }>(
+        `${contractUrl(contractId)}/renew`,
+        { method: "POST", body: JSON.stringify({}) }
+      );
+      return json.contract;
+    },
+
+    async setContractAutoRenew(contractId, autoRenew) {
+      await callPrmApi<{ ok: true }>(contractUrl(contractId), {
+        method: "PATCH",
+        body: JSON.stringify({ auto_renew: autoRenew }),
+      });
+    },
+  };
+}
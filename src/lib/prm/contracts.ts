@@ -0,0 +1,213 @@
+// src/lib/prm/contracts.ts
+import type { AdvisorContract, AdvisorPlan, PatientLog } from "@/types/prm";
+import { toJstDate } from "../scheduling/slots";
+
+/**
+ * 顧問契約（プラン・期間・更新・月あたりの相談回数）
+ * - 日付はすべて日本時間の "YYYY-MM-DD" で扱う
+ * - 相談回数は patient_logs の contact_at を暦月（日本時間）で数える
+ * - 更新リマインドの送信・自動更新は lib/jobs/contractJobs.ts
+ */
+
+export const ADVISOR_PLANS: AdvisorPlan[] = ["light", "standard", "premium"];
+
+export const ADVISOR_PLAN_LABEL: Record<AdvisorPlan, string> = {
+  light: "ライト",
+  standard: "スタンダード",
+  premium: "プレミアム",
+};
+
+/** 新規登録フォームの初期値（契約ごとに変更できる） */
+export const ADVISOR_PLAN_DEFAULTS: Record<
+  AdvisorPlan,
+  { monthlyFee: number; monthlyAllowance: number }
+> = {
+  light: { monthlyFee: 3000, monthlyAllowance: 1 },
+  standard: { monthlyFee: 5000, monthlyAllowance: 2 },
+  premium: { monthlyFee: 10000, monthlyAllowance: 4 },
+};
+
+export const CONTRACT_TERM_OPTIONS: { months: number; label: string }[] = [
+  { months: 3, label: "3か月" },
+  { months: 6, label: "6か月" },
+  { months: 12, label: "1年" },
+];
+
+/** 満了までこの日数以内の契約を「更新が近い」として一覧・ダッシュボードに出す */
+export const CONTRACT_EXPIRING_DAYS = 30;
+
+/** 満了の何日前に更新リマインドを送るか（大きい順） */
+export const CONTRACT_RENEWAL_REMINDER_DAYS = [30, 7];
+
+export type ContractState = "scheduled" | "active" | "expiring" | "expired";
+
+export const CONTRACT_STATE_LABEL: Record<ContractState, string> = {
+  scheduled: "開始前",
+  active: "契約中",
+  expiring: "更新が近い",
+  expired: "満了",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateValue(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+function formatDateValue(value: number): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+/** b - a（日数） */
+export function daysBetween(a: string, b: string): number {
+  return Math.round((dateValue(b) - dateValue(a)) / DAY_MS);
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDateValue(dateValue(date) + days * DAY_MS);
+}
+
+/**
+ * start から months か月の契約の最終日
+ * - 例：2025-04-01 から12か月 → 2026-03-31
+ * - 開始日と同じ日が終わりの月にないとき（1/31 開始の1か月など）は、その月の末日まで（→ 2/28）
+ */
+export function contractEndDate(start: string, months: number): string {
+  const [y, m, d] = start.split("-").map(Number);
+  const monthIndex = m - 1 + months;
+  const year = y + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  if (d > lastDay) return formatDateValue(Date.UTC(year, month, lastDay));
+  return formatDateValue(Date.UTC(year, month, d) - DAY_MS);
+}
+
+/** 契約期間の月数（更新時に同じ長さで延ばすため） */
+export function contractTermMonths(
+  contract: Pick<AdvisorContract, "start_date" | "end_date">
+): number {
+  const [sy, sm] = contract.start_date.split("-").map(Number);
+  const [ey, em] = addDays(contract.end_date, 1).split("-").map(Number);
+  const months = (ey - sy) * 12 + (em - sm);
+  // 月末に切り詰めた契約（1/31〜2/28）は翌日が翌々月になるので、1か月少ない方も確かめる
+  if (months > 1 && contractEndDate(contract.start_date, months - 1) === contract.end_date) {
+    return months - 1;
+  }
+  return Math.max(1, months);
+}
+
+export function contractState(
+  contract: Pick<AdvisorContract, "start_date" | "end_date">,
+  today: string
+): ContractState {
+  if (today < contract.start_date) return "scheduled";
+  const left = daysBetween(today, contract.end_date);
+  if (left < 0) return "expired";
+  return left <= CONTRACT_EXPIRING_DAYS ? "expiring" : "active";
+}
+
+export function isRenewed(contract: AdvisorContract, contracts: AdvisorContract[]): boolean {
+  return contracts.some((c) => c.renewed_from_id === contract.id);
+}
+
+/** 今日有効な契約（重なっていたら新しく始まったほう） */
+export function currentContract(
+  contracts: AdvisorContract[],
+  today: string
+): AdvisorContract | null {
+  const active = contracts
+    .filter((c) => c.start_date <= today && today <= c.end_date)
+    .sort((a, b) => (a.start_date < b.start_date ? 1 : -1));
+  return active[0] ?? null;
+}
+
+/**
+ * 更新が近い契約（満了まで CONTRACT_EXPIRING_DAYS 日以内で、まだ更新していないもの）
+ * - 満了の近い順
+ */
+export function expiringContracts(
+  contracts: AdvisorContract[],
+  today: string
+): AdvisorContract[] {
+  return contracts
+    .filter((c) => contractState(c, today) === "expiring" && !isRenewed(c, contracts))
+    .sort((a, b) => (a.end_date < b.end_date ? -1 : 1));
+}
+
+/** 同じ条件・同じ長さで、満了日の翌日から始まる次の契約 */
+export function renewalOf(
+  contract: AdvisorContract
+): Omit<AdvisorContract, "id" | "created_at"> {
+  const start = addDays(contract.end_date, 1);
+  return {
+    patient_id: contract.patient_id,
+    pharmacy_id: contract.pharmacy_id,
+    plan: contract.plan,
+    start_date: start,
+    end_date: contractEndDate(start, contractTermMonths(contract)),
+    auto_renew: contract.auto_renew,
+    monthly_fee: contract.monthly_fee,
+    monthly_allowance: contract.monthly_allowance,
+    renewed_from_id: contract.id,
+    note: contract.note,
+  };
+}
+
+export type ContractUsage = {
+  /** 集計した月（"YYYY-MM"） */
+  month: string;
+  used: number;
+  allowance: number;
+  remaining: number;
+  over: boolean;
+};
+
+/**
+ * 今月（日本時間）の相談回数
+ * - 契約期間外の相談ログは数えない
+ */
+export function contractUsage(
+  contract: Pick<AdvisorContract, "start_date" | "end_date" | "monthly_allowance">,
+  logs: Pick<PatientLog, "contact_at">[],
+  now: Date
+): ContractUsage {
+  const month = toJstDate(now).slice(0, 7);
+  const used = logs.filter((log) => {
+    const date = toJstDate(new Date(log.contact_at));
+    return (
+      date.slice(0, 7) === month && contract.start_date <= date && date <= contract.end_date
+    );
+  }).length;
+  return {
+    month,
+    used,
+    allowance: contract.monthly_allowance,
+    remaining: Math.max(0, contract.monthly_allowance - used),
+    over: used > contract.monthly_allowance,
+  };
+}
+
+export type DueRenewalReminder = {
+  /** 実際に送るタイミング（満了の何日前か） */
+  send: number;
+  /** 送ったことにする全タイミング（取りこぼした前のタイミングも含む） */
+  mark: number[];
+};
+
+/**
+ * 今送るべき更新リマインド
+ * - 満了前で、まだ更新していない契約だけ
+ * - 実行が遅れて複数のタイミングが同時に来たときは、満了に近いほうの1通だけ送る
+ */
+export function dueRenewalReminder(
+  contract: Pick<AdvisorContract, "end_date">,
+  offsets: number[],
+  sentDays: number[],
+  today: string
+): DueRenewalReminder | null {
+  const left = daysBetween(today, contract.end_date);
+  if (left < 0) return null;
+  const due = offsets.filter((days) => left <= days && !sentDays.includes(days));
+  if (due.length === 0) return null;
+  return { send: Math.min(...due), mark: due };
+}
@@ -0,0 +1,136 @@
+// src/lib/prm/followUps.ts
+import type { PatientWithPrm } from "@/types/prm";
+import { fromJst, toJstDate } from "../scheduling/slots";
+
+/**
+ * フォローの作業キュー（next_contact_at と priority から「今日やること」を作る）
+ * - 日付は日本時間で区切る：期限超過 / 今日 / 今週（明日から FOLLOW_UP_WINDOW_DAYS 日以内）
+ * - 対応終了（ended）の患者は入れない
+ * - 優先度「高」で期限を ESCALATION_OVERDUE_DAYS 日以上過ぎたものは店長にエスカレーションする
+ */
+
+export type FollowUpBucket = "overdue" | "today" | "this_week";
+
+export const FOLLOW_UP_BUCKETS: FollowUpBucket[] = ["overdue", "today", "this_week"];
+
+export const FOLLOW_UP_BUCKET_LABEL: Record<FollowUpBucket, string> = {
+  overdue: "期限超過",
+  today: "今日",
+  this_week: "今週",
+};
+
+export const FOLLOW_UP_WINDOW_DAYS = 7;
+export const ESCALATION_OVERDUE_DAYS = 1;
+
+export const NEXT_CONTACT_PRESETS: { days: number; label: string }[] = [
+  { days: 7, label: "1週間後" },
+  { days: 14, label: "2週間後" },
+  { days: 30, label: "1か月後" },
+];
+
+export type FollowUpItem = {
+  patient: PatientWithPrm;
+  bucket: FollowUpBucket;
+  /** 期限を過ぎた日数（今日・今週は 0） */
+  daysOverdue: number;
+  escalate: boolean;
+};
+
+export type FollowUpQueue = Record<FollowUpBucket, FollowUpItem[]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 日本時間の日付どうしの差（a - b、日数） */
+function jstDayDiff(a: Date, b: Date): number {
+  return Math.round(
+    (new Date(`${toJstDate(a)}T00:00:00Z`).getTime() -
+      new Date(`${toJstDate(b)}T00:00:00Z`).getTime()) /
+      DAY_MS
+  );
+}
+
+export function followUpBucket(
+  nextContactAt: string | null,
+  now: Date
+): FollowUpBucket | null {
+  if (!nextContactAt) return null;
+  const due = new Date(nextContactAt);
+  if (Number.isNaN(due.getTime())) return null;
+
+  const diff = jstDayDiff(due, now);
+  if (diff < 0) return "overdue";
+  if (diff === 0) return "today";
+  if (diff <= FOLLOW_UP_WINDOW_DAYS) return "this_week";
+  return null;
+}
+
+export function needsEscalation(
+  patient: Pick<PatientWithPrm, "priority" | "relation_status" | "next_contact_at">,
+  now: Date
+): boolean {
+  if (patient.priority !== 1 || patient.relation_status === "ended") return false;
+  if (!patient.next_contact_at) return false;
+  return jstDayDiff(now, new Date(patient.next_contact_at)) >= ESCALATION_OVERDUE_DAYS;
+}
+
+/**
+ * キューを作る
+ * - pharmacistId を渡すとその薬剤師がメイン担当の患者だけ（null は担当未設定の患者）
+ * - 各グループは優先度の高い順、同じなら期限の早い順
+ */
+export function buildFollowUpQueue(
+  patients: PatientWithPrm[],
+  now: Date,
+  options: { pharmacistId?: string | null } = {}
+): FollowUpQueue {
+  const queue: FollowUpQueue = { overdue: [], today: [], this_week: [] };
+
+  patients.forEach((patient) => {
+    if (patient.relation_status === "ended") return;
+    if (
+      options.pharmacistId !== undefined &&
+      (patient.main_pharmacist_id ?? null) !== options.pharmacistId
+    ) {
+      return;
+    }
+    const bucket = followUpBucket(patient.next_contact_at, now);
+    if (!bucket) return;
+
+    queue[bucket].push({
+      patient,
+      bucket,
+      daysOverdue:
+        bucket === "overdue" ? jstDayDiff(now, new Date(patient.next_contact_at!)) : 0,
+      escalate: needsEscalation(patient, now),
+    });
+  });
+
+  FOLLOW_UP_BUCKETS.forEach((bucket) =>
+    queue[bucket].sort(
+      (a, b) =>
+        a.patient.priority - b.patient.priority ||
+        new Date(a.patient.next_contact_at!).getTime() -
+          new Date(b.patient.next_contact_at!).getTime()
+    )
+  );
+  return queue;
+}
+
+/** 希望のフォロー頻度（診断の followup_frequency）から、次回までの日数の初期値 */
+export function defaultNextContactDays(
+  patient: Pick<PatientWithPrm, "followup_frequency">
+): number {
+  if (patient.followup_frequency === "regular") return 14;
+  if (patient.followup_frequency === "monthly") return 30;
+  return 7;
+}
+
+/** from の日本時間の日付から days 日後の 0:00（日本時間） */
+export function scheduleNextContact(from: Date, days: number): string {
+  const date = new Date(
+    new Date(`${toJstDate(from)}T00:00:00Z`).getTime() + days * DAY_MS
+  )
+    .toISOString()
+    .slice(0, 10);
+  return fromJst(date, "00:00").toISOString();
+}
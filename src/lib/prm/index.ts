@@ -0,0 +1,10 @@
+// src/lib/prm/index.ts
+// PRM（患者一覧・詳細・相談ログ・フォローのキュー・ステータスのパイプライン・顧問契約）の公開窓口
+export * from "./labels";
+export * from "./validation";
+export * from "./repository";
+export * from "./followUps";
+export * from "./pipeline";
+export * from "./contracts";
+export * from "./logRecords";
+export * from "./api";
@@ -0,0 +1,25 @@
+// src/lib/prm/labels.ts
+import type { PatientLogChannel, PrmPriority, RelationStatus } from "@/types/prm";
+
+export const RELATION_STATUS_LABEL: Record<RelationStatus, string> = {
+  lead: "見込み",
+  active: "対応中",
+  advisor: "顧問中",
+  ended: "対応終了",
+};
+
+export const RELATION_STATUSES: RelationStatus[] = ["lead", "active", "advisor", "ended"];
+
+export const PRIORITY_LABEL: Record<PrmPriority, string> = {
+  1: "高",
+  2: "中",
+  3: "低",
+};
+
+export const LOG_CHANNEL_OPTIONS: { value: PatientLogChannel; label: string }[] = [
+  { value: "call", label: "電話" },
+  { value: "online", label: "オンライン" },
+  { value: "visit", label: "来局・対面" },
+  { value: "message", label: "メッセージ" },
+  { value: "other", label: "その他" },
+];
@@ -0,0 +1,141 @@
+// src/lib/prm/logRecords.ts
+import type { LogActionItem, PatientLogChannel, PatientLogSoap } from "@/types/prm";
+import { fromJst } from "../scheduling/slots";
+
+/**
+ * 相談ログの構造化記録（SOAP・チャネルごとのテンプレート・薬・対応事項・検索）
+ * - SOAP・薬・対応事項はどれも任意。一行要約とメモだけの記録もこれまでどおり残せる
+ * - 対応事項の期日から次回フォロー予定日を決められる（いちばん早い未完了の期日）
+ */
+
+export type SoapKey = keyof PatientLogSoap;
+
+export const SOAP_SECTIONS: { key: SoapKey; label: string; hint: string }[] = [
+  { key: "subjective", label: "S（主観）", hint: "患者さんの訴え・困りごと" },
+  { key: "objective", label: "O（客観）", hint: "服薬状況・検査値・観察したこと" },
+  { key: "assessment", label: "A（評価）", hint: "薬剤師としての評価・問題点" },
+  { key: "plan", label: "P（計画）", hint: "提案・指導内容・次回までの方針" },
+];
+
+export const SOAP_SECTION_MAX_LENGTH = 2000;
+export const LOG_MEDICATIONS_MAX = 20;
+export const LOG_ACTION_ITEMS_MAX = 10;
+export const ACTION_ITEM_MAX_LENGTH = 200;
+
+/** 「テンプレートを入れる」で、空いている SOAP 欄に入れる書き出し */
+export const LOG_TEMPLATES: Record<PatientLogChannel, Record<SoapKey, string>> = {
+  call: {
+    subjective: "電話での訴え：\n困っていること：",
+    objective: "服薬状況（聞き取り）：\n残薬：",
+    assessment: "",
+    plan: "伝えたこと：\n次回の確認事項：",
+  },
+  online: {
+    subjective: "相談内容：\n症状の経過：",
+    objective: "服薬状況：\n画面越しに確認したこと（表情・お薬手帳など）：",
+    assessment: "",
+    plan: "提案・指導内容：\n次回の確認事項：",
+  },
+  visit: {
+    subjective: "来局時の訴え：",
+    objective: "処方内容の変更：\n残薬・併用薬：\n検査値（持参があれば）：",
+    assessment: "",
+    plan: "服薬指導の内容：\n次回の確認事項：",
+  },
+  message: {
+    subjective: "メッセージの内容：",
+    objective: "",
+    assessment: "",
+    plan: "返信した内容：",
+  },
+  other: {
+    subjective: "",
+    objective: "",
+    assessment: "",
+    plan: "",
+  },
+};
+
+/** 画面の入力欄用（空は ""） */
+export type SoapDraft = Record<SoapKey, string>;
+
+export const EMPTY_SOAP_DRAFT: SoapDraft = {
+  subjective: "",
+  objective: "",
+  assessment: "",
+  plan: "",
+};
+
+/** 入力済みの欄はそのままにして、空いている欄だけテンプレートで埋める */
+export function applyLogTemplate(draft: SoapDraft, channel: PatientLogChannel): SoapDraft {
+  const template = LOG_TEMPLATES[channel];
+  const next = { ...draft };
+  SOAP_SECTIONS.forEach(({ key }) => {
+    if (!next[key].trim()) next[key] = template[key];
+  });
+  return next;
+}
+
+/** 何も書かれていなければ null */
+export function soapFromDraft(draft: Partial<Record<SoapKey, unknown>>): PatientLogSoap | null {
+  const soap: PatientLogSoap = { subjective: null, objective: null, assessment: null, plan: null };
+  let filled = false;
+  SOAP_SECTIONS.forEach(({ key }) => {
+    const value = draft[key];
+    const text = typeof value === "string" ? value.trim() : "";
+    if (text) {
+      soap[key] = text;
+      filled = true;
+    }
+  });
+  return filled ? soap : null;
+}
+
+/** 「ロキソプロフェン, ミヤBM、レバミピド」のような入力を薬剤名の配列にする（重複は除く） */
+export function splitMedications(raw: string): string[] {
+  const names = raw
+    .split(/[,、，\n]/)
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return Array.from(new Set(names));
+}
+
+/**
+ * 対応事項から決める次回フォロー予定日（未完了でいちばん早い期日の 0:00、日本時間）
+ * - 期日のある未完了の対応事項がなければ null
+ */
+export function nextContactFromActionItems(items: LogActionItem[]): string | null {
+  const dates = items
+    .filter((item) => !item.done && item.due_date)
+    .map((item) => item.due_date as string)
+    .sort();
+  return dates.length > 0 ? fromJst(dates[0], "00:00").toISOString() : null;
+}
+
+/** patient_logs.search_text に入れる文字列 */
+export function logSearchText(log: {
+  summary: string;
+  note: string | null;
+  soap?: PatientLogSoap | null;
+  medications?: string[] | null;
+  action_items?: LogActionItem[] | null;
+}): string {
+  const parts: (string | null)[] = [log.summary, log.note];
+  if (log.soap) SOAP_SECTIONS.forEach(({ key }) => parts.push(log.soap[key]));
+  parts.push(...(log.medications ?? []));
+  parts.push(...(log.action_items ?? []).map((item) => item.text));
+  return parts.filter((v): v is string => !!v).join("\n");
+}
+
+/**
+ * キーワードで相談ログを探すときの PostgREST の or 条件
+ * - search_text を入れる前のログも見つかるよう、要約・メモも対象にする
+ * - LIKE の % と _、値のクォートに使う " と \ はエスケープする
+ */
+export function logSearchFilter(keyword: string): string | null {
+  const trimmed = keyword.trim();
+  if (!trimmed) return null;
+  const pattern = `%${trimmed.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  const quoted = `"${pattern.replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+  return ["search_text", "summary", "note"].map((column) => `${column}.ilike.${quoted}`).join(",");
+}
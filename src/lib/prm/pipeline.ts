@@ -0,0 +1,152 @@
+// src/lib/prm/pipeline.ts
+import type { RelationStatus, RelationStatusEvent } from "@/types/prm";
+import { RELATION_STATUSES } from "./labels";
+
+/**
+ * 関係ステータスのパイプライン（見込み → 対応中 → 顧問中 → 対応終了）
+ * - かんばんの列の並びと、変更履歴（relation_status_events）からのファネル集計
+ * - 履歴より前の期間は、患者の登録日から最初の変更までを「最初のステータス」にいたとみなす
+ */
+
+export const RELATION_STATUS_COLUMN_CLASS: Record<RelationStatus, string> = {
+  lead: "border-slate-200 bg-slate-50",
+  active: "border-sky-200 bg-sky-50/60",
+  advisor: "border-emerald-200 bg-emerald-50/60",
+  ended: "border-slate-200 bg-slate-100/60",
+};
+
+/** ダッシュボードに出す転換率（from に入った患者のうち、その後 to まで進んだ割合） */
+export const FUNNEL_CONVERSIONS: { from: RelationStatus; to: RelationStatus }[] = [
+  { from: "lead", to: "active" },
+  { from: "active", to: "advisor" },
+  { from: "lead", to: "advisor" },
+];
+
+export type PipelinePatient = {
+  id: string;
+  created_at: string;
+  relation_status: RelationStatus | null;
+};
+
+export type PipelineEvent = Pick<
+  RelationStatusEvent,
+  "patient_id" | "from_status" | "to_status" | "created_at"
+>;
+
+/** あるステータスにいた期間（endedAt が null は今もそのステータス） */
+export type RelationStint = {
+  status: RelationStatus;
+  startedAt: string;
+  endedAt: string | null;
+};
+
+export type FunnelConversion = {
+  from: RelationStatus;
+  to: RelationStatus;
+  /** from に入ったことのある患者数 */
+  entered: number;
+  /** そのうち、あとで to まで進んだ患者数 */
+  converted: number;
+  rate: number | null;
+};
+
+export type RelationFunnel = {
+  /** 今そのステータスにいる患者数 */
+  counts: Record<RelationStatus, number>;
+  conversions: FunnelConversion[];
+  /** 各ステータスにいた日数の中央値（次に進んだ・戻った期間だけ。まだいる患者は含めない） */
+  medianDays: Record<RelationStatus, number | null>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyByStatus<T>(value: T): Record<RelationStatus, T> {
+  return { lead: value, active: value, advisor: value, ended: value };
+}
+
+/**
+ * 患者1人分のステータスの経過
+ * - events はその患者の履歴（順不同で可）
+ */
+export function relationStints(
+  patient: PipelinePatient,
+  events: PipelineEvent[]
+): RelationStint[] {
+  const sorted = events
+    .filter((e) => e.patient_id === patient.id)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const stints: RelationStint[] = [
+    {
+      status: sorted[0]?.from_status ?? patient.relation_status ?? "lead",
+      startedAt: patient.created_at,
+      endedAt: null,
+    },
+  ];
+  sorted.forEach((event) => {
+    stints[stints.length - 1].endedAt = event.created_at;
+    stints.push({ status: event.to_status, startedAt: event.created_at, endedAt: null });
+  });
+  return stints;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function relationFunnel(
+  patients: PipelinePatient[],
+  events: PipelineEvent[]
+): RelationFunnel {
+  const counts = emptyByStatus(0);
+  const durations: Record<RelationStatus, number[]> = {
+    lead: [],
+    active: [],
+    advisor: [],
+    ended: [],
+  };
+  const conversions: FunnelConversion[] = FUNNEL_CONVERSIONS.map((c) => ({
+    ...c,
+    entered: 0,
+    converted: 0,
+    rate: null,
+  }));
+
+  patients.forEach((patient) => {
+    const stints = relationStints(patient, events);
+    counts[patient.relation_status ?? stints[stints.length - 1].status] += 1;
+
+    stints.forEach((stint) => {
+      if (!stint.endedAt) return;
+      const days =
+        (new Date(stint.endedAt).getTime() - new Date(stint.startedAt).getTime()) / DAY_MS;
+      if (days >= 0) durations[stint.status].push(days);
+    });
+
+    const path = stints.map((s) => s.status);
+    conversions.forEach((c) => {
+      const entered = path.indexOf(c.from);
+      if (entered < 0) return;
+      c.entered += 1;
+      if (path.indexOf(c.to, entered + 1) >= 0) c.converted += 1;
+    });
+  });
+
+  const medianDays = emptyByStatus<number | null>(null);
+  RELATION_STATUSES.forEach((status) => {
+    const m = median(durations[status]);
+    medianDays[status] = m === null ? null : Math.round(m * 10) / 10;
+  });
+
+  return {
+    counts,
+    conversions: conversions.map((c) => ({
+      ...c,
+      rate: c.entered > 0 ? c.converted / c.entered : null,
+    })),
+    medianDays,
+  };
+}
@@ -0,0 +1,434 @@
+// src/lib/prm/repository.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Patient, Pharmacist, Pharmacy } from "@/types/supabase";
+import type {
+  AdvisorContract,
+  PatientLog,
+  PatientWithPrm,
+  PatientWithRelations,
+  PrmPriority,
+  RelationStatus,
+  RelationStatusActorRole,
+  RelationStatusEvent,
+} from "@/types/prm";
+import type {
+  AdvisorContractInput,
+  PrmFollowUpInput,
+  PrmLogInput,
+  PrmPatientPatch,
+  PrmStatusMoveInput,
+} from "./validation";
+import { ADVISOR_PLAN_LABEL, contractState, renewalOf } from "./contracts";
+import { logSearchFilter, logSearchText } from "./logRecords";
+import { toJstDate } from "../scheduling/slots";
+
+/**
+ * PRM（患者一覧・詳細・相談ログ）の読み書き
+ *
+ * - 画面は PrmDataSource だけを見る。管理者画面はブラウザの Supabase クライアントで直接、
+ *   薬局画面は /api/pharmacy/prm 経由（api.ts）で同じ操作をする
+ * - scope.pharmacyId があるときは、patients.pharmacy_id がその薬局の患者だけを読み書きする
+ *   （薬局画面の API はログインユーザーの related_pharmacy_id を必ず入れて作る）
+ * - 関係ステータスの変更は必ず moveRelationStatus を通し、relation_status_events に履歴を残す
+ * - 顧問契約（advisor_contracts）は pharmacy_id で絞る（登録時に患者の pharmacy_id を写す）
+ */
+
+export type PrmActor = {
+  role: RelationStatusActorRole;
+  id: string | null;
+};
+
+export type PrmScope = {
+  /** null は全件（管理者） */
+  pharmacyId: string | null;
+  /** 履歴に残す操作者。省略時はクライアントのログインユーザー（管理者画面） */
+  actor?: PrmActor;
+};
+
+export type PrmPatientList = {
+  patients: PatientWithPrm[];
+  pharmacists: Pharmacist[];
+};
+
+export type PrmFollowUpResult = {
+  log: PatientLog;
+  last_contact_at: string;
+  next_contact_at: string | null;
+};
+
+export type PrmContractResult = {
+  contract: AdvisorContract;
+  /** 契約の登録で「顧問中」に変えたときの履歴 */
+  event: RelationStatusEvent | null;
+};
+
+export type PrmPatientDetail = {
+  patient: PatientWithRelations;
+  pharmacists: Pharmacist[];
+};
+
+export interface PrmDataSource {
+  listPatients(): Promise<PrmPatientList>;
+  /** 見つからない・範囲外は null */
+  getPatient(patientId: string): Promise<PrmPatientDetail | null>;
+  listLogs(patientId: string): Promise<PatientLog[]>;
+  updatePatient(patientId: string, patch: PrmPatientPatch): Promise<void>;
+  createLog(patientId: string, input: PrmLogInput): Promise<PatientLog>;
+  /** 相談ログ（要約・メモ・SOAP・薬・対応事項）にキーワードを含む患者の id */
+  searchLogs(keyword: string): Promise<string[]>;
+  /** 相談ログを残し、最終フォロー日と次回フォロー予定日を更新する */
+  logFollowUp(patientId: string, input: PrmFollowUpInput): Promise<PrmFollowUpResult>;
+  /** 新しい順 */
+  listStatusEvents(patientId: string): Promise<RelationStatusEvent[]>;
+  /**
+   * 関係ステータスを変え、履歴を残す
+   * - 今と同じステータスなら何もしない（null）
+   * - 履歴の記録に失敗したときも null（ステータスは変わっている）
+   */
+  moveRelationStatus(
+    patientId: string,
+    input: PrmStatusMoveInput
+  ): Promise<RelationStatusEvent | null>;
+  /** 範囲内のすべての顧問契約 */
+  listContracts(): Promise<AdvisorContract[]>;
+  /** 開始日の新しい順 */
+  listPatientContracts(patientId: string): Promise<AdvisorContract[]>;
+  /** 契約を登録し、期間中なら関係ステータスを「顧問中」にする */
+  createContract(patientId: string, input: AdvisorContractInput): Promise<PrmContractResult>;
+  /** 同じ条件で次の期間の契約を作る */
+  renewContract(contractId: string): Promise<AdvisorContract>;
+  setContractAutoRenew(contractId: string, autoRenew: boolean): Promise<void>;
+}
+
+export const PRM_PATIENT_NOT_FOUND_MESSAGE = "患者データが見つかりませんでした。";
+export const PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE =
+  "この薬剤師はメイン担当に設定できません。自社の薬剤師を選んでください。";
+export const RELATION_STATUS_CONFLICT_MESSAGE =
+  "ほかの操作でステータスが変更されました。画面を読み込み直してください。";
+export const PRM_CONTRACT_NOT_FOUND_MESSAGE = "顧問契約が見つかりませんでした。";
+export const CONTRACT_ALREADY_RENEWED_MESSAGE = "この契約はすでに更新されています。";
+
+/** PRM 列が入る前の患者は null のままなので、画面で使う既定値を入れる */
+export function withPrmDefaults(row: Patient): PatientWithPrm {
+  return {
+    ...row,
+    main_pharmacist_id: row.main_pharmacist_id ?? null,
+    relation_status: (row.relation_status ?? "lead") as RelationStatus,
+    next_contact_at: row.next_contact_at ?? null,
+    last_contact_at: row.last_contact_at ?? null,
+    priority: (row.priority ?? 2) as PrmPriority,
+    tags: row.tags ?? [],
+    note: row.note ?? null,
+  };
+}
+
+export function createPrmRepository(
+  supabase: SupabaseClient,
+  scope: PrmScope
+): PrmDataSource {
+  const patientsQuery = () => {
+    const query = supabase.from("patients").select("*");
+    return scope.pharmacyId ? query.eq("pharmacy_id", scope.pharmacyId) : query;
+  };
+
+  const fetchPharmacists = async (): Promise<Pharmacist[]> => {
+    let query = supabase.from("pharmacists").select("*");
+    if (scope.pharmacyId) query = query.eq("belongs_pharmacy_id", scope.pharmacyId);
+    const { data, error } = await query.order("name", { ascending: true });
+    if (error) throw error;
+    return (data ?? []) as Pharmacist[];
+  };
+
+  const assertPatientInScope = async (patientId: string) => {
+    const { data, error } = await patientsQuery().eq("id", patientId).maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error(PRM_PATIENT_NOT_FOUND_MESSAGE);
+  };
+
+  const createLog = async (patientId: string, input: PrmLogInput): Promise<PatientLog> => {
+    if (scope.pharmacyId) await assertPatientInScope(patientId);
+    const { data, error } = await supabase
+      .from("patient_logs")
+      .insert({ patient_id: patientId, ...input, search_text: logSearchText(input) })
+      .select("*")
+      .single<PatientLog>();
+    if (error) throw error;
+    return data;
+  };
+
+  const resolveActor = async (): Promise<PrmActor> => {
+    if (scope.actor) return scope.actor;
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return { role: "admin", id: user?.id ?? null };
+  };
+
+  const moveRelationStatus = async (
+    patientId: string,
+    input: PrmStatusMoveInput
+  ): Promise<RelationStatusEvent | null> => {
+    const { data: current, error: currentError } = await patientsQuery()
+      .eq("id", patientId)
+      .maybeSingle<Patient>();
+    if (currentError) throw currentError;
+    if (!current) throw new Error(PRM_PATIENT_NOT_FOUND_MESSAGE);
+
+    const from = withPrmDefaults(current).relation_status;
+    if (from === input.to) return null;
+
+    const now = new Date().toISOString();
+    let query = supabase
+      .from("patients")
+      .update({ relation_status: input.to })
+      .eq("id", patientId);
+    if (scope.pharmacyId) query = query.eq("pharmacy_id", scope.pharmacyId);
+    // PRM 列が入る前の患者は null のまま残っている
+    query = current.relation_status
+      ? query.eq("relation_status", from)
+      : query.is("relation_status", null);
+    const { data, error } = await query.select("id");
+    if (error) throw error;
+    if (!data || data.length === 0) throw new Error(RELATION_STATUS_CONFLICT_MESSAGE);
+
+    const actor = await resolveActor();
+    const { data: event, error: eventError } = await supabase
+      .from("relation_status_events")
+      .insert({
+        patient_id: patientId,
+        from_status: from,
+        to_status: input.to,
+        actor_role: actor.role,
+        actor_id: actor.id,
+        reason: input.reason,
+        created_at: now,
+      })
+      .select("*")
+      .single<RelationStatusEvent>();
+    if (eventError) {
+      // ステータスは変わっているので、履歴の失敗だけで操作を失敗扱いにはしない
+      console.error("[prm] failed to record relation status event", eventError);
+      return null;
+    }
+    return event;
+  };
+
+  const contractsQuery = () => {
+    const query = supabase.from("advisor_contracts").select("*");
+    return scope.pharmacyId ? query.eq("pharmacy_id", scope.pharmacyId) : query;
+  };
+
+  const fetchContract = async (contractId: string): Promise<AdvisorContract> => {
+    const { data, error } = await contractsQuery()
+      .eq("id", contractId)
+      .maybeSingle<AdvisorContract>();
+    if (error) throw error;
+    if (!data) throw new Error(PRM_CONTRACT_NOT_FOUND_MESSAGE);
+    return data;
+  };
+
+  return {
+    async listPatients() {
+      const { data, error } = await patientsQuery().order("next_contact_at", {
+        ascending: true,
+      });
+      if (error) throw error;
+      return {
+        patients: ((data ?? []) as Patient[]).map(withPrmDefaults),
+        pharmacists: await fetchPharmacists(),
+      };
+    },
+
+    async getPatient(patientId) {
+      const { data, error } = await patientsQuery().eq("id", patientId).maybeSingle<Patient>();
+      if (error) throw error;
+      if (!data) return null;
+
+      const patient = withPrmDefaults(data);
+      const pharmacists = await fetchPharmacists();
+
+      let pharmacy: Pharmacy | null = null;
+      if (patient.pharmacy_id) {
+        const { data: pharmacyRow, error: pharmacyError } = await supabase
+          .from("pharmacies")
+          .select("*")
+          .eq("id", patient.pharmacy_id)
+          .maybeSingle<Pharmacy>();
+        if (pharmacyError) throw pharmacyError;
+        pharmacy = pharmacyRow ?? null;
+      }
+
+      return {
+        patient: {
+          ...patient,
+          pharmacy_id: patient.pharmacy_id ?? null,
+          pharmacy,
+          main_pharmacist:
+            pharmacists.find((p) => p.id === patient.main_pharmacist_id) ?? null,
+        },
+        pharmacists,
+      };
+    },
+
+    async listLogs(patientId) {
+      if (scope.pharmacyId) await assertPatientInScope(patientId);
+      const { data, error } = await supabase
+        .from("patient_logs")
+        .select("*")
+        .eq("patient_id", patientId)
+        .order("contact_at", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as PatientLog[];
+    },
+
+    async updatePatient(patientId, patch) {
+      if (scope.pharmacyId && patch.main_pharmacist_id) {
+        const { data: pharmacist, error: pharmacistError } = await supabase
+          .from("pharmacists")
+          .select("id")
+          .eq("id", patch.main_pharmacist_id)
+          .eq("belongs_pharmacy_id", scope.pharmacyId)
+          .maybeSingle();
+        if (pharmacistError) throw pharmacistError;
+        if (!pharmacist) throw new Error(PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE);
+      }
+
+      // ステータスは履歴を残すため別に、先に変える
+      // （ほかの操作と競合したら、ほかの項目も書かずにエラーにする）
+      const { relation_status, ...rest } = patch;
+      await moveRelationStatus(patientId, { to: relation_status, reason: null });
+
+      let query = supabase.from("patients").update(rest).eq("id", patientId);
+      if (scope.pharmacyId) query = query.eq("pharmacy_id", scope.pharmacyId);
+      const { data, error } = await query.select("id");
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error(PRM_PATIENT_NOT_FOUND_MESSAGE);
+    },
+
+    createLog,
+
+    async searchLogs(keyword) {
+      const filter = logSearchFilter(keyword);
+      if (!filter) return [];
+      let query = supabase
+        .from("patient_logs")
+        .select(scope.pharmacyId ? "patient_id, patients!inner(pharmacy_id)" : "patient_id")
+        .or(filter);
+      if (scope.pharmacyId) query = query.eq("patients.pharmacy_id", scope.pharmacyId);
+      const { data, error } = await query;
+      if (error) throw error;
+      const rows = (data ?? []) as unknown as { patient_id: string }[];
+      return Array.from(new Set(rows.map((row) => row.patient_id)));
+    },
+
+    async logFollowUp(patientId, input) {
+      const log = await createLog(patientId, input.log);
+
+      let query = supabase
+        .from("patients")
+        .update({ last_contact_at: log.contact_at, next_contact_at: input.next_contact_at })
+        .eq("id", patientId);
+      if (scope.pharmacyId) query = query.eq("pharmacy_id", scope.pharmacyId);
+      const { error } = await query;
+      if (error) throw error;
+
+      return {
+        log,
+        last_contact_at: log.contact_at,
+        next_contact_at: input.next_contact_at,
+      };
+    },
+
+    async listStatusEvents(patientId) {
+      if (scope.pharmacyId) await assertPatientInScope(patientId);
+      const { data, error } = await supabase
+        .from("relation_status_events")
+        .select("*")
+        .eq("patient_id", patientId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as RelationStatusEvent[];
+    },
+
+    moveRelationStatus,
+
+    async listContracts() {
+      const { data, error } = await contractsQuery().order("end_date", { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as AdvisorContract[];
+    },
+
+    async listPatientContracts(patientId) {
+      if (scope.pharmacyId) await assertPatientInScope(patientId);
+      // 患者が別の薬局に移っても、前の薬局の契約は見せない
+      const { data, error } = await contractsQuery()
+        .eq("patient_id", patientId)
+        .order("start_date", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as AdvisorContract[];
+    },
+
+    async createContract(patientId, input) {
+      const { data: patient, error: patientError } = await patientsQuery()
+        .eq("id", patientId)
+        .maybeSingle<Patient>();
+      if (patientError) throw patientError;
+      if (!patient) throw new Error(PRM_PATIENT_NOT_FOUND_MESSAGE);
+
+      const { data: contract, error } = await supabase
+        .from("advisor_contracts")
+        .insert({
+          patient_id: patientId,
+          pharmacy_id: patient.pharmacy_id ?? null,
+          renewed_from_id: null,
+          ...input,
+        })
+        .select("*")
+        .single<AdvisorContract>();
+      if (error) throw error;
+
+      const state = contractState(contract, toJstDate(new Date()));
+      const event =
+        state === "active" || state === "expiring"
+          ? await moveRelationStatus(patientId, {
+              to: "advisor",
+              reason: `顧問契約を登録（${ADVISOR_PLAN_LABEL[contract.plan]}）`,
+            })
+          : null;
+      return { contract, event };
+    },
+
+    async renewContract(contractId) {
+      const contract = await fetchContract(contractId);
+      const { data: successor, error: successorError } = await supabase
+        .from("advisor_contracts")
+        .select("id")
+        .eq("renewed_from_id", contractId)
+        .limit(1)
+        .maybeSingle();
+      if (successorError) throw successorError;
+      if (successor) throw new Error(CONTRACT_ALREADY_RENEWED_MESSAGE);
+
+      const { data, error } = await supabase
+        .from("advisor_contracts")
+        .insert(renewalOf(contract))
+        .select("*")
+        .single<AdvisorContract>();
+      if (error) {
+        // 同時にほかの操作で更新された（renewed_from_id の unique 制約違反）
+        if (error.code === "23505") throw new Error(CONTRACT_ALREADY_RENEWED_MESSAGE);
+        throw error;
+      }
+      return data;
+    },
+
+    async setContractAutoRenew(contractId, autoRenew) {
+      await fetchContract(contractId);
+      const { error } = await supabase
+        .from("advisor_contracts")
+        .update({ auto_renew: autoRenew })
+        .eq("id", contractId);
+      if (error) throw error;
+    },
+  };
+}
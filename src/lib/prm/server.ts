@@ -0,0 +1,53 @@
+// src/lib/prm/server.ts
+// 薬局画面の PRM API 用（サーバー専用。index からは公開しない）
+import { cookies } from "next/headers";
+import { createSupabaseServerClient } from "../supabaseServer";
+import { createSupabaseAdminClient } from "../supabaseAdmin";
+import { getPharmacyCompanyIdForUser } from "../pharmacy-company";
+import { createPrmRepository, type PrmDataSource } from "./repository";
+
+export type PharmacyPrmAccess = {
+  repository: PrmDataSource | null;
+  /** repository が null のときの理由と HTTP ステータス */
+  error: string | null;
+  status: number;
+};
+
+/**
+ * ログイン中の薬局法人アカウントに絞った PRM リポジトリを作る
+ * - 薬局は profile_users.related_pharmacy_id から決める（リクエストの値は使わない）
+ * - 読み書きは service role で行い、範囲は必ず scope.pharmacyId で絞る
+ */
+export async function pharmacyPrmAccessForRequest(): Promise<PharmacyPrmAccess> {
+  const cookieStore = await cookies();
+  const role = cookieStore.get("hito_yaku_role")?.value ?? null;
+  if (role !== "pharmacy_company") {
+    return { repository: null, error: "薬局法人アカウントのみアクセスできます。", status: 403 };
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { repository: null, error: "ログインしてください。", status: 401 };
+  }
+
+  const pharmacyId = await getPharmacyCompanyIdForUser(supabase, user.id);
+  if (!pharmacyId) {
+    return {
+      repository: null,
+      error: "ログイン中のユーザーに薬局法人がひも付いていません。",
+      status: 403,
+    };
+  }
+
+  return {
+    repository: createPrmRepository(createSupabaseAdminClient(), {
+      pharmacyId,
+      actor: { role: "pharmacy_company", id: user.id },
+    }),
+    error: null,
+    status: 200,
+  };
+}
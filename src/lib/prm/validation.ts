@@ -0,0 +1,246 @@
+// src/lib/prm/validation.ts
+import type {
+  AdvisorPlan,
+  LogActionItem,
+  PatientLogChannel,
+  PatientLogSoap,
+  PrmPriority,
+  RelationStatus,
+} from "@/types/prm";
+import { LOG_CHANNEL_OPTIONS, RELATION_STATUSES } from "./labels";
+import { ADVISOR_PLANS } from "./contracts";
+import {
+  ACTION_ITEM_MAX_LENGTH,
+  LOG_ACTION_ITEMS_MAX,
+  LOG_MEDICATIONS_MAX,
+  SOAP_SECTION_MAX_LENGTH,
+  SOAP_SECTIONS,
+  soapFromDraft,
+  splitMedications,
+} from "./logRecords";
+
+/**
+ * PRM の更新内容の検証（API で受け取った値をそのまま DB に入れないため）
+ * - 画面から送る項目だけを取り出し、型・値の範囲が合わなければエラー
+ */
+
+export type PrmPatientPatch = {
+  relation_status: RelationStatus;
+  priority: PrmPriority;
+  main_pharmacist_id: string | null;
+  next_contact_at: string | null;
+  last_contact_at: string | null;
+  tags: string[];
+  note: string | null;
+};
+
+export type PrmLogInput = {
+  contact_at: string;
+  channel: PatientLogChannel;
+  summary: string;
+  note: string | null;
+  /** 以下は構造化記録（任意。省略時は記録しない） */
+  soap?: PatientLogSoap | null;
+  medications?: string[];
+  action_items?: LogActionItem[];
+};
+
+/** 「連絡を記録して次回を予約」：相談ログ1件と次回フォロー予定日（null は予定なし） */
+export type PrmFollowUpInput = {
+  log: PrmLogInput;
+  next_contact_at: string | null;
+};
+
+/** 関係ステータスの移動（かんばん・詳細画面） */
+export type PrmStatusMoveInput = {
+  to: RelationStatus;
+  reason: string | null;
+};
+
+export const STATUS_REASON_MAX_LENGTH = 500;
+
+/** 顧問契約の登録 */
+export type AdvisorContractInput = {
+  plan: AdvisorPlan;
+  start_date: string;
+  end_date: string;
+  auto_renew: boolean;
+  monthly_fee: number;
+  monthly_allowance: number;
+  note: string | null;
+};
+
+function optionalIso(value: unknown, label: string): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new Error(`${label}の日付が正しくありません。`);
+  return d.toISOString();
+}
+
+export function parsePrmPatientPatch(raw: unknown): PrmPatientPatch {
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const relationStatus = input.relation_status as RelationStatus;
+  if (RELATION_STATUSES.indexOf(relationStatus) < 0) {
+    throw new Error("ステータスの値が正しくありません。");
+  }
+  const priority = Number(input.priority);
+  if (priority !== 1 && priority !== 2 && priority !== 3) {
+    throw new Error("優先度の値が正しくありません。");
+  }
+  const tags = Array.isArray(input.tags)
+    ? input.tags.map((t) => String(t).trim()).filter((t) => t.length > 0)
+    : [];
+
+  return {
+    relation_status: relationStatus,
+    priority: priority as PrmPriority,
+    main_pharmacist_id:
+      typeof input.main_pharmacist_id === "string" && input.main_pharmacist_id
+        ? input.main_pharmacist_id
+        : null,
+    next_contact_at: optionalIso(input.next_contact_at, "次回フォロー予定日"),
+    last_contact_at: optionalIso(input.last_contact_at, "最終フォロー日"),
+    tags: Array.from(new Set(tags)),
+    note: typeof input.note === "string" ? input.note : null,
+  };
+}
+
+export function parsePrmLogInput(raw: unknown): PrmLogInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const summary = typeof input.summary === "string" ? input.summary.trim() : "";
+  if (!summary) throw new Error("一行要約を入力してください。");
+
+  const channel = input.channel as PatientLogChannel;
+  if (!LOG_CHANNEL_OPTIONS.some((c) => c.value === channel)) {
+    throw new Error("チャネルの値が正しくありません。");
+  }
+  const note = typeof input.note === "string" ? input.note.trim() : "";
+
+  return {
+    contact_at: optionalIso(input.contact_at, "相談日") ?? new Date().toISOString(),
+    channel,
+    summary,
+    note: note || null,
+    soap: parseLogSoap(input.soap),
+    medications: parseLogMedications(input.medications),
+    action_items: parseLogActionItems(input.action_items),
+  };
+}
+
+function parseLogSoap(value: unknown): PatientLogSoap | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("SOAP の形式が正しくありません。");
+  }
+  const soap = soapFromDraft(value as Record<string, unknown>);
+  SOAP_SECTIONS.forEach(({ key, label }) => {
+    if (soap && (soap[key] ?? "").length > SOAP_SECTION_MAX_LENGTH) {
+      throw new Error(`${label}は${SOAP_SECTION_MAX_LENGTH}文字以内で入力してください。`);
+    }
+  });
+  return soap;
+}
+
+/** 配列でも「,」「、」区切りの文字列でも受け取る */
+function parseLogMedications(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const raw = Array.isArray(value) ? value.filter((v) => typeof v === "string").join(",") : value;
+  if (typeof raw !== "string") throw new Error("薬の形式が正しくありません。");
+  const names = splitMedications(raw);
+  if (names.length > LOG_MEDICATIONS_MAX) {
+    throw new Error(`薬は${LOG_MEDICATIONS_MAX}件までにしてください。`);
+  }
+  return names;
+}
+
+function parseLogActionItems(value: unknown): LogActionItem[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error("対応事項の形式が正しくありません。");
+
+  const items = value
+    .map((raw): LogActionItem | null => {
+      const item = (raw ?? {}) as Record<string, unknown>;
+      const text = typeof item.text === "string" ? item.text.trim() : "";
+      if (!text) return null;
+      if (text.length > ACTION_ITEM_MAX_LENGTH) {
+        throw new Error(`対応事項は${ACTION_ITEM_MAX_LENGTH}文字以内で入力してください。`);
+      }
+      const due =
+        item.due_date === null || item.due_date === undefined || item.due_date === ""
+          ? null
+          : requiredDate(item.due_date, "対応事項の期日");
+      return { text, due_date: due, done: item.done === true };
+    })
+    .filter((item): item is LogActionItem => item !== null);
+
+  if (items.length > LOG_ACTION_ITEMS_MAX) {
+    throw new Error(`対応事項は${LOG_ACTION_ITEMS_MAX}件までにしてください。`);
+  }
+  return items;
+}
+
+export function parsePrmFollowUpInput(raw: unknown): PrmFollowUpInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  return {
+    log: parsePrmLogInput(input.log),
+    next_contact_at: optionalIso(input.next_contact_at, "次回フォロー予定日"),
+  };
+}
+
+export function parsePrmStatusMoveInput(raw: unknown): PrmStatusMoveInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const to = input.to as RelationStatus;
+  if (RELATION_STATUSES.indexOf(to) < 0) {
+    throw new Error("ステータスの値が正しくありません。");
+  }
+  const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+  if (reason.length > STATUS_REASON_MAX_LENGTH) {
+    throw new Error(`変更理由は${STATUS_REASON_MAX_LENGTH}文字以内で入力してください。`);
+  }
+
+  return { to, reason: reason || null };
+}
+
+function requiredDate(value: unknown, label: string): string {
+  const date = typeof value === "string" ? value.trim() : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+    throw new Error(`${label}を入力してください。`);
+  }
+  return date;
+}
+
+function nonNegativeInteger(value: unknown, label: string): number {
+  const n = Number(value);
+  if (value === "" || value === null || !Number.isInteger(n) || n < 0) {
+    throw new Error(`${label}は0以上の整数で入力してください。`);
+  }
+  return n;
+}
+
+export function parseAdvisorContractInput(raw: unknown): AdvisorContractInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+
+  const plan = input.plan as AdvisorPlan;
+  if (ADVISOR_PLANS.indexOf(plan) < 0) {
+    throw new Error("プランの値が正しくありません。");
+  }
+  const startDate = requiredDate(input.start_date, "開始日");
+  const endDate = requiredDate(input.end_date, "終了日");
+  if (endDate < startDate) {
+    throw new Error("終了日は開始日以降にしてください。");
+  }
+  const note = typeof input.note === "string" ? input.note.trim() : "";
+
+  return {
+    plan,
+    start_date: startDate,
+    end_date: endDate,
+    auto_renew: input.auto_renew === true,
+    monthly_fee: nonNegativeInteger(input.monthly_fee, "月額"),
+    monthly_allowance: nonNegativeInteger(input.monthly_allowance, "月あたりの相談回数"),
+    note: note || null,
+  };
+}
@@ -0,0 +1,145 @@
+// src/lib/scheduling/appointmentStatus.ts
+import type {
+  Appointment,
+  AppointmentActorRole,
+  AppointmentStatus,
+} from "@/types/supabase";
+
+export const APPOINTMENT_STATUS_LABEL: Record<AppointmentStatus, string> = {
+  requested: "予約申込",
+  confirmed: "確定",
+  completed: "完了",
+  cancelled: "キャンセル",
+  no_show: "無断欠席",
+};
+
+export const APPOINTMENT_STATUS_BADGE_CLASS: Record<AppointmentStatus, string> = {
+  requested: "border-amber-200 bg-amber-50 text-amber-800",
+  confirmed: "border-sky-200 bg-sky-50 text-sky-800",
+  completed: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  cancelled: "border-slate-200 bg-slate-100 text-slate-500",
+  no_show: "border-rose-200 bg-rose-50 text-rose-700",
+};
+
+/** 操作ボタンの文言（遷移先ごと） */
+export const APPOINTMENT_ACTION_LABEL: Record<AppointmentStatus, string> = {
+  requested: "申込に戻す",
+  confirmed: "予約を確定",
+  completed: "完了にする",
+  cancelled: "キャンセル",
+  no_show: "無断欠席にする",
+};
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "requested",
+  "confirmed",
+  "completed",
+  "cancelled",
+  "no_show",
+];
+
+/**
+ * 状態ごとに移れる先と、その遷移をしてよい操作者
+ * - completed / cancelled は終端（そこからは動かさない）
+ * - 患者ができるのはキャンセルと、日時変更にともなう「確定 → 申込」の差し戻しだけ
+ * - 自動処理（system）は無断欠席の判定だけ。判定が外れていたら薬局側で「完了」に直せる
+ */
+const TRANSITIONS: Record<
+  AppointmentStatus,
+  Partial<Record<AppointmentStatus, AppointmentActorRole[]>>
+> = {
+  requested: {
+    confirmed: ["pharmacy_company", "admin"],
+    cancelled: ["patient", "pharmacy_company", "admin"],
+  },
+  confirmed: {
+    requested: ["patient"],
+    completed: ["pharmacy_company", "admin"],
+    cancelled: ["patient", "pharmacy_company", "admin"],
+    no_show: ["pharmacy_company", "admin", "system"],
+  },
+  completed: {},
+  cancelled: {},
+  no_show: {
+    completed: ["pharmacy_company", "admin"],
+  },
+};
+
+/** 遷移したときに日時を入れる列 */
+export const STATUS_TIMESTAMP_COLUMN: Partial<
+  Record<AppointmentStatus, keyof Appointment>
+> = {
+  confirmed: "confirmed_at",
+  completed: "completed_at",
+  cancelled: "cancelled_at",
+  no_show: "no_show_at",
+};
+
+/** status 列が入る前の予約（null）は申込扱い */
+export function statusOf(
+  appointment: Pick<Appointment, "status"> | { status?: AppointmentStatus | null }
+): AppointmentStatus {
+  return appointment.status ?? "requested";
+}
+
+export function isTerminalStatus(status: AppointmentStatus): boolean {
+  return Object.keys(TRANSITIONS[status]).length === 0;
+}
+
+export function canTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: AppointmentActorRole
+): boolean {
+  return TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+/** その操作者が今の状態から選べる遷移先（画面の操作ボタン用） */
+export function availableTransitions(
+  from: AppointmentStatus,
+  actor: AppointmentActorRole
+): AppointmentStatus[] {
+  return APPOINTMENT_STATUSES.filter((to) => canTransition(from, to, actor));
+}
+
+/**
+ * 遷移できない組み合わせならエラーにする
+ * - 画面に出す前提の日本語メッセージ
+ */
+export function assertTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: AppointmentActorRole
+): void {
+  if (canTransition(from, to, actor)) return;
+
+  if (isTerminalStatus(from)) {
+    throw new Error(
+      `「${APPOINTMENT_STATUS_LABEL[from]}」の予約は状態を変更できません。`
+    );
+  }
+  if (TRANSITIONS[from][to]) {
+    throw new Error(
+      `この操作（${APPOINTMENT_STATUS_LABEL[to]}）を行う権限がありません。`
+    );
+  }
+  throw new Error(
+    `「${APPOINTMENT_STATUS_LABEL[from]}」から「${APPOINTMENT_STATUS_LABEL[to]}」には変更できません。`
+  );
+}
+
+/**
+ * 遷移時に appointments へ書き込む値
+ */
+export function transitionPatch(
+  to: AppointmentStatus,
+  at: Date
+): Partial<Appointment> {
+  const iso = at.toISOString();
+  const patch: Partial<Appointment> = { status: to, status_changed_at: iso };
+  const column = STATUS_TIMESTAMP_COLUMN[to];
+  if (column) {
+    (patch as Record<string, string>)[column] = iso;
+  }
+  return patch;
+}
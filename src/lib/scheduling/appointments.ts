@@ -0,0 +1,217 @@
+// src/lib/scheduling/appointments.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Appointment,
+  AppointmentActorRole,
+  AppointmentStatus,
+  AppointmentStatusEvent,
+  BookingType,
+} from "@/types/supabase";
+import { assertTransition, statusOf, transitionPatch } from "./appointmentStatus";
+import {
+  fetchBusyIntervals,
+  isOfferedSlot,
+  SLOT_NOT_OFFERED_MESSAGE,
+  SLOT_TAKEN_MESSAGE,
+} from "./availability";
+import { checkPatientChange } from "./changeWindow";
+import { overlaps, type TimeInterval } from "./slots";
+
+export type AppointmentActor = {
+  role: AppointmentActorRole;
+  /** auth.users.id（患者は patients.id、自動処理は null） */
+  id: string | null;
+};
+
+export const STATUS_CONFLICT_MESSAGE =
+  "ほかの操作で予約の状態が変わりました。画面を読み込み直してください。";
+
+const BOOKING_TYPES: BookingType[] = ["online", "phone", "in_person"];
+const MEMO_MAX_LENGTH = 1000;
+const UUID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/** API で受け取った枠（開始 < 終了の ISO 日時） */
+export function parseSlotInput(raw: unknown): TimeInterval {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const start = new Date(String(input.start ?? ""));
+  const end = new Date(String(input.end ?? ""));
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+    throw new Error("予約する時間が正しくありません。");
+  }
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+export type AppointmentBookingInput = {
+  patientId: string;
+  pharmacistId: string;
+  slot: TimeInterval;
+  bookingType: BookingType;
+  memo: string | null;
+};
+
+export function parseAppointmentBookingInput(raw: unknown): AppointmentBookingInput {
+  const input = (raw ?? {}) as Record<string, unknown>;
+  const patientId = typeof input.patientId === "string" ? input.patientId : "";
+  const pharmacistId = typeof input.pharmacistId === "string" ? input.pharmacistId : "";
+  if (!UUID_PATTERN.test(patientId) || !UUID_PATTERN.test(pharmacistId)) {
+    throw new Error("患者・薬剤師の指定が正しくありません。");
+  }
+  const bookingType = BOOKING_TYPES.find((t) => t === input.bookingType);
+  if (!bookingType) throw new Error("相談方法の値が正しくありません。");
+  const memo = typeof input.memo === "string" ? input.memo.trim() : "";
+  if (memo.length > MEMO_MAX_LENGTH) {
+    throw new Error(`メモは${MEMO_MAX_LENGTH}文字以内で入力してください。`);
+  }
+
+  return {
+    patientId,
+    pharmacistId,
+    slot: parseSlotInput(input.slot),
+    bookingType,
+    memo: memo || null,
+  };
+}
+
+/**
+ * 予約の状態を変える
+ *
+ * - 遷移の可否は assertTransition で確認（不正な遷移はここで止める）
+ * - 読み込んだ時点の status を条件に更新し、同時に別の操作が入っていたら失敗にする
+ * - 誰がいつ変えたかを appointment_status_events に残す
+ */
+export async function transitionAppointment(
+  supabase: SupabaseClient,
+  appointment: Pick<Appointment, "id"> & { status?: AppointmentStatus | null },
+  to: AppointmentStatus,
+  actor: AppointmentActor,
+  options: { reason?: string | null; now?: Date } = {}
+): Promise<Appointment> {
+  const from = statusOf(appointment);
+  assertTransition(from, to, actor.role);
+
+  const now = options.now ?? new Date();
+  let query = supabase
+    .from("appointments")
+    .update(transitionPatch(to, now))
+    .eq("id", appointment.id);
+  // status 列が入る前の予約は null のまま残っている
+  query = appointment.status ? query.eq("status", from) : query.is("status", null);
+
+  const { data, error } = await query.select("*").maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error(STATUS_CONFLICT_MESSAGE);
+
+  const { error: eventError } = await supabase
+    .from("appointment_status_events")
+    .insert({
+      appointment_id: appointment.id,
+      from_status: from,
+      to_status: to,
+      actor_role: actor.role,
+      actor_id: actor.id,
+      reason: options.reason ?? null,
+      created_at: now.toISOString(),
+    });
+  if (eventError) {
+    // 状態は変わっているので、履歴の失敗だけで操作を失敗扱いにはしない
+    console.error("[transitionAppointment] failed to record event", eventError);
+  }
+
+  return data as Appointment;
+}
+
+/**
+ * 患者による日時変更
+ *
+ * - 変更期限（checkPatientChange）を過ぎていたらエラー
+ * - 新しい枠は受付時間から作った枠のどれかでなければエラー（isOfferedSlot）
+ * - 新しい枠が自分以外の予約と重なっていないかを確認する（DB の排他制約違反も同じ扱い）
+ * - 確定済みの予約は薬局に確認し直してもらうため「申込」に戻す
+ * - 変更前の日時を previous_scheduled_start に残し、履歴にも記録する
+ */
+export async function rescheduleAppointment(
+  supabase: SupabaseClient,
+  appointment: Pick<
+    Appointment,
+    "id" | "pharmacist_id" | "scheduled_start" | "scheduled_end"
+  > & { status?: AppointmentStatus | null },
+  slot: TimeInterval,
+  actor: AppointmentActor,
+  options: { cutoffHours: number; now?: Date }
+): Promise<Appointment> {
+  const now = options.now ?? new Date();
+  const check = checkPatientChange(appointment, now, options.cutoffHours);
+  if (!check.allowed) throw new Error(check.reason ?? "この予約は変更できません。");
+  if (!appointment.pharmacist_id) throw new Error("担当薬剤師が未設定の予約です。");
+  if (!(await isOfferedSlot(supabase, appointment.pharmacist_id, slot, now))) {
+    throw new Error(SLOT_NOT_OFFERED_MESSAGE);
+  }
+
+  const busy = await fetchBusyIntervals(
+    supabase,
+    appointment.pharmacist_id,
+    slot,
+    appointment.id
+  );
+  if (busy.some((b) => overlaps(b, slot))) {
+    throw new Error(SLOT_TAKEN_MESSAGE);
+  }
+
+  const from = statusOf(appointment);
+  if (from !== "requested") assertTransition(from, "requested", actor.role);
+
+  let query = supabase
+    .from("appointments")
+    .update({
+      ...(from !== "requested" ? transitionPatch("requested", now) : {}),
+      scheduled_start: slot.start,
+      scheduled_end: slot.end,
+      previous_scheduled_start: appointment.scheduled_start,
+      rescheduled_at: now.toISOString(),
+    })
+    .eq("id", appointment.id);
+  query = appointment.status ? query.eq("status", from) : query.is("status", null);
+
+  const { data, error } = await query.select("*").maybeSingle();
+  if (error) {
+    if (error.code === "23P01") throw new Error(SLOT_TAKEN_MESSAGE);
+    throw error;
+  }
+  if (!data) throw new Error(STATUS_CONFLICT_MESSAGE);
+
+  const { error: eventError } = await supabase
+    .from("appointment_status_events")
+    .insert({
+      appointment_id: appointment.id,
+      from_status: from,
+      to_status: "requested",
+      actor_role: actor.role,
+      actor_id: actor.id,
+      reason: "日時変更",
+      created_at: now.toISOString(),
+    });
+  if (eventError) {
+    console.error("[rescheduleAppointment] failed to record event", eventError);
+  }
+
+  return data as Appointment;
+}
+
+/**
+ * 予約ごとの状態変更履歴（古い順）
+ */
+export async function fetchAppointmentStatusEvents(
+  supabase: SupabaseClient,
+  appointmentIds: string[]
+): Promise<AppointmentStatusEvent[]> {
+  if (appointmentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("appointment_status_events")
+    .select("*")
+    .in("appointment_id", appointmentIds)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as AppointmentStatusEvent[];
+}
@@ -0,0 +1,264 @@
+// src/lib/scheduling/availability.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Appointment,
+  AvailabilityException,
+  BookingType,
+  ExternalBusyInterval,
+  WeeklyAvailability,
+} from "@/types/supabase";
+import { generateSlots, overlaps, resolveAvailability, type TimeInterval } from "./slots";
+
+/** 受付時間の持ち主（薬剤師本人 or 店舗） */
+export type AvailabilityOwner =
+  | { kind: "pharmacist"; id: string }
+  | { kind: "store"; id: string };
+
+export const SLOT_TAKEN_MESSAGE =
+  "選択した時間はすでに予約が入っています。別の時間を選んでください。";
+export const SLOT_NOT_OFFERED_MESSAGE =
+  "選択した時間は予約を受け付けていません。表示されている枠から選んでください。";
+
+/** 何日先までの枠を予約できるか（予約画面 SlotPicker の表示期間と同じ） */
+export const BOOKING_WINDOW_DAYS = 14;
+
+function ownerColumn(owner: AvailabilityOwner): "pharmacist_id" | "store_id" {
+  return owner.kind === "pharmacist" ? "pharmacist_id" : "store_id";
+}
+
+/**
+ * 薬剤師本人 or 店舗に登録された受付時間・例外をそのまま取得する（編集画面用）
+ */
+export async function fetchOwnAvailability(
+  supabase: SupabaseClient,
+  owner: AvailabilityOwner
+): Promise<{ weekly: WeeklyAvailability[]; exceptions: AvailabilityException[] }> {
+  const column = ownerColumn(owner);
+
+  const { data: weekly, error: weeklyError } = await supabase
+    .from("pharmacist_availability")
+    .select("*")
+    .eq(column, owner.id)
+    .order("weekday", { ascending: true })
+    .order("start_time", { ascending: true });
+  if (weeklyError) throw weeklyError;
+
+  const { data: exceptions, error: exceptionError } = await supabase
+    .from("availability_exceptions")
+    .select("*")
+    .eq(column, owner.id)
+    .order("date", { ascending: true });
+  if (exceptionError) throw exceptionError;
+
+  return {
+    weekly: (weekly ?? []) as WeeklyAvailability[],
+    exceptions: (exceptions ?? []) as AvailabilityException[],
+  };
+}
+
+/**
+ * 予約画面用：薬剤師の受付時間（本人分がなければ所属店舗分）と例外をまとめて取得する
+ */
+export async function fetchPharmacistAvailability(
+  supabase: SupabaseClient,
+  pharmacist: { id: string; belongs_store_id: string | null }
+): Promise<{ weekly: WeeklyAvailability[]; exceptions: AvailabilityException[] }> {
+  const own = await fetchOwnAvailability(supabase, {
+    kind: "pharmacist",
+    id: pharmacist.id,
+  });
+  const store = pharmacist.belongs_store_id
+    ? await fetchOwnAvailability(supabase, {
+        kind: "store",
+        id: pharmacist.belongs_store_id,
+      })
+    : { weekly: [], exceptions: [] };
+
+  return resolveAvailability(own, store);
+}
+
+/**
+ * 期間内に予約が入っている時間帯（scheduled_start / scheduled_end がある予約だけ）
+ * - キャンセルされた予約の枠は空きに戻す
+ * - 日時変更のときは変更する予約そのものを excludeAppointmentId で外す
+ * - 外部カレンダーから取り込んだ予定（external_busy_intervals）も埋まっている扱い
+ */
+export async function fetchBusyIntervals(
+  supabase: SupabaseClient,
+  pharmacistId: string,
+  range: TimeInterval,
+  excludeAppointmentId: string | null = null
+): Promise<TimeInterval[]> {
+  let query = supabase
+    .from("appointments")
+    .select("scheduled_start, scheduled_end")
+    .eq("pharmacist_id", pharmacistId)
+    .lt("scheduled_start", range.end)
+    .gt("scheduled_end", range.start)
+    .or("status.is.null,status.neq.cancelled");
+  if (excludeAppointmentId) query = query.neq("id", excludeAppointmentId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const { data: external, error: externalError } = await supabase
+    .from("external_busy_intervals")
+    .select("start_at, end_at")
+    .eq("pharmacist_id", pharmacistId)
+    .lt("start_at", range.end)
+    .gt("end_at", range.start);
+  if (externalError) throw externalError;
+
+  return [
+    ...((data ?? []) as Pick<Appointment, "scheduled_start" | "scheduled_end">[])
+      .filter((a) => a.scheduled_start && a.scheduled_end)
+      .map((a) => ({ start: a.scheduled_start!, end: a.scheduled_end! })),
+    ...((external ?? []) as Pick<ExternalBusyInterval, "start_at" | "end_at">[]).map(
+      (e) => ({ start: e.start_at, end: e.end_at })
+    ),
+  ];
+}
+
+/**
+ * 指定された枠が、薬剤師の受付時間から作る枠（generateSlots）のどれかとちょうど一致するか
+ * - 予約画面に出る枠以外（受付時間外・長さの違う枠・BOOKING_WINDOW_DAYS より先）は通さない
+ * - 予約済み・外部カレンダーとの重なりはここでは見ない（呼び出し側で確かめる）
+ */
+export async function isOfferedSlot(
+  supabase: SupabaseClient,
+  pharmacistId: string,
+  slot: TimeInterval,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { data: pharmacist, error } = await supabase
+    .from("pharmacists")
+    .select("id, belongs_store_id")
+    .eq("id", pharmacistId)
+    .maybeSingle<{ id: string; belongs_store_id: string | null }>();
+  if (error) throw error;
+  if (!pharmacist) return false;
+
+  const availability = await fetchPharmacistAvailability(supabase, pharmacist);
+  return generateSlots({
+    weekly: availability.weekly,
+    exceptions: availability.exceptions,
+    busy: [],
+    from: now,
+    days: BOOKING_WINDOW_DAYS,
+    now,
+  }).some((offered) => offered.start === slot.start && offered.end === slot.end);
+}
+
+/**
+ * 空き枠を予約する
+ *
+ * - 受付時間から作った枠のどれかでなければエラー（isOfferedSlot）
+ * - 保存直前に同じ薬剤師の予約と重なっていないかを確認する
+ * - 同時に押された場合に備え、DB 側にも排他制約を張っている
+ *   （supabase/migrations/20261019000000_appointment_guards.sql。キャンセル済みの予約は対象外）
+ *   制約違反（23P01）は「すでに予約が入っている」として扱う
+ * - 状態・日時の列は service role でしか書けないので、/api/appointments から呼ぶ
+ */
+export async function bookAppointmentSlot(
+  supabase: SupabaseClient,
+  input: {
+    patientId: string;
+    pharmacistId: string;
+    slot: TimeInterval;
+    bookingType: BookingType;
+    memo: string | null;
+    /** 予約した患者に渡すトークンのハッシュ（lib/scheduling/patientToken.ts） */
+    patientTokenHash?: string | null;
+  }
+): Promise<Appointment> {
+  if (!(await isOfferedSlot(supabase, input.pharmacistId, input.slot))) {
+    throw new Error(SLOT_NOT_OFFERED_MESSAGE);
+  }
+  const busy = await fetchBusyIntervals(supabase, input.pharmacistId, input.slot);
+  if (busy.some((b) => overlaps(b, input.slot))) {
+    throw new Error(SLOT_TAKEN_MESSAGE);
+  }
+
+  const { data, error } = await supabase
+    .from("appointments")
+    .insert({
+      patient_id: input.patientId,
+      pharmacist_id: input.pharmacistId,
+      booking_type: input.bookingType,
+      memo: input.memo,
+      opened_at: new Date().toISOString(),
+      scheduled_start: input.slot.start,
+      scheduled_end: input.slot.end,
+      status: "requested",
+      patient_token_hash: input.patientTokenHash ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23P01") throw new Error(SLOT_TAKEN_MESSAGE);
+    throw error;
+  }
+  return data as Appointment;
+}
+
+/**
+ * 週ごとの受付時間を丸ごと置き換える（編集画面で「保存」したとき）
+ */
+export async function replaceWeeklyAvailability(
+  supabase: SupabaseClient,
+  owner: AvailabilityOwner,
+  rows: Pick<WeeklyAvailability, "weekday" | "start_time" | "end_time" | "slot_minutes">[]
+): Promise<void> {
+  const column = ownerColumn(owner);
+
+  const { error: deleteError } = await supabase
+    .from("pharmacist_availability")
+    .delete()
+    .eq(column, owner.id);
+  if (deleteError) throw deleteError;
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("pharmacist_availability").insert(
+    rows.map((r) => ({
+      ...r,
+      pharmacist_id: owner.kind === "pharmacist" ? owner.id : null,
+      store_id: owner.kind === "store" ? owner.id : null,
+    }))
+  );
+  if (error) throw error;
+}
+
+export async function addAvailabilityException(
+  supabase: SupabaseClient,
+  owner: AvailabilityOwner,
+  input: Pick<
+    AvailabilityException,
+    "date" | "start_time" | "end_time" | "is_available" | "note"
+  >
+): Promise<AvailabilityException> {
+  const { data, error } = await supabase
+    .from("availability_exceptions")
+    .insert({
+      ...input,
+      pharmacist_id: owner.kind === "pharmacist" ? owner.id : null,
+      store_id: owner.kind === "store" ? owner.id : null,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as AvailabilityException;
+}
+
+export async function deleteAvailabilityException(
+  supabase: SupabaseClient,
+  id: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("availability_exceptions")
+    .delete()
+    .eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,61 @@
+// src/lib/scheduling/changeWindow.ts
+import type { Appointment } from "@/types/supabase";
+import { statusOf } from "./appointmentStatus";
+
+/**
+ * 患者が自分で日時変更・キャンセルできるのは、相談開始の何時間前までか
+ * - NEXT_PUBLIC_APPOINTMENT_CHANGE_CUTOFF_HOURS で上書きできる（既定 24 時間）
+ */
+export const DEFAULT_CHANGE_CUTOFF_HOURS = 24;
+
+export function changeCutoffHours(
+  raw: string | undefined = process.env.NEXT_PUBLIC_APPOINTMENT_CHANGE_CUTOFF_HOURS
+): number {
+  const n = Number(raw);
+  return raw && Number.isFinite(n) && n >= 0 ? n : DEFAULT_CHANGE_CUTOFF_HOURS;
+}
+
+export type PatientChangeCheck = {
+  allowed: boolean;
+  /** 変更できないときの理由（画面にそのまま出す） */
+  reason: string | null;
+  /** 変更期限（相談日時が決まっていない予約では null） */
+  deadline: Date | null;
+};
+
+/**
+ * 患者が予約を変更・キャンセルできるか
+ * - 申込中・確定済みで、相談日時が決まっている予約だけ
+ * - 相談開始の cutoffHours 時間前を過ぎたら薬局への連絡をお願いする
+ */
+export function checkPatientChange(
+  appointment: Pick<Appointment, "scheduled_start"> & {
+    status?: Appointment["status"] | null;
+  },
+  now: Date,
+  cutoffHours: number
+): PatientChangeCheck {
+  const status = statusOf(appointment);
+  if (status !== "requested" && status !== "confirmed") {
+    return { allowed: false, reason: "この予約は変更できません。", deadline: null };
+  }
+  if (!appointment.scheduled_start) {
+    return {
+      allowed: false,
+      reason: "相談日時が決まっていない予約です。薬局からの連絡をお待ちください。",
+      deadline: null,
+    };
+  }
+
+  const deadline = new Date(
+    new Date(appointment.scheduled_start).getTime() - cutoffHours * 60 * 60 * 1000
+  );
+  if (now.getTime() > deadline.getTime()) {
+    return {
+      allowed: false,
+      reason: `相談開始の${cutoffHours}時間前を過ぎたため、変更・キャンセルは薬局へ直接ご連絡ください。`,
+      deadline,
+    };
+  }
+  return { allowed: true, reason: null, deadline };
+}
@@ -0,0 +1,106 @@
+// src/lib/scheduling/client.ts
+import type { Appointment, AppointmentStatus, BookingType } from "@/types/supabase";
+import type { TimeInterval } from "./slots";
+
+/**
+ * 予約の API 呼び出し（ブラウザ用）
+ * - 予約・キャンセル・日時変更・状態変更はサーバーで操作者を確かめてから書き込む
+ * - 患者は予約のときに受け取ったトークンをこの端末に保存し、ヘッダーで送る
+ *   （薬局側・管理者はログインの cookie で判定）
+ */
+
+export const APPOINTMENT_PATIENT_TOKEN_HEADER = "x-hito-yaku-appointment-token";
+
+const TOKEN_STORAGE_KEY = "hitoYakuAppointmentTokens_v1";
+
+function readTokens(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(TOKEN_STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** この端末で予約した予約のトークン（別の端末で予約した・発行前の予約は null） */
+export function appointmentPatientToken(appointmentId: string): string | null {
+  return readTokens()[appointmentId] ?? null;
+}
+
+function saveAppointmentPatientToken(appointmentId: string, token: string): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(
+    TOKEN_STORAGE_KEY,
+    JSON.stringify({ ...readTokens(), [appointmentId]: token })
+  );
+}
+
+async function callAppointmentApi<T>(
+  path: string,
+  appointmentId: string | null,
+  body: unknown
+): Promise<T> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const token = appointmentId ? appointmentPatientToken(appointmentId) : null;
+  if (token) headers[APPOINTMENT_PATIENT_TOKEN_HEADER] = token;
+
+  const res = await fetch(path, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+    cache: "no-store",
+  });
+  const json = (await res.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!res.ok || !json) {
+    throw new Error(json?.error ?? "予約の操作に失敗しました。時間をおいて再度お試しください。");
+  }
+  return json;
+}
+
+function appointmentPath(appointmentId: string): string {
+  return `/api/appointments/${encodeURIComponent(appointmentId)}`;
+}
+
+/** 空き枠を予約し、受け取ったトークンをこの端末に保存する */
+export async function requestAppointmentBooking(input: {
+  patientId: string;
+  pharmacistId: string;
+  slot: TimeInterval;
+  bookingType: BookingType;
+  memo: string | null;
+}): Promise<Appointment> {
+  const json = await callAppointmentApi<{ appointment: Appointment; token: string }>(
+    "/api/appointments",
+    null,
+    input
+  );
+  saveAppointmentPatientToken(json.appointment.id, json.token);
+  return json.appointment;
+}
+
+export async function requestAppointmentTransition(
+  appointmentId: string,
+  to: AppointmentStatus,
+  reason: string | null = null
+): Promise<Appointment> {
+  const json = await callAppointmentApi<{ appointment: Appointment }>(
+    `${appointmentPath(appointmentId)}/status`,
+    appointmentId,
+    { to, reason }
+  );
+  return json.appointment;
+}
+
+/** 患者による日時変更 */
+export async function requestAppointmentReschedule(
+  appointmentId: string,
+  slot: TimeInterval
+): Promise<Appointment> {
+  const json = await callAppointmentApi<{ appointment: Appointment }>(
+    `${appointmentPath(appointmentId)}/reschedule`,
+    appointmentId,
+    { slot }
+  );
+  return json.appointment;
+}
@@ -0,0 +1,8 @@
+// src/lib/scheduling/index.ts
+// 予約枠（受付時間・例外・空き枠）・予約状態・リマインドの公開窓口
+export * from "./slots";
+export * from "./availability";
+export * from "./appointmentStatus";
+export * from "./appointments";
+export * from "./changeWindow";
+export * from "./reminders";
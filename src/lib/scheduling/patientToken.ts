@@ -0,0 +1,29 @@
+// src/lib/scheduling/patientToken.ts
+// 予約ごとの患者トークン（サーバー専用。index からは公開しない）
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * 予約した患者だけが、その予約のキャンセル・日時変更・相談ルームに入れるようにするためのトークン
+ * - 予約のときにサーバーで発行し、ブラウザには平文、DB には SHA-256 だけを残す（appointments.patient_token_hash）
+ * - 患者IDは結果画面の URL などに出るので、患者IDだけでは本人扱いにしない
+ */
+
+export function issuePatientToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashPatientToken(token) };
+}
+
+export function hashPatientToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** トークンがないとき・発行前の予約（hash が null）は常に false */
+export function patientTokenMatches(
+  token: string | null | undefined,
+  hash: string | null | undefined
+): boolean {
+  if (!token || !hash) return false;
+  const actual = Buffer.from(hashPatientToken(token), "hex");
+  const expected = Buffer.from(hash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,139 @@
+// src/lib/scheduling/reminders.ts
+import type { Appointment, AppointmentStatus } from "@/types/supabase";
+import { statusOf } from "./appointmentStatus";
+
+/**
+ * 予約リマインドと無断欠席の判定（送信・更新は lib/jobs 側）
+ *
+ * - REMINDER_OFFSETS：相談開始の何分前に送るか（例 "24h,1h"。単位は d / h / m）
+ * - NO_SHOW_GRACE_HOURS：相談終了から何時間たっても「完了」にならなければ無断欠席とみなすか
+ */
+export const DEFAULT_REMINDER_OFFSETS = "24h,1h";
+export const DEFAULT_NO_SHOW_GRACE_HOURS = 24;
+
+const UNIT_MINUTES: Record<string, number> = { d: 24 * 60, h: 60, m: 1 };
+
+/** "24h,1h" → [1440, 60]（大きい順・重複なし。読めない値は無視） */
+export function parseReminderOffsets(
+  raw: string | undefined = process.env.REMINDER_OFFSETS
+): number[] {
+  const minutes = (raw?.trim() ? raw : DEFAULT_REMINDER_OFFSETS)
+    .split(",")
+    .map((part) => part.trim().toLowerCase().match(/^(\d+)\s*([dhm])$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map((m) => Number(m[1]) * UNIT_MINUTES[m[2]])
+    .filter((n) => n > 0);
+  return Array.from(new Set(minutes)).sort((a, b) => b - a);
+}
+
+export function noShowGraceHours(
+  raw: string | undefined = process.env.NO_SHOW_GRACE_HOURS
+): number {
+  const n = Number(raw);
+  return raw && Number.isFinite(n) && n >= 0 ? n : DEFAULT_NO_SHOW_GRACE_HOURS;
+}
+
+/** "1440" → "24時間前"（画面・ログ用） */
+export function formatReminderOffset(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}日前`;
+  if (minutes % 60 === 0) return `${minutes / 60}時間前`;
+  return `${minutes}分前`;
+}
+
+export type DueReminder = {
+  /** 実際に送るタイミング（期限を過ぎたもののうち一番直前のもの） */
+  send: number;
+  /** 送ったことにする全タイミング（取りこぼした前のタイミングも含む） */
+  mark: number[];
+};
+
+/**
+ * 今送るべきリマインド
+ * - 確定済みで、相談開始前のものだけ
+ * - 実行が遅れて複数のタイミングが同時に来たときは、直前のもの1通だけ送る
+ * - sentOffsets は「今の相談日時に対して」送り済みのタイミング（日時変更後は送り直す）
+ */
+export function dueReminder(
+  appointment: Pick<Appointment, "scheduled_start"> & { status?: AppointmentStatus | null },
+  offsets: number[],
+  sentOffsets: number[],
+  now: Date
+): DueReminder | null {
+  if (statusOf(appointment) !== "confirmed" || !appointment.scheduled_start) return null;
+
+  const start = new Date(appointment.scheduled_start).getTime();
+  if (start <= now.getTime()) return null;
+
+  const due = offsets.filter(
+    (offset) => start - offset * 60 * 1000 <= now.getTime() && !sentOffsets.includes(offset)
+  );
+  if (due.length === 0) return null;
+  return { send: Math.min(...due), mark: due };
+}
+
+/**
+ * 無断欠席とみなすか（確定のまま、相談終了から graceHours 以上たっている）
+ */
+export function isProbableNoShow(
+  appointment: Pick<Appointment, "scheduled_start" | "scheduled_end"> & {
+    status?: AppointmentStatus | null;
+  },
+  now: Date,
+  graceHours: number
+): boolean {
+  if (statusOf(appointment) !== "confirmed") return false;
+  const end = appointment.scheduled_end ?? appointment.scheduled_start;
+  if (!end) return false;
+  return new Date(end).getTime() + graceHours * 60 * 60 * 1000 <= now.getTime();
+}
+
+export type NoShowRate = {
+  key: string;
+  label: string;
+  /** 完了 + 無断欠席（相談日時を過ぎて結果が出た予約） */
+  total: number;
+  noShows: number;
+  /** 自動判定で無断欠席にしたもの */
+  autoFlagged: number;
+  rate: number | null;
+};
+
+export type NoShowRow = {
+  status: AppointmentStatus | null;
+  groupKey: string;
+  groupLabel: string;
+  autoFlagged?: boolean;
+};
+
+/**
+ * 無断欠席率（= 無断欠席 ÷（完了 + 無断欠席））を集計する
+ * - キャンセル・申込中・確定（まだ結果が出ていない）は分母に入れない
+ * - 率の高い順（同じなら件数の多い順）
+ */
+export function aggregateNoShowRates(rows: NoShowRow[]): NoShowRate[] {
+  const groups = new Map<string, NoShowRate>();
+
+  rows.forEach((row) => {
+    const status = statusOf(row);
+    if (status !== "completed" && status !== "no_show") return;
+
+    const group = groups.get(row.groupKey) ?? {
+      key: row.groupKey,
+      label: row.groupLabel,
+      total: 0,
+      noShows: 0,
+      autoFlagged: 0,
+      rate: null,
+    };
+    group.total += 1;
+    if (status === "no_show") {
+      group.noShows += 1;
+      if (row.autoFlagged) group.autoFlagged += 1;
+    }
+    groups.set(row.groupKey, group);
+  });
+
+  return Array.from(groups.values())
+    .map((g) => ({ ...g, rate: g.total > 0 ? g.noShows / g.total : null }))
+    .sort((a, b) => (b.rate ?? 0) - (a.rate ?? 0) || b.total - a.total);
+}
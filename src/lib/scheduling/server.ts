@@ -0,0 +1,104 @@
+// src/lib/scheduling/server.ts
+// 予約 API 用（サーバー専用。index からは公開しない）
+import { createSupabaseServerClient } from "../supabaseServer";
+import { createSupabaseAdminClient } from "../supabaseAdmin";
+import { getPharmacyCompanyIdForUser } from "../pharmacy-company";
+import type { Appointment } from "@/types/supabase";
+import type { AppointmentActor } from "./appointments";
+import { APPOINTMENT_PATIENT_TOKEN_HEADER } from "./client";
+import { patientTokenMatches } from "./patientToken";
+
+export type AccessibleAppointment = Appointment & {
+  pharmacist: { belongs_pharmacy_id: string | null } | null;
+};
+
+export type AppointmentAccess = {
+  appointment: AccessibleAppointment | null;
+  actor: AppointmentActor | null;
+  /** appointment が null のときの理由と HTTP ステータス */
+  error: string | null;
+  status: number;
+};
+
+export const APPOINTMENT_FORBIDDEN_MESSAGE =
+  "この予約を操作する権限がありません。予約した端末、または薬局のアカウントで開いてください。";
+
+/**
+ * リクエストした人がこの予約の誰にあたるかを決める
+ * - 管理者：profile_users.role = 'admin'
+ * - 薬局法人：担当薬剤師の所属法人が profile_users.related_pharmacy_id と一致
+ * - 患者：予約のときに発行したトークン（ヘッダー）が一致。患者IDだけでは通さない
+ * - 操作者の区分はリクエストの値・role cookie からは決めない
+ * - 通ったら予約は service role で読み書きする
+ */
+export async function appointmentAccessForRequest(
+  req: Request,
+  appointmentId: string
+): Promise<AppointmentAccess> {
+  const { data: appointment, error } = await createSupabaseAdminClient()
+    .from("appointments")
+    .select("*, pharmacist:pharmacists(belongs_pharmacy_id)")
+    .eq("id", appointmentId)
+    .maybeSingle<AccessibleAppointment>();
+  if (error) {
+    console.error("[appointmentAccessForRequest] failed to load appointment", error);
+    return { appointment: null, actor: null, error: "予約の取得に失敗しました。", status: 500 };
+  }
+  // 予約があるかどうかも、権限のない人には教えない
+  const forbidden: AppointmentAccess = {
+    appointment: null,
+    actor: null,
+    error: APPOINTMENT_FORBIDDEN_MESSAGE,
+    status: 403,
+  };
+  if (!appointment) return forbidden;
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (user) {
+    const { data: profile } = await supabase
+      .from("profile_users")
+      .select("role")
+      .eq("auth_user_id", user.id)
+      .maybeSingle<{ role: string | null }>();
+    if (profile?.role === "admin") {
+      return { appointment, actor: { role: "admin", id: user.id }, error: null, status: 200 };
+    }
+    const pharmacyId = await getPharmacyCompanyIdForUser(supabase, user.id);
+    if (pharmacyId && appointment.pharmacist?.belongs_pharmacy_id === pharmacyId) {
+      return {
+        appointment,
+        actor: { role: "pharmacy_company", id: user.id },
+        error: null,
+        status: 200,
+      };
+    }
+  }
+
+  if (
+    patientTokenMatches(
+      req.headers.get(APPOINTMENT_PATIENT_TOKEN_HEADER),
+      appointment.patient_token_hash
+    )
+  ) {
+    return {
+      appointment,
+      actor: { role: "patient", id: appointment.patient_id },
+      error: null,
+      status: 200,
+    };
+  }
+  return forbidden;
+}
+
+/** ブラウザに返す前にトークンのハッシュと結合した列を外す */
+export function publicAppointment(
+  appointment: Appointment & { pharmacist?: unknown }
+): Appointment {
+  const rest = { ...appointment };
+  delete rest.patient_token_hash;
+  delete rest.pharmacist;
+  return rest;
+}
@@ -0,0 +1,177 @@
+// src/lib/scheduling/slots.ts
+import type {
+  AvailabilityException,
+  WeeklyAvailability,
+} from "@/types/supabase";
+
+/** 予約枠・予約済みの時間帯（ISO 文字列） */
+export interface TimeInterval {
+  start: string;
+  end: string;
+}
+
+export interface SlotGenerationInput {
+  weekly: WeeklyAvailability[];
+  exceptions: AvailabilityException[];
+  /** 予約済みの時間帯（この時間と重なる枠は出さない） */
+  busy: TimeInterval[];
+  /** この日（日本時間）から days 日分の枠を作る */
+  from: Date;
+  days: number;
+  /** 現在時刻。now + leadMinutes より前に始まる枠は出さない */
+  now: Date;
+  leadMinutes?: number;
+}
+
+export const WEEKDAY_LABEL = ["日", "月", "火", "水", "木", "金", "土"];
+
+// 臨時の受付枠など、枠の長さが決まっていないときに使う
+export const DEFAULT_SLOT_MINUTES = 30;
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Date → 日本時間の "YYYY-MM-DD" */
+export function toJstDate(date: Date): string {
+  return new Date(date.getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/** 日本時間の日付・時刻 → Date */
+export function fromJst(date: string, time: string): Date {
+  return new Date(`${date}T${time.slice(0, 5)}:00+09:00`);
+}
+
+/** "YYYY-MM-DD" の曜日（0=日〜6=土） */
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(
+    new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS
+  )
+    .toISOString()
+    .slice(0, 10);
+}
+
+export function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return (
+    new Date(a.start).getTime() < new Date(b.end).getTime() &&
+    new Date(b.start).getTime() < new Date(a.end).getTime()
+  );
+}
+
+/**
+ * 薬剤師本人の受付時間があればそれを、なければ所属店舗の受付時間を使う
+ * - 例外（休み・臨時枠）は本人分と店舗分の両方を適用する
+ */
+export function resolveAvailability(
+  own: { weekly: WeeklyAvailability[]; exceptions: AvailabilityException[] },
+  store: { weekly: WeeklyAvailability[]; exceptions: AvailabilityException[] }
+): { weekly: WeeklyAvailability[]; exceptions: AvailabilityException[] } {
+  return {
+    weekly: own.weekly.length > 0 ? own.weekly : store.weekly,
+    exceptions: [...own.exceptions, ...store.exceptions],
+  };
+}
+
+/**
+ * 週ごとの受付時間・例外・予約済みの時間帯から、予約できる枠を作る
+ * - 受付時間を slot_minutes ごとに区切り、休みや予約済みと重なる枠は除く
+ * - 同じ開始時刻の枠が重複した場合は1つにまとめる
+ */
+export function generateSlots(input: SlotGenerationInput): TimeInterval[] {
+  const leadMs = (input.leadMinutes ?? 60) * 60 * 1000;
+  const earliest = input.now.getTime() + leadMs;
+  const firstDate = toJstDate(input.from);
+  const slots = new Map<string, TimeInterval>();
+
+  for (let i = 0; i < input.days; i++) {
+    const date = addDays(firstDate, i);
+    const dayExceptions = input.exceptions.filter((e) => e.date === date);
+
+    // 終日休み
+    if (
+      dayExceptions.some((e) => !e.is_available && (!e.start_time || !e.end_time))
+    ) {
+      continue;
+    }
+
+    const blocked: TimeInterval[] = dayExceptions
+      .filter((e) => !e.is_available && e.start_time && e.end_time)
+      .map((e) => ({
+        start: fromJst(date, e.start_time!).toISOString(),
+        end: fromJst(date, e.end_time!).toISOString(),
+      }));
+
+    const windows = [
+      ...input.weekly
+        .filter((w) => w.weekday === weekdayOf(date))
+        .map((w) => ({
+          start: w.start_time,
+          end: w.end_time,
+          minutes: w.slot_minutes,
+        })),
+      ...dayExceptions
+        .filter((e) => e.is_available && e.start_time && e.end_time)
+        .map((e) => ({
+          start: e.start_time!,
+          end: e.end_time!,
+          minutes: DEFAULT_SLOT_MINUTES,
+        })),
+    ];
+
+    windows.forEach((w) => {
+      const stepMs = Math.max(5, w.minutes) * 60 * 1000;
+      const windowEnd = fromJst(date, w.end).getTime();
+      for (
+        let t = fromJst(date, w.start).getTime();
+        t + stepMs <= windowEnd;
+        t += stepMs
+      ) {
+        if (t < earliest) continue;
+        const slot = {
+          start: new Date(t).toISOString(),
+          end: new Date(t + stepMs).toISOString(),
+        };
+        if (blocked.some((b) => overlaps(slot, b))) continue;
+        if (input.busy.some((b) => overlaps(slot, b))) continue;
+        if (!slots.has(slot.start)) slots.set(slot.start, slot);
+      }
+    });
+  }
+
+  return Array.from(slots.values()).sort((a, b) =>
+    a.start.localeCompare(b.start)
+  );
+}
+
+/** 枠を日本時間の日付ごとにまとめる（表示用） */
+export function groupSlotsByDate(
+  slots: TimeInterval[]
+): { date: string; slots: TimeInterval[] }[] {
+  const groups = new Map<string, TimeInterval[]>();
+  slots.forEach((s) => {
+    const date = toJstDate(new Date(s.start));
+    const list = groups.get(date) ?? [];
+    list.push(s);
+    groups.set(date, list);
+  });
+  return Array.from(groups.entries()).map(([date, list]) => ({
+    date,
+    slots: list,
+  }));
+}
+
+/** "2026-10-19T01:00:00.000Z" → "10:00"（日本時間） */
+export function formatJstTime(iso: string): string {
+  return new Date(new Date(iso).getTime() + JST_OFFSET_MS)
+    .toISOString()
+    .slice(11, 16);
+}
+
+/** "2026-10-19" → "10/19（月）" */
+export function formatJstDateLabel(date: string): string {
+  const [, mm, dd] = date.split("-");
+  return `${Number(mm)}/${Number(dd)}（${WEEKDAY_LABEL[weekdayOf(date)]}）`;
+}
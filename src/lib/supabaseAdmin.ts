@@ -0,0 +1,20 @@
+// src/lib/supabaseAdmin.ts
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * service role の Supabase クライアント（サーバー専用）
+ * - ログインしていない外部からのアクセス（カレンダー購読など）を Route Handler で処理するとき用
+ * - RLS を通らないので、呼び出し側でトークン等による絞り込みを必ず行う
+ * - クライアントコンポーネントから import しないこと（キーがバンドルに入る）
+ */
+export function createSupabaseAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY が設定されていません。");
+  }
+
+  return createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -6,7 +6,7 @@ import type { Patient, Pharmacist, Pharmacy } from '@/types/supabase';
  * 患者と薬局の関係ステータス
  * lead: 顧問候補・見込み
  * active: 初回対応中・継続フォロー中
- * advisor: 顧問契約中イメージ
+ * advisor: 顧問契約中（advisor_contracts に契約がある）
  * ended: 対応終了
  */
 export type RelationStatus = 'lead' | 'active' | 'advisor' | 'ended';
@@ -59,7 +59,104 @@ export interface PatientLog {
   channel: PatientLogChannel;
   summary: string;
   note: string | null;
+  /** SOAP 形式の記録（任意。簡易な記録・列を入れる前のログは null） */
+  soap?: PatientLogSoap | null;
+  /** 話に出た薬（薬剤名のみ。用量などは SOAP の本文に書く） */
+  medications?: string[] | null;
+  /** 次回までの対応事項（jsonb） */
+  action_items?: LogActionItem[] | null;
+  /** キーワード検索用に、要約・メモ・SOAP・薬・対応事項をつないだ文字列（保存時に作る） */
+  search_text?: string | null;
   created_by: string | null;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+/** 相談ログの SOAP（patient_logs.soap の jsonb。書かなかった項目は null） */
+export interface PatientLogSoap {
+  subjective: string | null;
+  objective: string | null;
+  assessment: string | null;
+  plan: string | null;
+}
+
+export interface LogActionItem {
+  text: string;
+  /** 期日（日本時間の "YYYY-MM-DD"）。なしは null */
+  due_date: string | null;
+  done: boolean;
+}
+/**
+ * 店長へのエスカレーション記録（follow_up_escalations テーブル）
+ * - (patient_id, next_contact_at) に unique 制約（supabase/migrations/20261019000300_follow_up_escalation_guards.sql）。
+ *   同じ予定日の遅れは1回だけ知らせる
+ * - 次回フォロー予定日が更新されたら、新しい予定日に対してあらためて判定する
+ */
+export interface FollowUpEscalation {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  next_contact_at: string;
+  store_id: string | null;
+  /** 送った宛先（送り先がなかったときは null） */
+  sent_to: string | null;
+}
+
+/** ステータスを変えた操作者 */
+export type RelationStatusActorRole = "admin" | "pharmacy_company";
+
+/**
+ * 関係ステータスの変更履歴（relation_status_events テーブル）
+ * - actor_id は操作したユーザーの auth.users.id
+ * - ファネル（見込み→顧問の転換率・各段階の日数）はこの履歴から集計する
+ */
+export interface RelationStatusEvent {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  from_status: RelationStatus;
+  to_status: RelationStatus;
+  actor_role: RelationStatusActorRole;
+  actor_id: string | null;
+  reason: string | null;
+}
+
+/** 顧問契約のプラン */
+export type AdvisorPlan = "light" | "standard" | "premium";
+
+/**
+ * 顧問契約（advisor_contracts テーブル）
+ * - start_date / end_date は日本時間の日付（"YYYY-MM-DD"。end_date の日まで有効）
+ * - 更新は新しい行を作り、renewed_from_id に元の契約を入れる（renewed_from_id に unique 制約）
+ * - monthly_allowance は月（日本時間の暦月）あたりの相談回数。patient_logs の件数と突き合わせる
+ */
+export interface AdvisorContract {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  /** 契約した薬局（patients.pharmacy_id を写す。薬局画面はこの列で絞る） */
+  pharmacy_id: string | null;
+  plan: AdvisorPlan;
+  start_date: string;
+  end_date: string;
+  auto_renew: boolean;
+  /** 月額（円・税込） */
+  monthly_fee: number;
+  monthly_allowance: number;
+  renewed_from_id: string | null;
+  note: string | null;
+}
+
+/**
+ * 送った更新リマインド（advisor_contract_reminders テーブル）
+ * - (contract_id, days_before) に unique 制約。先に行を入れてから送るので二重送信しない
+ * - skipped = true は、実行が遅れて直前のリマインドにまとめたもの（送っていない）
+ */
+export interface AdvisorContractReminder {
+  id: string;
+  created_at: string;
+  contract_id: string;
+  days_before: number;
+  skipped: boolean;
+  sent_to: string[];
+}
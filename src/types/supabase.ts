@@ -7,6 +7,8 @@ export type PrmPriority = 1 | 2 | 3;
 export interface Patient {
   id: string;
   created_at: string;
+  /** 最後に更新した日時（列を足す前の患者は null） */
+  updated_at: string | null;
   name: string | null;
   email: string | null;
   symptom_score: Record<string, number> | null;
@@ -16,12 +18,23 @@ export interface Patient {
   severity: string | null;
   area: string | null;
   type: PatientType | null;
+  /** 診断回答から推定した A〜D タイプごとの確率（旧データは null） */
+  type_probabilities: Record<PatientType, number> | null;
   note: string | null;
   care_style: string | null;  
   comm_style: string[] | null;         // ["empathy","logical",...]
-  explanation_depth: string | null;    // "simple" | "detailed" | "evidence"
-  followup_frequency: string | null;   // "on_demand" | "monthly" | "biweekly_or_more"
-  channel_preference: string | null;   // "chat" | "video" | "hybrid"
+  explanation_depth: string | null;    // "simple" | "evidence"
+  followup_frequency: string | null;   // "spot" | "monthly" | "regular"
+  channel_preference: string | null;   // "chat" | "video" | "in_person"
+
+  /** true のとき、希望言語（language）に対応していない薬剤師は候補から外す */
+  language_required: boolean | null;
+  /** 担当薬剤師の性別の希望（null はこだわらない） */
+  preferred_gender: "女性" | "男性" | null;
+  /** 担当薬剤師の年代の希望（空・null はこだわらない） */
+  preferred_age_categories: string[] | null;
+  /** 患者が候補から外した薬剤師 */
+  excluded_pharmacist_ids: string[] | null;
   
   /** メイン担当薬局（null の場合：まだどこにもひも付いていない見込み患者） */
   pharmacy_id: string | null;
@@ -55,6 +68,26 @@ export interface Pharmacy {
   note: string | null;
 }
 
+/**
+ * 店舗（stores テーブル）
+ * - pharmacy_id は所属する薬局法人
+ * - 薬剤師は pharmacists.belongs_store_id で店舗にひも付く
+ */
+export interface Store {
+  id: string;
+  pharmacy_id: string | null;
+  name: string | null;
+  postal_code: string | null;
+  prefecture: string | null;
+  city: string | null;
+  address_line1: string | null;
+  address_line2: string | null;
+  /** 予約・連絡希望の通知を受け取るメールアドレス（所属薬剤師全員分が届く） */
+  notification_email?: string | null;
+  /** 店長のメールアドレス（優先度「高」の患者のフォロー遅れをエスカレーションする。未設定なら notification_email） */
+  manager_email?: string | null;
+}
+
 export interface Pharmacist {
   id: string;
   created_at: string;
@@ -65,6 +98,8 @@ export interface Pharmacist {
   experience_case: string[] | null;
   personality: string | null;
   belongs_pharmacy_id: string | null;
+  /** 所属店舗（stores.id）。マッチングの距離計算はこの店舗の住所を使う */
+  belongs_store_id: string | null;
   years_of_experience: number | null;
   care_role: string[] | null;
   gender: "女性" | "男性" | "その他" | null;
@@ -77,4 +112,281 @@ export interface Pharmacist {
     | "60代"
     | "70代以上"
     | null; 
+
+  /** 得意な話し方（診断 Step3 の comm_style と同じキー） */
+  comm_styles: string[] | null;
+  /** 対応できる説明の深さ（"simple" | "evidence"） */
+  explanation_styles: string[] | null;
+  /** 提供できるフォロー頻度（"spot" | "monthly" | "regular"） */
+  followup_cadences: string[] | null;
+  /** 対応できる相談方法（"chat" | "video" | "in_person"） */
+  supported_channels: string[] | null;
+  /** 予約・連絡希望の通知を受け取るメールアドレス（未設定なら店舗の通知先だけ） */
+  notification_email?: string | null;
+}
+
+export type BookingType = "phone" | "online" | "in_person";
+
+/** 予約の状態（requested → confirmed → completed / cancelled / no_show） */
+export type AppointmentStatus =
+  | "requested"
+  | "confirmed"
+  | "completed"
+  | "cancelled"
+  | "no_show";
+
+/** 予約の状態を変えた操作者 */
+export type AppointmentActorRole =
+  | "patient"
+  | "pharmacy_company"
+  | "admin"
+  | "system";
+
+/**
+ * 予約（appointments テーブル）
+ * - opened_at は「予約ボタンを押した」ログ（外部カレンダー予約の名残）
+ * - scheduled_start / scheduled_end は空き枠から確定した相談日時。外部予約のログでは null
+ * - status は既定値 'requested'。状態ごとの *_at は最後にその状態になった日時
+ *   （誰が変えたかは appointment_status_events に残す）
+ * - 患者が日時を変更したら rescheduled_at と変更前の previous_scheduled_start を残す
+ * - patient_token_hash は予約のときに患者へ渡したトークンの SHA-256（lib/scheduling/patientToken.ts）。
+ *   ブラウザには返さない。状態・日時・このハッシュは service role からしか変えられない
+ *   （supabase/migrations/20261019000000_appointment_guards.sql）
+ */
+export interface Appointment {
+  id: string;
+  created_at: string;
+  patient_id: string | null;
+  pharmacist_id: string | null;
+  booking_type: BookingType | null;
+  memo: string | null;
+  booking_url: string | null;
+  opened_at: string | null;
+  contact: string | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  status: AppointmentStatus;
+  status_changed_at: string | null;
+  confirmed_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  no_show_at: string | null;
+  rescheduled_at: string | null;
+  previous_scheduled_start: string | null;
+  patient_token_hash?: string | null;
+}
+
+/**
+ * 予約の状態変更履歴（appointment_status_events テーブル）
+ * - actor_id は操作したユーザーの auth.users.id（患者は patients.id、自動処理は null）
+ */
+export interface AppointmentStatusEvent {
+  id: string;
+  created_at: string;
+  appointment_id: string;
+  from_status: AppointmentStatus;
+  to_status: AppointmentStatus;
+  actor_role: AppointmentActorRole;
+  actor_id: string | null;
+  reason: string | null;
+}
+
+/**
+ * 送った予約リマインド（appointment_reminders テーブル）
+ * - (appointment_id, offset_minutes, scheduled_start) に unique 制約。先に行を入れてから送るので二重送信しない
+ * - 日時変更で scheduled_start が変わったら、新しい日時に対してあらためて送る
+ * - skipped = true は、実行が遅れて直前のリマインドにまとめたもの（送っていない）
+ * - channels は実際に送れた経路（"email" / "line"）
+ */
+export interface AppointmentReminderLog {
+  id: string;
+  created_at: string;
+  appointment_id: string;
+  offset_minutes: number;
+  scheduled_start: string;
+  channels: string[];
+  skipped: boolean;
+}
+
+/**
+ * オンライン相談ルーム（consultation_sessions テーブル）
+ * - 予約ごとに1つ（appointment_id に unique 制約）。最初に入室したときに作る
+ * - video_provider / video_room_id は作った時点のビデオ通話の設定（lib/consultation/video.ts）
+ */
+export interface ConsultationSession {
+  id: string;
+  created_at: string;
+  appointment_id: string;
+  video_provider: string;
+  video_room_id: string;
+}
+
+export type ConsultationSenderRole = "patient" | "pharmacist";
+
+/**
+ * オンライン相談のチャット（consultation_messages テーブル）
+ * - 読み書きは /api/consultations/[appointmentId] 経由のみ（入室チェックの後に service role で行う）
+ * - sender_id は患者なら patients.id、薬局側ならログインユーザーの auth.users.id
+ */
+export interface ConsultationMessage {
+  id: string;
+  created_at: string;
+  appointment_id: string;
+  sender_role: ConsultationSenderRole;
+  sender_id: string | null;
+  body: string;
+}
+
+/**
+ * 予約カレンダーの購読用トークン（calendar_feed_tokens テーブル）
+ * - pharmacist_id か store_id のどちらか一方が入る
+ * - /api/calendar/<token> で読み取り専用の iCal フィードを返す
+ * - 再発行したら古いトークンは revoked_at を入れて無効にする
+ */
+export interface CalendarFeedToken {
+  id: string;
+  created_at: string;
+  token: string;
+  pharmacist_id: string | null;
+  store_id: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * 外部カレンダーから取り込んだ予定あり時間帯（external_busy_intervals テーブル）
+ * - 薬剤師ごとに、取り込みのたびに今後の分を丸ごと置き換える
+ * - 予定の件名などは保存しない（時間帯だけ）
+ */
+export interface ExternalBusyInterval {
+  id: string;
+  pharmacist_id: string;
+  start_at: string;
+  end_at: string;
+  source: "upload" | "url";
+  /** ファイル名 or 取り込んだ URL のホスト名（URL そのものは残さない） */
+  source_label: string | null;
+  imported_at: string;
+}
+
+/** 連絡を希望する目的（/result の連絡先フォームで選ぶ） */
+export type ContactIntent = "spot_consult" | "mentor_candidate" | "save_for_later";
+
+/** 連絡方法（"other" は patients.note から移行した、形式を判定できない連絡先） */
+export type ContactMethod = "phone" | "email" | "other";
+
+/**
+ * 連絡先の登録（contact_requests テーブル）
+ * - 以前は patients.note に「【スポット相談希望】… 連絡先: …」の形で追記していた
+ * - phone は数字だけ（ハイフンなし）、email は小文字に正規化して保存する
+ * - contact_text は入力されたままの連絡先（表示用）
+ * - source = 'note_migration' は scripts/migrate-contact-notes.ts で移行したもの
+ * - ブラウザからは insert だけ。読めるのは管理者と担当の薬局（supabase/migrations/20261018000300_contact_notifications.sql）
+ */
+export interface ContactRequest {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  pharmacist_id: string | null;
+  intent: ContactIntent;
+  method: ContactMethod;
+  phone: string | null;
+  email: string | null;
+  contact_text: string;
+  message: string | null;
+  source: "form" | "note_migration";
+  /** 移行元の note の行（移行したものだけ） */
+  legacy_note: string | null;
+}
+
+/** 通知のきっかけ */
+export type NotificationEvent = "appointment_requested" | "contact_requested";
+
+/**
+ * 送った通知の記録（notification_logs テーブル）
+ * - 宛先ごとに1行。ref_id は appointments.id / contact_requests.id
+ * - 同じ event・ref_id・宛先に status = 'sent' があれば二重に送らない
+ */
+export interface NotificationLog {
+  id: string;
+  created_at: string;
+  event: NotificationEvent;
+  ref_id: string;
+  audience: "staff" | "patient";
+  recipient: string;
+  /** 送り方（smtp / file / console） */
+  transport: string;
+  status: "sent" | "failed";
+  error: string | null;
+}
+
+/**
+ * LINE 公式アカウントと患者のひも付け（line_links テーブル）
+ * - line_user_id は Messaging API の userId（U から始まる 33 文字）
+ * - 1人の患者・1つの LINE アカウントにつき有効なひも付けは1件（解除したら unlinked_at を入れる）
+ * - ブロック（unfollow）されたときも unlinked_at を入れる
+ * - line_user_id は service role だけが読める（マイページは fetchLineLinkStatus で他の列だけ読む）
+ */
+export interface LineLink {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  line_user_id: string;
+  unlinked_at: string | null;
+}
+
+/**
+ * LINE 連携用のワンタイムコード（line_link_codes テーブル）
+ * - マイページで発行し、患者が公式アカウントにコードを送るとひも付く
+ * - code は英数字10文字（unique 制約。重複したら発行し直す）
+ */
+export interface LineLinkCode {
+  id: string;
+  created_at: string;
+  patient_id: string;
+  code: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+/**
+ * LINE 連携コードの外れ（line_link_attempts テーブル。service role だけが読み書き）
+ * - 同じ LINE アカウントからの外れが続いたら、しばらくコードを受け付けない
+ */
+export interface LineLinkAttempt {
+  id: string;
+  line_user_id: string;
+  created_at: string;
+}
+
+/**
+ * 週ごとの受付時間（pharmacist_availability テーブル）
+ * - pharmacist_id か store_id のどちらか一方が入る
+ * - 薬剤師に1件でも登録があればそれを使い、なければ所属店舗の受付時間を使う
+ * - weekday は 0=日〜6=土、時刻は日本時間の "HH:MM"
+ */
+export interface WeeklyAvailability {
+  id: string;
+  pharmacist_id: string | null;
+  store_id: string | null;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+}
+
+/**
+ * 受付時間の例外（availability_exceptions テーブル）
+ * - is_available = false：休み。start_time / end_time が null なら終日
+ * - is_available = true：臨時の受付枠（start_time / end_time 必須）
+ * - 店舗の例外は所属する薬剤師全員に適用する
+ */
+export interface AvailabilityException {
+  id: string;
+  pharmacist_id: string | null;
+  store_id: string | null;
+  date: string; // "YYYY-MM-DD"（日本時間）
+  start_time: string | null;
+  end_time: string | null;
+  is_available: boolean;
+  note: string | null;
 }
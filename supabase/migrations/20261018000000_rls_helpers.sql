@@ -0,0 +1,99 @@
+-- supabase/migrations/20261018000000_rls_helpers.sql
+-- RLS で使う「ログイン中のユーザーは誰か」の判定
+-- - src/lib/pharmacy-company.ts（getPharmacyCompanyIdForUser）・src/lib/scheduling/server.ts と同じく profile_users で決める
+--   （role cookie は見ない）
+-- - profile_users・pharmacists などの RLS にかからないよう security definer にする
+
+create or replace function public.is_admin_user()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profile_users
+    where auth_user_id = auth.uid()
+      and role = 'admin'
+  );
+$$;
+
+-- 薬局法人のユーザーなら profile_users.related_pharmacy_id、それ以外は null
+create or replace function public.current_pharmacy_company_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select related_pharmacy_id
+  from public.profile_users
+  where auth_user_id = auth.uid()
+    and role = 'pharmacy_company'
+  limit 1;
+$$;
+
+-- 管理者、または薬剤師の所属法人のユーザー
+create or replace function public.can_manage_pharmacist(target_pharmacist_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin_user() or exists (
+    select 1
+    from public.pharmacists
+    where id = target_pharmacist_id
+      and belongs_pharmacy_id = public.current_pharmacy_company_id()
+  );
+$$;
+
+-- 管理者、または店舗の法人のユーザー
+create or replace function public.can_manage_store(target_store_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin_user() or exists (
+    select 1
+    from public.stores
+    where id = target_store_id
+      and pharmacy_id = public.current_pharmacy_company_id()
+  );
+$$;
+
+-- 管理者、または患者のメイン担当薬局（patients.pharmacy_id）のユーザー
+create or replace function public.can_manage_patient(target_patient_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin_user() or exists (
+    select 1
+    from public.patients
+    where id = target_patient_id
+      and pharmacy_id = public.current_pharmacy_company_id()
+  );
+$$;
+
+-- 管理者、または予約の担当薬剤師の所属法人のユーザー
+create or replace function public.can_manage_appointment(target_appointment_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.appointments
+    where id = target_appointment_id
+      and public.can_manage_pharmacist(pharmacist_id)
+  );
+$$;
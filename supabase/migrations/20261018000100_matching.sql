@@ -0,0 +1,87 @@
+-- supabase/migrations/20261018000100_matching.sql
+-- マッチング（ルール表の重み・多様性の設定・重みの提案）と、診断・薬剤師登録で増えた列
+-- - matching_weight_sets：保存のたびに version を +1 した行を作る。有効なのは1件だけ（src/lib/matching/weightSets.ts）
+-- - matching_weight_proposals：実績からの重み提案（src/lib/matching/weightProposals.ts）
+-- - 有効な重み設定は患者側の画面（/result・/pharmacists）も読む。書けるのは管理者だけ
+
+create table if not exists public.matching_weight_sets (
+  id uuid primary key default gen_random_uuid(),
+  version integer not null,
+  label text,
+  note text,
+  rules jsonb not null,
+  diversity jsonb,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  created_by uuid,
+  activated_at timestamptz,
+  constraint matching_weight_sets_version_key unique (version)
+);
+
+-- activateMatchingWeightSet は他を無効にしてから有効にする
+create unique index if not exists matching_weight_sets_one_active
+  on public.matching_weight_sets (is_active)
+  where is_active;
+
+create table if not exists public.matching_weight_proposals (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'rejected')),
+  base_version integer,
+  rules jsonb not null,
+  changes jsonb not null default '[]'::jsonb,
+  segments jsonb not null default '[]'::jsonb,
+  patients integer not null default 0,
+  positives integer not null default 0,
+  reviewed_at timestamptz,
+  reviewed_by uuid,
+  weight_set_id uuid references public.matching_weight_sets (id) on delete set null
+);
+
+create index if not exists matching_weight_proposals_created_idx
+  on public.matching_weight_proposals (created_at desc);
+
+alter table public.matching_weight_sets enable row level security;
+alter table public.matching_weight_proposals enable row level security;
+
+drop policy if exists "matching_weight_sets readable when active" on public.matching_weight_sets;
+create policy "matching_weight_sets readable when active"
+  on public.matching_weight_sets for select
+  to anon, authenticated
+  using (is_active or public.is_admin_user());
+
+drop policy if exists "matching_weight_sets admin insert" on public.matching_weight_sets;
+create policy "matching_weight_sets admin insert"
+  on public.matching_weight_sets for insert
+  to authenticated
+  with check (public.is_admin_user());
+
+drop policy if exists "matching_weight_sets admin update" on public.matching_weight_sets;
+create policy "matching_weight_sets admin update"
+  on public.matching_weight_sets for update
+  to authenticated
+  using (public.is_admin_user())
+  with check (public.is_admin_user());
+
+drop policy if exists "matching_weight_proposals admin only" on public.matching_weight_proposals;
+create policy "matching_weight_proposals admin only"
+  on public.matching_weight_proposals for all
+  to authenticated
+  using (public.is_admin_user())
+  with check (public.is_admin_user());
+
+-- 診断（/diagnosis）で保存する患者の列
+alter table public.patients
+  add column if not exists type_probabilities jsonb,
+  add column if not exists language_required boolean,
+  add column if not exists preferred_gender text,
+  add column if not exists preferred_age_categories text[],
+  add column if not exists excluded_pharmacist_ids uuid[];
+
+-- 薬剤師が宣言する対応項目（src/lib/matching/consultationPrefs.ts）
+alter table public.pharmacists
+  add column if not exists comm_styles text[],
+  add column if not exists explanation_styles text[],
+  add column if not exists followup_cadences text[],
+  add column if not exists supported_channels text[];
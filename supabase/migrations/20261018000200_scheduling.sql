@@ -0,0 +1,190 @@
+-- supabase/migrations/20261018000200_scheduling.sql
+-- 予約枠（受付時間・例外・外部カレンダーの予定）と、予約の日時・状態・リマインド・購読フィード
+-- - 予約の重なり・状態変更のガードは 20261019000000_appointment_guards.sql
+-- - 受付時間・例外・外部カレンダーの予定は予約画面（ログインなし）からも読む。書けるのは管理者と自社の薬局
+-- - 状態の履歴・リマインドは service role（/api/appointments・定期実行）だけが書く
+
+alter table public.appointments
+  add column if not exists scheduled_start timestamptz,
+  add column if not exists scheduled_end timestamptz,
+  add column if not exists status text not null default 'requested',
+  add column if not exists status_changed_at timestamptz,
+  add column if not exists confirmed_at timestamptz,
+  add column if not exists completed_at timestamptz,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists no_show_at timestamptz,
+  add column if not exists rescheduled_at timestamptz,
+  add column if not exists previous_scheduled_start timestamptz;
+
+alter table public.appointments
+  add constraint appointments_status_check
+  check (status in ('requested', 'confirmed', 'completed', 'cancelled', 'no_show'));
+
+alter table public.appointments
+  add constraint appointments_scheduled_range_check
+  check (scheduled_start is null or scheduled_end is null or scheduled_start < scheduled_end);
+
+create index if not exists appointments_pharmacist_scheduled_idx
+  on public.appointments (pharmacist_id, scheduled_start);
+
+-- 週ごとの受付時間（pharmacist_id か store_id のどちらか一方）
+create table if not exists public.pharmacist_availability (
+  id uuid primary key default gen_random_uuid(),
+  pharmacist_id uuid references public.pharmacists (id) on delete cascade,
+  store_id uuid references public.stores (id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  slot_minutes integer not null default 30 check (slot_minutes > 0),
+  check (num_nonnulls(pharmacist_id, store_id) = 1),
+  check (start_time < end_time)
+);
+
+create index if not exists pharmacist_availability_pharmacist_idx
+  on public.pharmacist_availability (pharmacist_id);
+create index if not exists pharmacist_availability_store_idx
+  on public.pharmacist_availability (store_id);
+
+-- 受付時間の例外（休み・臨時の受付枠）
+create table if not exists public.availability_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  pharmacist_id uuid references public.pharmacists (id) on delete cascade,
+  store_id uuid references public.stores (id) on delete cascade,
+  date date not null,
+  start_time time,
+  end_time time,
+  is_available boolean not null default false,
+  note text,
+  check (num_nonnulls(pharmacist_id, store_id) = 1),
+  check ((start_time is null) = (end_time is null)),
+  check (start_time is null or start_time < end_time),
+  check (not is_available or start_time is not null)
+);
+
+create index if not exists availability_exceptions_pharmacist_date_idx
+  on public.availability_exceptions (pharmacist_id, date);
+create index if not exists availability_exceptions_store_date_idx
+  on public.availability_exceptions (store_id, date);
+
+-- 外部カレンダーから取り込んだ予定あり時間帯（件名は持たない。URL はホスト名だけ残す）
+create table if not exists public.external_busy_intervals (
+  id uuid primary key default gen_random_uuid(),
+  pharmacist_id uuid not null references public.pharmacists (id) on delete cascade,
+  start_at timestamptz not null,
+  end_at timestamptz not null,
+  source text not null check (source in ('upload', 'url')),
+  source_label text,
+  imported_at timestamptz not null default now(),
+  check (start_at < end_at)
+);
+
+create index if not exists external_busy_intervals_pharmacist_idx
+  on public.external_busy_intervals (pharmacist_id, start_at);
+
+-- 予約の状態変更履歴
+create table if not exists public.appointment_status_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  actor_role text not null check (actor_role in ('patient', 'pharmacy_company', 'admin', 'system')),
+  -- 患者は patients.id、薬局・管理者は auth.users.id、自動処理は null
+  actor_id uuid,
+  reason text
+);
+
+create index if not exists appointment_status_events_appointment_idx
+  on public.appointment_status_events (appointment_id, created_at);
+
+-- 送った予約リマインド（二重送信を防ぐ unique 制約は 20261019000000_appointment_guards.sql）
+create table if not exists public.appointment_reminders (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  offset_minutes integer not null,
+  scheduled_start timestamptz not null,
+  channels text[] not null default '{}',
+  skipped boolean not null default false
+);
+
+-- 予約カレンダーの購読用トークン（/api/calendar/<token> は service role で読む）
+create table if not exists public.calendar_feed_tokens (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  token text not null check (token ~ '^[0-9a-f]{64}$'),
+  pharmacist_id uuid references public.pharmacists (id) on delete cascade,
+  store_id uuid references public.stores (id) on delete cascade,
+  revoked_at timestamptz,
+  constraint calendar_feed_tokens_token_key unique (token),
+  check (num_nonnulls(pharmacist_id, store_id) = 1)
+);
+
+create index if not exists calendar_feed_tokens_pharmacist_idx
+  on public.calendar_feed_tokens (pharmacist_id);
+create index if not exists calendar_feed_tokens_store_idx
+  on public.calendar_feed_tokens (store_id);
+
+alter table public.pharmacist_availability enable row level security;
+alter table public.availability_exceptions enable row level security;
+alter table public.external_busy_intervals enable row level security;
+alter table public.appointment_status_events enable row level security;
+alter table public.appointment_reminders enable row level security;
+alter table public.calendar_feed_tokens enable row level security;
+
+-- 受付時間・例外・外部の予定：だれでも読める（予約画面で空き枠を作る）。書くのは管理者と自社の薬局
+drop policy if exists "pharmacist_availability readable" on public.pharmacist_availability;
+create policy "pharmacist_availability readable"
+  on public.pharmacist_availability for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "pharmacist_availability managed by owner" on public.pharmacist_availability;
+create policy "pharmacist_availability managed by owner"
+  on public.pharmacist_availability for all
+  to authenticated
+  using (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id))
+  with check (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id));
+
+drop policy if exists "availability_exceptions readable" on public.availability_exceptions;
+create policy "availability_exceptions readable"
+  on public.availability_exceptions for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "availability_exceptions managed by owner" on public.availability_exceptions;
+create policy "availability_exceptions managed by owner"
+  on public.availability_exceptions for all
+  to authenticated
+  using (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id))
+  with check (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id));
+
+drop policy if exists "external_busy_intervals readable" on public.external_busy_intervals;
+create policy "external_busy_intervals readable"
+  on public.external_busy_intervals for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "external_busy_intervals managed by owner" on public.external_busy_intervals;
+create policy "external_busy_intervals managed by owner"
+  on public.external_busy_intervals for all
+  to authenticated
+  using (public.can_manage_pharmacist(pharmacist_id))
+  with check (public.can_manage_pharmacist(pharmacist_id));
+
+-- 状態の履歴：読むのは管理者と担当の薬局（無断欠席率の集計）。書き込みの取り消しは appointment_guards
+drop policy if exists "appointment_status_events readable by staff" on public.appointment_status_events;
+create policy "appointment_status_events readable by staff"
+  on public.appointment_status_events for select
+  to authenticated
+  using (public.can_manage_appointment(appointment_id));
+
+-- 購読用トークン：トークンそのものが鍵なので、持ち主（管理者と自社の薬局）だけ
+drop policy if exists "calendar_feed_tokens managed by owner" on public.calendar_feed_tokens;
+create policy "calendar_feed_tokens managed by owner"
+  on public.calendar_feed_tokens for all
+  to authenticated
+  using (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id))
+  with check (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_store(store_id));
+
+-- appointment_reminders はポリシーなし（service role だけが読み書きする）
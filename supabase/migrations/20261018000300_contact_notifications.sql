@@ -0,0 +1,62 @@
+-- supabase/migrations/20261018000300_contact_notifications.sql
+-- 連絡先の登録（contact_requests）と通知（notification_logs・通知先メールアドレス）
+-- - 連絡先フォームはログインなしで insert だけする（createContactRequest は読み返さない）
+-- - 読めるのは管理者と、希望薬剤師・患者のメイン担当の薬局だけ
+-- - notification_logs は service role（/api/notifications・定期実行）だけが読み書きする
+
+create table if not exists public.contact_requests (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  pharmacist_id uuid references public.pharmacists (id) on delete set null,
+  intent text not null check (intent in ('spot_consult', 'mentor_candidate', 'save_for_later')),
+  method text not null check (method in ('phone', 'email', 'other')),
+  phone text,
+  email text,
+  contact_text text not null,
+  message text,
+  source text not null default 'form' check (source in ('form', 'note_migration')),
+  -- 移行元の patients.note の行（scripts/migrate-contact-notes.ts で移行したものだけ）
+  legacy_note text
+);
+
+create index if not exists contact_requests_patient_created_idx
+  on public.contact_requests (patient_id, created_at desc);
+
+create table if not exists public.notification_logs (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  event text not null,
+  ref_id uuid not null,
+  audience text not null check (audience in ('staff', 'patient')),
+  recipient text not null,
+  transport text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text
+);
+
+create index if not exists notification_logs_ref_idx
+  on public.notification_logs (event, ref_id);
+
+alter table public.contact_requests enable row level security;
+alter table public.notification_logs enable row level security;
+
+drop policy if exists "contact_requests insert from form" on public.contact_requests;
+create policy "contact_requests insert from form"
+  on public.contact_requests for insert
+  to anon, authenticated
+  with check (source = 'form' and legacy_note is null);
+
+drop policy if exists "contact_requests readable by staff" on public.contact_requests;
+create policy "contact_requests readable by staff"
+  on public.contact_requests for select
+  to authenticated
+  using (public.can_manage_pharmacist(pharmacist_id) or public.can_manage_patient(patient_id));
+
+-- 通知先（未設定なら送らない）
+alter table public.stores
+  add column if not exists notification_email text,
+  add column if not exists manager_email text;
+
+alter table public.pharmacists
+  add column if not exists notification_email text;
@@ -0,0 +1,61 @@
+-- supabase/migrations/20261018000400_line_links.sql
+-- LINE 公式アカウントと患者のひも付け（src/lib/line/linking.ts）
+-- - マイページ（ログインなし）はコードの発行（insert だけ）・連携状態の確認・解除をする
+-- - LINE の userId（line_user_id）は service role（Webhook・送信）だけが読む
+-- - コードの unique 制約と総当たり対策は 20261019000100_line_link_attempts.sql
+
+create table if not exists public.line_links (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  line_user_id text not null,
+  unlinked_at timestamptz
+);
+
+-- 有効なひも付けは患者ごと・LINE アカウントごとに1件（consumeLineLinkCode は以前の分を解除してから作る）
+create unique index if not exists line_links_active_patient
+  on public.line_links (patient_id)
+  where unlinked_at is null;
+create unique index if not exists line_links_active_line_user
+  on public.line_links (line_user_id)
+  where unlinked_at is null;
+
+create table if not exists public.line_link_codes (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  code text not null,
+  expires_at timestamptz not null,
+  used_at timestamptz
+);
+
+alter table public.line_links enable row level security;
+alter table public.line_link_codes enable row level security;
+
+-- ひも付け：line_user_id 以外の列を読めて、解除（unlinked_at を入れる）だけできる
+revoke all on public.line_links from anon, authenticated;
+grant select (id, created_at, patient_id, unlinked_at) on public.line_links to anon, authenticated;
+grant update (unlinked_at) on public.line_links to anon, authenticated;
+
+drop policy if exists "line_links readable" on public.line_links;
+create policy "line_links readable"
+  on public.line_links for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "line_links unlink" on public.line_links;
+create policy "line_links unlink"
+  on public.line_links for update
+  to anon, authenticated
+  using (unlinked_at is null)
+  with check (unlinked_at is not null);
+
+-- コード：発行（insert）だけ。読み取り・使用済みにするのは Webhook（service role）
+revoke all on public.line_link_codes from anon, authenticated;
+grant insert (id, patient_id, code, expires_at) on public.line_link_codes to anon, authenticated;
+
+drop policy if exists "line_link_codes issue" on public.line_link_codes;
+create policy "line_link_codes issue"
+  on public.line_link_codes for insert
+  to anon, authenticated
+  with check (used_at is null and expires_at <= now() + interval '1 hour');
@@ -0,0 +1,28 @@
+-- supabase/migrations/20261018000500_consultations.sql
+-- オンライン相談ルームとチャット（src/lib/consultation）
+-- - 読み書きは /api/consultations/[appointmentId] が入室チェックの後に service role で行う（ポリシーなし）
+-- - 予約ごとに1ルームの unique 制約は 20261019000000_appointment_guards.sql
+
+create table if not exists public.consultation_sessions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  video_provider text not null,
+  video_room_id text not null
+);
+
+create table if not exists public.consultation_messages (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  sender_role text not null check (sender_role in ('patient', 'pharmacist')),
+  -- 患者は patients.id、薬局側は auth.users.id
+  sender_id uuid,
+  body text not null check (length(body) between 1 and 2000)
+);
+
+create index if not exists consultation_messages_appointment_idx
+  on public.consultation_messages (appointment_id, created_at);
+
+alter table public.consultation_sessions enable row level security;
+alter table public.consultation_messages enable row level security;
@@ -0,0 +1,114 @@
+-- supabase/migrations/20261018000600_prm.sql
+-- PRM（関係ステータスの履歴・顧問契約・フォロー遅れのエスカレーション・相談ログの項目）
+-- - 管理者画面はブラウザから読み書きする。薬局画面は /api/pharmacy/prm（service role）経由
+-- - 更新の重複を防ぐ unique 制約は 20261019000200_advisor_contract_guards.sql・20261019000300_follow_up_escalation_guards.sql
+-- - リマインド・エスカレーションの記録は定期実行（service role）だけが読み書きする
+
+-- 最後に更新した日時（列を足す前の患者は null のまま）
+alter table public.patients
+  add column if not exists updated_at timestamptz;
+alter table public.patients
+  alter column updated_at set default now();
+
+create or replace function public.touch_patients_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists patients_touch_updated_at on public.patients;
+create trigger patients_touch_updated_at
+  before update on public.patients
+  for each row execute function public.touch_patients_updated_at();
+
+-- 相談ログの SOAP・薬・対応事項と、キーワード検索用の文字列（src/lib/prm/logRecords.ts で保存時に作る）
+alter table public.patient_logs
+  add column if not exists soap jsonb,
+  add column if not exists medications text[],
+  add column if not exists action_items jsonb,
+  add column if not exists search_text text;
+
+create table if not exists public.relation_status_events (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  from_status text not null check (from_status in ('lead', 'active', 'advisor', 'ended')),
+  to_status text not null check (to_status in ('lead', 'active', 'advisor', 'ended')),
+  actor_role text not null check (actor_role in ('admin', 'pharmacy_company')),
+  actor_id uuid,
+  reason text
+);
+
+create index if not exists relation_status_events_patient_idx
+  on public.relation_status_events (patient_id, created_at desc);
+
+create table if not exists public.advisor_contracts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  pharmacy_id uuid references public.pharmacies (id) on delete set null,
+  plan text not null check (plan in ('light', 'standard', 'premium')),
+  start_date date not null,
+  end_date date not null,
+  auto_renew boolean not null default false,
+  monthly_fee integer not null check (monthly_fee >= 0),
+  monthly_allowance integer not null check (monthly_allowance >= 0),
+  renewed_from_id uuid references public.advisor_contracts (id) on delete set null,
+  note text,
+  check (start_date <= end_date)
+);
+
+create index if not exists advisor_contracts_patient_idx
+  on public.advisor_contracts (patient_id, start_date);
+create index if not exists advisor_contracts_pharmacy_end_idx
+  on public.advisor_contracts (pharmacy_id, end_date);
+
+create table if not exists public.advisor_contract_reminders (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  contract_id uuid not null references public.advisor_contracts (id) on delete cascade,
+  days_before integer not null,
+  skipped boolean not null default false,
+  sent_to text[] not null default '{}'
+);
+
+create table if not exists public.follow_up_escalations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  next_contact_at timestamptz not null,
+  store_id uuid references public.stores (id) on delete set null,
+  sent_to text
+);
+
+alter table public.relation_status_events enable row level security;
+alter table public.advisor_contracts enable row level security;
+alter table public.advisor_contract_reminders enable row level security;
+alter table public.follow_up_escalations enable row level security;
+
+-- ステータスの履歴：読むのは管理者と患者のメイン担当の薬局。ブラウザから書くのは管理者画面だけ
+drop policy if exists "relation_status_events readable by staff" on public.relation_status_events;
+create policy "relation_status_events readable by staff"
+  on public.relation_status_events for select
+  to authenticated
+  using (public.can_manage_patient(patient_id));
+
+drop policy if exists "relation_status_events admin insert" on public.relation_status_events;
+create policy "relation_status_events admin insert"
+  on public.relation_status_events for insert
+  to authenticated
+  with check (public.is_admin_user() and actor_role = 'admin' and actor_id = auth.uid());
+
+-- 顧問契約：管理者と契約した薬局（pharmacy_id）
+drop policy if exists "advisor_contracts managed by staff" on public.advisor_contracts;
+create policy "advisor_contracts managed by staff"
+  on public.advisor_contracts for all
+  to authenticated
+  using (public.is_admin_user() or pharmacy_id = public.current_pharmacy_company_id())
+  with check (public.is_admin_user() or pharmacy_id = public.current_pharmacy_company_id());
+
+-- advisor_contract_reminders・follow_up_escalations はポリシーなし（service role だけ）
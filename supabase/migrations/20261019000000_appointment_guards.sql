@@ -0,0 +1,104 @@
+-- supabase/migrations/20261019000000_appointment_guards.sql
+-- 予約の制約とガード
+-- - 同じ薬剤師の予約枠の重なり（23P01）：bookAppointmentSlot / rescheduleAppointment が「すでに予約が入っている」として扱う
+-- - 予約リマインド・相談ルームの重複（23505）：ジョブ・ルーム作成が「先に処理済み」として扱う
+-- - 状態・日時・トークンの変更は service role（/api/appointments）だけ。状態は遷移表の組み合わせだけ通す
+--   （遷移表は src/lib/scheduling/appointmentStatus.ts の TRANSITIONS と同じ）
+
+create extension if not exists btree_gist;
+
+alter table public.appointments
+  add column if not exists patient_token_hash text;
+
+-- キャンセル済み・日時未定（診断結果からの旧い申込）の予約は対象外
+alter table public.appointments
+  add constraint appointments_no_overlap
+  exclude using gist (
+    pharmacist_id with =,
+    tstzrange(scheduled_start, scheduled_end, '[)') with &&
+  )
+  where (
+    status is distinct from 'cancelled'
+    and scheduled_start is not null
+    and scheduled_end is not null
+  );
+
+alter table public.appointment_reminders
+  add constraint appointment_reminders_once
+  unique (appointment_id, offset_minutes, scheduled_start);
+
+alter table public.consultation_sessions
+  add constraint consultation_sessions_appointment_id_key
+  unique (appointment_id);
+
+create or replace function public.guard_appointment_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  from_status text;
+  to_status text;
+begin
+  if coalesce(auth.role(), '') = 'service_role' then
+    if tg_op = 'UPDATE' then
+      from_status := coalesce(old.status, 'requested');
+      to_status := coalesce(new.status, 'requested');
+      if from_status <> to_status and (from_status, to_status) not in (
+        ('requested', 'confirmed'),
+        ('requested', 'cancelled'),
+        ('confirmed', 'requested'),
+        ('confirmed', 'completed'),
+        ('confirmed', 'cancelled'),
+        ('confirmed', 'no_show'),
+        ('no_show', 'completed')
+      ) then
+        raise exception 'appointment status % -> % is not allowed', from_status, to_status
+          using errcode = 'check_violation';
+      end if;
+    end if;
+    return new;
+  end if;
+
+  -- ブラウザ（anon / authenticated）から直接
+  if tg_op = 'INSERT' then
+    -- 診断結果からの日時未定の申込だけ
+    if coalesce(new.status, 'requested') <> 'requested'
+      or new.scheduled_start is not null
+      or new.scheduled_end is not null
+      or new.patient_token_hash is not null
+      or new.confirmed_at is not null
+      or new.completed_at is not null
+      or new.cancelled_at is not null
+      or new.no_show_at is not null then
+      raise exception 'appointments must be booked through /api/appointments'
+        using errcode = 'insufficient_privilege';
+    end if;
+    return new;
+  end if;
+
+  if new.status is distinct from old.status
+    or new.scheduled_start is distinct from old.scheduled_start
+    or new.scheduled_end is distinct from old.scheduled_end
+    or new.previous_scheduled_start is distinct from old.previous_scheduled_start
+    or new.rescheduled_at is distinct from old.rescheduled_at
+    or new.confirmed_at is distinct from old.confirmed_at
+    or new.completed_at is distinct from old.completed_at
+    or new.cancelled_at is distinct from old.cancelled_at
+    or new.no_show_at is distinct from old.no_show_at
+    or new.patient_token_hash is distinct from old.patient_token_hash
+    or new.pharmacist_id is distinct from old.pharmacist_id
+    or new.patient_id is distinct from old.patient_id then
+    raise exception 'appointment status and schedule are changed through /api/appointments'
+      using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_guard on public.appointments;
+create trigger appointments_guard
+  before insert or update on public.appointments
+  for each row execute function public.guard_appointment_changes();
+
+-- 状態変更の履歴は API（service role）だけが書く
+revoke insert, update, delete on public.appointment_status_events from anon, authenticated;
@@ -0,0 +1,19 @@
+-- supabase/migrations/20261019000100_line_link_attempts.sql
+-- LINE 連携コードの総当たり対策
+-- - コードは英数字10文字（issueLineLinkCode）。重複したら unique 制約違反（23505）で発行し直す
+-- - 外れたコードを送った記録を LINE の userId ごとに残し、上限を超えたら受け付けない（isLineLinkLocked）
+
+alter table public.line_link_codes
+  add constraint line_link_codes_code_key unique (code);
+
+create table if not exists public.line_link_attempts (
+  id uuid primary key default gen_random_uuid(),
+  line_user_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists line_link_attempts_user_created_idx
+  on public.line_link_attempts (line_user_id, created_at desc);
+
+-- Webhook（service role）だけが読み書きする
+alter table public.line_link_attempts enable row level security;
@@ -0,0 +1,28 @@
+-- supabase/migrations/20261019000200_advisor_contract_guards.sql
+-- 顧問契約の更新・更新リマインドの二重実行を防ぐ unique 制約
+-- - renewed_from_id：1つの契約から作れる次の契約は1件だけ
+--   （renewDueContracts・renewContract は先に確認したうえで、同時実行の 23505 も「更新済み」として扱う）
+-- - (contract_id, days_before)：同じ契約の同じ「◯日前」リマインドは1回だけ（行を先に入れてから送る）
+
+-- 制約を入れる前にできてしまった重複を片付ける
+-- - 重複した更新は、いちばん早く作られた行を残す（その先がさらに更新されている行は消さない）
+delete from public.advisor_contracts dup
+using public.advisor_contracts kept
+where dup.renewed_from_id is not null
+  and dup.renewed_from_id = kept.renewed_from_id
+  and (kept.created_at, kept.id) < (dup.created_at, dup.id)
+  and not exists (
+    select 1 from public.advisor_contracts next where next.renewed_from_id = dup.id
+  );
+
+delete from public.advisor_contract_reminders dup
+using public.advisor_contract_reminders kept
+where dup.contract_id = kept.contract_id
+  and dup.days_before = kept.days_before
+  and (kept.created_at, kept.id) < (dup.created_at, dup.id);
+
+alter table public.advisor_contracts
+  add constraint advisor_contracts_renewed_from_id_key unique (renewed_from_id);
+
+alter table public.advisor_contract_reminders
+  add constraint advisor_contract_reminders_once unique (contract_id, days_before);
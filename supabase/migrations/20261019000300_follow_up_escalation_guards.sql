@@ -0,0 +1,13 @@
+-- supabase/migrations/20261019000300_follow_up_escalation_guards.sql
+-- フォロー遅れのエスカレーションを、同じ予定日につき1回だけにする unique 制約
+-- - escalateOverdueFollowUps は行を先に入れ、23505 なら「知らせ済み」として飛ばす
+-- - 次回フォロー予定日が変われば別の行になるので、新しい予定日に対してあらためて知らせる
+
+delete from public.follow_up_escalations dup
+using public.follow_up_escalations kept
+where dup.patient_id = kept.patient_id
+  and dup.next_contact_at = kept.next_contact_at
+  and (kept.created_at, kept.id) < (dup.created_at, dup.id);
+
+alter table public.follow_up_escalations
+  add constraint follow_up_escalations_once unique (patient_id, next_contact_at);
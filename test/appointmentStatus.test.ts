@@ -0,0 +1,119 @@
+// test/appointmentStatus.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  assertTransition,
+  availableTransitions,
+  canTransition,
+  statusOf,
+  transitionPatch,
+} from "../src/lib/scheduling/appointmentStatus";
+import { parseAppointmentBookingInput, parseSlotInput } from "../src/lib/scheduling/appointments";
+import { changeCutoffHours, checkPatientChange } from "../src/lib/scheduling/changeWindow";
+import {
+  hashPatientToken,
+  issuePatientToken,
+  patientTokenMatches,
+} from "../src/lib/scheduling/patientToken";
+
+test("pharmacy staff move requested → confirmed → completed", () => {
+  assert.equal(canTransition("requested", "confirmed", "pharmacy_company"), true);
+  assert.equal(canTransition("confirmed", "completed", "pharmacy_company"), true);
+  assert.deepEqual(availableTransitions("confirmed", "admin"), [
+    "completed",
+    "cancelled",
+    "no_show",
+  ]);
+});
+
+test("illegal transitions are rejected with a readable message", () => {
+  assert.throws(
+    () => assertTransition("requested", "completed", "admin"),
+    /「予約申込」から「完了」には変更できません/
+  );
+  assert.throws(
+    () => assertTransition("cancelled", "confirmed", "admin"),
+    /「キャンセル」の予約は状態を変更できません/
+  );
+  assert.throws(
+    () => assertTransition("requested", "confirmed", "patient"),
+    /権限がありません/
+  );
+  assert.doesNotThrow(() => assertTransition("confirmed", "cancelled", "patient"));
+  assert.equal(canTransition("requested", "no_show", "system"), false);
+  assert.equal(canTransition("confirmed", "no_show", "system"), true);
+  // 自動判定の無断欠席は薬局側で完了に直せる
+  assert.equal(canTransition("no_show", "completed", "pharmacy_company"), true);
+  assert.equal(canTransition("no_show", "completed", "patient"), false);
+});
+
+test("legacy rows without status count as requested and transitions stamp their column", () => {
+  assert.equal(statusOf({ status: null }), "requested");
+
+  const at = new Date("2026-10-19T01:00:00Z");
+  assert.deepEqual(transitionPatch("no_show", at), {
+    status: "no_show",
+    status_changed_at: "2026-10-19T01:00:00.000Z",
+    no_show_at: "2026-10-19T01:00:00.000Z",
+  });
+});
+
+test("patients can change appointments only before the cutoff", () => {
+  const appointment = {
+    status: "confirmed" as const,
+    scheduled_start: "2026-10-20T01:00:00.000Z",
+  };
+
+  const early = checkPatientChange(appointment, new Date("2026-10-18T12:00:00Z"), 24);
+  assert.equal(early.allowed, true);
+  assert.equal(early.deadline?.toISOString(), "2026-10-19T01:00:00.000Z");
+
+  const late = checkPatientChange(appointment, new Date("2026-10-19T02:00:00Z"), 24);
+  assert.equal(late.allowed, false);
+
+  assert.equal(
+    checkPatientChange({ ...appointment, status: "cancelled" }, new Date(0), 24).allowed,
+    false
+  );
+  assert.equal(changeCutoffHours("6"), 6);
+  assert.equal(changeCutoffHours("abc"), 24);
+  assert.equal(canTransition("confirmed", "requested", "patient"), true);
+  assert.equal(canTransition("confirmed", "requested", "pharmacy_company"), false);
+});
+
+test("booking requests are validated before they reach the database", () => {
+  const input = parseAppointmentBookingInput({
+    patientId: "0f8fad5b-d9cb-469f-a165-70867728950e",
+    pharmacistId: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+    slot: { start: "2026-10-20T01:00:00+09:00", end: "2026-10-20T01:30:00+09:00" },
+    bookingType: "online",
+    memo: "  ",
+  });
+  assert.deepEqual(input.slot, {
+    start: "2026-10-19T16:00:00.000Z",
+    end: "2026-10-19T16:30:00.000Z",
+  });
+  assert.equal(input.memo, null);
+
+  assert.throws(
+    () => parseAppointmentBookingInput({ ...input, patientId: "patient-1" }),
+    /患者・薬剤師の指定が正しくありません/
+  );
+  assert.throws(
+    () => parseAppointmentBookingInput({ ...input, bookingType: "video" }),
+    /相談方法の値が正しくありません/
+  );
+  assert.throws(
+    () => parseSlotInput({ start: "2026-10-20T02:00:00Z", end: "2026-10-20T01:00:00Z" }),
+    /予約する時間が正しくありません/
+  );
+});
+
+test("patient tokens match only the hash issued at booking", () => {
+  const { token, hash } = issuePatientToken();
+  assert.equal(hash, hashPatientToken(token));
+  assert.equal(patientTokenMatches(token, hash), true);
+  assert.equal(patientTokenMatches(issuePatientToken().token, hash), false);
+  assert.equal(patientTokenMatches(null, hash), false);
+  assert.equal(patientTokenMatches(token, null), false);
+});
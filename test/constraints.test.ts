@@ -0,0 +1,107 @@
+// test/constraints.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Pharmacist } from "../src/types/supabase";
+import {
+  NO_CONSTRAINTS,
+  applyConstraints,
+  constraintsFromPatient,
+  exclusionReasonOf,
+} from "../src/lib/matching";
+
+function pharmacist(id: string, overrides: Partial<Pharmacist> = {}): Pharmacist {
+  return {
+    id,
+    name: id,
+    language: ["ja"],
+    gender: "女性",
+    age_category: "30代",
+    ...overrides,
+  } as Pharmacist;
+}
+
+test("constraintsFromPatient only requires the language when language_required is set", () => {
+  const loose = constraintsFromPatient(
+    { language: "en", language_required: false } as Patient,
+    true
+  );
+  assert.equal(loose.requiredLanguage, null);
+
+  const strict = constraintsFromPatient(
+    {
+      language: "en",
+      language_required: true,
+      preferred_gender: "男性",
+      preferred_age_categories: ["40代"],
+      excluded_pharmacist_ids: ["x"],
+    } as Patient,
+    false
+  );
+  assert.deepEqual(strict, {
+    requiredLanguage: "en",
+    gender: "男性",
+    ageCategories: ["40代"],
+    membersOnlyVisible: false,
+    excludedPharmacistIds: ["x"],
+  });
+});
+
+test("exclusionReasonOf checks each hard constraint", () => {
+  const c = {
+    requiredLanguage: "en",
+    gender: "女性",
+    ageCategories: ["30代", "40代"],
+    membersOnlyVisible: false,
+    excludedPharmacistIds: ["ng"],
+  };
+  const en = { language: ["ja", "en"] };
+
+  assert.equal(exclusionReasonOf(pharmacist("ok", en), c), null);
+  assert.equal(exclusionReasonOf(pharmacist("ng", en), c), "excluded");
+  assert.equal(
+    exclusionReasonOf(
+      pharmacist("m", { ...en, access_scope: "registered_only" } as Partial<Pharmacist>),
+      c
+    ),
+    "members_only"
+  );
+  assert.equal(exclusionReasonOf(pharmacist("ja"), c), "language");
+  assert.equal(
+    exclusionReasonOf(pharmacist("male", { ...en, gender: "男性" }), c),
+    "gender"
+  );
+  assert.equal(
+    exclusionReasonOf(pharmacist("old", { ...en, age_category: "60代" }), c),
+    "age_category"
+  );
+  // 年代が未登録の薬剤師も、年代の希望があるときは外す
+  assert.equal(
+    exclusionReasonOf(pharmacist("unknown", { ...en, age_category: null }), c),
+    "age_category"
+  );
+});
+
+test("applyConstraints keeps everyone without constraints and counts exclusions", () => {
+  const items = [
+    { pharmacist: pharmacist("a"), score: 10 },
+    { pharmacist: pharmacist("b", { gender: "男性" }), score: 20 },
+    { pharmacist: pharmacist("c", { gender: "男性" }), score: 30 },
+  ];
+
+  assert.equal(applyConstraints(items, NO_CONSTRAINTS).kept.length, 3);
+
+  const { kept, excluded, counts } = applyConstraints(items, {
+    ...NO_CONSTRAINTS,
+    gender: "女性",
+    excludedPharmacistIds: ["c"],
+  });
+  assert.deepEqual(
+    kept.map((i) => i.pharmacist.id),
+    ["a"]
+  );
+  assert.equal(excluded.length, 2);
+  // 1人につき最初に当てはまった理由だけを数える
+  assert.equal(counts.excluded, 1);
+  assert.equal(counts.gender, 1);
+  assert.equal(counts.language, 0);
+});
@@ -0,0 +1,104 @@
+// test/consultation.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  consultationParticipant,
+  consultationRoomState,
+  type ConsultationAppointment,
+} from "../src/lib/consultation/access";
+import { normalizeMessageBody } from "../src/lib/consultation/chat";
+import {
+  createExternalVideoProvider,
+  createStubVideoProvider,
+  videoProviderFromEnv,
+} from "../src/lib/consultation/video";
+
+const appointment: ConsultationAppointment = {
+  id: "appt-1",
+  patient_id: "patient-1",
+  pharmacist_id: "ph-1",
+  booking_type: "online",
+  status: "confirmed",
+  scheduled_start: "2026-10-20T01:00:00.000Z",
+  scheduled_end: "2026-10-20T01:30:00.000Z",
+  patient: { name: "佐藤 太郎" },
+  pharmacist: { name: "山田 花子", booking_url: null },
+};
+
+test("only the verified patient of the appointment or its staff may enter", () => {
+  assert.equal(consultationParticipant(appointment, null), null);
+  assert.equal(consultationParticipant(appointment, { role: "patient", id: "other" }), null);
+  assert.equal(consultationParticipant(appointment, { role: "system", id: null }), null);
+  assert.deepEqual(consultationParticipant(appointment, { role: "patient", id: "patient-1" }), {
+    role: "patient",
+    senderId: "patient-1",
+    displayName: "佐藤 太郎",
+  });
+  assert.equal(
+    consultationParticipant(appointment, { role: "pharmacy_company", id: "user-9" })?.role,
+    "pharmacist"
+  );
+  assert.equal(
+    consultationParticipant({ ...appointment, patient_id: null }, { role: "patient", id: null }),
+    null
+  );
+});
+
+test("video opens shortly before the start while chat stays available until it closes", () => {
+  const at = (iso: string) => consultationRoomState(appointment, new Date(iso));
+
+  assert.deepEqual(at("2026-10-19T12:00:00.000Z"), {
+    canJoinVideo: false,
+    canPost: true,
+    notice: "ビデオ通話は相談開始の15分前から入れます。それまではチャットでやりとりできます。",
+  });
+  assert.equal(at("2026-10-20T00:50:00.000Z").canJoinVideo, true);
+  assert.equal(at("2026-10-20T02:30:00.000Z").canJoinVideo, true);
+  assert.deepEqual(at("2026-10-20T02:31:00.000Z"), {
+    canJoinVideo: false,
+    canPost: false,
+    notice: "相談の時間は終了しました。",
+  });
+
+  const now = new Date("2026-10-20T01:00:00.000Z");
+  assert.equal(consultationRoomState({ ...appointment, status: "requested" }, now).canPost, false);
+  assert.equal(consultationRoomState({ ...appointment, status: "cancelled" }, now).canPost, false);
+  assert.equal(consultationRoomState({ ...appointment, booking_type: "phone" }, now).canPost, false);
+  assert.deepEqual(consultationRoomState({ ...appointment, status: "completed" }, now), {
+    canJoinVideo: false,
+    canPost: true,
+    notice: "相談は完了しました。",
+  });
+});
+
+test("normalizeMessageBody trims and rejects empty or overlong messages", () => {
+  assert.equal(normalizeMessageBody("  よろしくお願いします\r\n "), "よろしくお願いします");
+  assert.throws(() => normalizeMessageBody("   "), /入力してください/);
+  assert.throws(() => normalizeMessageBody(42), /入力してください/);
+  assert.throws(() => normalizeMessageBody("あ".repeat(2001)), /2000文字以内/);
+});
+
+test("video providers are chosen from the environment and keep their own join info", async () => {
+  assert.equal(videoProviderFromEnv({}).name, "stub");
+  assert.equal(videoProviderFromEnv({ VIDEO_PROVIDER: "External" }).name, "external");
+  assert.throws(() => videoProviderFromEnv({ VIDEO_PROVIDER: "zoom" }), /VIDEO_PROVIDER/);
+  assert.throws(() => videoProviderFromEnv({ NODE_ENV: "production" }), /VIDEO_PROVIDER/);
+  assert.equal(
+    videoProviderFromEnv({ NODE_ENV: "production", VIDEO_PROVIDER: "external" }).name,
+    "external"
+  );
+
+  const stub = createStubVideoProvider();
+  const room = await stub.createRoom("appt-1");
+  assert.match(room.roomId, /^stub-appt-1-/);
+  assert.equal(stub.joinInfo(room, { role: "patient", displayName: "佐藤" }, { bookingUrl: null }).url, null);
+
+  const external = createExternalVideoProvider();
+  const externalRoom = await external.createRoom("appt-1");
+  assert.equal(
+    external.joinInfo(externalRoom, { role: "patient", displayName: "佐藤" }, {
+      bookingUrl: "https://meet.example.com/abc",
+    }).url,
+    "https://meet.example.com/abc"
+  );
+});
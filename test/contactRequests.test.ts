@@ -0,0 +1,99 @@
+// test/contactRequests.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeEmail,
+  normalizePhone,
+  parseContact,
+} from "../src/lib/contact/validation";
+import { parseLegacyContactNote } from "../src/lib/contact/legacyNote";
+import { createContactRequest } from "../src/lib/contact/contactRequests";
+
+test("normalizePhone accepts domestic and +81 numbers in full or half width", () => {
+  assert.equal(normalizePhone("090-1234-5678"), "09012345678");
+  assert.equal(normalizePhone("０３（１２３４）５６７８"), "0312345678");
+  assert.equal(normalizePhone("+81 90 1234 5678"), "09012345678");
+  assert.equal(normalizePhone("1234"), null);
+  assert.equal(normalizePhone("090-1234-567a"), null);
+});
+
+test("parseContact only accepts the chosen method and falls back to other without one", () => {
+  assert.equal(normalizeEmail(" Foo@Example.COM "), "foo@example.com");
+  assert.deepEqual(parseContact("foo@example.com", "email"), {
+    method: "email",
+    phone: null,
+    email: "foo@example.com",
+  });
+  assert.equal(parseContact("foo@example.com", "phone"), null);
+  assert.equal(parseContact("090-1234-5678", "email"), null);
+  assert.deepEqual(parseContact("LINE: hanako"), {
+    method: "other",
+    phone: null,
+    email: null,
+  });
+  assert.equal(parseContact("  "), null);
+});
+
+test("parseLegacyContactNote reads entries written by the old contact form", () => {
+  const note = [
+    "運営メモ：初回は電話希望",
+    "【スポット相談希望】（希望薬剤師: 山田 花子） 連絡先: 090-1234-5678",
+    "[相談したいことメモ] 眠りが浅い",
+    "【あとで連絡希望】 連絡先：foo@example.com",
+  ].join("\n");
+
+  const entries = parseLegacyContactNote(note);
+  assert.equal(entries.length, 2);
+  assert.deepEqual(entries[0], {
+    intent: "spot_consult",
+    pharmacistName: "山田 花子",
+    contact: "090-1234-5678",
+    message: "眠りが浅い",
+    raw:
+      "【スポット相談希望】（希望薬剤師: 山田 花子） 連絡先: 090-1234-5678\n[相談したいことメモ] 眠りが浅い",
+  });
+  assert.equal(entries[1].intent, "save_for_later");
+  assert.equal(entries[1].pharmacistName, null);
+  assert.equal(entries[1].contact, "foo@example.com");
+  assert.equal(entries[1].message, null);
+  assert.deepEqual(parseLegacyContactNote(null), []);
+});
+
+test("createContactRequest only inserts, since the form cannot read contact requests back", async () => {
+  const inserted: Record<string, unknown>[] = [];
+  // insert の結果だけを返す（select はない）
+  const supabase = {
+    from(table: string) {
+      assert.equal(table, "contact_requests");
+      return {
+        insert: async (row: Record<string, unknown>) => {
+          inserted.push(row);
+          return { error: null };
+        },
+      };
+    },
+  } as unknown as SupabaseClient;
+
+  const request = await createContactRequest(
+    supabase,
+    {
+      patientId: "p1",
+      pharmacistId: null,
+      intent: "spot_consult",
+      method: "phone",
+      contact: " 090-1234-5678 ",
+      message: "",
+    },
+    new Date("2026-10-19T00:00:00Z")
+  );
+
+  assert.equal(inserted.length, 1);
+  assert.equal(inserted[0].id, request.id);
+  assert.equal(inserted[0].phone, "09012345678");
+  assert.equal(inserted[0].source, "form");
+  assert.equal("created_at" in inserted[0], false);
+  assert.equal(request.created_at, "2026-10-19T00:00:00.000Z");
+  assert.equal(request.contact_text, "090-1234-5678");
+  assert.equal(request.message, null);
+});
@@ -0,0 +1,186 @@
+// test/contracts.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AdvisorContract } from "../src/types/prm";
+import {
+  contractEndDate,
+  contractState,
+  contractTermMonths,
+  contractUsage,
+  currentContract,
+  dueRenewalReminder,
+  expiringContracts,
+  renewalOf,
+} from "../src/lib/prm/contracts";
+import { parseAdvisorContractInput } from "../src/lib/prm/validation";
+import { contractRenewalReminderEmail } from "../src/lib/notifications/templates";
+import { renewDueContracts } from "../src/lib/jobs/contractJobs";
+
+function contract(overrides: Partial<AdvisorContract>): AdvisorContract {
+  return {
+    id: "c1",
+    created_at: "2025-04-01T00:00:00Z",
+    patient_id: "p1",
+    pharmacy_id: "ph-1",
+    plan: "standard",
+    start_date: "2025-04-01",
+    end_date: "2026-03-31",
+    auto_renew: true,
+    monthly_fee: 5000,
+    monthly_allowance: 2,
+    renewed_from_id: null,
+    note: null,
+    ...overrides,
+  };
+}
+
+test("contract terms end the day before the same date months later", () => {
+  assert.equal(contractEndDate("2025-04-01", 12), "2026-03-31");
+  assert.equal(contractEndDate("2025-11-15", 3), "2026-02-14");
+  assert.equal(contractTermMonths(contract({})), 12);
+  assert.equal(contractTermMonths({ start_date: "2025-11-15", end_date: "2026-02-14" }), 3);
+});
+
+test("contracts starting on a day the last month lacks end on that month's last day", () => {
+  assert.equal(contractEndDate("2025-01-31", 1), "2025-02-28");
+  assert.equal(contractEndDate("2024-01-31", 1), "2024-02-29");
+  assert.equal(contractEndDate("2025-01-30", 1), "2025-02-28");
+  assert.equal(contractEndDate("2025-03-31", 1), "2025-04-30");
+  assert.equal(contractEndDate("2025-08-31", 6), "2026-02-28");
+  assert.equal(contractEndDate("2025-01-28", 1), "2025-02-27");
+  assert.equal(contractTermMonths({ start_date: "2025-01-31", end_date: "2025-02-28" }), 1);
+  assert.equal(contractTermMonths({ start_date: "2025-08-31", end_date: "2026-02-28" }), 6);
+});
+
+test("contract state follows the Japan-time date", () => {
+  const c = contract({});
+  assert.equal(contractState(c, "2025-03-31"), "scheduled");
+  assert.equal(contractState(c, "2025-04-01"), "active");
+  assert.equal(contractState(c, "2026-03-01"), "expiring");
+  assert.equal(contractState(c, "2026-03-31"), "expiring");
+  assert.equal(contractState(c, "2026-04-01"), "expired");
+});
+
+test("renewals continue the same terms and hide the original from the expiring list", () => {
+  const original = contract({});
+  const next = renewalOf(original);
+  assert.equal(next.start_date, "2026-04-01");
+  assert.equal(next.end_date, "2027-03-31");
+  assert.equal(next.renewed_from_id, "c1");
+  assert.equal(next.monthly_allowance, 2);
+
+  assert.deepEqual(expiringContracts([original], "2026-03-10").map((c) => c.id), ["c1"]);
+  const renewed = contract({ ...next, id: "c2" });
+  assert.deepEqual(expiringContracts([original, renewed], "2026-03-10"), []);
+  assert.equal(currentContract([original, renewed], "2026-04-01")?.id, "c2");
+});
+
+test("usage counts this month's logs inside the contract period", () => {
+  const c = contract({ start_date: "2025-06-15", end_date: "2026-06-14" });
+  const usage = contractUsage(
+    c,
+    [
+      // 6/14 23:30 JST は契約前
+      { contact_at: "2025-06-14T14:30:00Z" },
+      { contact_at: "2025-06-15T01:00:00Z" },
+      { contact_at: "2025-06-20T01:00:00Z" },
+      // 6/30 23:30 JST は6月
+      { contact_at: "2025-06-30T14:30:00Z" },
+      // 7/1 0:30 JST は翌月
+      { contact_at: "2025-06-30T15:30:00Z" },
+    ],
+    new Date("2025-06-30T03:00:00Z")
+  );
+  assert.deepEqual(usage, { month: "2025-06", used: 3, allowance: 2, remaining: 0, over: true });
+});
+
+test("renewal reminders send the closest due offset once", () => {
+  const c = contract({});
+  assert.equal(dueRenewalReminder(c, [30, 7], [], "2026-02-27"), null);
+  assert.deepEqual(dueRenewalReminder(c, [30, 7], [], "2026-03-01"), { send: 30, mark: [30] });
+  assert.deepEqual(dueRenewalReminder(c, [30, 7], [], "2026-03-28"), { send: 7, mark: [30, 7] });
+  assert.equal(dueRenewalReminder(c, [30, 7], [30, 7], "2026-03-28"), null);
+  assert.equal(dueRenewalReminder(c, [30, 7], [], "2026-04-01"), null);
+});
+
+test("contract input requires a plan, ordered dates and whole-number amounts", () => {
+  assert.deepEqual(
+    parseAdvisorContractInput({
+      plan: "light",
+      start_date: "2025-04-01",
+      end_date: "2025-09-30",
+      auto_renew: true,
+      monthly_fee: "3000",
+      monthly_allowance: 1,
+      note: " ",
+    }),
+    {
+      plan: "light",
+      start_date: "2025-04-01",
+      end_date: "2025-09-30",
+      auto_renew: true,
+      monthly_fee: 3000,
+      monthly_allowance: 1,
+      note: null,
+    }
+  );
+  const base = { plan: "light", start_date: "2025-04-01", end_date: "2025-09-30", monthly_fee: 0, monthly_allowance: 1 };
+  assert.throws(() => parseAdvisorContractInput({ ...base, plan: "gold" }), /プラン/);
+  assert.throws(() => parseAdvisorContractInput({ ...base, end_date: "2025-03-31" }), /終了日/);
+  assert.throws(() => parseAdvisorContractInput({ ...base, monthly_fee: -1 }), /月額/);
+  assert.throws(() => parseAdvisorContractInput({ ...base, monthly_allowance: 1.5 }), /相談回数/);
+});
+
+test("the renewal reminder tells staff whether the contract renews automatically", () => {
+  const notice = {
+    patientName: "山田",
+    pharmacistName: "佐藤",
+    planLabel: "スタンダード",
+    endDate: "2026-03-31",
+    daysLeft: 7,
+    autoRenew: false,
+  };
+  const manual = contractRenewalReminderEmail(notice, { patientUrl: "https://example.com/p" });
+  assert.match(manual.subject, /山田 様・3\/31/);
+  assert.match(manual.text, /自動更新になっていません/);
+  assert.match(
+    contractRenewalReminderEmail({ ...notice, autoRenew: true }, { patientUrl: "x" }).text,
+    /満了日の翌日に同じ条件で更新されます/
+  );
+});
+
+test("the auto-renew job skips contracts that already have a successor", async () => {
+  const ended = [
+    contract({ id: "c1", end_date: "2026-03-31" }),
+    contract({ id: "c2", end_date: "2026-03-31" }),
+  ];
+  const inserted: AdvisorContract[] = [];
+  const client = {
+    from: () => {
+      let successors = false;
+      const builder = {
+        select: (columns: string) => ((successors = columns === "renewed_from_id"), builder),
+        eq: () => builder,
+        lt: () => builder,
+        gte: () => builder,
+        in: () => builder,
+        insert: async (values: AdvisorContract) => {
+          inserted.push(values);
+          return { error: null };
+        },
+        then: (resolve: (v: unknown) => unknown) =>
+          Promise.resolve({
+            data: successors ? [{ renewed_from_id: "c1" }] : ended,
+            error: null,
+          }).then(resolve),
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+
+  const result = await renewDueContracts(client, { now: new Date("2026-04-02T00:00:00Z") });
+
+  assert.deepEqual(result, { renewed: 1, failed: 0 });
+  assert.deepEqual(inserted.map((c) => c.renewed_from_id), ["c2"]);
+});
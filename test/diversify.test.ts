@@ -0,0 +1,98 @@
+// test/diversify.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Pharmacist } from "../src/types/supabase";
+import {
+  DEFAULT_DIVERSITY_SETTINGS,
+  diversifyTopN,
+  diversitySettingsFrom,
+  type DiversityCandidate,
+} from "../src/lib/matching";
+
+function candidate(
+  id: string,
+  score: number,
+  overrides: Partial<Pharmacist> = {}
+): DiversityCandidate {
+  return {
+    pharmacist: {
+      id,
+      name: id,
+      language: ["ja"],
+      care_role: ["expert"],
+      belongs_store_id: null,
+      belongs_pharmacy_id: null,
+      ...overrides,
+    } as Pharmacist,
+    pharmacy: null,
+    score,
+  };
+}
+
+const ids = (items: DiversityCandidate[]) => items.map((c) => c.pharmacist.id);
+
+test("diversifyTopN keeps score order when candidates are already diverse", () => {
+  const ranked = [
+    candidate("a", 90, { belongs_store_id: "s1", care_role: ["expert"] }),
+    candidate("b", 80, { belongs_store_id: "s2", care_role: ["empathy"], language: ["en"] }),
+    candidate("c", 70, { belongs_store_id: "s3", care_role: ["support"], language: ["zh"] }),
+    candidate("d", 60, { belongs_store_id: "s4", care_role: ["family"] }),
+  ];
+  const { items, alternativeId } = diversifyTopN(ranked, null);
+  assert.deepEqual(ids(items), ["a", "b", "c"]);
+  assert.equal(alternativeId, null);
+});
+
+test("diversifyTopN spreads stores, care roles and languages", () => {
+  const ranked = [
+    candidate("a", 90, { belongs_store_id: "s1" }),
+    candidate("b", 88, { belongs_store_id: "s1" }),
+    candidate("c", 86, { belongs_store_id: "s1" }),
+    candidate("d", 75, { belongs_store_id: "s2", care_role: ["empathy"] }),
+    candidate("e", 70, { belongs_store_id: "s3", language: ["ja", "en"] }),
+  ];
+  const { items } = diversifyTopN(ranked, null);
+  // 同じ店舗・同じプロフィールの b, c は 15 + 8 + 4 点差し引かれて後ろに回る
+  assert.deepEqual(ids(items), ["a", "d", "e"]);
+});
+
+test("diversifyTopN guarantees an alternative style slot for second_opinion", () => {
+  const ranked = [
+    candidate("a", 95, { belongs_store_id: "s1", care_role: ["expert", "understanding"] }),
+    candidate("b", 90, { belongs_store_id: "s2", care_role: ["expert"] }),
+    candidate("c", 85, { belongs_store_id: "s3", care_role: ["understanding"] }),
+    candidate("d", 40, { belongs_store_id: "s4", care_role: ["empathy"] }),
+  ];
+
+  const normal = diversifyTopN(ranked, "expert");
+  assert.deepEqual(ids(normal.items), ["a", "b", "c"]);
+  assert.equal(normal.alternativeId, null);
+
+  const secondOpinion = diversifyTopN(ranked, "second_opinion");
+  assert.deepEqual(ids(secondOpinion.items), ["a", "b", "d"]);
+  assert.equal(secondOpinion.alternativeId, "d");
+
+  const disabled = diversifyTopN(ranked, "second_opinion", {
+    ...DEFAULT_DIVERSITY_SETTINGS,
+    alternativeStyleFor: [],
+  });
+  assert.deepEqual(ids(disabled.items), ["a", "b", "c"]);
+});
+
+test("saved diversity settings fall back to the defaults for missing or broken values", () => {
+  assert.deepEqual(diversitySettingsFrom(null), DEFAULT_DIVERSITY_SETTINGS);
+  assert.deepEqual(
+    diversitySettingsFrom({
+      topN: 5,
+      storePenalty: -1,
+      languagePenalty: "4",
+      alternativeStyleFor: ["second_opinion", "understanding", 3],
+    }),
+    {
+      ...DEFAULT_DIVERSITY_SETTINGS,
+      topN: 5,
+      alternativeStyleFor: ["second_opinion", "understanding"],
+    }
+  );
+  assert.equal(diversitySettingsFrom({ topN: 0 }).topN, DEFAULT_DIVERSITY_SETTINGS.topN);
+});
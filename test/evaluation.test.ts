@@ -0,0 +1,70 @@
+// test/evaluation.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Pharmacist } from "../src/types/supabase";
+import {
+  DEFAULT_MATCHING_RULES,
+  compareMatchingRules,
+  evaluateMatchingRules,
+  type EvaluationSnapshot,
+} from "../src/lib/matching";
+
+function patient(id: string, language: string): Patient {
+  return { id, language, type: null } as Patient;
+}
+
+function pharmacist(id: string, language: string[]): Pharmacist {
+  return {
+    id,
+    name: id,
+    language,
+    belongs_pharmacy_id: null,
+    belongs_store_id: null,
+  } as Pharmacist;
+}
+
+// en の患者はお気に入りで ph-en を、ja の患者は予約で ph-ja を選んだ
+const snapshot: EvaluationSnapshot = {
+  patients: [patient("p-en", "en"), patient("p-ja", "ja"), patient("p-none", "ja")],
+  pharmacists: [pharmacist("ph-en", ["ja", "en"]), pharmacist("ph-ja", ["ja"])],
+  pharmacies: [],
+  stores: [],
+  patient_favorites: [{ patient_id: "p-en", pharmacist_id: "ph-en" }],
+  appointments: [
+    { patient_id: "p-ja", pharmacist_id: "ph-ja" },
+    { patient_id: "p-ja", pharmacist_id: null },
+  ],
+};
+
+test("evaluateMatchingRules computes precision@k per relevance source", () => {
+  const { metrics } = evaluateMatchingRules(snapshot, DEFAULT_MATCHING_RULES, 1);
+
+  assert.equal(metrics.favorites.patients, 1);
+  assert.equal(metrics.favorites.precisionAtK, 1);
+
+  // ja 同士は同点のため元の並び順（ph-en → ph-ja）で、正解は2位
+  assert.equal(metrics.appointments.patients, 1);
+  assert.equal(metrics.appointments.precisionAtK, 0);
+  assert.equal(metrics.appointments.mrr, 0.5);
+
+  // 正解のない患者（p-none）は評価対象にしない
+  assert.equal(metrics.combined.patients, 2);
+  assert.equal(metrics.combined.hitRateAtK, 0.5);
+});
+
+test("compareMatchingRules reports deltas and per-patient rank changes", () => {
+  const withoutLanguage = DEFAULT_MATCHING_RULES.map((r) =>
+    r.id === "language.match" ? { ...r, points: 0 } : r
+  );
+  const result = compareMatchingRules(
+    snapshot,
+    DEFAULT_MATCHING_RULES,
+    withoutLanguage,
+    1
+  );
+
+  // 言語の加点がなくなると、スコア 0 以下の薬剤師は候補に出ない
+  assert.equal(result.delta.favorites.precisionAtK, -1);
+  assert.equal(result.patientsWorsened, 2);
+  assert.equal(result.patientsImproved, 0);
+});
@@ -0,0 +1,71 @@
+// test/feedback.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Pharmacist } from "../src/types/supabase";
+import {
+  DEFAULT_MATCHING_RULES,
+  proposeRuleWeights,
+  type EvaluationSnapshot,
+} from "../src/lib/matching";
+
+function snapshotWithFavorites(count: number): EvaluationSnapshot {
+  const patients = Array.from({ length: count }, (_, i) => ({
+    id: `p${i}`,
+    language: "en",
+    type: "D",
+    care_style: "expert",
+  })) as Patient[];
+  const pharmacists = [
+    { id: "ph-en", name: "en", language: ["en"], care_role: ["expert"] },
+    { id: "ph-ja", name: "ja", language: ["ja"], care_role: ["empathy"] },
+  ] as Pharmacist[];
+
+  return {
+    patients,
+    pharmacists,
+    pharmacies: [],
+    stores: [],
+    // 英語希望の患者は全員、英語対応の薬剤師をお気に入り登録した
+    patient_favorites: patients.map((p) => ({
+      patient_id: p.id,
+      pharmacist_id: "ph-en",
+    })),
+    appointments: [],
+  };
+}
+
+const pointsOf = (rules: typeof DEFAULT_MATCHING_RULES, id: string) =>
+  rules.find((r) => r.id === id)!.points;
+
+test("proposeRuleWeights strengthens rules that fire on chosen pharmacists", () => {
+  const result = proposeRuleWeights(
+    snapshotWithFavorites(10),
+    DEFAULT_MATCHING_RULES
+  );
+
+  assert.equal(result.insufficientData, false);
+  assert.equal(result.patients, 10);
+  assert.equal(result.positives, 10);
+
+  // 選ばれた薬剤師でだけ発火する加点は上がり、選ばれなかった側の減点は強まる
+  assert.ok((pointsOf(result.rules, "language.match") as number) > 40);
+  assert.ok((pointsOf(result.rules, "language.mismatch") as number) < -10);
+  // 倍率は maxFactor（1.5）を超えない
+  assert.ok((pointsOf(result.rules, "language.match") as number) <= 60);
+
+  const change = result.changes.find((c) => c.ruleId === "language.match");
+  assert.ok(change && change.lift > 1);
+
+  assert.equal(result.segments.length, 1);
+  assert.equal(result.segments[0].attributeLifts[0].attribute, "care_role:expert");
+});
+
+test("proposeRuleWeights keeps the rules when there is too little feedback", () => {
+  const result = proposeRuleWeights(
+    snapshotWithFavorites(3),
+    DEFAULT_MATCHING_RULES
+  );
+  assert.equal(result.insufficientData, true);
+  assert.equal(result.changes.length, 0);
+  assert.equal(result.rules, DEFAULT_MATCHING_RULES);
+});
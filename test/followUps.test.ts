@@ -0,0 +1,204 @@
+// test/followUps.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PatientWithPrm } from "../src/types/prm";
+import {
+  buildFollowUpQueue,
+  defaultNextContactDays,
+  followUpBucket,
+  needsEscalation,
+  scheduleNextContact,
+} from "../src/lib/prm/followUps";
+import { parsePrmFollowUpInput } from "../src/lib/prm/validation";
+import { followUpEscalationEmail } from "../src/lib/notifications/templates";
+import type { EmailMessage } from "../src/lib/notifications/transport";
+import { escalateOverdueFollowUps } from "../src/lib/jobs/followUpJobs";
+import { isAuthorizedCronRequest } from "../src/lib/jobs/cronAuth";
+
+// 2025-06-10 10:00 JST
+const NOW = new Date("2025-06-10T01:00:00Z");
+
+function patient(overrides: Partial<PatientWithPrm>): PatientWithPrm {
+  return {
+    id: "p",
+    name: "患者",
+    main_pharmacist_id: null,
+    relation_status: "active",
+    next_contact_at: null,
+    last_contact_at: null,
+    priority: 2,
+    tags: null,
+    note: null,
+    ...overrides,
+  } as PatientWithPrm;
+}
+
+test("follow-up buckets are split by Japan-time calendar days", () => {
+  // 6/9 23:30 JST は前日 → 期限超過
+  assert.equal(followUpBucket("2025-06-09T14:30:00Z", NOW), "overdue");
+  // 6/10 0:00 JST と 23:59 JST はどちらも今日
+  assert.equal(followUpBucket("2025-06-09T15:00:00Z", NOW), "today");
+  assert.equal(followUpBucket("2025-06-10T14:59:00Z", NOW), "today");
+  assert.equal(followUpBucket("2025-06-10T15:00:00Z", NOW), "this_week");
+  assert.equal(followUpBucket("2025-06-17T03:00:00Z", NOW), "this_week");
+  assert.equal(followUpBucket("2025-06-18T03:00:00Z", NOW), null);
+  assert.equal(followUpBucket(null, NOW), null);
+});
+
+test("only overdue high-priority patients who are still followed escalate", () => {
+  const overdue = "2025-06-08T03:00:00Z";
+  assert.equal(needsEscalation(patient({ priority: 1, next_contact_at: overdue }), NOW), true);
+  assert.equal(needsEscalation(patient({ priority: 2, next_contact_at: overdue }), NOW), false);
+  assert.equal(
+    needsEscalation(
+      patient({ priority: 1, relation_status: "ended", next_contact_at: overdue }),
+      NOW
+    ),
+    false
+  );
+  assert.equal(
+    needsEscalation(patient({ priority: 1, next_contact_at: "2025-06-10T00:00:00Z" }), NOW),
+    false
+  );
+});
+
+test("the queue is filtered by main pharmacist and sorted by priority then due date", () => {
+  const patients = [
+    patient({ id: "a", priority: 3, next_contact_at: "2025-06-05T03:00:00Z", main_pharmacist_id: "ph1" }),
+    patient({ id: "b", priority: 1, next_contact_at: "2025-06-09T03:00:00Z", main_pharmacist_id: "ph1" }),
+    patient({ id: "c", priority: 1, next_contact_at: "2025-06-07T03:00:00Z", main_pharmacist_id: "ph1" }),
+    patient({ id: "d", priority: 1, next_contact_at: "2025-06-10T03:00:00Z", main_pharmacist_id: "ph2" }),
+    patient({ id: "e", priority: 1, next_contact_at: "2025-06-08T03:00:00Z", relation_status: "ended" }),
+    patient({ id: "f", priority: 2, next_contact_at: "2025-06-12T03:00:00Z" }),
+  ];
+
+  const all = buildFollowUpQueue(patients, NOW);
+  assert.deepEqual(all.overdue.map((i) => i.patient.id), ["c", "b", "a"]);
+  assert.deepEqual(all.today.map((i) => i.patient.id), ["d"]);
+  assert.deepEqual(all.this_week.map((i) => i.patient.id), ["f"]);
+  assert.deepEqual(all.overdue.map((i) => [i.daysOverdue, i.escalate]), [
+    [3, true],
+    [1, true],
+    [5, false],
+  ]);
+
+  const mine = buildFollowUpQueue(patients, NOW, { pharmacistId: "ph1" });
+  assert.equal(mine.today.length, 0);
+  assert.equal(mine.overdue.length, 3);
+
+  const unassigned = buildFollowUpQueue(patients, NOW, { pharmacistId: null });
+  assert.deepEqual(unassigned.this_week.map((i) => i.patient.id), ["f"]);
+  assert.equal(unassigned.overdue.length, 0);
+});
+
+test("next contact dates land on Japan-time midnight", () => {
+  // 6/10 23:30 JST から14日後は 6/24 0:00 JST
+  assert.equal(
+    scheduleNextContact(new Date("2025-06-10T14:30:00Z"), 14),
+    "2025-06-23T15:00:00.000Z"
+  );
+  assert.equal(defaultNextContactDays({ followup_frequency: "monthly" } as PatientWithPrm), 30);
+  assert.equal(defaultNextContactDays({ followup_frequency: null } as PatientWithPrm), 7);
+});
+
+test("follow-up input requires a valid log and accepts an empty next date", () => {
+  const parsed = parsePrmFollowUpInput({
+    log: { contact_at: "2025-06-10T01:00:00Z", channel: "call", summary: " 服薬確認 " },
+    next_contact_at: "",
+  });
+  assert.equal(parsed.log.summary, "服薬確認");
+  assert.equal(parsed.next_contact_at, null);
+
+  assert.throws(() =>
+    parsePrmFollowUpInput({
+      log: { contact_at: "2025-06-10T01:00:00Z", channel: "call", summary: "確認" },
+      next_contact_at: "not-a-date",
+    })
+  );
+  assert.throws(() => parsePrmFollowUpInput({ next_contact_at: null }));
+});
+
+test("the escalation email lists every overdue patient for the store manager", () => {
+  const { subject, text } = followUpEscalationEmail(
+    {
+      storeName: "駅前店",
+      patients: [
+        { name: "山田", pharmacistName: "佐藤", nextContactAt: "2025-06-08T03:00:00Z", daysOverdue: 2 },
+        { name: null, pharmacistName: null, nextContactAt: "2025-06-07T03:00:00Z", daysOverdue: 3 },
+      ],
+    },
+    { followUpsUrl: "https://example.com/pharmacy/prm/follow-ups" }
+  );
+  assert.match(subject, /2名/);
+  assert.match(text, /駅前店 店長 様/);
+  assert.match(text, /山田 様（担当：佐藤）.*2日超過/);
+  assert.match(text, /お名前未登録の方（担当：未設定）/);
+  assert.match(text, /https:\/\/example\.com\/pharmacy\/prm\/follow-ups/);
+});
+
+test("the escalation job keeps patients whose relation status is still null", async () => {
+  const filters: string[] = [];
+  const rows: Record<string, unknown[]> = {
+    patients: [
+      patient({
+        id: "p-null",
+        relation_status: null,
+        priority: 1,
+        main_pharmacist_id: "ph1",
+        next_contact_at: "2025-06-05T15:00:00Z",
+      }),
+    ],
+    pharmacists: [{ id: "ph1", name: "山田", belongs_store_id: "s1" }],
+    stores: [
+      { id: "s1", name: "駅前店", manager_email: "manager@example.com", notification_email: null },
+    ],
+  };
+  const client = {
+    from(table: string) {
+      const record = (filter: string) => (filters.push(`${table}:${filter}`), builder);
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => record(`${column}=${value}`),
+        neq: (column: string, value: unknown) => record(`${column}!=${value}`),
+        lt: (column: string) => record(`${column}<now`),
+        in: () => builder,
+        or: (filter: string) => record(`or(${filter})`),
+        insert: () => Promise.resolve({ error: null }),
+        then: (resolve: (v: unknown) => unknown) =>
+          Promise.resolve({ data: rows[table] ?? [], error: null }).then(resolve),
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+  const sent: EmailMessage[] = [];
+
+  const result = await escalateOverdueFollowUps(
+    client,
+    { transport: { name: "console", send: async (message) => void sent.push(message) } },
+    { now: NOW, baseUrl: "https://example.com" }
+  );
+
+  assert.deepEqual(filters, [
+    "patients:priority=1",
+    "patients:or(relation_status.is.null,relation_status.neq.ended)",
+    "patients:next_contact_at<now",
+  ]);
+  assert.equal(result.escalated, 1);
+  assert.deepEqual(sent[0].to, ["manager@example.com"]);
+});
+
+test("cron requests need the exact CRON_SECRET bearer token", () => {
+  const request = (authorization?: string) =>
+    new Request("https://example.com/api/cron/follow-ups", {
+      headers: authorization ? { authorization } : {},
+    });
+
+  assert.equal(isAuthorizedCronRequest(request("Bearer s3cret"), "s3cret"), true);
+  assert.equal(isAuthorizedCronRequest(request("Bearer s3cre"), "s3cret"), false);
+  assert.equal(isAuthorizedCronRequest(request("Bearer s3cret!"), "s3cret"), false);
+  assert.equal(isAuthorizedCronRequest(request(), "s3cret"), false);
+  // CRON_SECRET が未設定なら、ヘッダーが空でも通さない
+  assert.equal(isAuthorizedCronRequest(request(), ""), false);
+  assert.equal(isAuthorizedCronRequest(request("Bearer "), ""), false);
+});
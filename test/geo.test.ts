@@ -0,0 +1,63 @@
+// test/geo.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  distanceBetween,
+  geocodeStore,
+  geocodeText,
+  haversineKm,
+} from "../src/lib/geo";
+
+test("geocodeText resolves municipalities, postal codes and prefectures", () => {
+  const cases: [string, string, string][] = [
+    ["渋谷区", "東京都渋谷区", "municipality"],
+    ["東京都渋谷区神南1-1", "東京都渋谷区", "municipality"],
+    ["京都市中京区", "京都府京都市", "municipality"],
+    ["大阪市中央区", "大阪府大阪市", "municipality"],
+    ["東京都中央区", "東京都中央区", "municipality"],
+    ["〒150-0041", "東京都渋谷区", "postal"],
+    ["１６０－００２２", "東京都新宿区", "postal"],
+    ["980-0811", "宮城県", "prefecture"],
+    ["大阪", "大阪府", "prefecture"],
+    ["東京都", "東京都", "prefecture"],
+    ["広島県府中市", "広島県", "prefecture"],
+  ];
+
+  for (const [text, label, precision] of cases) {
+    const point = geocodeText(text);
+    assert.ok(point, text);
+    assert.equal(point.label, label, text);
+    assert.equal(point.precision, precision, text);
+  }
+
+  assert.equal(geocodeText("どこか"), null);
+  assert.equal(geocodeText(""), null);
+  assert.equal(geocodeText(null), null);
+});
+
+test("geocodeStore prefers the city over the postal code", () => {
+  const point = geocodeStore({
+    postal_code: "150-0001",
+    prefecture: "神奈川県",
+    city: "川崎市",
+    address_line1: "中原区1-1",
+  });
+  assert.equal(point?.label, "神奈川県川崎市");
+  assert.equal(geocodeStore(null), null);
+});
+
+test("haversineKm and distanceBetween", () => {
+  const shibuya = geocodeText("渋谷区")!;
+  const shinjuku = geocodeText("新宿区")!;
+  const osaka = geocodeText("大阪市")!;
+
+  assert.equal(haversineKm(shibuya, shibuya), 0);
+  const near = distanceBetween(shibuya, shinjuku)!;
+  assert.ok(near > 2 && near < 6, `渋谷〜新宿 ${near}`);
+  const far = distanceBetween(shibuya, osaka)!;
+  assert.ok(far > 380 && far < 420, `渋谷〜大阪 ${far}`);
+
+  // 都道府県までしか分からない場合は距離を使わない
+  assert.equal(distanceBetween(shibuya, geocodeText("大阪")), null);
+  assert.equal(distanceBetween(shibuya, null), null);
+});
@@ -0,0 +1,61 @@
+// test/ical.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  appointmentToIcsEvent,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+} from "../src/lib/calendar/ical";
+
+const appointment = {
+  id: "ap1",
+  booking_type: "online" as const,
+  scheduled_start: "2026-10-20T01:00:00.000Z",
+  scheduled_end: "2026-10-20T01:30:00.000Z",
+  status: "confirmed" as const,
+  status_changed_at: "2026-10-19T00:00:00.000Z",
+  created_at: "2026-10-18T00:00:00.000Z",
+};
+
+test("formatIcsDate and escapeIcsText follow RFC 5545", () => {
+  assert.equal(formatIcsDate("2026-10-20T01:00:00.000Z"), "20261020T010000Z");
+  assert.equal(escapeIcsText("a;b,c\\d\ne"), "a\\;b\\,c\\\\d\\ne");
+});
+
+test("foldIcsLine keeps lines within 75 octets without splitting characters", () => {
+  const folded = foldIcsLine(`SUMMARY:${"薬".repeat(40)}`);
+  const lines = folded.split("\r\n");
+  assert.ok(lines.length > 1);
+  lines.forEach((line) => assert.ok(Buffer.byteLength(line) <= 75));
+  assert.equal(
+    lines.map((l, i) => (i === 0 ? l : l.slice(1))).join(""),
+    `SUMMARY:${"薬".repeat(40)}`
+  );
+});
+
+test("appointments become VEVENTs and unscheduled ones are skipped", () => {
+  const event = appointmentToIcsEvent(appointment, {
+    patientName: "山田",
+    pharmacistName: "佐藤",
+  });
+  assert.ok(event);
+  assert.equal(event.summary, "【オンライン相談】山田 様");
+  assert.equal(event.status, "CONFIRMED");
+  assert.equal(
+    appointmentToIcsEvent({ ...appointment, status: "cancelled" }, {})?.status,
+    "CANCELLED"
+  );
+  assert.equal(appointmentToIcsEvent({ ...appointment, scheduled_start: null }, {}), null);
+
+  const ics = buildIcsCalendar({
+    name: "佐藤の予約",
+    events: [event],
+    now: new Date("2026-10-19T00:00:00Z"),
+  });
+  assert.match(ics, /^BEGIN:VCALENDAR\r\n/);
+  assert.match(ics, /\r\nUID:ap1@hito-yaku\r\n/);
+  assert.match(ics, /\r\nDTSTART:20261020T010000Z\r\n/);
+  assert.match(ics, /END:VCALENDAR\r\n$/);
+});
@@ -0,0 +1,148 @@
+// test/icsImport.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { parseIcsBusyIntervals, parseIcsDuration } from "../src/lib/calendar/icsImport";
+import { fetchIcsFromUrl, isNonPublicAddress } from "../src/lib/calendar/fetchIcs";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+
+// 2026-10-19（月）0:00 JST から 2週間
+const range = {
+  from: new Date("2026-10-19T00:00:00+09:00"),
+  to: new Date("2026-11-02T00:00:00+09:00"),
+};
+
+test("parseIcsBusyIntervals expands weekly shifts, exceptions and overrides", () => {
+  const result = parseIcsBusyIntervals(fixture("shifts.ics"), range);
+
+  assert.deepEqual(result.intervals, [
+    // 午前シフト 9:00-12:00 と 11:00 からの研修（DURATION 2時間）がまとまる
+    { start: "2026-10-19T00:00:00.000Z", end: "2026-10-19T04:00:00.000Z" },
+    // 終日（有給休暇）
+    { start: "2026-10-22T15:00:00.000Z", end: "2026-10-23T15:00:00.000Z" },
+    // 10/26 は RECURRENCE-ID で午後に変更
+    { start: "2026-10-26T04:00:00.000Z", end: "2026-10-26T06:00:00.000Z" },
+    { start: "2026-10-27T01:00:00.000Z", end: "2026-10-27T02:00:00.000Z" },
+    { start: "2026-10-28T00:00:00.000Z", end: "2026-10-28T03:00:00.000Z" },
+  ]);
+  assert.equal(result.events, 8);
+  assert.equal(result.skipped, 2);
+  assert.equal(result.unsupportedRules, 0);
+});
+
+test("parseIcsBusyIntervals honours COUNT/INTERVAL and keeps only the first unsupported occurrence", () => {
+  const result = parseIcsBusyIntervals(fixture("recurring.ics"), range);
+
+  assert.deepEqual(
+    result.intervals.map((iv) => iv.start),
+    [
+      "2026-10-18T23:00:00.000Z",
+      "2026-10-20T09:00:00.000Z",
+      "2026-10-20T23:00:00.000Z",
+      "2026-10-22T23:00:00.000Z",
+    ]
+  );
+  assert.equal(result.unsupportedRules, 1);
+  assert.equal(parseIcsDuration("P1DT2H"), 26 * 60 * 60 * 1000);
+});
+
+test("fetchIcsFromUrl reads webcal URLs over https and rejects other schemes", async () => {
+  const requested: string[] = [];
+  const fakeFetch = (async (url: string) => {
+    requested.push(url);
+    return new Response(fixture("recurring.ics"), { status: 200 });
+  }) as unknown as typeof fetch;
+
+  const lookupHost = async () => ["93.184.216.34"];
+
+  const text = await fetchIcsFromUrl("webcal://calendar.example.com/shifts.ics", {
+    fetchImpl: fakeFetch,
+    lookupHost,
+  });
+  assert.match(text, /BEGIN:VCALENDAR/);
+  assert.deepEqual(requested, ["https://calendar.example.com/shifts.ics"]);
+
+  await assert.rejects(
+    fetchIcsFromUrl("file:///etc/passwd", { fetchImpl: fakeFetch, lookupHost }),
+    /http\(s\) の URL/
+  );
+});
+
+test("fetchIcsFromUrl stops reading once the body passes the size limit", async () => {
+  const lookupHost = async () => ["93.184.216.34"];
+  const chunk = new Uint8Array(64 * 1024).fill(0x41);
+  let pulled = 0;
+  // content-length を付けずに、いつまでも続く本文
+  const endless = () =>
+    new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(chunk);
+      },
+    });
+  const fakeFetch = (async (url: string) =>
+    url.includes("declared")
+      ? new Response(endless(), { status: 200, headers: { "content-length": "3000000" } })
+      : new Response(endless(), { status: 200 })) as unknown as typeof fetch;
+  const options = { fetchImpl: fakeFetch, lookupHost };
+
+  await assert.rejects(
+    fetchIcsFromUrl("https://calendar.example.com/declared.ics", options),
+    /大きすぎます/
+  );
+  assert.ok(pulled <= 2);
+
+  pulled = 0;
+  await assert.rejects(
+    fetchIcsFromUrl("https://calendar.example.com/endless.ics", options),
+    /大きすぎます/
+  );
+  // 2 MB を少し超えたところでやめている
+  assert.ok(pulled <= 2 * 16 + 2);
+});
+
+test("fetchIcsFromUrl refuses private hosts, checks every redirect and hides upstream errors", async () => {
+  const requested: string[] = [];
+  const fakeFetch = (async (url: string) => {
+    requested.push(url);
+    if (url.includes("redirect")) {
+      return new Response(null, {
+        status: 302,
+        headers: { location: "http://169.254.169.254/latest/meta-data/" },
+      });
+    }
+    return new Response("upstream secret", { status: 403 });
+  }) as unknown as typeof fetch;
+  const lookupHost = async (hostname: string) =>
+    hostname === "intranet.example.com" ? ["10.0.0.5"] : ["93.184.216.34"];
+  const options = { fetchImpl: fakeFetch, lookupHost };
+
+  await assert.rejects(fetchIcsFromUrl("http://127.0.0.1/cal.ics", options), /取り込めません/);
+  await assert.rejects(fetchIcsFromUrl("http://[::1]/cal.ics", options), /取り込めません/);
+  await assert.rejects(
+    fetchIcsFromUrl("https://intranet.example.com/cal.ics", options),
+    /取り込めません/
+  );
+  assert.deepEqual(requested, []);
+
+  await assert.rejects(
+    fetchIcsFromUrl("https://calendar.example.com/redirect.ics", options),
+    /取り込めません/
+  );
+  assert.deepEqual(requested, ["https://calendar.example.com/redirect.ics"]);
+
+  await assert.rejects(
+    fetchIcsFromUrl("https://calendar.example.com/private.ics", options),
+    (err: Error) => /公開用の URL か確認/.test(err.message) && !/403/.test(err.message)
+  );
+
+  assert.equal(isNonPublicAddress("169.254.169.254"), true);
+  assert.equal(isNonPublicAddress("172.20.1.1"), true);
+  assert.equal(isNonPublicAddress("::ffff:192.168.1.1"), true);
+  assert.equal(isNonPublicAddress("fe80::1"), true);
+  assert.equal(isNonPublicAddress("8.8.8.8"), false);
+  assert.equal(isNonPublicAddress("2001:4860:4860::8888"), false);
+});
@@ -0,0 +1,163 @@
+// test/line.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { signLineBody, verifyLineSignature } from "../src/lib/line/signature";
+import { createLineClient, type LineClient, type LineTextMessage } from "../src/lib/line/client";
+import { generateLinkCode, parseLinkCode } from "../src/lib/line/linking";
+import { appointmentReminderMessage } from "../src/lib/line/messages";
+import { handleLineWebhookEvents } from "../src/lib/line/webhook";
+
+test("verifyLineSignature accepts the HMAC of the raw body only", () => {
+  const body = JSON.stringify({ events: [] });
+  const signature = signLineBody(body, "secret");
+  assert.equal(verifyLineSignature(body, signature, "secret"), true);
+  assert.equal(verifyLineSignature(`${body} `, signature, "secret"), false);
+  assert.equal(verifyLineSignature(body, signature, "other"), false);
+  assert.equal(verifyLineSignature(body, null, "secret"), false);
+});
+
+test("createLineClient posts push messages with the bearer token", async () => {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fakeFetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return new Response("{}", { status: 200 });
+  }) as unknown as typeof fetch;
+
+  const client = createLineClient(
+    { channelAccessToken: "token", apiBaseUrl: "http://localhost:4010/" },
+    fakeFetch
+  );
+  await client.pushMessage("U1", [{ type: "text", text: "hi" }]);
+
+  assert.equal(calls[0].url, "http://localhost:4010/v2/bot/message/push");
+  assert.equal((calls[0].init.headers as Record<string, string>).Authorization, "Bearer token");
+  assert.deepEqual(JSON.parse(String(calls[0].init.body)), {
+    to: "U1",
+    messages: [{ type: "text", text: "hi" }],
+  });
+
+  const failing = createLineClient({ channelAccessToken: "token" }, (async () =>
+    new Response("bad", { status: 400 })) as unknown as typeof fetch);
+  await assert.rejects(failing.replyMessage("r", []), /HTTP 400/);
+});
+
+test("link codes are ten unambiguous characters and accept loose input", () => {
+  const codes = Array.from({ length: 50 }, () => generateLinkCode());
+  codes.forEach((code) => assert.match(code, /^[A-HJKMNP-Z2-9]{10}$/));
+  assert.equal(new Set(codes).size, codes.length);
+
+  assert.equal(parseLinkCode(" ab3de-fgh7k "), "AB3DEFGH7K");
+  assert.equal(parseLinkCode("ＡＢ３ＤＥ　ＦＧＨ７Ｋ"), "AB3DEFGH7K");
+  assert.equal(parseLinkCode("123456"), null);
+  assert.equal(parseLinkCode("AB0DEFGH7K"), null);
+  assert.equal(parseLinkCode("こんにちは"), null);
+});
+
+test("reminders show the schedule in JST without consultation details", () => {
+  const { text } = appointmentReminderMessage(
+    {
+      pharmacistName: "山田 花子",
+      bookingType: "phone",
+      scheduledStart: "2026-10-20T01:00:00.000Z",
+      scheduledEnd: "2026-10-20T01:30:00.000Z",
+    },
+    { mypageUrl: "https://example.com/mypage" }
+  );
+  assert.match(text, /日時：10\/20（火） 10:00〜10:30/);
+  assert.match(text, /相談方法：電話相談/);
+  assert.match(text, /https:\/\/example\.com\/mypage/);
+});
+
+test("webhook replies with instructions on follow and ignores ordinary messages", async () => {
+  const replies: { token: string; messages: LineTextMessage[] }[] = [];
+  const client: LineClient = {
+    pushMessage: async () => undefined,
+    replyMessage: async (token, messages) => {
+      replies.push({ token, messages });
+    },
+  };
+  // コード以外のメッセージ・follow では DB を読まない
+  const supabase = {} as SupabaseClient;
+
+  await handleLineWebhookEvents(supabase, client, [
+    { type: "follow", replyToken: "r1", source: { type: "user", userId: "U1" } },
+    {
+      type: "message",
+      replyToken: "r2",
+      source: { type: "user", userId: "U1" },
+      message: { type: "text", text: "よろしくお願いします" },
+    },
+    { type: "follow", replyToken: "r3", source: { type: "group" } },
+  ]);
+
+  assert.equal(replies.length, 1);
+  assert.equal(replies[0].token, "r1");
+  assert.match(replies[0].messages[0].text, /連携コード/);
+});
+
+/** line_link_attempts の件数・追加と、line_link_codes の消費を記録する最小限の client */
+function linkingClient(options: { failures: number; code: { patient_id: string } | null }) {
+  const inserted: { table: string; values: unknown }[] = [];
+  const from = (table: string) => {
+    const query = {
+      select: () => query,
+      update: () => query,
+      eq: () => query,
+      is: () => query,
+      gt: () => query,
+      insert: (values: unknown) => {
+        inserted.push({ table, values });
+        if (table === "line_links") {
+          return {
+            select: () => ({
+              single: async () => ({ data: { id: "l1", ...(values as object) }, error: null }),
+            }),
+          };
+        }
+        return Promise.resolve({ error: null });
+      },
+      maybeSingle: async () => ({ data: options.code, error: null }),
+      then: (resolve: (value: unknown) => void) =>
+        resolve(
+          table === "line_link_attempts"
+            ? { count: options.failures, error: null }
+            : { data: null, error: null }
+        ),
+    };
+    return query;
+  };
+  return { supabase: { from } as unknown as SupabaseClient, inserted };
+}
+
+test("webhook counts wrong codes per LINE user and links without echoing the patient name", async () => {
+  const replies: LineTextMessage[] = [];
+  const client: LineClient = {
+    pushMessage: async () => undefined,
+    replyMessage: async (_token, messages) => {
+      replies.push(...messages);
+    },
+  };
+  const event = {
+    type: "message",
+    replyToken: "r1",
+    source: { type: "user", userId: "U1" },
+    message: { type: "text", text: "AB3DEFGH7K" },
+  };
+
+  const wrong = linkingClient({ failures: 1, code: null });
+  await handleLineWebhookEvents(wrong.supabase, client, [event]);
+  assert.deepEqual(wrong.inserted.map((i) => i.table), ["line_link_attempts"]);
+  assert.match(replies[0].text, /有効期限が切れています/);
+
+  const locked = linkingClient({ failures: 5, code: { patient_id: "p1" } });
+  await handleLineWebhookEvents(locked.supabase, client, [event]);
+  assert.deepEqual(locked.inserted, []);
+  assert.match(replies[1].text, /しばらく受け付けを止めています/);
+
+  const ok = linkingClient({ failures: 0, code: { patient_id: "p1" } });
+  await handleLineWebhookEvents(ok.supabase, client, [event]);
+  assert.deepEqual(ok.inserted.map((i) => i.table), ["line_links"]);
+  assert.match(replies[2].text, /^LINE 連携が完了しました。/);
+  assert.doesNotMatch(replies[2].text, /様/);
+});
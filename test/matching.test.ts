@@ -0,0 +1,450 @@
+// test/matching.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Patient, Pharmacist, Pharmacy, Store } from "../src/types/supabase";
+import {
+  DEFAULT_MATCHING_RULES,
+  diffRankings,
+  getMainSymptom,
+  mergeWithDefaultRules,
+  rankPharmacists,
+  resolvePharmacistStore,
+  scorePharmacist,
+} from "../src/lib/matching";
+
+function makePatient(overrides: Partial<Patient>): Patient {
+  return {
+    id: "patient",
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: null,
+    name: null,
+    email: null,
+    symptom_score: null,
+    lifestyle_score: null,
+    language: "ja",
+    value_preference: null,
+    severity: null,
+    area: null,
+    type: null,
+    type_probabilities: null,
+    note: null,
+    care_style: null,
+    comm_style: null,
+    explanation_depth: null,
+    followup_frequency: null,
+    channel_preference: null,
+    language_required: null,
+    preferred_gender: null,
+    preferred_age_categories: null,
+    excluded_pharmacist_ids: null,
+    pharmacy_id: null,
+    main_pharmacist_id: null,
+    relation_status: "lead",
+    next_contact_at: null,
+    last_contact_at: null,
+    priority: 2,
+    tags: null,
+    ...overrides,
+  };
+}
+
+function makePharmacist(overrides: Partial<Pharmacist>): Pharmacist {
+  return {
+    id: "pharmacist",
+    created_at: "2025-01-01T00:00:00Z",
+    name: "テスト薬剤師",
+    specialty: null,
+    language: ["ja"],
+    consultation_style: null,
+    experience_case: null,
+    personality: null,
+    belongs_pharmacy_id: null,
+    belongs_store_id: null,
+    years_of_experience: null,
+    care_role: null,
+    gender: null,
+    gender_other: null,
+    age_category: null,
+    comm_styles: null,
+    explanation_styles: null,
+    followup_cadences: null,
+    supported_channels: null,
+    ...overrides,
+  };
+}
+
+function makePharmacy(overrides: Partial<Pharmacy>): Pharmacy {
+  return {
+    id: "pharmacy",
+    created_at: "2025-01-01T00:00:00Z",
+    name: "テスト薬局",
+    area: null,
+    services: null,
+    has_multilingual_support: false,
+    note: null,
+    ...overrides,
+  };
+}
+
+const PHARMACISTS = {
+  kampo: makePharmacist({
+    id: "kampo",
+    specialty: ["漢方", "体質改善"],
+    experience_case: ["IBS", "皮膚"],
+    consultation_style: "丁寧にじっくり話を聞きます",
+    personality: "穏やか",
+    years_of_experience: 12,
+    care_role: ["empathy", "understanding"],
+  }),
+  oncology: makePharmacist({
+    id: "oncology",
+    specialty: ["がん"],
+    experience_case: ["がん"],
+    consultation_style: "治療方針の提案",
+    years_of_experience: 8,
+    care_role: ["expert"],
+  }),
+  multilingual: makePharmacist({
+    id: "multilingual",
+    language: ["ja", "en", "zh"],
+    specialty: ["メンタル"],
+    experience_case: ["不眠"],
+    consultation_style: "一緒にフォローします",
+    years_of_experience: 3,
+    care_role: ["support"],
+  }),
+  homecare: makePharmacist({
+    id: "homecare",
+    specialty: ["在宅", "高齢者ケア"],
+    experience_case: ["高齢者", "小児"],
+    consultation_style: "ご家族の相談も",
+    years_of_experience: 20,
+    care_role: ["family"],
+  }),
+};
+
+const PHARMACIES = {
+  shibuya: makePharmacy({
+    id: "shibuya",
+    area: "渋谷区",
+    services: ["在宅", "オンライン相談"],
+  }),
+  osaka: makePharmacy({
+    id: "osaka",
+    area: "大阪市",
+    services: "オンライン相談、在宅" as unknown as string[],
+  }),
+};
+
+const FIXTURE_PATIENTS = {
+  ibsEmpathy: makePatient({
+    symptom_score: { ibs: 2, skin: 1 },
+    value_preference: "empathy",
+    care_style: "empathy",
+    area: "渋谷区",
+  }),
+  cancerExpert: makePatient({
+    symptom_score: { cancer: 3 },
+    value_preference: "expertise",
+    care_style: "expert",
+    severity: "severe",
+  }),
+  englishSpeaker: makePatient({
+    language: "en",
+    symptom_score: { mental_sleep: 2 },
+    value_preference: "multilingual",
+    care_style: "support",
+    area: "大阪市",
+  }),
+  homecareFamily: makePatient({
+    lifestyle_score: { support_homecare: 1 },
+    value_preference: "lifestyle_support",
+    care_style: "family",
+    area: "東京都 渋谷区",
+  }),
+};
+
+/**
+ * 統合前の scorePharmacist と同じ点数になることを固定する
+ * （キーは [患者, タイプ, 薬剤師, 薬局]）
+ */
+const PINNED_SCORES: [
+  keyof typeof FIXTURE_PATIENTS,
+  "A" | "B" | "C" | "D",
+  keyof typeof PHARMACISTS,
+  keyof typeof PHARMACIES | null,
+  number,
+][] = [
+  ["ibsEmpathy", "A", "kampo", "shibuya", 100],
+  ["ibsEmpathy", "A", "oncology", "shibuya", 50],
+  ["ibsEmpathy", "C", "multilingual", null, 50],
+  ["ibsEmpathy", "B", "homecare", "shibuya", 60],
+  ["cancerExpert", "A", "oncology", null, 100],
+  ["cancerExpert", "A", "kampo", null, 100],
+  ["cancerExpert", "C", "multilingual", null, 61],
+  ["cancerExpert", "B", "homecare", "osaka", 100],
+  ["englishSpeaker", "D", "multilingual", "osaka", 100],
+  ["englishSpeaker", "D", "kampo", "osaka", 18],
+  ["englishSpeaker", "A", "oncology", null, 0],
+  ["englishSpeaker", "D", "homecare", "osaka", 18],
+  ["homecareFamily", "B", "homecare", "shibuya", 100],
+  ["homecareFamily", "B", "kampo", "shibuya", 100],
+  ["homecareFamily", "A", "oncology", null, 40],
+  ["homecareFamily", "C", "multilingual", "osaka", 98],
+];
+
+test("scorePharmacist pins the scores of the fixture patients", () => {
+  for (const [p, type, ph, pm, expected] of PINNED_SCORES) {
+    const { score } = scorePharmacist(
+      FIXTURE_PATIENTS[p],
+      type,
+      PHARMACISTS[ph],
+      pm ? PHARMACIES[pm] : null
+    );
+    assert.equal(score, expected, `${p} / ${type} / ${ph} / ${pm}`);
+  }
+});
+
+test("scorePharmacist keeps at most 3 unique reasons in rule order", () => {
+  const { reasons } = scorePharmacist(
+    FIXTURE_PATIENTS.ibsEmpathy,
+    "A",
+    PHARMACISTS.kampo,
+    PHARMACIES.shibuya
+  );
+  assert.deepEqual(reasons, [
+    "希望する言語で相談できる薬剤師です。",
+    "IBS・皮膚トラブルや体質改善の支援経験があります。",
+    "じっくり話を聞き、共感してくれるスタイルの薬剤師です。",
+  ]);
+});
+
+test("scorePharmacist fills reason templates", () => {
+  const { reasons } = scorePharmacist(
+    makePatient({ value_preference: "expertise", language: "vi" }),
+    "A",
+    PHARMACISTS.homecare,
+    null
+  );
+  assert.deepEqual(reasons, [
+    "経験年数が比較的長く（20年）、専門性を重視する方に向いています。",
+    "複数の専門領域を持つオールラウンダーです。",
+  ]);
+});
+
+test("scorePharmacist uses the weights passed in", () => {
+  const rules = DEFAULT_MATCHING_RULES.map((rule) =>
+    rule.id === "language.match" ? { ...rule, points: 5 } : rule
+  );
+  const { score } = scorePharmacist(
+    makePatient({}),
+    "A",
+    PHARMACISTS.oncology,
+    null,
+    rules
+  );
+  assert.equal(score, 5);
+});
+
+test("getMainSymptom groups split symptom keys", () => {
+  assert.equal(getMainSymptom({ ibs: 1, skin: 1, cancer: 1 }), "ibs_skin");
+  assert.equal(getMainSymptom({ mental_sleep: 1, mental_mood: 2 }), "mental");
+  assert.equal(getMainSymptom({}), null);
+});
+
+test("diffRankings reports rank moves within the top N", () => {
+  const patient = FIXTURE_PATIENTS.ibsEmpathy;
+  const pharmacists = Object.values(PHARMACISTS);
+  const pharmacies = Object.values(PHARMACIES);
+
+  const before = rankPharmacists(
+    patient,
+    "A",
+    pharmacists,
+    pharmacies,
+    DEFAULT_MATCHING_RULES
+  );
+  const boosted = DEFAULT_MATCHING_RULES.map((rule) =>
+    rule.id === "care_style.role_match" ? rule : { ...rule, points: 0 }
+  );
+  const after = rankPharmacists(
+    patient,
+    "A",
+    pharmacists,
+    pharmacies,
+    boosted
+  );
+
+  const diff = diffRankings(before, after, 2);
+  assert.deepEqual(
+    diff.map((row) => [row.pharmacistId, row.beforeRank, row.afterRank]),
+    [
+      ["kampo", 1, 1],
+      ["oncology", null, 2],
+      ["homecare", 2, null],
+    ]
+  );
+  assert.equal(diff[0].afterScore, 12);
+});
+
+test("scorePharmacist returns a per-rule breakdown including negative points", () => {
+  const { score, breakdown } = scorePharmacist(
+    FIXTURE_PATIENTS.englishSpeaker,
+    "D",
+    PHARMACISTS.kampo,
+    PHARMACIES.osaka
+  );
+  assert.equal(score, 18);
+  assert.deepEqual(
+    breakdown.map((c) => [c.ruleId, c.points]),
+    [
+      ["language.mismatch", -10],
+      ["care_style.support", 18],
+      ["area.match", 10],
+    ]
+  );
+  assert.equal(breakdown[0].message, "希望言語に未対応");
+  assert.equal(breakdown[0].category, "language");
+});
+
+test("scorePharmacist uses comm_style, explanation_depth, followup and channel answers", () => {
+  const patient = makePatient({
+    comm_style: ["calm", "logical", "direct"],
+    explanation_depth: "evidence",
+    followup_frequency: "monthly",
+    channel_preference: "video",
+  });
+  const declared = makePharmacist({
+    comm_styles: ["logical", "calm"],
+    explanation_styles: ["simple", "evidence"],
+    followup_cadences: ["monthly", "regular"],
+    supported_channels: ["chat", "video"],
+  });
+  const undeclared = makePharmacist({});
+
+  const withDeclared = scorePharmacist(patient, "A", declared, null);
+  const withoutDeclared = scorePharmacist(patient, "A", undeclared, null);
+
+  assert.deepEqual(
+    withDeclared.breakdown
+      .filter((c) => c.category === "communication" || c.category === "consultation")
+      .map((c) => [c.ruleId, c.points]),
+    [
+      ["communication.comm_style", 10],
+      ["communication.explanation_depth", 8],
+      ["consultation.followup_frequency", 10],
+      ["consultation.channel", 12],
+    ]
+  );
+  assert.equal(withDeclared.score - withoutDeclared.score, 40);
+  assert.equal(
+    withDeclared.breakdown[withDeclared.breakdown.length - 4].message,
+    "ご希望の話し方（落ち着いてゆっくり・根拠・データで説明）を得意としています。"
+  );
+  assert.equal(
+    withDeclared.breakdown[withDeclared.breakdown.length - 1].message,
+    "ご希望の相談方法（ビデオ通話）に対応しています。"
+  );
+});
+
+test("consultation rules do not fire when either side left the answer empty", () => {
+  const pharmacist = makePharmacist({
+    supported_channels: ["in_person"],
+    followup_cadences: ["spot"],
+  });
+  const mismatched = makePatient({
+    channel_preference: "chat",
+    followup_frequency: "regular",
+  });
+  const unanswered = makePatient({});
+
+  for (const patient of [mismatched, unanswered]) {
+    const { breakdown } = scorePharmacist(patient, "A", pharmacist, null);
+    assert.equal(
+      breakdown.some((c) => c.category === "consultation"),
+      false
+    );
+  }
+});
+
+test("area rules use the pharmacist's store address and distance", () => {
+  const patient = makePatient({ area: "渋谷区" });
+  const pharmacist = makePharmacist({ belongs_store_id: "store-shinjuku" });
+  const stores = new Map<string, Store>([
+    [
+      "store-shinjuku",
+      {
+        id: "store-shinjuku",
+        pharmacy_id: "osaka",
+        name: "新宿店",
+        postal_code: "160-0022",
+        prefecture: "東京都",
+        city: "新宿区",
+        address_line1: "新宿3-1-1",
+        address_line2: null,
+      },
+    ],
+  ]);
+  const store = resolvePharmacistStore(pharmacist, stores);
+  assert.equal(store?.id, "store-shinjuku");
+
+  // 法人（大阪）の area ではなく、所属店舗（新宿）との距離で加点される
+  const { breakdown } = scorePharmacist(
+    patient,
+    "A",
+    pharmacist,
+    PHARMACIES.osaka,
+    DEFAULT_MATCHING_RULES,
+    store
+  );
+  const areaRows = breakdown.filter((c) => c.category === "area");
+  assert.deepEqual(
+    areaRows.map((c) => c.ruleId),
+    ["area.distance"]
+  );
+  assert.ok(areaRows[0].points > 7 && areaRows[0].points < 10);
+  assert.match(areaRows[0].message, /^所属店舗まで約\d+(\.\d)?kmです。$/);
+
+  // 店舗が見つからなければ、従来どおり薬局法人の area で判定する
+  const fallback = scorePharmacist(
+    makePatient({ area: "大阪" }),
+    "A",
+    makePharmacist({ belongs_store_id: "missing" }),
+    PHARMACIES.osaka,
+    DEFAULT_MATCHING_RULES,
+    resolvePharmacistStore(makePharmacist({ belongs_store_id: "missing" }), stores)
+  );
+  assert.deepEqual(
+    fallback.breakdown.filter((c) => c.category === "area").map((c) => c.ruleId),
+    ["area.match"]
+  );
+});
+
+test("weight sets saved before newer rules existed still score those rules with defaults", () => {
+  const newerIds = [
+    "communication.comm_style",
+    "communication.explanation_depth",
+    "consultation.followup_frequency",
+    "consultation.channel",
+    "area.distance",
+  ];
+  // 当時の保存内容：新しいルールがなく、言語一致だけ重みを変えている
+  const saved = DEFAULT_MATCHING_RULES.filter((rule) => !newerIds.includes(rule.id)).map((rule) =>
+    rule.id === "language.match" ? { ...rule, points: 55 } : rule
+  );
+  const custom = { ...DEFAULT_MATCHING_RULES[0], id: "custom.extra" };
+
+  const merged = mergeWithDefaultRules([...saved, custom]);
+  assert.deepEqual(
+    merged.slice(0, DEFAULT_MATCHING_RULES.length).map((rule) => rule.id),
+    DEFAULT_MATCHING_RULES.map((rule) => rule.id)
+  );
+  assert.equal(merged.find((rule) => rule.id === "language.match")?.points, 55);
+  newerIds.forEach((id) =>
+    assert.deepEqual(
+      merged.find((rule) => rule.id === id),
+      DEFAULT_MATCHING_RULES.find((rule) => rule.id === id)
+    )
+  );
+  assert.equal(merged[merged.length - 1].id, "custom.extra");
+});
@@ -0,0 +1,183 @@
+// test/notifications.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import net from "node:net";
+import {
+  buildMimeMessage,
+  encodeMimeHeader,
+  formatAddress,
+} from "../src/lib/notifications/mime";
+import { dotStuff, sendSmtpMail } from "../src/lib/notifications/smtp";
+import { TimeoutError } from "../src/lib/withTimeout";
+import { transportFromEnv } from "../src/lib/notifications/transport";
+import {
+  appointmentRequestedPatientEmail,
+  appointmentRequestedStaffEmail,
+  contactRequestedStaffEmail,
+} from "../src/lib/notifications/templates";
+
+const notice = {
+  patientName: "佐藤 太郎",
+  pharmacistName: "山田 花子",
+  storeName: "駅前店",
+  bookingType: "online" as const,
+  scheduledStart: "2026-10-20T01:00:00.000Z",
+  scheduledEnd: "2026-10-20T01:30:00.000Z",
+  memo: "眠りが浅い",
+  patientContact: "090-1234-5678",
+};
+
+test("staff emails carry contact details but patient confirmations do not", () => {
+  const staff = appointmentRequestedStaffEmail(notice, {
+    bookingsUrl: "https://example.com/pharmacy/bookings",
+  });
+  assert.equal(staff.subject, "【ヒトヤク】新しい予約リクエスト：10/20（火） 10:00〜10:30");
+  assert.match(staff.text, /連絡先　：090-1234-5678/);
+  assert.match(staff.text, /相談メモ：眠りが浅い/);
+  assert.match(staff.text, /https:\/\/example\.com\/pharmacy\/bookings/);
+
+  const patient = appointmentRequestedPatientEmail(notice, {
+    mypageUrl: "https://example.com/mypage",
+  });
+  assert.match(patient.text, /^佐藤 太郎 様/);
+  assert.doesNotMatch(patient.text, /090-1234-5678|眠りが浅い/);
+
+  const contact = contactRequestedStaffEmail(
+    {
+      patientName: null,
+      pharmacistName: null,
+      intent: "mentor_candidate",
+      contact: "foo@example.com",
+      message: null,
+    },
+    { dashboardUrl: "https://example.com/pharmacy/dashboard" }
+  );
+  assert.equal(contact.subject, "【ヒトヤク】連絡の希望が届きました（顧問候補として相談）");
+  assert.doesNotMatch(contact.text, /希望薬剤師|相談したいこと/);
+});
+
+test("buildMimeMessage encodes Japanese headers and body as UTF-8 base64", () => {
+  assert.equal(encodeMimeHeader("hello"), "hello");
+  assert.equal(encodeMimeHeader("予約"), `=?UTF-8?B?${Buffer.from("予約").toString("base64")}?=`);
+  assert.equal(
+    formatAddress("ヒトヤク <no-reply@example.com>"),
+    `${encodeMimeHeader("ヒトヤク")} <no-reply@example.com>`
+  );
+
+  const raw = buildMimeMessage(
+    { from: "no-reply@example.com", to: ["a@example.com"], subject: "件名", text: "1行目\n2行目" },
+    { date: new Date("2026-10-19T00:00:00Z"), messageId: "m1@example.com" }
+  );
+  const [head, body] = raw.split("\r\n\r\n");
+  assert.match(head, /^From: no-reply@example\.com\r\nTo: a@example\.com\r\n/);
+  assert.match(head, /Message-ID: <m1@example\.com>/);
+  assert.equal(Buffer.from(body.trim(), "base64").toString("utf8"), "1行目\r\n2行目");
+});
+
+test("transportFromEnv defaults to console and rejects incomplete smtp settings", () => {
+  assert.equal(transportFromEnv({}).name, "console");
+  assert.equal(transportFromEnv({ NOTIFY_TRANSPORT: "file" }).name, "file");
+  assert.equal(
+    transportFromEnv({ NOTIFY_TRANSPORT: "smtp", SMTP_HOST: "smtp.example.com" }).name,
+    "smtp"
+  );
+  assert.throws(() => transportFromEnv({ NOTIFY_TRANSPORT: "smtp" }), /SMTP_HOST/);
+  assert.throws(() => transportFromEnv({ NOTIFY_TRANSPORT: "fax" }), /NOTIFY_TRANSPORT/);
+});
+
+test("transportFromEnv refuses the console transport in production", () => {
+  assert.throws(() => transportFromEnv({ NODE_ENV: "production" }), /本番環境では NOTIFY_TRANSPORT/);
+  assert.throws(
+    () => transportFromEnv({ NODE_ENV: "production", NOTIFY_TRANSPORT: "console" }),
+    /本番環境では NOTIFY_TRANSPORT/
+  );
+  assert.equal(
+    transportFromEnv({ NODE_ENV: "production", NOTIFY_TRANSPORT: "file" }).name,
+    "file"
+  );
+  assert.equal(transportFromEnv({ NODE_ENV: "development" }).name, "console");
+});
+
+test("sendSmtpMail talks to an SMTP server and dot-stuffs the body", async () => {
+  assert.equal(dotStuff(".a\r\n.b"), "..a\r\n..b\r\n");
+
+  const commands: string[] = [];
+  let data = "";
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = "";
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let index = buffer.indexOf("\r\n");
+      while (index >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+        } else {
+          commands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-test\r\n250 SIZE 1000\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+        index = buffer.indexOf("\r\n");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  try {
+    await sendSmtpMail(
+      { host: "127.0.0.1", port, secure: false, timeoutMs: 5000 },
+      { from: "no-reply@example.com", to: ["a@example.com", "b@example.com"] },
+      "Subject: x\r\n\r\n.hidden\r\nbody\r\n"
+    );
+  } finally {
+    server.close();
+  }
+
+  assert.deepEqual(commands, [
+    "EHLO localhost",
+    "MAIL FROM:<no-reply@example.com>",
+    "RCPT TO:<a@example.com>",
+    "RCPT TO:<b@example.com>",
+    "DATA",
+    "QUIT",
+  ]);
+  assert.equal(data, "Subject: x\n\n..hidden\nbody\n");
+});
+
+test("sendSmtpMail gives up on a server that never finishes its reply", async () => {
+  // 無通信タイムアウトにはかからないよう、応答を1文字ずつ送り続ける
+  const timers: ReturnType<typeof setInterval>[] = [];
+  const server = net.createServer((socket) => {
+    timers.push(setInterval(() => socket.write("2"), 20));
+    socket.on("error", () => undefined);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+
+  try {
+    await assert.rejects(
+      sendSmtpMail(
+        { host: "127.0.0.1", port, secure: false, timeoutMs: 100 },
+        { from: "no-reply@example.com", to: ["a@example.com"] },
+        "Subject: x\r\n\r\nbody\r\n"
+      ),
+      (err: unknown) => err instanceof TimeoutError
+    );
+  } finally {
+    timers.forEach(clearInterval);
+    server.close();
+  }
+});
@@ -0,0 +1,111 @@
+// test/patientLogs.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyLogTemplate,
+  EMPTY_SOAP_DRAFT,
+  LOG_TEMPLATES,
+  logSearchFilter,
+  logSearchText,
+  nextContactFromActionItems,
+  soapFromDraft,
+  splitMedications,
+} from "../src/lib/prm/logRecords";
+import { parsePrmLogInput } from "../src/lib/prm/validation";
+
+test("templates only fill the SOAP sections that are still empty", () => {
+  const draft = applyLogTemplate({ ...EMPTY_SOAP_DRAFT, subjective: "夜間の腹痛" }, "call");
+  assert.equal(draft.subjective, "夜間の腹痛");
+  assert.equal(draft.objective, LOG_TEMPLATES.call.objective);
+  assert.equal(draft.plan, LOG_TEMPLATES.call.plan);
+
+  assert.equal(soapFromDraft({ subjective: " ", plan: "" }), null);
+  assert.deepEqual(soapFromDraft({ subjective: " 痛み ", plan: "様子見" }), {
+    subjective: "痛み",
+    objective: null,
+    assessment: null,
+    plan: "様子見",
+  });
+});
+
+test("medications are split on Japanese and ASCII separators without duplicates", () => {
+  assert.deepEqual(splitMedications("ロキソプロフェン、ミヤBM, レバミピド，ミヤBM\n"), [
+    "ロキソプロフェン",
+    "ミヤBM",
+    "レバミピド",
+  ]);
+});
+
+test("the next contact date comes from the earliest open action item", () => {
+  assert.equal(
+    nextContactFromActionItems([
+      { text: "済んだこと", due_date: "2026-10-20", done: true },
+      { text: "便通の確認", due_date: "2026-11-02", done: false },
+      { text: "検査結果を聞く", due_date: "2026-10-25", done: false },
+      { text: "期日なし", due_date: null, done: false },
+    ]),
+    "2026-10-24T15:00:00.000Z"
+  );
+  assert.equal(nextContactFromActionItems([{ text: "期日なし", due_date: null, done: false }]), null);
+});
+
+test("search text and filters cover every structured part of a log", () => {
+  assert.equal(
+    logSearchText({
+      summary: "要約",
+      note: null,
+      soap: { subjective: "S", objective: null, assessment: "A", plan: null },
+      medications: ["薬"],
+      action_items: [{ text: "対応", due_date: null, done: false }],
+    }),
+    "要約\nS\nA\n薬\n対応"
+  );
+
+  assert.equal(logSearchFilter("  "), null);
+  assert.equal(
+    logSearchFilter('50%_"x"'),
+    'search_text.ilike."%50\\\\%\\\\_\\"x\\"%",summary.ilike."%50\\\\%\\\\_\\"x\\"%",note.ilike."%50\\\\%\\\\_\\"x\\"%"'
+  );
+});
+
+test("structured log input is optional and validated", () => {
+  const plain = parsePrmLogInput({ summary: "電話", channel: "call" });
+  assert.equal(plain.soap, null);
+  assert.deepEqual(plain.medications, []);
+  assert.deepEqual(plain.action_items, []);
+
+  const parsed = parsePrmLogInput({
+    summary: "面談",
+    channel: "visit",
+    soap: { subjective: "眠れない", objective: "", extra: "x" },
+    medications: [" ゾルピデム ", "ゾルピデム"],
+    action_items: [
+      { text: " 睡眠日誌を確認 ", due_date: "2026-11-01", done: "yes" },
+      { text: "  ", due_date: "2026-11-02" },
+    ],
+  });
+  assert.deepEqual(parsed.soap, {
+    subjective: "眠れない",
+    objective: null,
+    assessment: null,
+    plan: null,
+  });
+  assert.deepEqual(parsed.medications, ["ゾルピデム"]);
+  assert.deepEqual(parsed.action_items, [
+    { text: "睡眠日誌を確認", due_date: "2026-11-01", done: false },
+  ]);
+
+  assert.throws(
+    () => parsePrmLogInput({ summary: "x", channel: "call", soap: "S: 痛み" }),
+    /SOAP/
+  );
+  assert.throws(
+    () =>
+      parsePrmLogInput({
+        summary: "x",
+        channel: "call",
+        action_items: [{ text: "確認", due_date: "来週" }],
+      }),
+    /対応事項の期日/
+  );
+});
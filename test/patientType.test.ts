@@ -0,0 +1,82 @@
+// test/patientType.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import { classifyPatientType, type PatientTypeInput } from "../src/lib/matching";
+
+function makeInput(overrides: Partial<PatientTypeInput>): PatientTypeInput {
+  return {
+    language: "ja",
+    value_preference: null,
+    severity: null,
+    symptom_score: null,
+    lifestyle_score: null,
+    ...overrides,
+  };
+}
+
+function sumOf(probabilities: Record<string, number>): number {
+  return Object.values(probabilities).reduce((a, b) => a + b, 0);
+}
+
+test("classifyPatientType: 回答が空なら A（従来の既定値）", () => {
+  const { type, probabilities } = classifyPatientType(makeInput({}));
+  assert.equal(type, "A");
+  assert.ok(Math.abs(sumOf(probabilities) - 1) < 0.01);
+});
+
+test("classifyPatientType: 代表的な回答パターンごとのタイプ", () => {
+  const cases: [string, PatientTypeInput, string][] = [
+    [
+      "がん・重症・専門性重視",
+      makeInput({
+        value_preference: "expertise",
+        severity: "severe",
+        symptom_score: { cancer: 1 },
+      }),
+      "A",
+    ],
+    [
+      "在宅・介護・生活支援重視",
+      makeInput({
+        value_preference: "lifestyle_support",
+        severity: "moderate",
+        lifestyle_score: { support_homecare: 1, elder_care: 1 },
+      }),
+      "B",
+    ],
+    [
+      "睡眠・気分・自律神経の不調",
+      makeInput({
+        value_preference: "empathy",
+        severity: "mild",
+        symptom_score: { mental_sleep: 1, mental_mood: 1, mental_autonomic: 1 },
+      }),
+      "C",
+    ],
+    [
+      "英語希望",
+      makeInput({ language: "en", symptom_score: { cancer: 1 } }),
+      "D",
+    ],
+  ];
+
+  for (const [name, input, expected] of cases) {
+    const { type, probabilities } = classifyPatientType(input);
+    assert.equal(type, expected, name);
+    const top = Math.max(...Object.values(probabilities));
+    assert.equal(probabilities[type], top, name);
+    assert.ok(Math.abs(sumOf(probabilities) - 1) < 0.01, name);
+  }
+});
+
+test("classifyPatientType: チェックのない症状・生活項目は影響しない", () => {
+  const base = classifyPatientType(makeInput({ severity: "moderate" }));
+  const withZeros = classifyPatientType(
+    makeInput({
+      severity: "moderate",
+      symptom_score: { cancer: 0, mental_mood: 0 },
+      lifestyle_score: { elder_care: 0 },
+    })
+  );
+  assert.deepEqual(withZeros, base);
+});
@@ -0,0 +1,229 @@
+// test/prm.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  createPrmRepository,
+  PRM_PATIENT_NOT_FOUND_MESSAGE,
+  PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE,
+  RELATION_STATUS_CONFLICT_MESSAGE,
+} from "../src/lib/prm/repository";
+import {
+  parsePrmLogInput,
+  parsePrmPatientPatch,
+  parsePrmStatusMoveInput,
+} from "../src/lib/prm/validation";
+
+type Call = { table: string; op: string; filters: string[]; values?: unknown };
+
+/**
+ * 呼ばれた絞り込みを記録し、table ごとに決めた行を返すだけの簡易クライアント
+ * - updated を渡した table は、update のときだけそちらを返す（競合で0件になった場合など）
+ */
+function recordingClient(rows: Record<string, unknown[]>, updated: Record<string, unknown[]> = {}) {
+  const calls: Call[] = [];
+  const client = {
+    from(table: string) {
+      const call: Call = { table, op: "select", filters: [] };
+      calls.push(call);
+      const result = () => ({
+        data: (call.op === "update" ? updated[table] : undefined) ?? rows[table] ?? [],
+        error: null,
+      });
+      const builder = {
+        select: () => builder,
+        update: () => ((call.op = "update"), builder),
+        insert: (values: unknown) => ((call.op = "insert"), (call.values = values), builder),
+        eq: (column: string, value: unknown) => (call.filters.push(`${column}=${value}`), builder),
+        is: (column: string, value: unknown) => (call.filters.push(`${column} is ${value}`), builder),
+        or: (filter: string) => (call.filters.push(`or(${filter})`), builder),
+        order: () => builder,
+        maybeSingle: async () => ({ data: (rows[table] ?? [])[0] ?? null, error: null }),
+        single: async () => ({ data: (rows[table] ?? [])[0] ?? null, error: null }),
+        then: (resolve: (v: unknown) => unknown) => Promise.resolve(result()).then(resolve),
+      };
+      return builder;
+    },
+  };
+  return { client: client as unknown as SupabaseClient, calls };
+}
+
+test("scoped repositories only query their own pharmacy's patients and pharmacists", async () => {
+  const { client, calls } = recordingClient({
+    patients: [{ id: "p1", relation_status: null, priority: null, tags: null }],
+    pharmacists: [],
+  });
+  const { patients } = await createPrmRepository(client, { pharmacyId: "ph-1" }).listPatients();
+
+  assert.equal(patients[0].relation_status, "lead");
+  assert.equal(patients[0].priority, 2);
+  assert.deepEqual(
+    calls.map((c) => [c.table, c.filters]),
+    [
+      ["patients", ["pharmacy_id=ph-1"]],
+      ["pharmacists", ["belongs_pharmacy_id=ph-1"]],
+    ]
+  );
+
+  const admin = recordingClient({ patients: [], pharmacists: [] });
+  await createPrmRepository(admin.client, { pharmacyId: null }).listPatients();
+  assert.deepEqual(admin.calls.map((c) => c.filters), [[], []]);
+});
+
+test("scoped writes refuse patients and pharmacists outside the pharmacy", async () => {
+  const patch = parsePrmPatientPatch({ relation_status: "active", priority: 1 });
+
+  const missing = recordingClient({ patients: [] });
+  const repo = createPrmRepository(missing.client, { pharmacyId: "ph-1" });
+  await assert.rejects(repo.updatePatient("p9", patch), new RegExp(PRM_PATIENT_NOT_FOUND_MESSAGE));
+  assert.deepEqual(missing.calls, [
+    { table: "patients", op: "select", filters: ["pharmacy_id=ph-1", "id=p9"] },
+  ]);
+  await assert.rejects(
+    repo.createLog("p9", parsePrmLogInput({ summary: "電話", channel: "call" })),
+    new RegExp(PRM_PATIENT_NOT_FOUND_MESSAGE)
+  );
+
+  const noPharmacist = recordingClient({ patients: [{ id: "p1" }], pharmacists: [] });
+  await assert.rejects(
+    createPrmRepository(noPharmacist.client, { pharmacyId: "ph-1" }).updatePatient("p1", {
+      ...patch,
+      main_pharmacist_id: "other-company",
+    }),
+    new RegExp(PRM_PHARMACIST_OUT_OF_SCOPE_MESSAGE)
+  );
+});
+
+test("patient edits write nothing when the status move conflicts", async () => {
+  const { client, calls } = recordingClient(
+    { patients: [{ id: "p1", relation_status: "lead" }] },
+    { patients: [] }
+  );
+  const repo = createPrmRepository(client, { pharmacyId: "ph-1" });
+
+  await assert.rejects(
+    repo.updatePatient("p1", parsePrmPatientPatch({ relation_status: "active", priority: 1 })),
+    new RegExp(RELATION_STATUS_CONFLICT_MESSAGE)
+  );
+  assert.deepEqual(
+    calls.filter((c) => c.op === "update").map((c) => c.filters),
+    [["id=p1", "pharmacy_id=ph-1", "relation_status=lead"]]
+  );
+});
+
+test("status moves are guarded by the current status and recorded with actor and reason", async () => {
+  const { client, calls } = recordingClient({
+    patients: [{ id: "p1", relation_status: "lead" }],
+    relation_status_events: [{ id: "e1" }],
+  });
+  const repo = createPrmRepository(client, {
+    pharmacyId: "ph-1",
+    actor: { role: "pharmacy_company", id: "user-1" },
+  });
+
+  const event = await repo.moveRelationStatus(
+    "p1",
+    parsePrmStatusMoveInput({ to: "advisor", reason: " 顧問契約を締結 " })
+  );
+  assert.deepEqual(event, { id: "e1" });
+  assert.deepEqual(calls[1], {
+    table: "patients",
+    op: "update",
+    filters: ["id=p1", "pharmacy_id=ph-1", "relation_status=lead"],
+  });
+  const { created_at, ...values } = calls[2].values as Record<string, unknown>;
+  assert.ok(created_at);
+  assert.deepEqual(values, {
+    patient_id: "p1",
+    from_status: "lead",
+    to_status: "advisor",
+    actor_role: "pharmacy_company",
+    actor_id: "user-1",
+    reason: "顧問契約を締結",
+  });
+
+  // 同じステータスへの移動は何もしない
+  const same = recordingClient({ patients: [{ id: "p1", relation_status: "lead" }] });
+  const unchanged = await createPrmRepository(same.client, { pharmacyId: null }).moveRelationStatus(
+    "p1",
+    { to: "lead", reason: null }
+  );
+  assert.equal(unchanged, null);
+  assert.equal(same.calls.length, 1);
+
+  assert.throws(() => parsePrmStatusMoveInput({ to: "vip" }), /ステータス/);
+});
+
+test("patient contracts are limited to the scoped pharmacy", async () => {
+  const { client, calls } = recordingClient({
+    patients: [{ id: "p1" }],
+    advisor_contracts: [{ id: "c1" }],
+  });
+  await createPrmRepository(client, { pharmacyId: "ph-1" }).listPatientContracts("p1");
+
+  assert.deepEqual(calls[calls.length - 1], {
+    table: "advisor_contracts",
+    op: "select",
+    filters: ["pharmacy_id=ph-1", "patient_id=p1"],
+  });
+});
+
+test("log search is scoped through the patient's pharmacy and returns each patient once", async () => {
+  const { client, calls } = recordingClient({
+    patient_logs: [{ patient_id: "p1" }, { patient_id: "p2" }, { patient_id: "p1" }],
+  });
+  const repo = createPrmRepository(client, { pharmacyId: "ph-1" });
+
+  assert.deepEqual(await repo.searchLogs(" ロキソ "), ["p1", "p2"]);
+  assert.deepEqual(calls[0].filters, [
+    'or(search_text.ilike."%ロキソ%",summary.ilike."%ロキソ%",note.ilike."%ロキソ%")',
+    "patients.pharmacy_id=ph-1",
+  ]);
+
+  // 空のキーワードでは問い合わせない
+  assert.deepEqual(await repo.searchLogs("  "), []);
+  assert.equal(calls.length, 1);
+});
+
+test("new logs are stored with their searchable text", async () => {
+  const { client, calls } = recordingClient({ patient_logs: [{ id: "l1" }] });
+  await createPrmRepository(client, { pharmacyId: null }).createLog(
+    "p1",
+    parsePrmLogInput({
+      summary: "腹痛の相談",
+      channel: "call",
+      soap: { subjective: "夜に痛む" },
+      medications: "ミヤBM",
+      action_items: [{ text: "便通を確認" }],
+    })
+  );
+  const values = calls[0].values as Record<string, unknown>;
+  assert.equal(values.search_text, "腹痛の相談\n夜に痛む\nミヤBM\n便通を確認");
+});
+
+test("PRM input parsing keeps only known fields and valid values", () => {
+  assert.deepEqual(
+    parsePrmPatientPatch({
+      relation_status: "advisor",
+      priority: "3",
+      main_pharmacist_id: "",
+      next_contact_at: "2026-11-01T00:00:00.000Z",
+      tags: [" IBS ", "IBS", ""],
+      note: "メモ",
+      pharmacy_id: "someone-else",
+    }),
+    {
+      relation_status: "advisor",
+      priority: 3,
+      main_pharmacist_id: null,
+      next_contact_at: "2026-11-01T00:00:00.000Z",
+      last_contact_at: null,
+      tags: ["IBS"],
+      note: "メモ",
+    }
+  );
+  assert.throws(() => parsePrmPatientPatch({ relation_status: "vip", priority: 1 }), /ステータス/);
+  assert.throws(() => parsePrmPatientPatch({ relation_status: "lead", priority: 5 }), /優先度/);
+  assert.throws(() => parsePrmLogInput({ summary: " ", channel: "call" }), /一行要約/);
+  assert.throws(() => parsePrmLogInput({ summary: "x", channel: "fax" }), /チャネル/);
+});
@@ -0,0 +1,61 @@
+// test/relationPipeline.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import { median, relationFunnel, relationStints } from "../src/lib/prm/pipeline";
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = new Date("2025-04-01T00:00:00Z").getTime();
+const at = (days: number) => new Date(T0 + days * DAY).toISOString();
+
+test("stints start at registration and follow the transition history", () => {
+  const stints = relationStints({ id: "p1", created_at: at(0), relation_status: "advisor" }, [
+    { patient_id: "p1", from_status: "active", to_status: "advisor", created_at: at(10) },
+    { patient_id: "p1", from_status: "lead", to_status: "active", created_at: at(4) },
+    { patient_id: "other", from_status: "lead", to_status: "ended", created_at: at(1) },
+  ]);
+  assert.deepEqual(
+    stints.map((s) => [s.status, s.startedAt, s.endedAt]),
+    [
+      ["lead", at(0), at(4)],
+      ["active", at(4), at(10)],
+      ["advisor", at(10), null],
+    ]
+  );
+
+  // 履歴のない患者は今のステータスにずっといる
+  assert.deepEqual(
+    relationStints({ id: "p2", created_at: at(0), relation_status: null }, []).map((s) => s.status),
+    ["lead"]
+  );
+});
+
+test("funnel rates count later progress only and medians use finished stints", () => {
+  const patients = [
+    { id: "a", created_at: at(0), relation_status: "advisor" as const },
+    { id: "b", created_at: at(0), relation_status: "ended" as const },
+    { id: "c", created_at: at(0), relation_status: "lead" as const },
+    { id: "d", created_at: at(0), relation_status: "active" as const },
+  ];
+  const events = [
+    { patient_id: "a", from_status: "lead" as const, to_status: "active" as const, created_at: at(2) },
+    { patient_id: "a", from_status: "active" as const, to_status: "advisor" as const, created_at: at(12) },
+    { patient_id: "b", from_status: "lead" as const, to_status: "ended" as const, created_at: at(6) },
+    { patient_id: "d", from_status: "lead" as const, to_status: "active" as const, created_at: at(4) },
+  ];
+
+  const funnel = relationFunnel(patients, events);
+  assert.deepEqual(funnel.counts, { lead: 1, active: 1, advisor: 1, ended: 1 });
+  assert.deepEqual(
+    funnel.conversions.map((c) => [`${c.from}>${c.to}`, c.converted, c.entered, c.rate]),
+    [
+      ["lead>active", 2, 4, 0.5],
+      ["active>advisor", 1, 2, 0.5],
+      ["lead>advisor", 1, 4, 0.25],
+    ]
+  );
+  // 見込み：2, 6, 4 日（c はまだ見込みなので含めない）
+  assert.equal(funnel.medianDays.lead, 4);
+  assert.equal(funnel.medianDays.active, 10);
+  assert.equal(funnel.medianDays.advisor, null);
+  assert.equal(median([1, 2, 3, 10]), 2.5);
+});
@@ -0,0 +1,72 @@
+// test/reminders.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  aggregateNoShowRates,
+  dueReminder,
+  formatReminderOffset,
+  isProbableNoShow,
+  noShowGraceHours,
+  parseReminderOffsets,
+} from "../src/lib/scheduling/reminders";
+
+const start = "2026-10-20T01:00:00.000Z";
+const hoursBefore = (h: number) => new Date(new Date(start).getTime() - h * 60 * 60 * 1000);
+
+test("parseReminderOffsets reads d/h/m units and falls back to the default", () => {
+  assert.deepEqual(parseReminderOffsets("1h, 2d ,30m,1h"), [2880, 60, 30]);
+  assert.deepEqual(parseReminderOffsets(""), [1440, 60]);
+  assert.deepEqual(parseReminderOffsets("soon,0h,15m"), [15]);
+  assert.equal(formatReminderOffset(1440), "1日前");
+  assert.equal(formatReminderOffset(90), "90分前");
+  assert.equal(noShowGraceHours("6"), 6);
+  assert.equal(noShowGraceHours("abc"), 24);
+});
+
+test("dueReminder sends each offset once and only the nearest when catching up", () => {
+  const appt = { scheduled_start: start, status: "confirmed" as const };
+  const offsets = [1440, 60];
+
+  assert.equal(dueReminder(appt, offsets, [], hoursBefore(30)), null);
+  assert.deepEqual(dueReminder(appt, offsets, [], hoursBefore(23)), { send: 1440, mark: [1440] });
+  assert.equal(dueReminder(appt, offsets, [1440], hoursBefore(2)), null);
+  assert.deepEqual(dueReminder(appt, offsets, [1440], hoursBefore(0.5)), { send: 60, mark: [60] });
+  // 実行が止まっていた：24時間前の分は送らずに済ませる
+  assert.deepEqual(dueReminder(appt, offsets, [], hoursBefore(0.5)), {
+    send: 60,
+    mark: [1440, 60],
+  });
+  assert.equal(dueReminder(appt, offsets, [], hoursBefore(-1)), null);
+  assert.equal(
+    dueReminder({ ...appt, status: "requested" as const }, offsets, [], hoursBefore(0.5)),
+    null
+  );
+});
+
+test("isProbableNoShow waits for the grace period after the end", () => {
+  const appt = {
+    scheduled_start: start,
+    scheduled_end: "2026-10-20T01:30:00.000Z",
+    status: "confirmed" as const,
+  };
+  assert.equal(isProbableNoShow(appt, new Date("2026-10-21T01:00:00.000Z"), 24), false);
+  assert.equal(isProbableNoShow(appt, new Date("2026-10-21T01:30:00.000Z"), 24), true);
+  assert.equal(
+    isProbableNoShow({ ...appt, status: "completed" as const }, new Date("2026-10-25T00:00:00.000Z"), 24),
+    false
+  );
+});
+
+test("aggregateNoShowRates ignores open and cancelled appointments", () => {
+  const rates = aggregateNoShowRates([
+    { status: "completed", groupKey: "a", groupLabel: "A" },
+    { status: "no_show", groupKey: "a", groupLabel: "A", autoFlagged: true },
+    { status: "cancelled", groupKey: "a", groupLabel: "A" },
+    { status: "completed", groupKey: "b", groupLabel: "B" },
+    { status: "confirmed", groupKey: "c", groupLabel: "C" },
+  ]);
+  assert.deepEqual(rates, [
+    { key: "a", label: "A", total: 2, noShows: 1, autoFlagged: 1, rate: 0.5 },
+    { key: "b", label: "B", total: 1, noShows: 0, autoFlagged: 0, rate: 0 },
+  ]);
+});
@@ -0,0 +1,177 @@
+// test/scheduling.test.ts
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AvailabilityException,
+  WeeklyAvailability,
+} from "../src/types/supabase";
+import {
+  formatJstTime,
+  fromJst,
+  generateSlots,
+  groupSlotsByDate,
+  resolveAvailability,
+} from "../src/lib/scheduling/slots";
+import {
+  isOfferedSlot,
+  SLOT_NOT_OFFERED_MESSAGE,
+} from "../src/lib/scheduling/availability";
+import { rescheduleAppointment } from "../src/lib/scheduling/appointments";
+
+// 2026-10-19 は月曜日
+const monday: WeeklyAvailability = {
+  id: "w1",
+  pharmacist_id: "ph",
+  store_id: null,
+  weekday: 1,
+  start_time: "10:00",
+  end_time: "12:00",
+  slot_minutes: 30,
+};
+
+function exception(overrides: Partial<AvailabilityException>): AvailabilityException {
+  return {
+    id: "e",
+    pharmacist_id: "ph",
+    store_id: null,
+    date: "2026-10-19",
+    start_time: null,
+    end_time: null,
+    is_available: false,
+    note: null,
+    ...overrides,
+  };
+}
+
+const times = (slots: { start: string }[]) => slots.map((s) => formatJstTime(s.start));
+
+test("generateSlots splits weekly hours and skips booked, closed and extra days", () => {
+  const slots = generateSlots({
+    weekly: [monday],
+    exceptions: [
+      exception({ id: "closed", date: "2026-10-26" }),
+      exception({
+        id: "extra",
+        date: "2026-10-20",
+        start_time: "14:00",
+        end_time: "15:00",
+        is_available: true,
+      }),
+    ],
+    busy: [
+      {
+        start: fromJst("2026-10-19", "10:30").toISOString(),
+        end: fromJst("2026-10-19", "11:00").toISOString(),
+      },
+    ],
+    from: fromJst("2026-10-19", "00:00"),
+    days: 8,
+    now: fromJst("2026-10-19", "00:00"),
+  });
+
+  const groups = groupSlotsByDate(slots);
+  assert.deepEqual(
+    groups.map((g) => [g.date, times(g.slots)]),
+    [
+      ["2026-10-19", ["10:00", "11:00", "11:30"]],
+      ["2026-10-20", ["14:00", "14:30"]],
+    ]
+  );
+});
+
+test("generateSlots hides slots starting before now + lead time and closed hours", () => {
+  const slots = generateSlots({
+    weekly: [monday],
+    exceptions: [
+      exception({ start_time: "11:30", end_time: "12:00" }),
+    ],
+    busy: [],
+    from: fromJst("2026-10-19", "10:10"),
+    days: 1,
+    now: fromJst("2026-10-19", "10:10"),
+    leadMinutes: 30,
+  });
+  assert.deepEqual(times(slots), ["11:00"]);
+});
+
+test("resolveAvailability prefers the pharmacist's own hours but keeps store closures", () => {
+  const storeWeekly = { ...monday, id: "s1", pharmacist_id: null, store_id: "st" };
+  const storeClosed = exception({ id: "sc", pharmacist_id: null, store_id: "st" });
+
+  const own = resolveAvailability(
+    { weekly: [monday], exceptions: [] },
+    { weekly: [storeWeekly], exceptions: [storeClosed] }
+  );
+  assert.deepEqual(own.weekly, [monday]);
+  assert.deepEqual(own.exceptions, [storeClosed]);
+
+  const fallback = resolveAvailability(
+    { weekly: [], exceptions: [] },
+    { weekly: [storeWeekly], exceptions: [] }
+  );
+  assert.deepEqual(fallback.weekly, [storeWeekly]);
+});
+
+// テーブルごとの行を返すだけの Supabase（eq などの絞り込みは見ない）
+function fakeSupabase(rows: Record<string, unknown[]>): SupabaseClient {
+  return {
+    from(table: string) {
+      const result = { data: rows[table] ?? [], error: null };
+      const query = {
+        select: () => query,
+        eq: () => query,
+        order: () => query,
+        maybeSingle: async () => ({ data: result.data[0] ?? null, error: null }),
+        then: (resolve: (value: typeof result) => unknown) => resolve(result),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const slot = (date: string, start: string, end: string) => ({
+  start: fromJst(date, start).toISOString(),
+  end: fromJst(date, end).toISOString(),
+});
+
+const availabilityRows = {
+  pharmacists: [{ id: "ph", belongs_store_id: null }],
+  pharmacist_availability: [monday],
+  availability_exceptions: [],
+};
+
+test("isOfferedSlot only accepts slots generated from the pharmacist's hours", async () => {
+  const supabase = fakeSupabase(availabilityRows);
+  const now = new Date("2026-10-18T00:00:00Z");
+
+  assert.equal(await isOfferedSlot(supabase, "ph", slot("2026-10-19", "10:30", "11:00"), now), true);
+  // 受付時間外・長さ違い・枠の途中から・予約できる期間より先は通さない
+  for (const rejected of [
+    slot("2026-10-19", "13:00", "13:30"),
+    slot("2026-10-19", "10:00", "12:00"),
+    slot("2026-10-19", "10:15", "10:45"),
+    slot("2026-11-30", "10:00", "10:30"),
+  ]) {
+    assert.equal(await isOfferedSlot(supabase, "ph", rejected, now), false);
+  }
+});
+
+test("rescheduleAppointment rejects a time outside the offered slots", async () => {
+  await assert.rejects(
+    rescheduleAppointment(
+      fakeSupabase(availabilityRows),
+      {
+        id: "a1",
+        pharmacist_id: "ph",
+        scheduled_start: slot("2026-10-26", "10:00", "10:30").start,
+        scheduled_end: slot("2026-10-26", "10:00", "10:30").end,
+        status: "requested",
+      },
+      slot("2026-10-19", "22:00", "22:30"),
+      { role: "patient", id: "p1" },
+      { cutoffHours: 24, now: new Date("2026-10-18T00:00:00Z") }
+    ),
+    { message: SLOT_NOT_OFFERED_MESSAGE }
+  );
+});